@@ -9,7 +9,8 @@
  *   /api/auth, /api/products, /api/orders, /api/vendors,
  *   /api/customers, /api/finance, /api/dashboard, /api/analytics,
  *   /api/categories, /api/shipping, /api/pricing, /api/approvals,
- *   /api/auditlogs, /api/adminconfig, /health
+ *   /api/auditlogs, /api/adminconfig, /api/promotions, /api/inventory,
+ *   /health
  */
 
 const express = require('express');
@@ -113,6 +114,10 @@ app.post('/api/products', (req, res) => {
 app.put('/api/products/:id', (req, res) => {
   const idx = data.products.findIndex(p => p.id === req.params.id);
   if (idx === -1) return res.status(404).json({ error: 'Product not found' });
+  // Stock counts only change through the ledger (orders, returns, bulk_stock_update)
+  if (req.body.quantityAvailable !== undefined && req.body.quantityAvailable !== data.products[idx].quantityAvailable) {
+    return res.status(400).json({ error: 'quantityAvailable is changed through a bulk_stock_update request' });
+  }
   data.products[idx] = { ...data.products[idx], ...req.body, updatedAt: new Date().toISOString() };
   res.sendStatus(204);
 });
@@ -142,17 +147,307 @@ app.get('/api/orders/:id', (req, res) => {
   res.json(order);
 });
 
+// Promise dates, as lib/fulfilment-schedule.ts works them out, per
+// shipment: the slowest made-to-order item it carries (the item's lead
+// time, else its product's, else its sub-vendor's default), the
+// dispatch allowance (sla.maxDispatchHours in force, rounded up to
+// days), then the zone's courier window
+const DEFAULT_MAX_DISPATCH_HOURS = 24;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const addDays = (date, days) => new Date(Date.parse(date.slice(0, 10)) + days * DAY_MS).toISOString().slice(0, 10);
+
+function configNumber(key, fallback, at = Date.now()) {
+  const config = effectiveConfigs(data.adminConfigs, at).find(c => c.key === key);
+  const value = config ? Number(config.value) : NaN;
+  return isNaN(value) ? fallback : value;
+}
+
+function resolveLeadTimeDays(productId) {
+  const product = data.products.find(p => p.id === productId);
+  if (!product || product.stockMode !== 'made_to_order') return 0;
+  return product.leadTimeDays ?? data.subVendors.find(sv => sv.id === product.subVendorId)?.defaultLeadTimeDays ?? 0;
+}
+
+function promiseOrder(order) {
+  const items = (order.items || []).map(item => {
+    const leadTimeDays = item.leadTimeDays ?? resolveLeadTimeDays(item.productId);
+    return leadTimeDays > 0 ? { ...item, leadTimeDays } : item;
+  });
+  const zone = data.shippingZones.find(z => z.id === order.deliveryZoneId)
+    || data.shippingZones.reduce((a, b) => (Number(b.slaDays.split('-').pop()) > Number(a.slaDays.split('-').pop()) ? b : a));
+  const [minTransit, maxTransit = minTransit] = zone.slaDays.split('-').map(Number);
+  const dispatchDays = Math.ceil(configNumber('sla.maxDispatchHours', DEFAULT_MAX_DISPATCH_HOURS, Date.parse(order.createdAt)) / 24);
+  const shipments = (order.shipments || []).map(shipment => {
+    const leadTimeDays = Math.max(0, ...items.filter(i => i.pickupLocationId === shipment.pickupLocationId).map(i => i.leadTimeDays || 0));
+    const dispatchBy = addDays(order.createdAt, leadTimeDays + dispatchDays);
+    return { ...shipment, earliestDeliveryDate: addDays(dispatchBy, minTransit), estimatedDeliveryDate: addDays(dispatchBy, maxTransit) };
+  });
+  return { ...order, items, shipments };
+}
+
 app.post('/api/orders', (req, res) => {
   const id = data.uuid();
-  data.orders.push({ id, ...req.body, status: 'pending', shipments: [], createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+  const now = new Date().toISOString();
+  data.orders.push(promiseOrder({ shipments: [], ...req.body, id, status: 'pending', createdAt: now, updatedAt: now }));
   res.status(201).json(id);
 });
 
+// Order lifecycle, as lib/order-state-machine.ts defines it: the same
+// transition table, actors and guards, so a status can't be skipped
+// here either. A refused step answers 409 with the machine's error code
+// (invalid_transition, actor_not_allowed, guard_failed + guard).
+const PARTIAL_ORDER_STATUSES = ['partially_shipped', 'partially_delivered', 'partially_returned'];
+
+const orderGuards = {
+  missing_pickup_location: (order, shipments) =>
+    order.items.some(i => !i.pickupLocationId) || shipments.some(s => !s.pickupLocationId),
+  missing_tracking_number: (_order, shipments) =>
+    shipments.length === 0 || shipments.some(s => !s.trackingNumber || !s.courierProvider),
+  production_incomplete: (order, shipments) => order.items.some(i => i.production && i.production.stage !== 'completed'
+    && (shipments.length === 0 || shipments.some(s => s.pickupLocationId === i.pickupLocationId))),
+};
+
+const ORDER_TRANSITIONS = [
+  { action: 'accept', from: ['pending'], to: 'accepted', actors: ['vendor', 'admin'], requiresReason: false, perShipment: false, guards: [] },
+  { action: 'mark_ready', from: ['accepted'], to: 'ready_to_ship', actors: ['vendor', 'admin'], requiresReason: false, perShipment: false, guards: ['missing_pickup_location', 'production_incomplete'] },
+  { action: 'pick_up', from: ['ready_to_ship', ...PARTIAL_ORDER_STATUSES], to: 'in_transit', actors: ['courier_webhook', 'admin'], requiresReason: false, perShipment: true, guards: ['missing_tracking_number'] },
+  { action: 'deliver', from: ['in_transit', ...PARTIAL_ORDER_STATUSES], to: 'delivered', actors: ['courier_webhook', 'admin'], requiresReason: false, perShipment: true, guards: [] },
+  { action: 'refuse_delivery', from: ['in_transit', ...PARTIAL_ORDER_STATUSES], to: 'rejected_shipping', actors: ['courier_webhook', 'admin'], requiresReason: true, perShipment: true, guards: [] },
+  { action: 'return', from: ['delivered', ...PARTIAL_ORDER_STATUSES], to: 'returned', actors: ['admin', 'system'], requiresReason: false, perShipment: true, guards: [] },
+  { action: 'cancel', from: ['pending', 'accepted', 'ready_to_ship'], to: 'cancelled', actors: ['vendor', 'admin', 'system'], requiresReason: true, perShipment: false, guards: [] },
+];
+
+const SHIPMENT_FLOW = ['pending', 'accepted', 'ready_to_ship', 'in_transit', 'delivered'];
+const shipmentFlowIndex = (status) => SHIPMENT_FLOW.indexOf(
+  status === 'returned' ? 'delivered' : status === 'rejected_shipping' ? 'in_transit' : status
+);
+
+function deriveOrderStatus(shipments, fallback) {
+  if (shipments.length === 0) return fallback;
+  const live = shipments.map(s => s.status).filter(s => s !== 'cancelled');
+  if (live.length === 0) return 'cancelled';
+  if (live.every(s => s === live[0])) return live[0];
+  if (live.includes('returned')) return 'partially_returned';
+  if (live.includes('delivered')) return 'partially_delivered';
+  const shipped = live.filter(s => s === 'in_transit' || s === 'rejected_shipping');
+  if (shipped.length > 0 && shipped.length < live.length) return 'partially_shipped';
+  if (live.includes('in_transit')) return 'in_transit';
+  return live.reduce((slowest, s) => (shipmentFlowIndex(s) < shipmentFlowIndex(slowest) ? s : slowest));
+}
+
+const transitionError = (code, message, details) => ({ error: message, code, ...details });
+
+/** Runs one lifecycle step on `order` in place; returns the error body when refused. */
+function transitionOrder(order, action, { actor = 'admin', reason, shipmentId }, at) {
+  const details = { orderId: order.id, from: order.status, action, actor, ...(shipmentId ? { shipmentId } : {}) };
+  const transition = ORDER_TRANSITIONS.find(t => t.action === action && t.from.includes(order.status));
+  if (!transition) return transitionError('invalid_transition', `Order ${order.id} cannot '${action}' from '${order.status}'`, details);
+  if (!transition.actors.includes(actor)) {
+    return transitionError('actor_not_allowed', `'${action}' is reserved for ${transition.actors.join(', ')}, not ${actor}`, details);
+  }
+  if (shipmentId && !transition.perShipment) {
+    return transitionError('invalid_transition', `'${action}' applies to the whole order ${order.id}, not one shipment`, details);
+  }
+  const shipments = (order.shipments || []).filter(s => transition.from.includes(s.status) && (!shipmentId || s.id === shipmentId));
+  if ((order.shipments || []).length > 0 && shipments.length === 0) {
+    return transitionError('invalid_transition', `No shipment of ${order.id} can '${action}' now`, details);
+  }
+  const guard = transition.guards.find(code => orderGuards[code](order, shipments));
+  if (guard) return transitionError('guard_failed', `Order ${order.id} failed the ${guard} check`, { ...details, guard });
+  if (transition.requiresReason && !(reason || '').trim()) {
+    return transitionError('guard_failed', `'${action}' on ${order.id} needs a reason`, { ...details, guard: 'reason_required' });
+  }
+
+  // Side effects on stock: accepting sells it, cancelling puts it back
+  if (action === 'accept') {
+    const shortfall = commitOrderStock(order, at);
+    if (shortfall) return shortfall;
+    order.acceptedAt = at;
+  }
+  if (action === 'cancel') restockCancelledOrder(order, order.status !== 'pending', at);
+
+  for (const shipment of shipments) {
+    shipment.status = transition.to;
+    if (transition.to === 'delivered') shipment.deliveredAt = at;
+  }
+  order.status = deriveOrderStatus(order.shipments || [], transition.to);
+  order.updatedAt = at;
+  return null;
+}
+
+const STATUS_ACTIONS = {
+  accepted: 'accept', ready_to_ship: 'mark_ready', in_transit: 'pick_up', delivered: 'deliver',
+  rejected_shipping: 'refuse_delivery', returned: 'return', cancelled: 'cancel',
+};
+
+app.post('/api/orders/:id/transitions', (req, res) => {
+  const order = data.orders.find(o => o.id === req.params.id);
+  if (!order) return res.status(404).json({ error: 'Order not found' });
+  const error = transitionOrder(order, req.body.action, req.body, new Date().toISOString());
+  if (error) return res.status(409).json(error);
+  res.json(order);
+});
+
+// Older clients send the target status; it runs the step that leads there
 app.patch('/api/orders/:id/status', (req, res) => {
   const order = data.orders.find(o => o.id === req.params.id);
   if (!order) return res.status(404).json({ error: 'Order not found' });
-  order.status = req.body.newStatus;
-  order.updatedAt = new Date().toISOString();
+  const action = STATUS_ACTIONS[req.body.newStatus];
+  const error = action
+    ? transitionOrder(order, action, req.body, new Date().toISOString())
+    : transitionError('invalid_transition', `No step leads to '${req.body.newStatus}'`, { orderId: order.id, from: order.status });
+  if (error) return res.status(409).json(error);
+  res.sendStatus(204);
+});
+
+// ══════════════════════════════════════════════════════════
+// INVENTORY — /api/inventory
+// ══════════════════════════════════════════════════════════
+// Ready-stock only. quantityAvailable is on hand; what new checkouts can
+// take is on hand minus live holds (held and not expired, or placed).
+// Each handler checks and writes synchronously, and Node runs one
+// handler at a time, so the availability check and the hold it guards
+// can't interleave with another request — two checkouts can never both
+// get the last unit.
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+const isLive = (r, at) => r.status === 'placed' || (r.status === 'held' && r.expiresAt > at);
+
+function reservedQuantity(productId, at) {
+  return data.reservations
+    .filter(r => isLive(r, at))
+    .reduce((sum, r) => sum + r.lines.filter(l => l.productId === productId).reduce((s, l) => s + l.quantity, 0), 0);
+}
+
+function stockLevel(product, at) {
+  const reserved = reservedQuantity(product.id, at);
+  const available = Math.max(0, product.quantityAvailable - reserved);
+  const lowStockThreshold = product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+  return { productId: product.id, onHand: product.quantityAvailable, reserved, available, lowStockThreshold, isLow: available <= lowStockThreshold };
+}
+
+function recordMovement(productId, type, onHandDelta, reservedDelta, reference, at, note) {
+  const product = data.products.find(p => p.id === productId);
+  if (!product) return;
+  product.quantityAvailable += onHandDelta;
+  data.stockMovements.push({
+    id: `SM-${Date.parse(at)}-${type}-${reference}-${productId}`, productId, type, onHandDelta, reservedDelta,
+    onHandAfter: product.quantityAvailable, reservedAfter: reservedQuantity(productId, at), at, reference, note: note || null,
+  });
+}
+
+/** Lapsed checkout holds give their units back before anything else reads stock. */
+function sweepExpiredReservations(at) {
+  for (const r of data.reservations.filter(r => r.status === 'held' && r.expiresAt <= at)) {
+    r.status = 'expired';
+    r.closedAt = at;
+    r.lines.forEach(l => recordMovement(l.productId, 'reservation_expired', 0, -l.quantity, r.id, at));
+  }
+}
+
+function readyStockLines(lines) {
+  return lines.filter(l => data.products.find(p => p.id === l.productId)?.stockMode === 'ready_stock');
+}
+
+/** First line that doesn't fit, or null when every line does. */
+function findShortfall(lines, at) {
+  for (const line of lines) {
+    const product = data.products.find(p => p.id === line.productId);
+    if (!product) return { error: 'Product not found', productId: line.productId };
+    const { available } = stockLevel(product, at);
+    if (line.quantity > available) return { error: 'Insufficient stock', code: 'insufficient_stock', productId: line.productId, requested: line.quantity, available };
+  }
+  return null;
+}
+
+function commitOrderStock(order, at) {
+  sweepExpiredReservations(at);
+  const reservation = data.reservations.find(r => r.orderId === order.id && r.status === 'placed');
+  const lines = reservation ? reservation.lines : readyStockLines(order.items);
+  if (!reservation) {
+    const shortfall = findShortfall(lines, at);
+    if (shortfall) return shortfall;
+  } else {
+    reservation.status = 'committed';
+    reservation.closedAt = at;
+  }
+  lines.forEach(l => recordMovement(l.productId, 'sold', -l.quantity, reservation ? -l.quantity : 0, order.id, at));
+  return null;
+}
+
+function restockCancelledOrder(order, wasAccepted, at) {
+  const reservation = data.reservations.find(r => r.orderId === order.id && r.status === 'placed');
+  if (reservation) {
+    reservation.status = 'released';
+    reservation.closedAt = at;
+    reservation.lines.forEach(l => recordMovement(l.productId, 'reservation_released', 0, -l.quantity, order.id, at));
+  }
+  if (wasAccepted) {
+    readyStockLines(order.items).forEach(l => recordMovement(l.productId, 'restock_cancellation', l.quantity, 0, order.id, at));
+  }
+}
+
+app.get('/api/inventory/:productId', (req, res) => {
+  const product = data.products.find(p => p.id === req.params.productId);
+  if (!product) return res.status(404).json({ error: 'Product not found' });
+  const at = new Date().toISOString();
+  sweepExpiredReservations(at);
+  res.json(stockLevel(product, at));
+});
+
+app.get('/api/inventory/:productId/movements', (req, res) => {
+  const movements = data.stockMovements.filter(m => m.productId === req.params.productId);
+  res.json(data.paginate(movements, Number(req.query.pageNumber) || 1, Number(req.query.pageSize) || 20));
+});
+
+app.post('/api/inventory/reservations', (req, res) => {
+  const { checkoutId, lines } = req.body;
+  if (!checkoutId || !Array.isArray(lines) || lines.length === 0 || lines.some(l => !Number.isInteger(l.quantity) || l.quantity <= 0)) {
+    return res.status(400).json({ error: 'checkoutId and positive whole-unit lines are required' });
+  }
+  const at = new Date().toISOString();
+  sweepExpiredReservations(at);
+
+  // A retried checkout gets its existing hold back rather than a second one
+  const id = `RSV-${checkoutId}`;
+  const existing = data.reservations.find(r => r.id === id && isLive(r, at));
+  if (existing) return res.json(existing);
+
+  const held = readyStockLines(lines);
+  const shortfall = findShortfall(held, at);
+  if (shortfall) return res.status(409).json(shortfall);
+
+  data.reservations = data.reservations.filter(r => r.id !== id);
+  const reservation = {
+    id, checkoutId, lines: held.map(l => ({ productId: l.productId, quantity: l.quantity })), status: 'held',
+    createdAt: at, expiresAt: new Date(Date.parse(at) + RESERVATION_TTL_MS).toISOString(), orderId: null, closedAt: null,
+  };
+  data.reservations.push(reservation);
+  reservation.lines.forEach(l => recordMovement(l.productId, 'reserved', 0, l.quantity, id, at));
+  res.status(201).json(reservation);
+});
+
+app.post('/api/inventory/reservations/:id/complete', (req, res) => {
+  const at = new Date().toISOString();
+  sweepExpiredReservations(at);
+  const reservation = data.reservations.find(r => r.id === req.params.id);
+  if (!reservation) return res.status(404).json({ error: 'Reservation not found' });
+  if (reservation.status !== 'held') return res.status(409).json({ error: `Reservation is ${reservation.status}` });
+  reservation.status = 'placed';
+  reservation.orderId = req.body.orderId;
+  res.json(reservation);
+});
+
+app.delete('/api/inventory/reservations/:id', (req, res) => {
+  const reservation = data.reservations.find(r => r.id === req.params.id);
+  if (!reservation) return res.status(404).json({ error: 'Reservation not found' });
+  if (reservation.status === 'held' || reservation.status === 'placed') {
+    const at = new Date().toISOString();
+    reservation.status = 'released';
+    reservation.closedAt = at;
+    reservation.lines.forEach(l => recordMovement(l.productId, 'reservation_released', 0, -l.quantity, reservation.id, at));
+  }
   res.sendStatus(204);
 });
 
@@ -459,6 +754,35 @@ app.post('/api/pricing/check-deviation', (req, res) => {
 // ══════════════════════════════════════════════════════════
 // APPROVALS — /api/approvals
 // ══════════════════════════════════════════════════════════
+// Same checks as validatePromotion (src/lib/promotions-engine.ts): a known
+// type, rates in (0, 1], positive amounts and quantities, end after start
+const PROMOTION_TYPES = ['percentage_coupon', 'fixed_coupon', 'buy_x_get_y', 'category_sale'];
+const isPositiveInteger = (n) => Number.isInteger(n) && n > 0;
+
+function promotionProblem(proposed) {
+  if (!proposed || typeof proposed !== 'object') return { code: 'invalid_proposal', error: 'No proposed promotion' };
+  const { type, value, buyQuantity, getQuantity, minOrderAmount, startsAt, endsAt } = proposed;
+  if (!PROMOTION_TYPES.includes(type)) return { code: 'unknown_type', error: `Unknown promotion type "${type}"` };
+  if (typeof value !== 'number' || !Number.isFinite(value)) return { code: 'value_out_of_range', error: 'Promotion value must be a number' };
+  if ((type === 'percentage_coupon' || type === 'category_sale') && (value <= 0 || value > 1)) {
+    return { code: 'value_out_of_range', error: `Discount rate ${value} must be above 0 and at most 1 (e.g. 0.15 for 15%)` };
+  }
+  if (type === 'fixed_coupon' && value <= 0) return { code: 'value_out_of_range', error: `Coupon amount ${value} EGP must be above 0` };
+  if (type === 'buy_x_get_y' && (!isPositiveInteger(buyQuantity) || !isPositiveInteger(getQuantity))) {
+    return { code: 'value_out_of_range', error: 'Buy and get quantities must be whole numbers above 0' };
+  }
+  if (minOrderAmount !== undefined && !(typeof minOrderAmount === 'number' && minOrderAmount >= 0)) {
+    return { code: 'value_out_of_range', error: `Minimum order ${minOrderAmount} EGP can't be negative` };
+  }
+  const start = startsAt ? Date.parse(startsAt) : null;
+  const end = endsAt ? Date.parse(endsAt) : null;
+  if (Number.isNaN(start) || Number.isNaN(end)) return { code: 'invalid_dates', error: 'Promotion dates must be valid dates' };
+  if (start !== null && end !== null && end <= start) {
+    return { code: 'invalid_dates', error: `Promotion ends (${endsAt}) before it starts (${startsAt})` };
+  }
+  return null;
+}
+
 app.get('/api/approvals', (req, res) => {
   let filtered = [...data.approvals];
   if (req.query.status) filtered = filtered.filter(a => a.status === req.query.status);
@@ -476,12 +800,68 @@ app.post('/api/approvals', (req, res) => {
 app.put('/api/approvals/:id/review', (req, res) => {
   const approval = data.approvals.find(a => a.id === req.params.id);
   if (!approval) return res.status(404).json({ error: 'Approval request not found' });
+  // Approved stock counts are checked before anything changes, then ledgered
+  let stockLines = null;
+  if (req.body.isApproved && approval.actionType === 'bulk_stock_update') {
+    try {
+      stockLines = JSON.parse(approval.proposedValues).lines;
+    } catch {
+      stockLines = null;
+    }
+    const at = new Date().toISOString();
+    const invalid = !Array.isArray(stockLines) || stockLines.some(l => {
+      const product = data.products.find(p => p.id === l.productId);
+      return !product || product.stockMode !== 'ready_stock' || !Number.isInteger(l.quantityAvailable)
+        || l.quantityAvailable < reservedQuantity(l.productId, at);
+    });
+    if (invalid) return res.status(400).json({ error: 'Stock update must list ready-stock products with counts no lower than what is reserved' });
+  }
+  // …and so is a proposed promotion, which must be valid to go live
+  let promotion = null;
+  if (req.body.isApproved && approval.actionType === 'promotion_request') {
+    try {
+      promotion = JSON.parse(approval.proposedValues);
+    } catch {
+      return res.status(422).json({ error: 'Promotion request has unreadable proposed values', code: 'invalid_proposal' });
+    }
+    const problem = promotionProblem(promotion);
+    if (problem) return res.status(422).json(problem);
+  }
+
   approval.status = req.body.isApproved ? 'approved' : 'rejected';
   approval.reviewNotes = req.body.reviewNotes || null;
   approval.reviewedAt = new Date().toISOString();
+
+  if (stockLines) {
+    for (const line of stockLines) {
+      const product = data.products.find(p => p.id === line.productId);
+      const delta = line.quantityAvailable - product.quantityAvailable;
+      if (delta !== 0) recordMovement(product.id, 'adjustment', delta, 0, approval.id, approval.reviewedAt, approval.reviewNotes);
+    }
+  }
+
+  // Approved promotion requests go live as vendor-funded promotions
+  if (promotion) {
+    data.promotions = data.promotions.filter(p => p.sourceRequestId !== approval.id);
+    data.promotions.push({
+      ...promotion, id: `promo-${approval.id}`, fundedBy: 'vendor', vendorId: approval.vendorId,
+      startsAt: promotion.startsAt || approval.reviewedAt, status: 'active',
+      sourceRequestId: approval.id, createdAt: approval.reviewedAt,
+    });
+  }
   res.sendStatus(204);
 });
 
+// ══════════════════════════════════════════════════════════
+// PROMOTIONS — /api/promotions
+// ══════════════════════════════════════════════════════════
+app.get('/api/promotions', (req, res) => {
+  let filtered = [...data.promotions];
+  if (req.query.status) filtered = filtered.filter(p => p.status === req.query.status);
+  if (req.query.vendorId) filtered = filtered.filter(p => p.vendorId === req.query.vendorId);
+  res.json(filtered);
+});
+
 // ══════════════════════════════════════════════════════════
 // AUDIT LOGS — /api/auditlogs
 // ══════════════════════════════════════════════════════════
@@ -496,22 +876,62 @@ app.get('/api/auditlogs', (req, res) => {
 // ══════════════════════════════════════════════════════════
 // ADMIN CONFIG — /api/adminconfig
 // ══════════════════════════════════════════════════════════
+// Versions of a key are effective in [effectiveFrom, effectiveTo); missing bounds are open-ended
+function isConfigEffective(config, at) {
+  if (config.effectiveFrom && Date.parse(config.effectiveFrom) > at) return false;
+  if (config.effectiveTo && Date.parse(config.effectiveTo) <= at) return false;
+  return true;
+}
+
+function configStart(config) {
+  return config.effectiveFrom ? Date.parse(config.effectiveFrom) : -Infinity;
+}
+
+// One version per key: the one in force at `at` (the latest start wins on overlap)
+function effectiveConfigs(configs, at) {
+  const byKey = new Map();
+  for (const config of configs) {
+    if (config.isActive === false || !isConfigEffective(config, at)) continue;
+    const current = byKey.get(config.key);
+    if (!current || configStart(config) > configStart(current)) byKey.set(config.key, config);
+  }
+  return configs.filter(c => byKey.get(c.key) === c);
+}
+
 app.get('/api/adminconfig', (req, res) => {
-  let filtered = [...data.adminConfigs];
+  const at = req.query.asOf ? Date.parse(req.query.asOf) : Date.now();
+  if (isNaN(at)) return res.status(400).json({ error: 'asOf must be an ISO date' });
+  let filtered = effectiveConfigs(data.adminConfigs, at);
   if (req.query.category) filtered = filtered.filter(c => c.category === req.query.category);
   res.json(filtered);
 });
 
 app.post('/api/adminconfig', (req, res) => {
-  const existing = data.adminConfigs.find(c => c.key === req.body.key);
-  if (existing) {
-    Object.assign(existing, req.body);
-    res.json(existing.id);
-  } else {
+  const siblings = data.adminConfigs.filter(c => c.key === req.body.key && c.isActive !== false);
+  if (siblings.length === 0) {
     const id = data.uuid();
     data.adminConfigs.push({ id, ...req.body, isActive: true, sortOrder: data.adminConfigs.length + 1 });
-    res.status(201).json(id);
+    return res.status(201).json(id);
   }
+
+  // Every change is a new version from effectiveFrom (default now), as in
+  // the admin store: the version in force then is closed there, and the new
+  // one runs until the next scheduled version, if any
+  const effectiveFrom = req.body.effectiveFrom ?? new Date().toISOString();
+  const start = Date.parse(effectiveFrom);
+  if (isNaN(start)) return res.status(400).json({ error: 'effectiveFrom must be an ISO date' });
+  const covering = effectiveConfigs(siblings, start)[0];
+  const next = siblings.filter(c => configStart(c) > start).sort((a, b) => configStart(a) - configStart(b))[0];
+
+  if (covering && configStart(covering) === start) {
+    Object.assign(covering, req.body, { effectiveFrom, effectiveTo: covering.effectiveTo });
+    return res.json(covering.id);
+  }
+  const base = covering ?? next;
+  if (covering) covering.effectiveTo = effectiveFrom;
+  const id = data.uuid();
+  data.adminConfigs.push({ ...base, ...req.body, id, effectiveFrom, effectiveTo: next?.effectiveFrom });
+  res.status(201).json(id);
 });
 
 // ── Swagger mock ──────────────────────────────────────────
@@ -542,7 +962,7 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log('  Available endpoints:');
   console.log('    POST /api/auth/register, /send-otp, /verify-otp, /login, /social-login, /refresh');
   console.log('    GET|POST /api/products, GET|PUT /api/products/:id, PATCH /api/products/:id/status');
-  console.log('    GET|POST /api/orders, GET /api/orders/:id, PATCH /api/orders/:id/status');
+  console.log('    GET|POST /api/orders, GET /api/orders/:id, POST /api/orders/:id/transitions, PATCH /api/orders/:id/status');
   console.log('    GET|POST /api/vendors, GET|PUT /api/vendors/:id, GET|POST /api/vendors/:id/sub-vendors');
   console.log('    GET|POST /api/customers, GET|PUT /api/customers/:id, PUT /api/customers/:id/status');
   console.log('    GET /api/finance/wallets/:vendorId, /ledger/:vendorId, /splits/:orderId');
@@ -551,6 +971,8 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log('    GET /api/categories, /shipping/zones, /shipping/rates');
   console.log('    POST /api/pricing/calculate, /pricing/check-deviation');
   console.log('    GET|POST /api/approvals, PUT /api/approvals/:id/review');
-  console.log('    GET /api/auditlogs, GET|POST /api/adminconfig');
+  console.log('    GET /api/auditlogs, GET|POST /api/adminconfig, GET /api/promotions');
+  console.log('    GET /api/inventory/:productId, /inventory/:productId/movements');
+  console.log('    POST /api/inventory/reservations, /reservations/:id/complete, DELETE /reservations/:id');
   console.log('');
 });
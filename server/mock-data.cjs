@@ -280,6 +280,7 @@ const adminConfigs = [
   { id: 'cfg-002', key: 'mvp_flat_rate', value: '0.20', category: 'uplift', label: 'MVP Flat Rate', labelAr: 'نسبة الهامش الثابت', valueType: 'percentage', isActive: true, requiresApproval: true, sortOrder: 1 },
   { id: 'cfg-003', key: 'escrow_hold_days', value: '14', category: 'escrow', label: 'Escrow Hold Period', labelAr: 'فترة الحجز', valueType: 'number', isActive: true, requiresApproval: true, sortOrder: 1 },
   { id: 'cfg-004', key: 'min_payout', value: '500', category: 'escrow', label: 'Minimum Payout', labelAr: 'الحد الأدنى للتحويل', valueType: 'number', isActive: true, requiresApproval: false, sortOrder: 2 },
+  { id: 'cfg-005', key: 'sla.maxDispatchHours', value: '24', category: 'vendor_sla', label: 'Max Dispatch Time (Hours)', labelAr: 'أقصى مدة لتجهيز الطلب (ساعات)', valueType: 'number', isActive: true, requiresApproval: true, sortOrder: 1 },
 ];
 
 // ── Audit Logs ────────────────────────────────────────────
@@ -296,6 +297,17 @@ const approvals = [
   { id: 'req-003', vendorId: 'v-004', vendorName: 'Cairo Textiles Co.', actionType: 'sub_vendor_add', details: 'New sub-vendor: Cairo Textiles - Cushions', status: 'approved', createdAt: '2026-02-05T11:00:00Z', reviewedAt: '2026-02-05T14:00:00Z', reviewNotes: 'Approved. Good track record.' },
 ];
 
+// ── Promotions ────────────────────────────────────────────
+const promotions = [
+  { id: 'promo-001', name: 'Winter Textiles Sale', nameAr: 'تخفيضات المنسوجات الشتوية', type: 'category_sale', fundedBy: 'arooba', value: 0.10, categoryIds: ['home-decor-textiles'], startsAt: '2026-01-01T00:00:00Z', endsAt: '2026-12-31T23:59:59Z', status: 'active', createdAt: '2025-12-20T10:00:00Z' },
+  { id: 'promo-002', name: 'Welcome Coupon', nameAr: 'كوبون الترحيب', type: 'fixed_coupon', fundedBy: 'arooba', code: 'WELCOME50', value: 50, minOrderAmount: 300, startsAt: '2025-10-01T00:00:00Z', status: 'active', createdAt: '2025-09-25T10:00:00Z' },
+];
+
+// ── Inventory ─────────────────────────────────────────────
+// Checkout holds and the per-product stock ledger; filled by /api/inventory
+const reservations = [];
+const stockMovements = [];
+
 module.exports = {
   uuid,
   paginate,
@@ -314,4 +326,7 @@ module.exports = {
   adminConfigs,
   auditLogs,
   approvals,
+  promotions,
+  reservations,
+  stockMovements,
 };
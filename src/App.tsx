@@ -9,9 +9,10 @@
  * ============================================================
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { DashboardLayout } from './layouts/DashboardLayout';
 import { useAppStore } from './store/app-store';
+import { useSlaStore } from './store/sla-store';
 
 // Module imports (lazy-loaded in production)
 import { AdminDashboard } from './app/admin/components/AdminDashboard';
@@ -20,6 +21,10 @@ import { ProductCatalog } from './app/products/components/ProductCatalog';
 import { OrderManagement } from './app/orders/components/OrderManagement';
 import { FinanceWaterfall } from './app/finance/components/FinanceWaterfall';
 import { VendorWalletsTable } from './app/finance/components/VendorWalletsTable';
+import { LedgerPanel } from './app/finance/components/LedgerPanel';
+import { PayoutBatchesPanel } from './app/finance/components/PayoutBatchesPanel';
+import { CodReconciliationPanel } from './app/finance/components/CodReconciliationPanel';
+import { VendorStatementsPanel } from './app/finance/components/VendorStatementsPanel';
 import { MonitoringChecklist } from './app/admin/components/MonitoringChecklist';
 import { PlatformConfigManager } from './app/admin/components/PlatformConfigManager';
 import { VendorApprovalQueue } from './app/admin/components/VendorApprovalQueue';
@@ -51,6 +56,10 @@ function ModuleRouter() {
         <div className="space-y-6">
           <FinanceWaterfall />
           <VendorWalletsTable />
+          <PayoutBatchesPanel />
+          <VendorStatementsPanel />
+          <CodReconciliationPanel />
+          <LedgerPanel />
         </div>
       );
     case 'pricing':
@@ -112,6 +121,9 @@ function SettingsPlaceholder() {
 // ──────────────────────────────────────────────
 
 export default function App() {
+  // SLA expiries are checked every minute for as long as the console is open
+  useEffect(() => useSlaStore.getState().startScheduledChecks(), []);
+
   return (
     <DashboardLayout>
       <ModuleRouter />
@@ -10,6 +10,7 @@
  * - Vendor activity
  * - COD vs Digital ratio
  * - Delivery SLA performance
+ * - Shipping subsidy spend vs. monthly budget
  * ============================================================
  */
 
@@ -25,11 +26,25 @@ import {
   mockOrdersTimeSeries,
   mockCategoryBreakdown,
   mockZonePerformance,
+  mockShippingSubsidies,
 } from '../../../lib/mock-data-extended';
-import { KPI_TARGETS } from '../../../config/constants';
+import { KPI_TARGETS, DELIVERY_ZONES } from '../../../config/constants';
+import { summarizeSubsidySpend } from '../../../lib/shipping-subsidy';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
 
 export function AdminDashboard() {
   const stats = mockDashboardStats;
+  const monthlySubsidyBudget = useAdminConfigStore((s) => s.getShippingSubsidyPolicy().monthlyBudget);
+
+  // Tally the month of the latest recorded delivery, as of that day
+  const latestSubsidyDate = mockShippingSubsidies.reduce((max, r) => (r.date > max ? r.date : max), '');
+  const subsidy = summarizeSubsidySpend(
+    mockShippingSubsidies,
+    monthlySubsidyBudget,
+    latestSubsidyDate.slice(0, 7),
+    new Date(`${latestSubsidyDate}T23:59:59Z`)
+  );
+  const zoneNameAr = (zoneId: string) => DELIVERY_ZONES.find(z => z.id === zoneId)?.name ?? zoneId;
 
   return (
     <div className="space-y-6">
@@ -225,6 +240,75 @@ export function AdminDashboard() {
         </div>
       </div>
 
+      {/* Shipping Subsidy Budget */}
+      <div className="card p-5">
+        <SectionHeader
+          title="دعم الشحن"
+          subtitle={`ما تتحمله عروبة من رسوم التوصيل — ${subsidy.month}`}
+          action={
+            <Badge variant={subsidy.isOverPace ? 'danger' : 'success'}>
+              {subsidy.isOverPace ? 'الإنفاق أسرع من الميزانية' : 'ضمن الميزانية'}
+            </Badge>
+          }
+        />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+          <div className="space-y-4">
+            <ProgressBar
+              label="استهلاك الميزانية الشهرية"
+              value={Math.round(subsidy.utilization * 100)}
+              color={subsidy.isOverPace ? 'red' : 'green'}
+            />
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="p-3 rounded-xl bg-earth-50">
+                <p className="text-xs text-earth-500">المُنفق</p>
+                <p className="text-sm font-bold text-earth-800">{formatMoney(subsidy.spent)}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-earth-50">
+                <p className="text-xs text-earth-500">المتبقي</p>
+                <p className="text-sm font-bold text-nile-600">{formatMoney(subsidy.remaining)}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-earth-50">
+                <p className="text-xs text-earth-500">الميزانية</p>
+                <p className="text-sm font-bold text-earth-800">{formatMoney(subsidy.budget)}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-earth-50">
+                <p className="text-xs text-earth-500">المتوقع لنهاية الشهر</p>
+                <p className={`text-sm font-bold ${subsidy.isOverPace ? 'text-red-600' : 'text-earth-800'}`}>
+                  {formatMoney(subsidy.projectedSpend)}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={subsidy.byDay}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2d2b8" opacity={0.5} />
+                <XAxis dataKey="date" tickFormatter={(d: string) => d.slice(8)} tick={{ fontSize: 11, fill: '#714938' }} />
+                <YAxis tick={{ fontSize: 11, fill: '#714938' }} />
+                <Tooltip
+                  formatter={(value: number) => [formatMoney(value), 'دعم']}
+                  contentStyle={{ borderRadius: '12px', border: '1px solid #e2d2b8', direction: 'rtl' }}
+                />
+                <Bar dataKey="amount" fill="#1fa76d" radius={[4, 4, 0, 0]} name="دعم يومي" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="space-y-2">
+            {subsidy.byZone.map((zone) => (
+              <div key={zone.zoneId} className="flex items-center justify-between text-xs">
+                <span className="text-earth-600">{zoneNameAr(zone.zoneId)}</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-earth-500">{zone.deliveries.toLocaleString('ar-EG')} توصيلة</span>
+                  <span className="font-semibold text-earth-800">{formatMoney(zone.amount)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
       {/* Orders Growth Mini Chart */}
       <div className="card p-5">
         <SectionHeader title="نمو الطلبات" subtitle="الاتجاه الشهري — الهدف السنوي: ١٤٠,٠٠٠ - ١٨٠,٠٠٠ طلب" />
@@ -47,6 +47,8 @@ const entityTypeLabels: Record<string, string> = {
   PlatformConfig: 'إعداد المنصة',
   VendorActionRequest: 'طلب مورد',
   Customer: 'عميل',
+  Courier: 'شركة شحن',
+  CodRemittance: 'توريد تحصيل',
 };
 
 // ──────────────────────────────────────────────
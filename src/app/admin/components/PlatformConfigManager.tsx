@@ -12,25 +12,47 @@
  * these values directly from the dashboard. All changes are
  * audit-logged with before/after values.
  *
- * Organized by category tabs matching ConfigCategory.
+ * Organized by category tabs matching ConfigCategory. Uplift changes
+ * can be simulated across the whole catalogue before saving.
  * ============================================================
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { SectionHeader, Badge, StatCard } from '../../shared/components';
-import { useAdminConfigStore } from '../../../store/admin-config-store';
-import type { ConfigCategory, PlatformConfig } from '../../shared/types';
+import { useAdminConfigStore, getEffectiveConfigs, getScheduledVersions, resolvePricingConfig } from '../../../store/admin-config-store';
+import { useProductStore } from '../../../store/product-store';
+import { assertValidUpliftBand, PricingValidationError } from '../../../lib/pricing-engine';
+import { runPricingSimulation } from '../../../lib/pricing-simulation-runner';
+import type { SimulationItem } from '../../../lib/pricing-simulation';
+import { resolvePricingInput } from '../../../lib/pricing-inputs';
+import { mockProductMonthlyUnits, mockVendorDirectory } from '../../../lib/mock-data-extended';
+import { PricingSimulationPanel, type PricingSimulationState } from './PricingSimulationPanel';
+import type { ConfigCategory, PlatformConfig, Product } from '../../shared/types';
 
 const CATEGORY_TABS: { id: ConfigCategory; label: string; labelAr: string }[] = [
   { id: 'uplift', label: 'Uplift Rules', labelAr: 'قواعد الهامش' },
   { id: 'tax', label: 'Tax & VAT', labelAr: 'الضرائب وض.ق.م' },
   { id: 'escrow', label: 'Escrow & Payouts', labelAr: 'الضمان والمدفوعات' },
   { id: 'vendor_sla', label: 'Vendor SLAs', labelAr: 'اتفاقيات مستوى الخدمة' },
+  { id: 'shipping', label: 'Shipping Subsidies', labelAr: 'دعم الشحن' },
   { id: 'fraud_prevention', label: 'Fraud Rules', labelAr: 'قواعد مكافحة الاحتيال' },
   { id: 'loyalty', label: 'Loyalty Program', labelAr: 'برنامج الولاء' },
   { id: 'kpi_targets', label: 'KPI Targets', labelAr: 'أهداف الأداء' },
 ];
 
+/** Config keys whose change re-prices the catalogue. */
+function isSimulatable(key: string): boolean {
+  return key === 'uplift.mvpFlatRate' || key === 'uplift.fragileOverride' || key.startsWith('uplift.category.');
+}
+
+function toSimulationItem(product: Product): SimulationItem {
+  return {
+    productId: product.id,
+    pricing: resolvePricingInput(product, mockVendorDirectory).input,
+    monthlyUnits: mockProductMonthlyUnits[product.id] ?? 0,
+  };
+}
+
 function formatDisplayValue(config: PlatformConfig): string {
   if (config.valueType === 'percentage') {
     return `${(parseFloat(config.value) * 100).toFixed(1)}%`;
@@ -44,35 +66,70 @@ function formatDisplayValue(config: PlatformConfig): string {
   return config.value;
 }
 
-function ConfigRow({ config, onSave }: { config: PlatformConfig; onSave: (id: string, value: string) => void }) {
+interface ConfigRowProps {
+  config: PlatformConfig;
+  scheduled: PlatformConfig[];
+  onSave: (id: string, value: string) => void;
+  onSchedule: (id: string, value: string, effectiveFrom: string) => void;
+  onSimulate?: (key: string, value: string) => void;
+}
+
+function ConfigRow({ config, scheduled, onSave, onSchedule, onSimulate }: ConfigRowProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(config.value);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
   const [error, setError] = useState('');
 
-  const handleSave = () => {
-    // Validate
+  // The same checks gate saving and simulating: a value that can't be
+  // saved isn't worth a what-if either
+  const validate = (): string => {
     if (config.valueType === 'number' || config.valueType === 'percentage') {
       const num = parseFloat(editValue);
-      if (isNaN(num)) {
-        setError('يجب إدخال رقم صالح');
-        return;
-      }
-      if (config.minValue !== undefined && num < config.minValue) {
-        setError(`الحد الأدنى: ${config.minValue}`);
-        return;
+      if (isNaN(num)) return 'يجب إدخال رقم صالح';
+      if (config.minValue !== undefined && num < config.minValue) return `الحد الأدنى: ${config.minValue}`;
+      if (config.maxValue !== undefined && num > config.maxValue) return `الحد الأقصى: ${config.maxValue}`;
+    }
+    if (config.key.startsWith('uplift.category.')) {
+      try {
+        assertValidUpliftBand(JSON.parse(editValue), config.key.slice('uplift.category.'.length));
+      } catch (e) {
+        return e instanceof PricingValidationError ? e.messageAr : 'صيغة JSON غير صالحة';
       }
-      if (config.maxValue !== undefined && num > config.maxValue) {
-        setError(`الحد الأقصى: ${config.maxValue}`);
+    }
+    return '';
+  };
+
+  const handleSave = () => {
+    const invalid = validate();
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    if (effectiveFrom) {
+      const start = new Date(effectiveFrom);
+      if (isNaN(start.getTime()) || start.getTime() <= Date.now()) {
+        setError('تاريخ السريان يجب أن يكون في المستقبل');
         return;
       }
+      setError('');
+      onSchedule(config.id, editValue, start.toISOString());
+    } else {
+      setError('');
+      onSave(config.id, editValue);
     }
-    setError('');
-    onSave(config.id, editValue);
+    setEffectiveFrom('');
     setIsEditing(false);
   };
 
+  const handleSimulate = () => {
+    const invalid = validate();
+    setError(invalid);
+    if (!invalid) onSimulate?.(config.key, editValue);
+  };
+
   const handleCancel = () => {
     setEditValue(config.value);
+    setEffectiveFrom('');
     setError('');
     setIsEditing(false);
   };
@@ -92,6 +149,12 @@ function ConfigRow({ config, onSave }: { config: PlatformConfig; onSave: (id: st
           <p className="text-xs text-earth-500 mt-1">{config.descriptionAr}</p>
         )}
         <p className="text-[10px] text-earth-300 dir-ltr mt-1">Key: {config.key}</p>
+        {scheduled.map((version) => (
+          <p key={version.id} className="text-[11px] text-blue-600 mt-1">
+            ⏱ مجدول: {formatDisplayValue(version)} اعتباراً من{' '}
+            <span className="dir-ltr">{new Date(version.effectiveFrom!).toLocaleString('ar-EG')}</span>
+          </p>
+        ))}
       </div>
 
       {/* Value Display / Edit */}
@@ -129,6 +192,23 @@ function ConfigRow({ config, onSave }: { config: PlatformConfig; onSave: (id: st
               <button onClick={handleCancel} className="px-2 py-1 rounded-lg bg-earth-200 text-earth-600 text-xs font-medium hover:bg-earth-300 transition-colors">
                 إلغاء
               </button>
+              {onSimulate && (
+                <button
+                  onClick={handleSimulate}
+                  className="px-2 py-1 rounded-lg bg-blue-100 text-blue-700 text-xs font-medium hover:bg-blue-200 transition-colors"
+                >
+                  محاكاة الأثر
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] text-earth-500">يسري من (اختياري)</label>
+              <input
+                type="datetime-local"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="input text-xs py-1 px-2 w-44 dir-ltr"
+              />
             </div>
             {error && <p className="text-xs text-red-500">{error}</p>}
             {config.minValue !== undefined && config.maxValue !== undefined && (
@@ -160,7 +240,33 @@ function ConfigRow({ config, onSave }: { config: PlatformConfig; onSave: (id: st
 
 export function PlatformConfigManager() {
   const [activeTab, setActiveTab] = useState<ConfigCategory>('uplift');
-  const { configs, updateConfig, getConfigsByCategory } = useAdminConfigStore();
+  const { configs, updateConfig, scheduleConfigChange, getConfigsByCategory } = useAdminConfigStore();
+  const { products } = useProductStore();
+  const [simulation, setSimulation] = useState<PricingSimulationState | null>(null);
+  const cancelSimulation = useRef<() => void>(() => {});
+
+  const handleSimulate = (key: string, value: string) => {
+    cancelSimulation.current();
+    // The proposed world: the version in force now, with the edited value
+    const current = getEffectiveConfigs(configs).find(c => c.key === key);
+    const proposedConfigs = configs.map(c => (c === current ? { ...c, value } : c));
+
+    const run = runPricingSimulation({
+      items: products.filter(p => p.status === 'active').map(toSimulationItem),
+      currentConfig: resolvePricingConfig(configs),
+      proposedConfig: resolvePricingConfig(proposedConfigs),
+    });
+    cancelSimulation.current = run.cancel;
+    setSimulation({ key, value, status: 'running' });
+    run.result
+      .then((result) => setSimulation({ key, value, status: 'done', result }))
+      .catch((error: Error) => setSimulation({ key, value, status: 'error', error: error.message }));
+  };
+
+  const closeSimulation = () => {
+    cancelSimulation.current();
+    setSimulation(null);
+  };
 
   const categoryConfigs = getConfigsByCategory(activeTab)
     .filter(c => !c.key.startsWith('uplift.category.'))
@@ -170,10 +276,23 @@ export function PlatformConfigManager() {
     .filter(c => c.key.startsWith('uplift.category.'))
     .sort((a, b) => a.sortOrder - b.sortOrder);
 
-  const totalConfigs = configs.length;
-  const activeConfigs = configs.filter(c => c.isActive).length;
-  const approvalRequired = configs.filter(c => c.requiresApproval).length;
-  const modifiedFromDefault = configs.filter(c => c.defaultValue && c.value !== c.defaultValue).length;
+  // One row per key: the version in force now (older and scheduled versions are history)
+  const currentConfigs = getEffectiveConfigs(configs);
+  const totalConfigs = currentConfigs.length;
+  const activeConfigs = currentConfigs.filter(c => c.isActive).length;
+  const approvalRequired = currentConfigs.filter(c => c.requiresApproval).length;
+  const modifiedFromDefault = currentConfigs.filter(c => c.defaultValue && c.value !== c.defaultValue).length;
+
+  const renderRow = (config: PlatformConfig) => (
+    <ConfigRow
+      key={config.id}
+      config={config}
+      scheduled={getScheduledVersions(configs, config.key)}
+      onSave={updateConfig}
+      onSchedule={scheduleConfigChange}
+      onSimulate={isSimulatable(config.key) ? handleSimulate : undefined}
+    />
+  );
 
   return (
     <div className="space-y-6">
@@ -213,6 +332,9 @@ export function PlatformConfigManager() {
         </div>
       </div>
 
+      {/* What-if result for the uplift being edited */}
+      {simulation && <PricingSimulationPanel simulation={simulation} onClose={closeSimulation} />}
+
       {/* Config List */}
       <div className="card overflow-hidden">
         <div className="px-4 py-3 bg-earth-50 border-b border-earth-100">
@@ -230,9 +352,7 @@ export function PlatformConfigManager() {
           </div>
         ) : (
           <div>
-            {categoryConfigs.map((config) => (
-              <ConfigRow key={config.id} config={config} onSave={updateConfig} />
-            ))}
+            {categoryConfigs.map(renderRow)}
           </div>
         )}
 
@@ -243,9 +363,7 @@ export function PlatformConfigManager() {
               <p className="text-sm font-bold text-arooba-700">مصفوفة الهامش حسب الفئة</p>
               <p className="text-xs text-earth-500 dir-ltr">Category-specific uplift matrix (JSON)</p>
             </div>
-            {categoryUpliftConfigs.map((config) => (
-              <ConfigRow key={config.id} config={config} onSave={updateConfig} />
-            ))}
+            {categoryUpliftConfigs.map(renderRow)}
           </>
         )}
       </div>
@@ -0,0 +1,117 @@
+/**
+ * AROOBA — Pricing What-If Panel
+ *
+ * Shows the catalogue-wide effect of a proposed uplift change before it
+ * is saved (see lib/pricing-simulation.ts).
+ */
+
+import { formatMoney } from '../../shared/components';
+import { PRODUCT_CATEGORIES } from '../../../config/constants';
+import type { PricingImpact, PricingSimulationResult } from '../../../lib/pricing-simulation';
+
+export interface PricingSimulationState {
+  key: string;
+  value: string;
+  status: 'running' | 'done' | 'error';
+  result?: PricingSimulationResult;
+  error?: string;
+}
+
+function ChangeCell({ before, after, money = true }: { before: number; after: number; money?: boolean }) {
+  const diff = Math.round((after - before) * 100) / 100;
+  const format = (v: number) => (money ? formatMoney(v) : v.toLocaleString('ar-EG'));
+  return (
+    <div>
+      <p className="text-earth-800">{format(before)} ← {format(after)}</p>
+      {diff !== 0 && (
+        <p className={`text-[10px] dir-ltr ${diff > 0 ? 'text-nile-600' : 'text-red-500'}`}>
+          {diff > 0 ? '+' : ''}{format(diff)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ImpactRow({ label, impact, bold = false }: { label: string; impact: PricingImpact; bold?: boolean }) {
+  return (
+    <tr className={bold ? 'font-bold bg-earth-50' : ''}>
+      <td>{label}</td>
+      <td>{impact.changedCount} / {impact.productCount}</td>
+      <td>
+        <ChangeCell before={impact.avgPriceBefore} after={impact.avgPriceAfter} />
+        <span className="text-[10px] text-earth-400 dir-ltr">{impact.avgPriceChangePercent}%</span>
+      </td>
+      <td><ChangeCell before={impact.avgMarginBefore} after={impact.avgMarginAfter} /></td>
+      <td className={impact.friendlyPointCrossings > 0 ? 'text-amber-600 font-bold' : 'text-earth-400'}>
+        {impact.friendlyPointCrossings}
+      </td>
+      <td><ChangeCell before={impact.monthlyGmvBefore} after={impact.monthlyGmvAfter} /></td>
+      <td><ChangeCell before={impact.monthlyMarginBefore} after={impact.monthlyMarginAfter} /></td>
+    </tr>
+  );
+}
+
+export function PricingSimulationPanel({
+  simulation,
+  onClose,
+}: {
+  simulation: PricingSimulationState;
+  onClose: () => void;
+}) {
+  const { result } = simulation;
+
+  return (
+    <div className="card overflow-hidden animate-slide-down">
+      <div className="px-4 py-3 bg-blue-50 border-b border-blue-100 flex items-center justify-between">
+        <div>
+          <p className="text-sm font-bold text-blue-800">محاكاة أثر التغيير على الكتالوج</p>
+          <p className="text-xs text-blue-600 dir-ltr">
+            {simulation.key} → {simulation.value}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-lg hover:bg-blue-100 text-blue-400">&#10005;</button>
+      </div>
+
+      {simulation.status === 'running' && (
+        <div className="p-6 text-center text-sm text-earth-500">جاري إعادة تسعير المنتجات...</div>
+      )}
+      {simulation.status === 'error' && (
+        <div className="p-6 text-center text-sm text-red-600">تعذر تشغيل المحاكاة: {simulation.error}</div>
+      )}
+
+      {result && (
+        <div className="p-4 space-y-3">
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>الفئة</th>
+                  <th>منتجات تغيّر سعرها</th>
+                  <th>متوسط سعر العميل</th>
+                  <th>متوسط هامش أروبة (C)</th>
+                  <th>عبور نقاط سعرية</th>
+                  <th>GMV شهري متوقع</th>
+                  <th>هامش شهري متوقع</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.categories.map((category) => (
+                  <ImpactRow
+                    key={category.categoryId}
+                    label={PRODUCT_CATEGORIES.find(c => c.id === category.categoryId)?.nameAr ?? category.categoryId}
+                    impact={category}
+                  />
+                ))}
+                <ImpactRow label="الإجمالي" impact={result.totals} bold />
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[11px] text-earth-400">
+            تقدير GMV يفترض ثبات الكميات المباعة (متوسط آخر 90 يوماً) — يوضح الأثر المباشر للسعر وليس رد فعل العملاء.
+            تمت إعادة تسعير {result.totals.productCount} منتج في {result.durationMs} مللي ثانية.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,11 @@
  * Implements the approval cycle workflow:
  * Vendor submits → Admin reviews → Approve/Reject → Audit logged
  *
+ * Price changes and new listings are checked against the category
+ * price benchmark; flagged requests show the benchmark and deviation.
+ * Approving a bulk stock update applies it to the stock ledger first —
+ * a count below what is already reserved can't be approved.
+ *
  * BUSINESS CONTEXT:
  * In an ecommerce marketplace, vendors cannot freely modify
  * critical data (prices, bank details, products). Every significant
@@ -16,8 +21,13 @@
  */
 
 import React, { useState } from 'react';
-import { SectionHeader, Badge, StatCard, formatDate } from '../../shared/components';
+import { SectionHeader, Badge, StatCard, formatDate, formatMoney } from '../../shared/components';
 import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useProductStore } from '../../../store/product-store';
+import { useInventoryStore } from '../../../store/inventory-store';
+import { InventoryError } from '../../../lib/inventory';
+import { PromotionError } from '../../../lib/promotions-engine';
+import { checkRequestPrice, type PriceBenchmarkCheck } from '../../../lib/price-benchmarks';
 import type { ApprovalStatus, VendorActionType, VendorActionRequest } from '../../shared/types';
 
 // ──────────────────────────────────────────────
@@ -45,6 +55,12 @@ const statusConfig: Record<ApprovalStatus, { labelAr: string; variant: 'pending'
   expired: { labelAr: 'منتهي الصلاحية', variant: 'warning' },
 };
 
+const benchmarkScopeLabels: Record<string, string> = {
+  subcategory: 'الفئة الفرعية',
+  weight_band: 'فئة الوزن',
+  category: 'الفئة',
+};
+
 const priorityConfig: Record<number, { labelAr: string; color: string }> = {
   1: { labelAr: 'منخفض', color: 'text-earth-400' },
   2: { labelAr: 'متوسط', color: 'text-blue-500' },
@@ -58,11 +74,13 @@ const priorityConfig: Record<number, { labelAr: string; color: string }> = {
 
 function RequestDetailPanel({
   request,
+  priceCheck,
   onApprove,
   onReject,
   onClose,
 }: {
   request: VendorActionRequest;
+  priceCheck: PriceBenchmarkCheck | null;
   onApprove: (id: string, notes: string) => void;
   onReject: (id: string, notes: string) => void;
   onClose: () => void;
@@ -70,8 +88,25 @@ function RequestDetailPanel({
   const [notes, setNotes] = useState('');
   const [actionError, setActionError] = useState('');
 
+  const { applyBulkStockUpdate } = useInventoryStore();
+
   const handleApprove = () => {
-    onApprove(request.id, notes);
+    if (request.actionType === 'bulk_stock_update') {
+      try {
+        applyBulkStockUpdate(request);
+      } catch (e) {
+        if (!(e instanceof InventoryError)) throw e;
+        setActionError(e.message);
+        return;
+      }
+    }
+    try {
+      onApprove(request.id, notes);
+    } catch (e) {
+      if (!(e instanceof PromotionError)) throw e;
+      setActionError(e.message);
+      return;
+    }
     onClose();
   };
 
@@ -167,6 +202,49 @@ function RequestDetailPanel({
         {renderJsonValues('القيم الحالية', request.currentValues)}
         {renderJsonValues('القيم المقترحة', request.proposedValues)}
 
+        {/* Price Benchmark Check */}
+        {priceCheck && (
+          <div className={`p-3 rounded-xl border ${priceCheck.isFlagged ? 'bg-red-50 border-red-100' : 'bg-nile-50 border-nile-100'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <p className={`text-xs font-semibold ${priceCheck.isFlagged ? 'text-red-700' : 'text-nile-700'}`}>
+                مقارنة السعر بالسوق
+              </p>
+              <Badge variant={priceCheck.isFlagged ? 'danger' : 'success'}>
+                {priceCheck.isFlagged ? 'انحراف يحتاج مراجعة' : 'ضمن النطاق'}
+              </Badge>
+            </div>
+            {priceCheck.benchmark ? (
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div>
+                  <p className="text-earth-400">السعر المقترح</p>
+                  <p className="font-bold text-earth-800">{formatMoney(priceCheck.price)}</p>
+                </div>
+                <div>
+                  <p className="text-earth-400">الوسيط ({benchmarkScopeLabels[priceCheck.benchmark.scope]})</p>
+                  <p className="font-bold text-earth-800">{formatMoney(priceCheck.benchmark.median)}</p>
+                </div>
+                <div>
+                  <p className="text-earth-400">النطاق المعتاد (Q1–Q3)</p>
+                  <p className="text-earth-700 dir-ltr">
+                    {formatMoney(priceCheck.benchmark.q1)} – {formatMoney(priceCheck.benchmark.q3)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-earth-400">الانحراف (الحد ±{Math.round(priceCheck.threshold * 100)}%)</p>
+                  <p className={`font-bold dir-ltr ${priceCheck.isFlagged ? 'text-red-600' : 'text-earth-700'}`}>
+                    {priceCheck.deviation > 0 ? '+' : ''}{priceCheck.deviation}%
+                  </p>
+                </div>
+                <p className="col-span-2 text-[11px] text-earth-400">
+                  مبني على {priceCheck.benchmark.sampleSize} منتجات نشطة ({priceCheck.benchmark.key})
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-earth-500">لا توجد منتجات كافية في هذه الفئة لحساب سعر مرجعي.</p>
+            )}
+          </div>
+        )}
+
         {/* Review Section (if already reviewed) */}
         {request.reviewedBy && (
           <div className="p-3 rounded-xl bg-nile-50 border border-nile-100">
@@ -230,7 +308,8 @@ function RequestDetailPanel({
 // ──────────────────────────────────────────────
 
 export function VendorApprovalQueue() {
-  const { actionRequests, approveRequest, rejectRequest, getPendingCount } = useAdminConfigStore();
+  const { actionRequests, approveRequest, rejectRequest, getPendingCount, getFraudConfig } = useAdminConfigStore();
+  const { products } = useProductStore();
   const [statusFilter, setStatusFilter] = useState<ApprovalStatus | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<VendorActionType | 'all'>('all');
   const [selectedRequest, setSelectedRequest] = useState<string | null>(null);
@@ -248,6 +327,10 @@ export function VendorApprovalQueue() {
 
   const selected = selectedRequest ? actionRequests.find(r => r.id === selectedRequest) : null;
 
+  // Every price change / new listing is checked against the category benchmark
+  const threshold = getFraudConfig().priceDeviationFlag;
+  const priceChecks = new Map(actionRequests.map(r => [r.id, checkRequestPrice(r, products, threshold)]));
+
   return (
     <div className="space-y-6">
       <SectionHeader
@@ -334,6 +417,9 @@ export function VendorApprovalQueue() {
                     <Badge variant="info" dot={false}>
                       {actionTypeLabels[request.actionType].labelAr}
                     </Badge>
+                    {priceChecks.get(request.id)?.isFlagged && (
+                      <Badge variant="danger" dot={false}>&#9888; سعر غير معتاد</Badge>
+                    )}
                   </div>
                   <span className={`text-xs font-bold ${priorityConfig[request.priority]?.color}`}>
                     P{request.priority}
@@ -363,6 +449,7 @@ export function VendorApprovalQueue() {
           {selected ? (
             <RequestDetailPanel
               request={selected}
+              priceCheck={priceChecks.get(selected.id) ?? null}
               onApprove={approveRequest}
               onReject={rejectRequest}
               onClose={() => setSelectedRequest(null)}
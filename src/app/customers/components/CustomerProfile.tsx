@@ -10,6 +10,8 @@
 
 import React from 'react';
 import { useAppStore } from '../../../store/app-store';
+import { useReturnsStore } from '../../../store/returns-store';
+import { addMoney, egp } from '../../../lib/money';
 import { Badge, formatMoney, formatDate } from '../../shared/components';
 import type { CustomerCRM, CustomerStatus, CustomerTier } from '../types';
 
@@ -19,6 +21,8 @@ interface CustomerProfileProps {
 
 export function CustomerProfile({ customer }: CustomerProfileProps) {
   const { language } = useAppStore();
+  const { getWalletCredit } = useReturnsStore();
+  const walletBalance = addMoney(egp(customer.walletBalance), getWalletCredit(customer.id));
 
   const statusVariant = (status: CustomerStatus): 'success' | 'pending' | 'danger' | 'neutral' | 'warning' => {
     switch (status) {
@@ -89,7 +93,7 @@ export function CustomerProfile({ customer }: CustomerProfileProps) {
           </div>
           <div className="p-3 rounded-xl bg-nile-50">
             <p className="text-xs text-earth-500">{language === 'ar' ? 'المحفظة' : 'Wallet'}</p>
-            <p className="text-lg font-bold text-nile-700">{formatMoney(customer.walletBalance)}</p>
+            <p className="text-lg font-bold text-nile-700">{formatMoney(walletBalance)}</p>
           </div>
           <div className="p-3 rounded-xl bg-blue-50">
             <p className="text-xs text-earth-500">{language === 'ar' ? 'الطلبات' : 'Orders'}</p>
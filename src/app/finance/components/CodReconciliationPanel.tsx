@@ -0,0 +1,225 @@
+/**
+ * AROOBA — COD Reconciliation Component
+ *
+ * Imports courier remittance CSVs, shows each courier's discrepancy and
+ * freeze status, and lets finance resolve unmatched / partial lines
+ * (lib/cod-reconciliation.ts). Resolutions land in the audit trail.
+ */
+
+import React, { useState } from 'react';
+import { Badge, formatMoney, formatPercent } from '../../shared/components';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useCodReconciliationStore } from '../../../store/cod-reconciliation-store';
+import { useOrderStore } from '../../../store/order-store';
+import {
+  CodReconciliationError, isReconciliationException,
+  type ReconciliationLine, type ReconciliationStatus, type ResolutionAction,
+} from '../../../lib/cod-reconciliation';
+
+const statusLabels: Record<ReconciliationStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'info' | 'neutral' }> = {
+  matched: { label: 'مطابق', variant: 'success' },
+  partial: { label: 'تحصيل ناقص', variant: 'warning' },
+  over_collected: { label: 'تحصيل زائد', variant: 'warning' },
+  unmatched: { label: 'غير معروف', variant: 'danger' },
+  duplicate: { label: 'مكرر', variant: 'info' },
+  overdue: { label: 'توريد متأخر', variant: 'danger' },
+};
+
+const actionLabels: Record<ResolutionAction, string> = {
+  accept_variance: 'قبول الفرق',
+  charge_courier: 'تحميل الفرق على شركة الشحن',
+  write_off: 'شطب',
+};
+
+type FormAction = ResolutionAction | 'link';
+
+function ResolveForm({ line, onDone }: { line: ReconciliationLine; onDone: () => void }) {
+  const { resolveLine, linkLine, getShipments } = useCodReconciliationStore();
+  const [action, setAction] = useState<FormAction>(line.status === 'unmatched' ? 'link' : 'accept_variance');
+  const [note, setNote] = useState('');
+  const [shipmentId, setShipmentId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    try {
+      if (action === 'link') linkLine(line.id, shipmentId, note);
+      else resolveLine(line.id, action, note);
+      onDone();
+    } catch (e) {
+      if (!(e instanceof CodReconciliationError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 bg-earth-50 rounded-lg">
+      <select value={action} onChange={e => setAction(e.target.value as FormAction)} className="input text-xs w-48">
+        {line.status === 'unmatched' && <option value="link">ربط بشحنة (تصحيح رقم التتبع)</option>}
+        {(Object.keys(actionLabels) as ResolutionAction[]).map(a => <option key={a} value={a}>{actionLabels[a]}</option>)}
+      </select>
+      {action === 'link' && (
+        <select value={shipmentId} onChange={e => setShipmentId(e.target.value)} className="input text-xs w-48 dir-ltr">
+          <option value="">— اختر الشحنة —</option>
+          {getShipments().filter(s => s.courierProvider === line.courierProvider).map(s => (
+            <option key={s.id} value={s.id}>{s.id} · {s.trackingNumber}</option>
+          ))}
+        </select>
+      )}
+      <input value={note} onChange={e => setNote(e.target.value)} placeholder="ملاحظة (مطلوبة)" className="input text-xs flex-1 min-w-[10rem]" />
+      <button onClick={submit} disabled={!note.trim()} className="btn-primary text-xs disabled:opacity-50">حفظ</button>
+      {error && <span className="w-full text-[11px] text-red-600">{error}</span>}
+    </div>
+  );
+}
+
+export function CodReconciliationPanel() {
+  const { files, getLines, getSummaries, importRemittance } = useCodReconciliationStore();
+  useOrderStore(state => state.orders);   // New deliveries join the reconciliation
+  const { getEscrowConfig } = useAdminConfigStore();
+  const escrow = getEscrowConfig();
+  const [courier, setCourier] = useState('SmartCom');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [showMatched, setShowMatched] = useState(false);
+
+  const lines = getLines();
+  const summaries = getSummaries();
+  const visible = lines.filter(l => showMatched || isReconciliationException(l));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      importRemittance(await file.text(), courier, file.name);
+      setImportError(null);
+    } catch (e) {
+      if (!(e instanceof CodReconciliationError)) throw e;
+      setImportError(e.message);
+    }
+  };
+
+  return (
+    <div className="card p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-earth-800">تسوية تحصيل الدفع عند الاستلام</h3>
+          <p className="text-xs text-earth-500">
+            مهلة التوريد {escrow.codDepositCycle} ساعة — التجميد عند فرق يتجاوز {formatPercent(escrow.codDiscrepancyThreshold)}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={courier} onChange={e => setCourier(e.target.value)} className="input text-xs w-32 dir-ltr">
+            <option value="SmartCom">SmartCom</option>
+            <option value="Bosta">Bosta</option>
+          </select>
+          <label className="btn-primary text-xs cursor-pointer">
+            استيراد ملف التوريد
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+          </label>
+        </div>
+      </div>
+
+      {importError && <div className="p-2 rounded-lg bg-red-50 text-xs text-red-700">{importError}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {summaries.map(s => (
+          <div key={s.courierProvider} className={`p-3 rounded-xl border ${s.isFrozen ? 'border-red-200 bg-red-50/50' : 'border-earth-100'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-bold text-earth-800 dir-ltr">{s.courierProvider}</span>
+              <Badge variant={s.isFrozen ? 'danger' : 'success'}>{s.isFrozen ? 'مجمد' : 'نشط'}</Badge>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              <div><p className="text-earth-400">المستحق</p><p className="font-medium">{formatMoney(s.expected)}</p></div>
+              <div><p className="text-earth-400">المورَّد</p><p className="font-medium">{formatMoney(s.collected)}</p></div>
+              <div>
+                <p className="text-earth-400">الفرق المفتوح</p>
+                <p className={`font-bold ${s.isFrozen ? 'text-red-600' : 'text-earth-800'}`}>
+                  {formatMoney(s.discrepancy)} ({formatPercent(s.discrepancyRate)})
+                </p>
+              </div>
+            </div>
+            <p className="text-[11px] text-earth-500 mt-2">
+              {s.openExceptions} بند مفتوح · {s.overdueCount} توريد متأخر · {s.lateCount} توريد بعد المهلة
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {files.some(f => f.issues.length > 0) && (
+        <div className="text-[11px] text-amber-700 space-y-0.5">
+          {files.flatMap(f => f.issues.map(issue => (
+            <p key={`${f.id}-${issue.lineNumber}`}>{f.fileName} — سطر {issue.lineNumber}: <span className="dir-ltr">{issue.message}</span></p>
+          )))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end">
+        <label className="flex items-center gap-2 text-xs text-earth-600">
+          <input type="checkbox" checked={showMatched} onChange={e => setShowMatched(e.target.checked)} />
+          عرض البنود المطابقة
+        </label>
+      </div>
+
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              <th>رقم التتبع</th>
+              <th>شركة الشحن</th>
+              <th>المستحق</th>
+              <th>المورَّد</th>
+              <th>الفرق</th>
+              <th>الحالة</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(line => (
+              <React.Fragment key={line.id}>
+                <tr>
+                  <td className="font-mono text-xs dir-ltr">
+                    {line.trackingNumber || '—'}
+                    {line.shipmentId && (
+                      <span className="block text-[10px] text-earth-400">
+                        {line.shipmentId}{line.linkedManually && ' (ربط يدوي)'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="text-xs dir-ltr">{line.courierProvider}</td>
+                  <td>{formatMoney(line.amountDue)}</td>
+                  <td>{formatMoney(line.amountCollected)}</td>
+                  <td className={line.difference.piastres < 0 ? 'text-red-600' : line.difference.piastres > 0 ? 'text-amber-600' : 'text-earth-400'}>
+                    {formatMoney(line.difference)}
+                  </td>
+                  <td>
+                    <Badge variant={statusLabels[line.status].variant}>{statusLabels[line.status].label}</Badge>
+                    {line.isLate && line.status !== 'overdue' && <span className="block text-[10px] text-red-500">بعد المهلة</span>}
+                  </td>
+                  <td className="text-xs">
+                    {line.resolution ? (
+                      <span className="text-nile-600">
+                        {actionLabels[line.resolution.action]}
+                        <span className="block text-[10px] text-earth-400">{line.resolution.note}</span>
+                      </span>
+                    ) : isReconciliationException(line) && (
+                      <button
+                        onClick={() => setResolvingId(resolvingId === line.id ? null : line.id)}
+                        className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-earth-600 hover:bg-earth-100"
+                      >
+                        تسوية
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {resolvingId === line.id && (
+                  <tr>
+                    <td colSpan={7}><ResolveForm line={line} onDone={() => setResolvingId(null)} /></td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,17 @@
 import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { StatCard, SectionHeader, formatMoney } from '../../shared/components';
-import { calculatePrice, type PricingInput } from '../../../lib/pricing-engine';
-import { UPLIFT_MATRIX } from '../../../config/constants';
+import { calculatePrice, calculateBasePriceForTarget, calculateCartPrice, type PricingInput } from '../../../lib/pricing-engine';
+import { applyPromotions, isPromotionLive, type DiscountBucket } from '../../../lib/promotions-engine';
+import { type Money, addMoney, toEgp } from '../../../lib/money';
+import { explainPricingStep, getRuleTitle, type ExplanationLanguage } from '../../../lib/pricing-explanation';
+import { resolvePricingInput, type ResolvedPricingInput } from '../../../lib/pricing-inputs';
+import { mockVendorDirectory } from '../../../lib/mock-data-extended';
+import { UPLIFT_MATRIX, UPLIFT_RULES } from '../../../config/constants';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useAppStore } from '../../../store/app-store';
+import { usePromotionStore } from '../../../store/promotion-store';
+import { useProductStore } from '../../../store/product-store';
 
 const BUCKET_COLORS = {
   A: '#1fa76d',
@@ -17,6 +26,8 @@ const BUCKET_COLORS = {
   D: '#f6b86d',
 };
 
+type CalculatorMode = 'forward' | 'target';
+
 export function FinanceWaterfall() {
   const [calcInput, setCalcInput] = useState<PricingInput>({
     vendorBasePrice: 500,
@@ -25,13 +36,73 @@ export function FinanceWaterfall() {
     isNonLegalizedVendor: false,
   });
 
-  const result = calculatePrice(calcInput);
+  // Catalogue product: vendor, sub-vendor and cooperative come from the records
+  const { products } = useProductStore();
+  const [productId, setProductId] = useState('');
+  const [resolved, setResolved] = useState<ResolvedPricingInput | null>(null);
+  const selectProduct = (id: string) => {
+    const product = products.find(p => p.id === id);
+    const next = product ? resolvePricingInput(product, mockVendorDirectory) : null;
+    setProductId(product ? id : '');
+    setResolved(next);
+    setCalcInput(next ? next.input : {
+      vendorBasePrice: calcInput.vendorBasePrice,
+      categoryId: calcInput.categoryId,
+      isVendorVatRegistered: calcInput.isVendorVatRegistered,
+      isNonLegalizedVendor: calcInput.isNonLegalizedVendor,
+    });
+  };
+
+  const [mode, setMode] = useState<CalculatorMode>('forward');
+  const [targetPrice, setTargetPrice] = useState(250);
+  const [useFriendlyPrice, setUseFriendlyPrice] = useState(false);
+  // Empty = the admin config in force now; a date reprices under the one in force then
+  const [asOfDate, setAsOfDate] = useState('');
+  const asOf = asOfDate ? new Date(`${asOfDate}T23:59:59`) : undefined;
+  const { getDynamicPricingConfig } = useAdminConfigStore();
+
+  // Target mode: solve the base price first, then show the same forward breakdown
+  const reverse = mode === 'target'
+    ? calculateBasePriceForTarget({ ...calcInput, targetFinalPrice: targetPrice, useFriendlyPrice }, getDynamicPricingConfig, { asOf })
+    : null;
+  const result = calculatePrice(
+    reverse?.pricing ? { ...calcInput, vendorBasePrice: reverse.vendorBasePrice } : calcInput,
+    getDynamicPricingConfig,
+    { trace: true, asOf }
+  );
+
+  const { language } = useAppStore();
+
+  // Promotion simulation: price the calculator item as a one-line cart and
+  // apply the chosen promotion to see which buckets absorb the discount
+  const { promotions } = usePromotionStore();
+  const [promotionId, setPromotionId] = useState('');
+  const [promoQuantity, setPromoQuantity] = useState(1);
+  const promotion = promotions.find(p => p.id === promotionId);
+  const promoLineInput = {
+    lineId: 'calc',
+    pricing: { ...calcInput, vendorBasePrice: toEgp(result.vendorBasePrice) },
+    quantity: promoQuantity,
+    pickupLocationId: 'calc',
+    vendorId: promotion?.vendorId,
+  };
+  const promoCartInput = { lines: [promoLineInput] };
+  const promoted = promotion
+    ? applyPromotions(
+      promoCartInput,
+      calculateCartPrice(promoCartInput, getDynamicPricingConfig, { asOf }),
+      [promotion],
+      { couponCode: promotion.code, asOf }
+    )
+    : null;
+  const isPromotionLiveNow = promotion ? isPromotionLive(promotion, asOf) : false;
+  const [explainLanguage, setExplainLanguage] = useState<ExplanationLanguage>(language);
 
   const waterfallData = [
-    { name: 'إيراد المورد (A)', value: result.bucketA_vendorRevenue, color: BUCKET_COLORS.A },
-    { name: 'ض.ق.م المورد (B)', value: result.bucketB_vendorVat, color: BUCKET_COLORS.B },
-    { name: 'إيراد أروبة (C)', value: result.bucketC_aroobaRevenue, color: BUCKET_COLORS.C },
-    { name: 'ض.ق.م أروبة (D)', value: result.bucketD_aroobaVat, color: BUCKET_COLORS.D },
+    { name: 'إيراد المورد (A)', value: toEgp(result.bucketA_vendorRevenue), color: BUCKET_COLORS.A },
+    { name: 'ض.ق.م المورد (B)', value: toEgp(result.bucketB_vendorVat), color: BUCKET_COLORS.B },
+    { name: 'إيراد أروبة (C)', value: toEgp(result.bucketC_aroobaRevenue), color: BUCKET_COLORS.C },
+    { name: 'ض.ق.م أروبة (D)', value: toEgp(result.bucketD_aroobaVat), color: BUCKET_COLORS.D },
   ];
 
   return (
@@ -44,17 +115,100 @@ export function FinanceWaterfall() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Inputs */}
         <div className="space-y-4">
+          <div className="flex gap-2 p-1 rounded-xl bg-earth-100">
+            {([
+              { id: 'forward', label: 'من سعر المورد' },
+              { id: 'target', label: 'من السعر المستهدف' },
+            ] as { id: CalculatorMode; label: string }[]).map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  mode === m.id ? 'bg-white text-arooba-700 shadow-sm' : 'text-earth-500 hover:text-earth-700'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
           <div>
-            <label className="block text-sm font-medium text-earth-700 mb-1">سعر المورد الأساسي (ج.م)</label>
-            <input
-              type="number"
-              value={calcInput.vendorBasePrice}
-              onChange={(e) => setCalcInput({ ...calcInput, vendorBasePrice: Number(e.target.value) || 0 })}
-              className="input dir-ltr text-left"
-              min={1}
-            />
+            <label className="block text-sm font-medium text-earth-700 mb-1">منتج من الكتالوج (اختياري)</label>
+            <select
+              value={productId}
+              onChange={(e) => selectProduct(e.target.value)}
+              className="input"
+            >
+              <option value="">— إدخال يدوي —</option>
+              {products.map((p) => (
+                <option key={p.id} value={p.id}>{p.titleAr} ({p.id})</option>
+              ))}
+            </select>
+            {resolved && (
+              <p className="text-xs text-earth-400 mt-1">
+                {resolved.parentVendor.businessNameAr}
+                {resolved.subVendor && ` ← ${resolved.subVendor.internalNameAr}`}
+                {resolved.cooperative && ` · ${resolved.cooperative.nameAr} (${(resolved.cooperative.feePercentage * 100).toFixed(0)}%)`}
+              </p>
+            )}
           </div>
 
+          {mode === 'forward' ? (
+            <div>
+              <label className="block text-sm font-medium text-earth-700 mb-1">سعر المورد الأساسي (ج.م)</label>
+              <input
+                type="number"
+                value={calcInput.vendorBasePrice}
+                onChange={(e) => setCalcInput({ ...calcInput, vendorBasePrice: Number(e.target.value) || 0 })}
+                className="input dir-ltr text-left"
+                min={1}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-earth-700 mb-1">السعر المستهدف للعميل (ج.م)</label>
+              <input
+                type="number"
+                value={targetPrice}
+                onChange={(e) => setTargetPrice(Number(e.target.value) || 0)}
+                className="input dir-ltr text-left"
+                min={1}
+              />
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useFriendlyPrice}
+                  onChange={(e) => setUseFriendlyPrice(e.target.checked)}
+                  className="w-4 h-4 rounded border-earth-300 text-arooba-500 focus:ring-arooba-500"
+                />
+                <span className="text-sm text-earth-700">تقريب لأقرب سعر مناسب (مضاعفات 5 ج.م)</span>
+              </label>
+              {reverse && (
+                <div className={`p-3 rounded-xl text-sm border ${
+                  reverse.status === 'unreachable'
+                    ? 'bg-red-50 border-red-200 text-red-700'
+                    : 'bg-nile-50 border-nile-200 text-nile-700'
+                }`}>
+                  {reverse.status === 'unreachable' ? (
+                    <p>السعر المستهدف أقل من أدنى سعر ممكن ({formatMoney(reverse.achievedFinalPrice)})</p>
+                  ) : (
+                    <>
+                      <p>
+                        أدخل سعر مورد <span className="font-bold">{formatMoney(reverse.vendorBasePrice)}</span>
+                        {' '}ليظهر للعميل {formatMoney(reverse.achievedFinalPrice)}
+                      </p>
+                      {reverse.status === 'nearest' && (
+                        <p className="text-xs text-amber-600 mt-1">
+                          لا يمكن الوصول إلى {formatMoney(reverse.targetFinalPrice)} بالضبط بسبب التقريب — الفرق {formatMoney(reverse.difference)}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-earth-700 mb-1">فئة المنتج</label>
             <select
@@ -70,6 +224,46 @@ export function FinanceWaterfall() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-earth-700 mb-1">هامش مخصص % (اختياري)</label>
+            <input
+              type="number"
+              step="0.5"
+              value={calcInput.customUpliftOverride !== undefined ? calcInput.customUpliftOverride * 100 : ''}
+              onChange={(e) => setCalcInput({
+                ...calcInput,
+                customUpliftOverride: e.target.value === '' ? undefined : Number(e.target.value) / 100,
+              })}
+              placeholder="هامش الفئة"
+              className="input dir-ltr text-left"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-earth-700 mb-1">التسعير حسب إعدادات تاريخ</label>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                className="input dir-ltr text-left"
+              />
+              {asOfDate && (
+                <button
+                  onClick={() => setAsOfDate('')}
+                  className="px-3 rounded-lg bg-earth-100 text-earth-600 text-xs font-medium hover:bg-earth-200 transition-colors"
+                >
+                  مسح
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-earth-400 mt-1">
+              {asOfDate
+                ? 'يتم استخدام الإعدادات التي كانت سارية في هذا التاريخ'
+                : 'بدون تاريخ: القيم الافتراضية الحالية'}
+            </p>
+          </div>
+
           <div className="space-y-2">
             <label className="flex items-center gap-2 cursor-pointer">
               <input
@@ -91,6 +285,15 @@ export function FinanceWaterfall() {
             </label>
           </div>
 
+          {/* Corrections the engine made to the configured uplift */}
+          {result.warnings.length > 0 && (
+            <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 space-y-1">
+              {result.warnings.map((warning) => (
+                <p key={warning.code} className="text-xs text-amber-700">⚠ {warning.messageAr}</p>
+              ))}
+            </div>
+          )}
+
           {/* Price Breakdown */}
           <div className="mt-6 p-4 rounded-xl bg-earth-50 border border-earth-200">
             <div className="text-center mb-4">
@@ -100,10 +303,17 @@ export function FinanceWaterfall() {
 
             <div className="space-y-1.5 text-sm">
               <Row label="سعر المورد" value={formatMoney(result.vendorBasePrice)} />
-              {result.cooperativeFee > 0 && <Row label="رسوم التعاونية (5%)" value={`+${formatMoney(result.cooperativeFee)}`} color="text-amber-600" />}
+              {result.parentVendorUplift.piastres > 0 && <Row label="هامش المورد الرئيسي" value={`+${formatMoney(result.parentVendorUplift)}`} />}
+              {result.cooperativeFee.piastres > 0 && (
+                <Row
+                  label={`رسوم التعاونية (${((calcInput.cooperativeFeeRate ?? UPLIFT_RULES.cooperativeFee) * 100).toFixed(0)}%)`}
+                  value={`+${formatMoney(result.cooperativeFee)}`}
+                  color="text-amber-600"
+                />
+              )}
               <Row label="هامش أروبة" value={`+${formatMoney(result.marketplaceUplift)}`} color="text-arooba-600" />
               <Row label="رسم لوجستي" value={`+${formatMoney(result.logisticsSurcharge)}`} />
-              {result.vendorVat > 0 && <Row label="ض.ق.م المورد (14%)" value={`+${formatMoney(result.vendorVat)}`} color="text-nile-600" />}
+              {result.vendorVat.piastres > 0 && <Row label="ض.ق.م المورد (14%)" value={`+${formatMoney(result.vendorVat)}`} color="text-nile-600" />}
               <Row label="ض.ق.م أروبة (14%)" value={`+${formatMoney(result.aroobaVat)}`} color="text-arooba-500" />
               <div className="border-t border-earth-200 pt-2 mt-2 flex justify-between font-bold">
                 <span className="text-earth-800">الإجمالي</span>
@@ -146,6 +356,20 @@ export function FinanceWaterfall() {
             ))}
           </div>
 
+          {/* Bucket A split — what the parent vendor owes their artisan */}
+          {calcInput.subVendorId && (
+            <div className="mt-4 p-3 rounded-xl bg-nile-50 border border-nile-200 space-y-1.5 text-sm">
+              <p className="text-xs font-semibold text-nile-700">
+                تقسيم إيراد المورد (A){resolved?.subVendor && ` — ${resolved.parentVendor.businessNameAr}`}
+              </p>
+              <Row
+                label={`المورد الفرعي${resolved?.subVendor ? ` (${resolved.subVendor.internalNameAr})` : ''}`}
+                value={formatMoney(result.subVendorRevenue)}
+              />
+              <Row label="المورد الرئيسي (هامشه)" value={formatMoney(result.parentVendorRevenue)} />
+            </div>
+          )}
+
           {/* Margin highlight */}
           <div className="mt-6 p-4 rounded-xl bg-arooba-50 border border-arooba-200">
             <p className="text-xs font-semibold text-arooba-700 mb-2">📊 هامش أروبة</p>
@@ -154,8 +378,98 @@ export function FinanceWaterfall() {
               <p className="text-xs text-earth-500 mb-1">= {formatMoney(result.aroobaGrossMargin)} من كل عملية بيع</p>
             </div>
           </div>
+
+          {/* Promotion — who absorbs the discount */}
+          <div className="mt-6 p-4 rounded-xl bg-earth-50 border border-earth-200 space-y-3">
+            <p className="text-xs font-semibold text-earth-700">🏷️ محاكاة عرض ترويجي</p>
+            <div className="flex gap-2">
+              <select value={promotionId} onChange={(e) => setPromotionId(e.target.value)} className="input text-sm flex-1">
+                <option value="">بدون عرض</option>
+                {promotions.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.nameAr} — {p.fundedBy === 'vendor' ? 'على حساب المورد' : 'على حساب أروبة'}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={promoQuantity}
+                onChange={(e) => setPromoQuantity(Math.max(1, Number(e.target.value) || 1))}
+                className="input text-sm w-20 dir-ltr text-center"
+                min={1}
+                title="الكمية"
+              />
+            </div>
+            {promotion && promoted && (
+              !isPromotionLiveNow ? (
+                <p className="text-xs text-amber-600">العرض غير ساري في هذا التاريخ</p>
+              ) : promoted.discounts.length === 0 ? (
+                <p className="text-xs text-earth-500">
+                  {promoted.warnings[0]?.messageAr ?? 'العرض لا ينطبق على هذا المنتج أو الكمية'}
+                </p>
+              ) : (
+                <div className="space-y-1.5 text-sm">
+                  <Row label="الإجمالي قبل الخصم" value={formatMoney(addMoney(promoted.subtotal, promoted.totalDiscount))} />
+                  <Row label="الخصم" value={`−${formatMoney(promoted.totalDiscount)}`} color="text-red-600" />
+                  {promoted.discounts.flatMap((d) =>
+                    (Object.entries(d.absorbedBy) as [DiscountBucket, Money][]).map(([bucket, amount]) => (
+                      <Row
+                        key={`${d.promotionId}-${bucket}`}
+                        label={`يتحمله الدلو ${bucket}`}
+                        value={`−${formatMoney(amount)}`}
+                        color={bucket === 'A' || bucket === 'B' ? 'text-nile-600' : 'text-arooba-600'}
+                      />
+                    ))
+                  )}
+                  <div className="border-t border-earth-200 pt-2 flex justify-between font-bold">
+                    <span className="text-earth-800">يدفع العميل</span>
+                    <span className="text-arooba-700">{formatMoney(promoted.subtotal)}</span>
+                  </div>
+                  {promoted.warnings.map((w) => (
+                    <p key={`${w.promotionId}-${w.lineId}`} className="text-xs text-amber-600">{w.messageAr}</p>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
         </div>
       </div>
+
+      {/* Rule trace — which rule decided each amount */}
+      {result.trace && (
+        <div className="mt-8 border-t border-earth-200 pt-6">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-sm font-semibold text-earth-600">
+              {explainLanguage === 'ar' ? '🔍 شرح خطوات التسعير' : '🔍 How this price was built'}
+            </p>
+            <button
+              onClick={() => setExplainLanguage(explainLanguage === 'ar' ? 'en' : 'ar')}
+              className="text-xs text-arooba-600 hover:text-arooba-700 font-medium"
+            >
+              🌐 {explainLanguage === 'ar' ? 'English' : 'عربي'}
+            </button>
+          </div>
+          <ol className="space-y-1.5" dir={explainLanguage === 'ar' ? 'rtl' : 'ltr'}>
+            {result.trace.map((step) => (
+              <li
+                key={step.step}
+                className={`flex items-start gap-3 p-2 rounded-lg text-sm ${step.applied ? 'bg-earth-50' : 'opacity-60'}`}
+              >
+                <span className="w-6 h-6 shrink-0 rounded-full bg-arooba-100 text-arooba-700 text-xs font-bold flex items-center justify-center">
+                  {step.step}
+                </span>
+                <div className="flex-1">
+                  <p className="font-medium text-earth-800">{getRuleTitle(step.rule, explainLanguage)}</p>
+                  <p className="text-earth-600">{explainPricingStep(step, explainLanguage)}</p>
+                </div>
+                {step.configKey && (
+                  <code className="text-xs text-earth-400 dir-ltr shrink-0">{step.configKey}</code>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   );
 }
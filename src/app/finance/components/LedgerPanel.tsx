@@ -0,0 +1,138 @@
+/**
+ * AROOBA — Ledger Panel Component
+ *
+ * Trial balance, journal list and vendor wallets rebuilt from the
+ * double-entry ledger (lib/ledger.ts). Every number here is derived
+ * from posted entries.
+ */
+
+import { useState } from 'react';
+import { Badge, formatMoney } from '../../shared/components';
+import { useLedgerStore } from '../../../store/ledger-store';
+import { parseAccountId, type LedgerAccountType } from '../../../lib/ledger';
+import { mockVendors } from '../../../lib/mock-data-extended';
+import { sumMoney } from '../../../lib/money';
+
+const accountLabels: Record<LedgerAccountType, string> = {
+  cash: 'النقدية',
+  cod_receivable: 'تحصيل عند الاستلام لدى شركة الشحن',
+  customer_deposits: 'مدفوعات مقدمة من العملاء',
+  vendor_payable_pending: 'مستحق للمورد (ضمان)',
+  vendor_payable_available: 'مستحق للمورد (متاح)',
+  payouts_in_transit: 'مدفوعات قيد التحويل البنكي',
+  vat_payable: 'ضريبة القيمة المضافة المستحقة',
+  arooba_revenue: 'إيرادات عروبة',
+  courier_payable: 'مستحق لشركة الشحن',
+  customer_wallet: 'أرصدة محافظ العملاء',
+};
+
+function accountLabel(account: string): string {
+  const { type, vendorId } = parseAccountId(account);
+  const vendor = vendorId ? mockVendors.find(v => v.id === vendorId)?.businessNameAr ?? vendorId : null;
+  return vendor ? `${accountLabels[type]} — ${vendor}` : accountLabels[type];
+}
+
+export function LedgerPanel() {
+  const { ledger, getTrialBalance, getVendorWallets } = useLedgerStore();
+  const [selectedTxn, setSelectedTxn] = useState<string | null>(null);
+
+  const rows = getTrialBalance();
+  const totalDebits = sumMoney(rows.map(r => r.debits));
+  const totalCredits = sumMoney(rows.map(r => r.credits));
+  const isBalanced = totalDebits.piastres === totalCredits.piastres;
+  const journals = [...new Set(ledger.entries.map(e => e.transactionId))].reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="card p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-bold text-earth-800">ميزان المراجعة</h3>
+          <Badge variant={isBalanced ? 'success' : 'danger'}>{isBalanced ? 'متوازن' : 'غير متوازن'}</Badge>
+        </div>
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>الحساب</th>
+                <th>مدين</th>
+                <th>دائن</th>
+                <th>الرصيد</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.account}>
+                  <td className="text-sm text-earth-800">{accountLabel(row.account)}</td>
+                  <td className="text-earth-600">{formatMoney(row.debits)}</td>
+                  <td className="text-earth-600">{formatMoney(row.credits)}</td>
+                  <td className="font-medium text-earth-800">{formatMoney(row.balance)}</td>
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td>الإجمالي</td>
+                <td>{formatMoney(totalDebits)}</td>
+                <td>{formatMoney(totalCredits)}</td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="card p-4">
+        <h3 className="text-sm font-bold text-earth-800 mb-3">أرصدة الموردين من دفتر الأستاذ</h3>
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {getVendorWallets().map(wallet => (
+            <div key={wallet.vendorId} className="p-3 rounded-lg bg-earth-50 text-xs space-y-1">
+              <p className="font-medium text-earth-800 text-sm">
+                {mockVendors.find(v => v.id === wallet.vendorId)?.businessNameAr ?? wallet.vendorId}
+              </p>
+              <p className="text-amber-600">معلق: {formatMoney(wallet.pendingBalance)}</p>
+              <p className="text-nile-600 font-bold">متاح: {formatMoney(wallet.availableBalance)}</p>
+              <p className="text-earth-500">إجمالي الأرباح: {formatMoney(wallet.lifetimeEarnings)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="card p-4">
+        <h3 className="text-sm font-bold text-earth-800 mb-3">القيود اليومية</h3>
+        <div className="space-y-1.5">
+          {journals.map(txn => {
+            const entries = ledger.entries.filter(e => e.transactionId === txn);
+            const amount = sumMoney(entries.filter(e => e.side === 'debit').map(e => e.amount));
+            const isOpen = selectedTxn === txn;
+            return (
+              <div key={txn} className="rounded-lg bg-white border border-earth-100">
+                <button
+                  className="w-full flex items-center justify-between text-xs p-2"
+                  onClick={() => setSelectedTxn(isOpen ? null : txn)}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono text-earth-500 dir-ltr">{entries[0].createdAt.slice(0, 10)}</span>
+                    <span className="font-mono text-earth-400">{txn}</span>
+                    <span className="text-earth-700">{entries[0].description}</span>
+                  </div>
+                  <span className="font-medium text-earth-800">{formatMoney(amount)}</span>
+                </button>
+                {isOpen && (
+                  <div className="px-2 pb-2 space-y-1">
+                    {entries.map(entry => (
+                      <div key={entry.id} className="flex items-center justify-between text-[11px] text-earth-600">
+                        <span className={entry.side === 'credit' ? 'pr-6' : ''}>{accountLabel(entry.account)}</span>
+                        <span className="flex gap-4">
+                          <span className="w-20 text-left">{entry.side === 'debit' ? formatMoney(entry.amount) : ''}</span>
+                          <span className="w-20 text-left">{entry.side === 'credit' ? formatMoney(entry.amount) : ''}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * AROOBA — Weekly Payout Batches Component
+ *
+ * Drafts the weekly batch from the same wallets VendorWalletsTable
+ * shows, takes it through approval, exports one bank-upload CSV per
+ * bank and tracks each transfer (lib/payout-batches.ts).
+ */
+
+import { useState } from 'react';
+import { Badge, formatMoney, formatDate } from '../../shared/components';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useOrderStore } from '../../../store/order-store';
+import { usePayoutStore } from '../../../store/payout-store';
+import { useReturnsStore } from '../../../store/returns-store';
+import { useSlaStore } from '../../../store/sla-store';
+import { useVendorStore } from '../../../store/vendor-store';
+import { buildEscrowSchedule, toVendorWallet } from '../../../lib/escrow-scheduler';
+import {
+  buildPayoutBatch, groupTransfersByBank, pendingRefundsFrom, getBatchTotal, nextPayoutBatchDate, payoutBatchToCsv,
+  type PayoutBatch, type PayoutSkipReason, type PayoutTransfer, PayoutBatchError,
+} from '../../../lib/payout-batches';
+import { mockVendors } from '../../../lib/mock-data-extended';
+
+const skipLabels: Record<PayoutSkipReason, string> = {
+  below_threshold: 'أقل من الحد الأدنى',
+  missing_bank_details: 'لا توجد بيانات بنكية',
+  nothing_after_deductions: 'لا شيء بعد الخصومات',
+  vendor_inactive: 'المورد غير نشط',
+};
+
+const batchStatus: Record<PayoutBatch['status'], { label: string; variant: 'success' | 'warning' | 'info' }> = {
+  draft: { label: 'بانتظار الاعتماد', variant: 'warning' },
+  approved: { label: 'معتمد — جارٍ التحويل', variant: 'info' },
+  completed: { label: 'مكتمل', variant: 'success' },
+};
+
+function transferBadge(transfer: PayoutTransfer) {
+  if (transfer.reversedAt) return <Badge variant="neutral">مُعاد للمحفظة</Badge>;
+  if (transfer.status === 'sent') return <Badge variant="success">تم التحويل</Badge>;
+  if (transfer.status === 'failed') return <Badge variant="danger">فشل التحويل</Badge>;
+  return <Badge variant="info">في الانتظار</Badge>;
+}
+
+const vendorName = (vendorId: string) => mockVendors.find(v => v.id === vendorId)?.businessNameAr ?? vendorId;
+
+function downloadCsv(batch: PayoutBatch, bankName: string) {
+  const blob = new Blob([payoutBatchToCsv(batch, bankName)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${batch.id}-${bankName.replace(/\s+/g, '-')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function PayoutBatchesPanel() {
+  const { getEscrowConfig, getVendorSlaConfig } = useAdminConfigStore();
+  const { batches, saveDraft, discardDraft, approveBatch, markSent, markFailed, reverseTransfer, getWithdrawn } = usePayoutStore();
+  const { vendors } = useVendorStore();
+  const { wastedTrips } = useSlaStore();
+  const { settlements } = useReturnsStore();
+  const { escrowShipments } = useOrderStore();
+  const [error, setError] = useState<string | null>(null);
+  const escrow = getEscrowConfig();
+  const calendar = { holidays: escrow.publicHolidays };
+  const payoutDate = nextPayoutBatchDate(new Date(), calendar);
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof PayoutBatchError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  const draftBatch = () => {
+    const wallets = buildEscrowSchedule(escrowShipments, {
+      holdDays: escrow.holdDays,
+      calendar,
+    }).map(t => toVendorWallet(t, getWithdrawn(t.vendorId)));
+
+    // Vendors in account review are skipped as inactive
+    saveDraft(buildPayoutBatch(wallets, vendors, {
+      payoutDate,
+      createdAt: new Date().toISOString(),
+      threshold: escrow.minimumPayoutThreshold,
+      wastedTripFee: getVendorSlaConfig().wastedTripFee,
+      wastedTrips,
+      pendingRefunds: pendingRefundsFrom(settlements),
+      previousBatches: batches,
+    }));
+  };
+
+  const hasBatchForDate = batches.some(b => b.payoutDate === payoutDate && b.status !== 'draft');
+
+  return (
+    <div className="card p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-earth-800">دفعات التحويل الأسبوعية</h3>
+          <p className="text-xs text-earth-500">
+            الدفعة القادمة: {formatDate(payoutDate)} — الحد الأدنى {formatMoney(escrow.minimumPayoutThreshold)}
+          </p>
+        </div>
+        <button onClick={draftBatch} disabled={hasBatchForDate} className="btn-primary disabled:opacity-50">
+          إعداد دفعة الأسبوع
+        </button>
+      </div>
+
+      {error && <div className="p-2 rounded-lg bg-red-50 text-xs text-red-700">{error}</div>}
+
+      {[...batches].reverse().map(batch => (
+        <div key={batch.id} className="border border-earth-100 rounded-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-xs text-earth-500">{batch.id}</span>
+              <Badge variant={batchStatus[batch.status].variant}>{batchStatus[batch.status].label}</Badge>
+              {batch.approvedBy && <span className="text-[11px] text-earth-400">اعتمدها {batch.approvedBy}</span>}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-bold text-earth-800">{formatMoney(getBatchTotal(batch))}</span>
+              {batch.status === 'draft' && (
+                <>
+                  <button onClick={() => run(() => approveBatch(batch.id, 'كريم مطاط'))} className="btn-primary text-xs">
+                    اعتماد
+                  </button>
+                  <button onClick={() => discardDraft(batch.id)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-xs text-earth-600 hover:bg-earth-100">
+                    إلغاء المسودة
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {groupTransfersByBank(batch).map(group => (
+            <div key={group.bankName} className="table-container">
+              <div className="flex items-center justify-between px-3 py-2 bg-earth-50 text-xs">
+                <span className="font-medium text-earth-700 dir-ltr">{group.bankName}</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-earth-600">{group.transfers.length} تحويل · {formatMoney(group.total)}</span>
+                  {batch.status !== 'draft' && (
+                    <button onClick={() => downloadCsv(batch, group.bankName)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-earth-600 hover:bg-earth-100">
+                      ملف البنك CSV
+                    </button>
+                  )}
+                </div>
+              </div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>المورد</th>
+                    <th>المتاح</th>
+                    <th>الخصومات</th>
+                    <th>صافي التحويل</th>
+                    <th>الحالة</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.transfers.map(transfer => (
+                    <tr key={transfer.id}>
+                      <td className="text-sm text-earth-800">
+                        {vendorName(transfer.vendorId)}
+                        <span className="block text-[10px] text-earth-400 dir-ltr">{transfer.bankAccountNumber}</span>
+                      </td>
+                      <td className="text-earth-600">{formatMoney(transfer.available)}</td>
+                      <td className="text-xs text-red-600">
+                        {transfer.deductions.length === 0 ? '—' : transfer.deductions.map(d => (
+                          <span key={`${d.kind}-${d.reference}`} className="block">
+                            {d.kind === 'wasted_trip' ? 'رحلة ضائعة' : 'استرداد معلق'} {d.reference}: −{formatMoney(d.amount)}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="font-bold text-nile-600">{formatMoney(transfer.amount)}</td>
+                      <td>
+                        {transferBadge(transfer)}
+                        {transfer.failureReason && <span className="block text-[10px] text-red-500">{transfer.failureReason}</span>}
+                      </td>
+                      <td className="text-xs">
+                        {batch.status !== 'draft' && transfer.status === 'queued' && (
+                          <div className="flex gap-1">
+                            <button onClick={() => run(() => markSent(batch.id, transfer.id))} className="px-2 py-1 rounded-lg bg-nile-50 text-nile-700">
+                              تم
+                            </button>
+                            <button onClick={() => run(() => markFailed(batch.id, transfer.id, 'رفض البنك'))} className="px-2 py-1 rounded-lg bg-red-50 text-red-700">
+                              فشل
+                            </button>
+                          </div>
+                        )}
+                        {transfer.status === 'failed' && !transfer.reversedAt && (
+                          <button onClick={() => run(() => reverseTransfer(batch.id, transfer.id))} className="px-2 py-1 rounded-lg bg-amber-50 text-amber-700">
+                            إعادة للمحفظة
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          {batch.skipped.length > 0 && (
+            <div className="text-[11px] text-earth-500 space-y-0.5">
+              {batch.skipped.map(s => (
+                <p key={s.vendorId}>
+                  لم يُدرج {vendorName(s.vendorId)} ({formatMoney(s.available)}): {skipLabels[s.reason]}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * AROOBA — Vendor Statements Component
+ *
+ * Monthly statement of account per vendor (lib/vendor-statements.ts),
+ * built from the escrow timeline and payout batches VendorWalletsTable
+ * uses and the order lines priced as in FinanceWaterfall. Printable
+ * bilingual HTML (save as PDF) or CSV.
+ */
+
+import { useState } from 'react';
+import { formatMoney } from '../../shared/components';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useOrderStore } from '../../../store/order-store';
+import { usePayoutStore } from '../../../store/payout-store';
+import { useProductStore } from '../../../store/product-store';
+import { buildEscrowSchedule } from '../../../lib/escrow-scheduler';
+import {
+  buildVendorStatement, monthPeriod, priceDeliveredItems, renderVendorStatementHtml, vendorStatementToCsv,
+  STATEMENT_ENTRY_LABELS, type VendorStatement,
+} from '../../../lib/vendor-statements';
+import { mockEscrowShipmentItems, mockEscrowAsOf, mockVendors, mockVendorDirectory } from '../../../lib/mock-data-extended';
+
+function printStatement(statement: VendorStatement) {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(renderVendorStatementHtml(statement));
+  win.document.close();
+  win.print();
+}
+
+function downloadCsv(statement: VendorStatement) {
+  const blob = new Blob([vendorStatementToCsv(statement)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `statement-${statement.vendorId}-${statement.period.from.slice(0, 7)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function VendorStatementsPanel() {
+  const { getEscrowConfig, getDynamicPricingConfig } = useAdminConfigStore();
+  const { batches } = usePayoutStore();
+  const { products } = useProductStore();
+  const { orders, escrowShipments } = useOrderStore();
+  const escrow = getEscrowConfig();
+  const vendors = mockVendors.filter(v => escrowShipments.some(s => s.vendorId === v.id));
+  const [vendorId, setVendorId] = useState(vendors[0]?.id ?? '');
+  const [month, setMonth] = useState(mockEscrowAsOf.slice(0, 7));
+
+  const vendor = vendors.find(v => v.id === vendorId);
+  if (!vendor) return null;
+
+  const timeline = buildEscrowSchedule(escrowShipments, {
+    holdDays: escrow.holdDays,
+    calendar: { holidays: escrow.publicHolidays },
+  }).find(t => t.vendorId === vendor.id);
+  // Seeded shipments list their items; deliveries made here take them from the order
+  const shipmentItems = (shipmentId: string, orderId: string, pickupLocationId: string) => mockEscrowShipmentItems[shipmentId]
+    ?? (orders.find(o => o.id === orderId)?.items ?? [])
+      .filter(i => i.vendorId === vendor.id && i.pickupLocationId === pickupLocationId)
+      .map(i => ({ productId: i.productId, quantity: i.quantity }));
+  const delivered = escrowShipments
+    .filter(s => s.vendorId === vendor.id && s.shipment.actualDeliveryDate)
+    .map(s => ({
+      shipmentId: s.shipment.id,
+      orderId: s.shipment.orderId,
+      deliveredAt: s.shipment.actualDeliveryDate!,
+      items: shipmentItems(s.shipment.id, s.shipment.orderId, s.shipment.pickupLocationId),
+    }));
+
+  const statement = buildVendorStatement({
+    vendor,
+    directory: mockVendorDirectory,
+    period: monthPeriod(month),
+    generatedAt: new Date().toISOString(),
+    timeline,
+    sales: priceDeliveredItems(delivered, products, mockVendorDirectory, vendor.id, getDynamicPricingConfig),
+    batches,
+  });
+  const { opening, closing, totals } = statement;
+
+  return (
+    <div className="card p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-bold text-earth-800">كشوف حساب الموردين</h3>
+          <p className="text-xs text-earth-500">كشف شهري بالمبيعات والخصومات والتحويلات</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={vendorId} onChange={e => setVendorId(e.target.value)} className="input text-xs w-44">
+            {vendors.map(v => <option key={v.id} value={v.id}>{v.businessNameAr}</option>)}
+          </select>
+          <input type="month" value={month} onChange={e => e.target.value && setMonth(e.target.value)} className="input text-xs w-36 dir-ltr" />
+          <button onClick={() => printStatement(statement)} className="btn-primary text-xs">طباعة / PDF</button>
+          <button onClick={() => downloadCsv(statement)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-xs text-earth-600 hover:bg-earth-100">
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 text-xs">
+        <div className="p-3 rounded-lg bg-earth-50">
+          <p className="text-earth-400">الرصيد الافتتاحي</p>
+          <p className="text-amber-600">معلق: {formatMoney(opening.pending)}</p>
+          <p className="text-nile-600 font-bold">متاح: {formatMoney(opening.available)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-earth-50">
+          <p className="text-earth-400">المبيعات (أ + ب)</p>
+          <p className="font-bold text-earth-800">{formatMoney(totals.bucketA)} + {formatMoney(totals.bucketB)}</p>
+          {statement.cooperative && (
+            <p className="text-earth-500">رسوم {statement.cooperative.nameAr}: {formatMoney(totals.cooperativeFees)}</p>
+          )}
+        </div>
+        <div className="p-3 rounded-lg bg-earth-50">
+          <p className="text-earth-400">الخصومات والتحويلات</p>
+          <p className="text-red-600">استرداد: {formatMoney(totals.refunds)} · رحلات ضائعة: {formatMoney(totals.wastedTrips)}</p>
+          <p className="text-earth-700">تحويلات: {formatMoney(totals.payouts)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-nile-50">
+          <p className="text-earth-400">الرصيد الختامي</p>
+          <p className="text-amber-600">معلق: {formatMoney(closing.pending)}</p>
+          <p className="text-nile-700 font-bold">متاح: {formatMoney(closing.available)}</p>
+        </div>
+      </div>
+
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              <th>التاريخ</th>
+              <th>النوع</th>
+              <th>البيان</th>
+              <th>معلق</th>
+              <th>متاح</th>
+            </tr>
+          </thead>
+          <tbody>
+            {statement.entries.length === 0 && (
+              <tr><td colSpan={5} className="text-center text-xs text-earth-400">لا توجد حركات في هذه الفترة</td></tr>
+            )}
+            {statement.entries.map(entry => (
+              <tr key={`${entry.kind}-${entry.reference}-${entry.date}`}>
+                <td className="text-xs dir-ltr">{entry.date}</td>
+                <td className="text-xs">{STATEMENT_ENTRY_LABELS[entry.kind].ar}</td>
+                <td className="text-xs text-earth-600">{entry.descriptionAr}</td>
+                <td className="text-amber-600">{entry.pending.piastres !== 0 && formatMoney(entry.pending)}</td>
+                <td className="text-nile-600">{entry.available.piastres !== 0 && formatMoney(entry.available)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {statement.subVendors.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {statement.subVendors.map(sv => (
+            <div key={sv.subVendorId} className="p-3 rounded-lg border border-earth-100 text-xs space-y-1">
+              <p className="font-medium text-earth-800 text-sm">{sv.nameAr} <span className="text-earth-400">({sv.quantity} قطعة)</span></p>
+              <p className="text-earth-600">مستحق للمورد الفرعي: <span className="font-bold">{formatMoney(sv.subVendorShare)}</span></p>
+              <p className="text-earth-500">حصة {vendor.businessNameAr}: {formatMoney(sv.parentShare)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,65 +1,147 @@
 /**
  * AROOBA — Finance Wallets Table Component
+ *
+ * Pending / available balances come from the escrow schedule
+ * (lib/escrow-scheduler.ts) of the order store's delivered shipments,
+ * less what payout batches have withdrawn.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Badge, formatMoney } from '../../shared/components';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useOrderStore } from '../../../store/order-store';
+import { usePayoutStore } from '../../../store/payout-store';
+import { buildEscrowSchedule, toVendorWallet, type EscrowEventType } from '../../../lib/escrow-scheduler';
 
-const vendorWallets = [
-  { vendor: 'خزفيات حسن', total: 45200, pending: 12800, available: 32400, pendingDays: 8 },
-  { vendor: 'سيوة للمنسوجات', total: 78500, pending: 28000, available: 50500, pendingDays: 3 },
-  { vendor: 'يدوية نادية', total: 8700, pending: 3200, available: 5500, pendingDays: 11 },
-  { vendor: 'جلود خان الخليلي', total: 125000, pending: 45000, available: 80000, pendingDays: 6 },
-];
+const vendorNames: Record<string, string> = {
+  'v-001': 'خزفيات حسن',
+  'v-002': 'سيوة للمنسوجات',
+  'v-003': 'يدوية نادية',
+  'v-004': 'جلود خان الخليلي',
+};
+
+const eventLabels: Record<EscrowEventType, { label: string; variant: 'success' | 'warning' | 'danger' | 'info' | 'neutral' }> = {
+  held: { label: 'تم التسليم — بدء الضمان', variant: 'neutral' },
+  paused: { label: 'إيقاف (طلب إرجاع)', variant: 'warning' },
+  resumed: { label: 'استئناف الضمان', variant: 'info' },
+  released: { label: 'متاح للسحب', variant: 'success' },
+  forfeited: { label: 'مسترد للعميل', variant: 'danger' },
+};
 
 export function VendorWalletsTable() {
+  const { getEscrowConfig } = useAdminConfigStore();
+  const escrow = getEscrowConfig();
+  const { getWithdrawn } = usePayoutStore();
+  const { escrowShipments } = useOrderStore();
+  const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null);
+
+  const timelines = buildEscrowSchedule(escrowShipments, {
+    holdDays: escrow.holdDays,
+    calendar: { holidays: escrow.publicHolidays },
+  });
+  const selected = timelines.find(t => t.vendorId === selectedVendorId);
+
   return (
-    <div className="table-container">
-      <table>
-        <thead>
-          <tr>
-            <th>المورد</th>
-            <th>الرصيد الكلي</th>
-            <th>معلق (ضمان)</th>
-            <th>قابل للسحب</th>
-            <th>أيام متبقية</th>
-            <th>الحالة</th>
-          </tr>
-        </thead>
-        <tbody>
-          {vendorWallets.map((wallet) => (
-            <tr key={wallet.vendor}>
-              <td>
-                <div className="flex items-center gap-2">
-                  <div className="w-8 h-8 rounded-lg bg-arooba-100 text-arooba-600 flex items-center justify-center text-xs font-bold">
-                    {wallet.vendor.charAt(0)}
-                  </div>
-                  <span className="font-medium text-earth-800 text-sm">{wallet.vendor}</span>
-                </div>
-              </td>
-              <td className="font-medium text-earth-800">{formatMoney(wallet.total)}</td>
-              <td className="text-amber-600 font-medium">{formatMoney(wallet.pending)}</td>
-              <td className="text-nile-600 font-bold">{formatMoney(wallet.available)}</td>
-              <td>
-                <div className="flex items-center gap-1.5">
-                  <div className="w-16 h-1.5 bg-earth-100 rounded-full overflow-hidden">
-                    <div
-                      className="h-full bg-arooba-500 rounded-full"
-                      style={{ width: `${((14 - wallet.pendingDays) / 14) * 100}%` }}
-                    />
-                  </div>
-                  <span className="text-xs text-earth-500">{wallet.pendingDays} يوم</span>
-                </div>
-              </td>
-              <td>
-                <Badge variant={wallet.available >= 500 ? 'success' : 'warning'}>
-                  {wallet.available >= 500 ? 'جاهز للسحب' : 'أقل من الحد'}
-                </Badge>
-              </td>
+    <div className="space-y-4">
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              <th>المورد</th>
+              <th>الرصيد الكلي</th>
+              <th>معلق (ضمان)</th>
+              <th>قابل للسحب</th>
+              <th>الإفراج القادم</th>
+              <th>الحالة</th>
             </tr>
-          ))}
-        </tbody>
-      </table>
+          </thead>
+          <tbody>
+            {timelines.map((timeline) => {
+              const wallet = toVendorWallet(timeline, getWithdrawn(timeline.vendorId));
+              const vendor = vendorNames[timeline.vendorId] ?? timeline.vendorId;
+              const next = timeline.entries.find(e => e.releaseDate === timeline.nextReleaseDate && e.status === 'pending');
+              const paused = timeline.entries.filter(e => e.status === 'paused').length;
+              const isReady = wallet.availableBalance >= escrow.minimumPayoutThreshold;
+              return (
+                <tr
+                  key={timeline.vendorId}
+                  onClick={() => setSelectedVendorId(timeline.vendorId === selectedVendorId ? null : timeline.vendorId)}
+                  className="cursor-pointer"
+                >
+                  <td>
+                    <div className="flex items-center gap-2">
+                      <div className="w-8 h-8 rounded-lg bg-arooba-100 text-arooba-600 flex items-center justify-center text-xs font-bold">
+                        {vendor.charAt(0)}
+                      </div>
+                      <span className="font-medium text-earth-800 text-sm">{vendor}</span>
+                    </div>
+                  </td>
+                  <td className="font-medium text-earth-800">{formatMoney(wallet.totalBalance)}</td>
+                  <td className="text-amber-600 font-medium">
+                    {formatMoney(wallet.pendingBalance)}
+                    {paused > 0 && <span className="block text-[10px] text-red-500">{paused} موقوف (إرجاع)</span>}
+                  </td>
+                  <td className="text-nile-600 font-bold">{formatMoney(wallet.availableBalance)}</td>
+                  <td>
+                    {next ? (
+                      <div className="flex items-center gap-1.5">
+                        <div className="w-16 h-1.5 bg-earth-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-arooba-500 rounded-full"
+                            style={{ width: `${Math.max(0, ((escrow.holdDays - next.daysRemaining) / escrow.holdDays) * 100)}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-earth-500">
+                          {next.daysRemaining} يوم · {formatMoney(timeline.nextReleaseAmount)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-earth-400">—</span>
+                    )}
+                  </td>
+                  <td>
+                    <Badge variant={isReady ? 'success' : 'warning'}>
+                      {isReady ? 'جاهز للسحب' : 'أقل من الحد'}
+                    </Badge>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="card p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-bold text-earth-800">
+              سجل الضمان — {vendorNames[selected.vendorId] ?? selected.vendorId}
+            </h4>
+            {selected.forfeitedTotal.piastres > 0 && (
+              <span className="text-xs text-red-600">مسترد للعملاء: {formatMoney(selected.forfeitedTotal)}</span>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            {selected.events.map((event, i) => (
+              <div
+                key={`${event.shipmentId}-${event.type}-${i}`}
+                className={`flex items-center justify-between text-xs p-2 rounded-lg ${event.projected ? 'bg-earth-50 opacity-70' : 'bg-white'}`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="font-mono text-earth-500 dir-ltr">{event.date}</span>
+                  <Badge variant={eventLabels[event.type].variant}>{eventLabels[event.type].label}</Badge>
+                  <span className="font-mono text-earth-400">{event.shipmentId}</span>
+                  {event.projected && <span className="text-earth-400">(مجدول)</span>}
+                </div>
+                <span className="font-medium text-earth-800">{formatMoney(event.amount)}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-earth-400 mt-3">
+            فترة الضمان {escrow.holdDays} يوم — لا يتم الإفراج يوم الجمعة أو في العطلات الرسمية، ويتوقف العد أثناء طلبات الإرجاع.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
@@ -10,93 +10,69 @@
  * Orders can be "split" across multiple vendors/locations.
  * A single customer order might create 2-3 separate shipments
  * from different pickup points. Each shipment has its own
- * tracking number and delivery fee.
+ * tracking number and delivery fee, and moves on its own — the
+ * order status follows from them (partially shipped / delivered /
+ * returned).
  * 
  * KEY CHALLENGES:
  * 1. Split shipments need transparent fee presentation
  * 2. COD handling — courier must deposit within 48 hours
  * 3. "Rejected - Shipping Refusal" is a major COD market issue
+ * 4. Made-to-order items must be finished in time to keep the
+ *    delivery promise — late production is flagged early
  * ============================================================
  */
 
 import React, { useState } from 'react';
 import { StatCard, Badge, SectionHeader, formatMoney, formatDate } from '../../shared/components';
-import type { Order, OrderStatus } from '../../shared/types';
-
-// Sample orders data
-const sampleOrders: Order[] = [
-  {
-    id: 'ORD-20251203-001', customerId: 'c-001', customerName: 'أحمد محمد',
-    items: [{
-      id: 'oi-001', productId: 'p-001', productTitle: 'فازة سيراميك مرسومة يدوياً',
-      productImage: '', vendorId: 'v-001', vendorName: 'خزفيات حسن', quantity: 2,
-      unitPrice: 130, totalPrice: 260, pickupLocationId: 'loc-001',
-      bucketA_vendorRevenue: 200, bucketB_vendorVat: 28, bucketC_aroobaRevenue: 50,
-      bucketD_aroobaVat: 7, bucketE_logisticsFee: 45,
-    }],
-    subtotal: 260, totalDeliveryFee: 45, totalAmount: 305, paymentMethod: 'cod',
-    deliveryAddress: 'شارع التحرير، وسط البلد', deliveryCity: 'القاهرة', deliveryZoneId: 'cairo',
-    shipments: [{
-      id: 'SH-001-A', orderId: 'ORD-20251203-001', pickupLocationId: 'loc-001',
-      trackingNumber: 'SC-2025-78901', courierProvider: 'SmartCom', deliveryFee: 45,
-      codAmountDue: 305, status: 'in_transit', estimatedDeliveryDate: '2025-12-06',
-    }],
-    status: 'in_transit', createdAt: '2025-12-03T14:30:00Z', updatedAt: '2025-12-04T09:00:00Z',
-  },
-  {
-    id: 'ORD-20251202-015', customerId: 'c-002', customerName: 'سارة عبدالله',
-    items: [
-      {
-        id: 'oi-002', productId: 'p-004', productTitle: 'حقيبة ماسنجر جلد طبيعي',
-        productImage: '', vendorId: 'v-004', vendorName: 'جلود خان الخليلي', quantity: 1,
-        unitPrice: 660, totalPrice: 660, pickupLocationId: 'loc-004',
-        bucketA_vendorRevenue: 550, bucketB_vendorVat: 77, bucketC_aroobaRevenue: 110,
-        bucketD_aroobaVat: 15.4, bucketE_logisticsFee: 35,
-      },
-      {
-        id: 'oi-003', productId: 'p-005', productTitle: 'صابون زيت زيتون طبيعي',
-        productImage: '', vendorId: 'v-003', vendorName: 'يدوية نادية', quantity: 3,
-        unitPrice: 55, totalPrice: 165, pickupLocationId: 'loc-003',
-        bucketA_vendorRevenue: 90, bucketB_vendorVat: 0, bucketC_aroobaRevenue: 64.5,
-        bucketD_aroobaVat: 9.03, bucketE_logisticsFee: 40,
-      },
-    ],
-    subtotal: 825, totalDeliveryFee: 75, totalAmount: 900, paymentMethod: 'fawry',
-    deliveryAddress: 'كورنيش النيل، المعادي', deliveryCity: 'القاهرة', deliveryZoneId: 'cairo',
-    shipments: [
-      { id: 'SH-015-A', orderId: 'ORD-20251202-015', pickupLocationId: 'loc-004', trackingNumber: 'SC-2025-78910', courierProvider: 'SmartCom', deliveryFee: 35, codAmountDue: 0, status: 'delivered', estimatedDeliveryDate: '2025-12-04', actualDeliveryDate: '2025-12-04' },
-      { id: 'SH-015-B', orderId: 'ORD-20251202-015', pickupLocationId: 'loc-003', trackingNumber: 'SC-2025-78911', courierProvider: 'SmartCom', deliveryFee: 40, codAmountDue: 0, status: 'delivered', estimatedDeliveryDate: '2025-12-04', actualDeliveryDate: '2025-12-04' },
-    ],
-    status: 'delivered', createdAt: '2025-12-02T11:00:00Z', updatedAt: '2025-12-04T16:00:00Z',
-  },
-  {
-    id: 'ORD-20251201-042', customerId: 'c-003', customerName: 'محمد حسين',
-    items: [{
-      id: 'oi-004', productId: 'p-002', productTitle: 'سجادة كليم سيوة مطرزة',
-      productImage: '', vendorId: 'v-002', vendorName: 'سيوة للمنسوجات', quantity: 1,
-      unitPrice: 1800, totalPrice: 1800, pickupLocationId: 'loc-002',
-      bucketA_vendorRevenue: 1500, bucketB_vendorVat: 210, bucketC_aroobaRevenue: 300,
-      bucketD_aroobaVat: 42, bucketE_logisticsFee: 85,
-    }],
-    subtotal: 1800, totalDeliveryFee: 85, totalAmount: 1885, paymentMethod: 'cod',
-    deliveryAddress: 'شارع الهرم، الجيزة', deliveryCity: 'الجيزة', deliveryZoneId: 'cairo',
-    shipments: [{
-      id: 'SH-042-A', orderId: 'ORD-20251201-042', pickupLocationId: 'loc-002',
-      courierProvider: 'SmartCom', deliveryFee: 85, codAmountDue: 1885, status: 'pending',
-      estimatedDeliveryDate: '2025-12-05',
-    }],
-    status: 'pending', createdAt: '2025-12-01T09:00:00Z', updatedAt: '2025-12-01T09:00:00Z',
-  },
-];
-
-const STATUS_FLOW: OrderStatus[] = ['pending', 'accepted', 'ready_to_ship', 'in_transit', 'delivered'];
-
-const statusConfig: Record<string, { label: string; variant: 'pending' | 'info' | 'warning' | 'success' | 'danger' | 'neutral' }> = {
+import type { Order, OrderItem, OrderStatus, ProductionStage, Shipment } from '../../shared/types';
+import { mockVendors } from '../../../lib/mock-data-extended';
+import { useAppStore } from '../../../store/app-store';
+import { useOrderStore } from '../../../store/order-store';
+import { useAdminConfigStore } from '../../../store/admin-config-store';
+import { useSlaStore } from '../../../store/sla-store';
+import { useCodReconciliationStore } from '../../../store/cod-reconciliation-store';
+import { RETURNS, SHIPPING } from '../../../config/constants';
+import { useReturnsStore } from '../../../store/returns-store';
+import { CodReconciliationError } from '../../../lib/cod-reconciliation';
+import { LedgerError } from '../../../lib/ledger';
+import { InventoryError } from '../../../lib/inventory';
+import {
+  PRODUCTION_RISK_LABELS,
+  PRODUCTION_STAGE_LABELS,
+  ProductionError,
+  assessProduction,
+  getProductionRisks,
+  promiseShipment,
+} from '../../../lib/fulfilment-schedule';
+import { OrderTransitionError, getAvailableTransitions, orderActorForRole, type OrderTransitionDefinition } from '../../../lib/order-state-machine';
+import { ReturnError, allowedRefundMethods, returnedQuantities, type ReturnReason, type RefundMethod } from '../../../lib/returns';
+import {
+  SHIPMENT_FLOW,
+  getShipmentDelayDays,
+  hasDelayedShipment,
+  deliveredItems,
+  shipmentFlowIndex,
+} from '../../../lib/shipment-tracking';
+import { SlaError, getOrderSla } from '../../../lib/sla-engine';
+import {
+  generateOrderDocuments,
+  renderTaxDocumentHtml,
+  toEtaDocument,
+  TAX_DOCUMENT_TITLES,
+  TaxDocumentError,
+  type TaxDocument,
+} from '../../../lib/tax-documents';
+
+const statusConfig: Record<OrderStatus, { label: string; variant: 'pending' | 'info' | 'warning' | 'success' | 'danger' | 'neutral' }> = {
   pending: { label: 'قيد الانتظار', variant: 'pending' },
   accepted: { label: 'مقبول', variant: 'info' },
   ready_to_ship: { label: 'جاهز للشحن', variant: 'warning' },
+  partially_shipped: { label: 'شُحن جزئياً', variant: 'warning' },
   in_transit: { label: 'في الطريق', variant: 'info' },
+  partially_delivered: { label: 'سُلّم جزئياً', variant: 'info' },
   delivered: { label: 'تم التسليم', variant: 'success' },
+  partially_returned: { label: 'مُرتجع جزئياً', variant: 'warning' },
   returned: { label: 'مُرتجع', variant: 'danger' },
   cancelled: { label: 'ملغي', variant: 'danger' },
   rejected_shipping: { label: 'رفض استلام', variant: 'danger' },
@@ -109,25 +85,586 @@ const paymentLabels: Record<string, string> = {
   wallet: 'محفظة',
 };
 
+const refundMethodLabels: Record<RefundMethod, string> = {
+  cod_cash: 'نقداً عبر المندوب',
+  fawry: 'استرداد عبر فوري',
+  card_reversal: 'عكس عملية البطاقة',
+  wallet_credit: 'رصيد في محفظة عروبة',
+};
+
+/** Hours and minutes left on an SLA, e.g. "5س 12د". */
+function formatRemaining(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  return `${Math.floor(minutes / 60)}س ${minutes % 60}د`;
+}
+
+function printDocument(doc: TaxDocument) {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(renderTaxDocumentHtml(doc));
+  win.document.close();
+  win.print();
+}
+
+function downloadEtaJson(doc: TaxDocument) {
+  const blob = new Blob([JSON.stringify(toEtaDocument(doc), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${doc.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Receipt, vendor VAT invoices and commission invoices; credit notes for every settled return. */
+function TaxDocumentsPanel({ order }: { order: Order }) {
+  const { getOrderReturns } = useReturnsStore();
+  let documents: TaxDocument[];
+  try {
+    documents = generateOrderDocuments(order, mockVendors);
+  } catch (e) {
+    if (!(e instanceof TaxDocumentError)) throw e;
+    return (
+      <div className="px-4 pb-4">
+        <p className="text-xs font-semibold text-earth-500 mb-3">🧾 المستندات الضريبية</p>
+        <p className="text-[11px] text-red-600">{e.message}</p>
+      </div>
+    );
+  }
+  const creditNotes = getOrderReturns(order.id).flatMap(s => s.creditNotes);
+
+  return (
+    <div className="px-4 pb-4">
+      <p className="text-xs font-semibold text-earth-500 mb-3">🧾 المستندات الضريبية</p>
+      <div className="space-y-1.5">
+        {[...documents, ...creditNotes].map((doc) => (
+          <div
+            key={doc.id}
+            className={`flex items-center gap-3 p-2 rounded-lg text-xs ${doc.kind === 'credit_note' ? 'bg-red-50' : 'bg-earth-50'}`}
+          >
+            <span className="font-medium text-earth-800 w-40">
+              {doc.kind === 'credit_note' && doc.creditedKind
+                ? `${TAX_DOCUMENT_TITLES.credit_note.ar} — ${TAX_DOCUMENT_TITLES[doc.creditedKind].ar}`
+                : TAX_DOCUMENT_TITLES[doc.kind].ar}
+            </span>
+            <span className="font-mono text-earth-400 dir-ltr flex-1">{doc.id}</span>
+            <span className="text-earth-500">ض.ق.م {formatMoney(doc.vatTotal)}</span>
+            <span className={`font-bold ${doc.kind === 'credit_note' ? 'text-red-600' : 'text-earth-800'}`}>
+              {doc.kind === 'credit_note' ? '−' : ''}{formatMoney(doc.total)}
+            </span>
+            <button onClick={() => printDocument(doc)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-earth-600 hover:bg-earth-100">
+              طباعة
+            </button>
+            <button onClick={() => downloadEtaJson(doc)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-earth-600 hover:bg-earth-100 dir-ltr">
+              ETA JSON
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Return request form plus the settlements already booked against the order. */
+function ReturnsPanel({ order }: { order: Order }) {
+  const { requests, processReturn, getOrderReturns } = useReturnsStore();
+  const methods = allowedRefundMethods(order);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState<ReturnReason>('defective');
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>(methods[0]);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const settlements = getOrderReturns(order.id);
+  const returned = returnedQuantities(requests.filter(r => r.orderId === order.id));
+  const remaining = deliveredItems(order).filter(i => i.quantity > (returned[i.id] ?? 0));
+  const policy = RETURNS.reasons[reason];
+
+  const submit = () => {
+    try {
+      processReturn(order, {
+        items: Object.entries(quantities).map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        reason,
+        refundMethod,
+        note: note.trim() || undefined,
+      });
+      setQuantities({});
+      setNote('');
+      setError(null);
+    } catch (e) {
+      if (e instanceof OrderTransitionError) setError(e.messageAr);
+      else if (e instanceof ReturnError || e instanceof LedgerError || e instanceof InventoryError || e instanceof TaxDocumentError) setError(e.message);
+      else throw e;
+    }
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <p className="text-xs font-semibold text-earth-500 mb-3">↩️ المرتجعات</p>
+
+      {settlements.map(s => (
+        <div key={s.returnId} className="p-2 mb-1.5 rounded-lg bg-red-50 text-xs space-y-1">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-mono text-earth-500 dir-ltr">{s.returnId}</span>
+            <span className="text-earth-700">{RETURNS.reasons[s.reason].labelAr}</span>
+            <Badge variant={s.costBorneBy === 'vendor' ? 'warning' : 'info'} dot={false}>
+              {s.costBorneBy === 'vendor' ? 'التكلفة على المورد' : 'التكلفة على عروبة'}
+            </Badge>
+            <span className="text-earth-500">{refundMethodLabels[s.refundMethod]}</span>
+            <span className="font-bold text-red-600 mr-auto">−{formatMoney(s.customerRefund)}</span>
+          </div>
+          {s.lines.map(line => (
+            <p key={line.orderItemId} className="text-[11px] text-earth-500">
+              {order.items.find(i => i.id === line.orderItemId)?.productTitle} × {line.quantity} —
+              خصم حصة المورد {formatMoney(line.bucketA)} من {line.clawbackFrom === 'pending' ? 'الرصيد المعلق' : 'الرصيد المتاح'}
+            </p>
+          ))}
+        </div>
+      ))}
+
+      {remaining.length > 0 && (
+        <div className="p-3 rounded-xl bg-earth-50 border border-earth-100 space-y-2">
+          {remaining.map(item => (
+            <div key={item.id} className="flex items-center gap-3 text-xs">
+              <span className="flex-1 text-earth-700">{item.productTitle}</span>
+              <select
+                value={quantities[item.id] ?? 0}
+                onChange={e => setQuantities({ ...quantities, [item.id]: Number(e.target.value) })}
+                className="input text-xs w-20"
+              >
+                {Array.from({ length: item.quantity - (returned[item.id] ?? 0) + 1 }, (_, n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={reason} onChange={e => setReason(e.target.value as ReturnReason)} className="input text-xs w-44">
+              {(Object.keys(RETURNS.reasons) as ReturnReason[]).map(r => (
+                <option key={r} value={r}>{RETURNS.reasons[r].labelAr}</option>
+              ))}
+            </select>
+            <select value={refundMethod} onChange={e => setRefundMethod(e.target.value as RefundMethod)} className="input text-xs w-44">
+              {methods.map(m => <option key={m} value={m}>{refundMethodLabels[m]}</option>)}
+            </select>
+            <input value={note} onChange={e => setNote(e.target.value)} placeholder="ملاحظة" className="input text-xs flex-1 min-w-[8rem]" />
+            <button
+              onClick={submit}
+              disabled={!Object.values(quantities).some(q => q > 0)}
+              className="btn-primary text-xs disabled:opacity-50"
+            >
+              تسجيل المرتجع
+            </button>
+          </div>
+          <p className="text-[11px] text-earth-500">
+            شحن الإرجاع على {policy.costBorneBy === 'vendor' ? 'المورد' : 'عروبة'}
+            {policy.refundsDelivery ? ' — يُرد رسم التوصيل للعميل' : ' — لا يُرد رسم التوصيل'}
+          </p>
+          {error && <p className="text-[11px] text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The lifecycle steps the current user may take on this order, and
+ * nothing else. On split orders, pickup / delivery / refusal / return
+ * are offered per shipment.
+ */
+function OrderActions({ order }: { order: Order }) {
+  const { currentRole } = useAppStore();
+  const { transition } = useOrderStore();
+  const [pending, setPending] = useState<{ definition: OrderTransitionDefinition; shipmentId?: string } | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const actor = orderActorForRole(currentRole);
+  const isSplit = order.shipments.length > 1;
+  const orderActions = actor ? getAvailableTransitions(order, actor).filter(t => !isSplit || !t.perShipment) : [];
+  const shipmentActions = actor && isSplit
+    ? order.shipments
+      .map((shipment, idx) => ({ shipment, idx, actions: getAvailableTransitions(order, actor, shipment.id) }))
+      .filter(row => row.actions.length > 0)
+    : [];
+  if (!actor || (orderActions.length === 0 && shipmentActions.length === 0)) return null;
+
+  const run = (definition: OrderTransitionDefinition, shipmentId?: string, withReason?: string) => {
+    try {
+      transition(order.id, definition.action, { actor, reason: withReason, shipmentId });
+      setPending(null);
+      setReason('');
+      setError(null);
+    } catch (e) {
+      if (e instanceof OrderTransitionError) setError(e.messageAr);
+      else if (e instanceof LedgerError || e instanceof InventoryError) setError(e.message);
+      else throw e;
+    }
+  };
+
+  const actionButton = (definition: OrderTransitionDefinition, shipmentId?: string) => (
+    <button
+      key={definition.action}
+      onClick={() => (definition.requiresReason ? setPending({ definition, shipmentId }) : run(definition, shipmentId))}
+      className={definition.to === 'cancelled' || definition.to === 'rejected_shipping'
+        ? 'px-3 py-1.5 rounded-lg text-xs font-medium bg-red-50 text-red-700 hover:bg-red-100'
+        : 'btn-primary text-xs'}
+    >
+      {definition.labelAr}
+    </button>
+  );
+
+  return (
+    <div className="px-4 py-3 border-b border-earth-100 space-y-2">
+      {orderActions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-semibold text-earth-500">الإجراءات المتاحة:</span>
+          {orderActions.map(definition => actionButton(definition))}
+        </div>
+      )}
+      {shipmentActions.map(({ shipment, idx, actions }) => (
+        <div key={shipment.id} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-semibold text-earth-500">شحنة {idx + 1}</span>
+          <span className="font-mono text-[11px] text-earth-400 dir-ltr">{shipment.id}</span>
+          {actions.map(definition => actionButton(definition, shipment.id))}
+        </div>
+      ))}
+      {pending && (
+        <div className="flex items-center gap-2">
+          <input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder={`سبب "${pending.definition.labelAr}"${pending.shipmentId ? ` — ${pending.shipmentId}` : ''} (مطلوب)`}
+            className="input text-xs flex-1"
+          />
+          <button
+            onClick={() => run(pending.definition, pending.shipmentId, reason)}
+            disabled={!reason.trim()}
+            className="btn-primary text-xs disabled:opacity-50"
+          >
+            تأكيد
+          </button>
+          <button onClick={() => setPending(null)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-xs text-earth-600 hover:bg-earth-100">تراجع</button>
+        </div>
+      )}
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Made-to-order items in production: stage, progress against the due
+ * date, and the vendor's check-ins. Vendors and admins log new ones.
+ */
+function ProductionPanel({ order, today }: { order: Order; today: string }) {
+  const { currentRole } = useAppStore();
+  const { recordProductionCheckIn } = useOrderStore();
+  const { clock } = useSlaStore();
+  const actor = orderActorForRole(currentRole);
+  const canCheckIn = actor === 'vendor' || actor === 'admin';
+  const items = order.items.filter((i): i is OrderItem & { production: NonNullable<OrderItem['production']> } => !!i.production);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [stage, setStage] = useState<ProductionStage>('in_production');
+  const [progress, setProgress] = useState(0);
+  const [expected, setExpected] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const open = (item: typeof items[number]) => {
+    setEditing(item.id);
+    setStage(item.production.stage === 'awaiting_start' ? 'in_production' : item.production.stage);
+    setProgress(item.production.progressPercent);
+    setExpected(item.production.dueDate);
+    setNote('');
+    setError(null);
+  };
+
+  const submit = (itemId: string) => {
+    if (!actor) return;
+    try {
+      recordProductionCheckIn(order.id, itemId, {
+        actor,
+        at: clock().toISOString(),
+        stage,
+        progressPercent: progress,
+        expectedCompletionDate: expected || undefined,
+        note: note.trim() || undefined,
+      });
+      setEditing(null);
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof ProductionError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 border-b border-earth-100 space-y-2">
+      <p className="text-xs font-semibold text-earth-500">🧵 التصنيع حسب الطلب</p>
+      {items.map(item => {
+        const { production } = item;
+        const risk = assessProduction(item, today)!;
+        return (
+          <div key={item.id} className="p-3 rounded-xl bg-white border border-earth-100 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-bold text-earth-700">{item.productTitle} × {item.quantity}</span>
+              <Badge variant={production.stage === 'completed' ? 'success' : 'info'} dot={false}>{PRODUCTION_STAGE_LABELS[production.stage].ar}</Badge>
+              {risk.level !== 'on_track' && (
+                <Badge variant={risk.level === 'late' ? 'danger' : 'warning'} dot={false}>
+                  {risk.level === 'late' ? '🧵 إنتاج متأخر' : '⚠️ معرض للتأخير'}
+                </Badge>
+              )}
+              <span className="text-earth-500 mr-auto">الانتهاء قبل {formatDate(production.dueDate)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-2 rounded-full bg-earth-100 relative overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${risk.level === 'late' ? 'bg-red-500' : risk.level === 'at_risk' ? 'bg-amber-500' : 'bg-nile-500'}`}
+                  style={{ width: `${production.progressPercent}%` }}
+                />
+              </div>
+              <span className="text-xs font-bold text-earth-700 w-10 text-left">{production.progressPercent}٪</span>
+            </div>
+            {production.stage !== 'completed' && (
+              <p className="text-[11px] text-earth-500">
+                المخطط اليوم {risk.expectedProgressPercent}٪ • الانتهاء المتوقع {formatDate(risk.projectedCompletionDate)}
+                {risk.reasons.length > 0 && <span className="text-red-600"> — {risk.reasons.map(r => PRODUCTION_RISK_LABELS[r].ar).join('، ')}</span>}
+              </p>
+            )}
+            {production.checkIns.map(checkIn => (
+              <p key={checkIn.at} className="text-[11px] text-earth-500">
+                {formatDate(checkIn.at)} — {PRODUCTION_STAGE_LABELS[checkIn.stage].ar} {checkIn.progressPercent}٪
+                {checkIn.expectedCompletionDate && ` • يتوقع الانتهاء ${formatDate(checkIn.expectedCompletionDate)}`}
+                {checkIn.note && ` • ${checkIn.note}`}
+              </p>
+            ))}
+            {canCheckIn && production.stage !== 'completed' && (editing === item.id ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <select value={stage} onChange={e => setStage(e.target.value as ProductionStage)} className="input text-xs w-36">
+                  {(['in_production', 'finishing', 'completed'] as ProductionStage[]).map(s => (
+                    <option key={s} value={s}>{PRODUCTION_STAGE_LABELS[s].ar}</option>
+                  ))}
+                </select>
+                <input
+                  type="number" min={production.progressPercent} max={100} value={stage === 'completed' ? 100 : progress}
+                  disabled={stage === 'completed'}
+                  onChange={e => setProgress(Number(e.target.value))}
+                  className="input text-xs w-20"
+                />
+                <input type="date" value={expected} onChange={e => setExpected(e.target.value)} className="input text-xs w-36" />
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder="ملاحظة" className="input text-xs flex-1 min-w-[8rem]" />
+                <button onClick={() => submit(item.id)} className="btn-primary text-xs">تسجيل المتابعة</button>
+                <button onClick={() => setEditing(null)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-xs text-earth-600 hover:bg-earth-100">تراجع</button>
+              </div>
+            ) : (
+              <button onClick={() => open(item)} className="px-2 py-1 rounded-lg bg-white border border-earth-200 text-[11px] text-earth-600 hover:bg-earth-100">
+                + متابعة تصنيع
+              </button>
+            ))}
+          </div>
+        );
+      })}
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Each shipment's progress, with its courier, tracking number, delivery
+ * dates and COD due. Promised windows show how they were built. Admins can log a courier visit the vendor wasn't
+ * ready for (wasted-trip fee + strike), and book the courier for a
+ * shipment that has none — couriers frozen for COD only take prepaid ones.
+ */
+function ShipmentTimeline({ order, today }: { order: Order; today: string }) {
+  const { currentRole } = useAppStore();
+  const { reportWastedTrip } = useSlaStore();
+  const { bookCourier } = useOrderStore();
+  const frozenCouriers = useCodReconciliationStore().getFrozenCouriers();
+  const { maxDispatchHours } = useAdminConfigStore().getVendorSlaConfig();
+  const [error, setError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<{ courierProvider: string; trackingNumber: string }>({ courierProvider: '', trackingNumber: '' });
+  const canReportTrips = orderActorForRole(currentRole) === 'admin';
+
+  const book = (shipment: Shipment) => {
+    try {
+      bookCourier(order.id, shipment.id, { ...booking, actor: 'admin' });
+      setBooking({ courierProvider: '', trackingNumber: '' });
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof CodReconciliationError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  const wastedTrip = (shipment: Shipment) => {
+    try {
+      reportWastedTrip(order.id, shipment.id);
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof SlaError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 bg-earth-50/50 space-y-2">
+      <p className="text-xs font-semibold text-earth-500">📦 مسار الشحنات</p>
+      {order.shipments.length === 0 && <p className="text-xs text-earth-400">لم تُنشأ شحنات لهذا الطلب بعد</p>}
+      {order.shipments.map((shipment, idx) => {
+        const reached = shipmentFlowIndex(shipment.status);
+        const onFlow = SHIPMENT_FLOW.includes(shipment.status);
+        const delay = getShipmentDelayDays(shipment, today);
+        const promise = shipment.earliestDeliveryDate ? promiseShipment(order, shipment, { maxDispatchHours }) : null;
+        return (
+          <div key={shipment.id} className="p-3 rounded-xl bg-white border border-earth-100 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-bold text-earth-600">شحنة {idx + 1}</span>
+              <span className="font-mono text-[11px] text-earth-400 dir-ltr">{shipment.id}</span>
+              <Badge variant={statusConfig[shipment.status].variant}>{statusConfig[shipment.status].label}</Badge>
+              {delay > 0 && <Badge variant="danger" dot={false}>⏰ متأخرة {delay} يوم</Badge>}
+              {canReportTrips && shipment.courierProvider && shipmentFlowIndex(shipment.status) < SHIPMENT_FLOW.indexOf('in_transit') && onFlow && (
+                <button
+                  onClick={() => wastedTrip(shipment)}
+                  className="mr-auto px-2 py-1 rounded-lg bg-white border border-red-200 text-[11px] text-red-700 hover:bg-red-50"
+                >
+                  🚚 وصل المندوب والشحنة غير جاهزة
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              {SHIPMENT_FLOW.map((step, i) => {
+                const isComplete = i <= reached;
+                const isCurrent = onFlow && i === reached;
+                return (
+                  <React.Fragment key={step}>
+                    <div className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs ${
+                      isCurrent ? 'bg-arooba-100 text-arooba-700 font-bold' :
+                      isComplete ? 'bg-nile-100 text-nile-700' :
+                      'bg-earth-100 text-earth-400'
+                    }`}>
+                      {isComplete && !isCurrent ? '✓' : ''} {statusConfig[step].label}
+                    </div>
+                    {i < SHIPMENT_FLOW.length - 1 && (
+                      <div className={`w-6 h-0.5 ${isComplete ? 'bg-nile-400' : 'bg-earth-200'}`} />
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 text-xs">
+              <div>
+                <p className="text-earth-400">شركة الشحن</p>
+                <p className="text-earth-700">{shipment.courierProvider ?? '—'}</p>
+              </div>
+              <div>
+                <p className="text-earth-400">رقم التتبع</p>
+                <p className="text-earth-700 dir-ltr">{shipment.trackingNumber ?? 'لم يُحجز بعد'}</p>
+              </div>
+              <div>
+                <p className="text-earth-400">التسليم المتوقع</p>
+                <p className="text-earth-700">
+                  {shipment.earliestDeliveryDate && `${formatDate(shipment.earliestDeliveryDate)} – `}
+                  {shipment.estimatedDeliveryDate ? formatDate(shipment.estimatedDeliveryDate) : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-earth-400">التسليم الفعلي</p>
+                <p className={delay > 0 && shipment.actualDeliveryDate ? 'text-red-600' : 'text-earth-700'}>
+                  {shipment.actualDeliveryDate ? formatDate(shipment.actualDeliveryDate) : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-earth-400">التحصيل عند الاستلام</p>
+                <p className="font-bold text-earth-800">{shipment.codAmountDue.piastres > 0 ? formatMoney(shipment.codAmountDue) : 'مدفوع مسبقاً'}</p>
+              </div>
+              <div>
+                <p className="text-earth-400">رسوم التوصيل</p>
+                <p className="text-earth-700">{formatMoney(shipment.deliveryFee)}</p>
+              </div>
+            </div>
+            {canReportTrips && !shipment.trackingNumber && shipmentFlowIndex(shipment.status) < SHIPMENT_FLOW.indexOf('in_transit') && onFlow && (
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={booking.courierProvider}
+                  onChange={e => setBooking({ ...booking, courierProvider: e.target.value })}
+                  className="input text-xs w-40"
+                >
+                  <option value="">اختر شركة الشحن</option>
+                  {SHIPPING.couriers.map(courier => {
+                    const frozen = shipment.codAmountDue.piastres > 0 && frozenCouriers.includes(courier);
+                    return <option key={courier} value={courier} disabled={frozen}>{courier}{frozen ? ' (مجمدة للتحصيل)' : ''}</option>;
+                  })}
+                </select>
+                <input
+                  value={booking.trackingNumber}
+                  onChange={e => setBooking({ ...booking, trackingNumber: e.target.value })}
+                  placeholder="رقم التتبع"
+                  className="input text-xs w-40 dir-ltr"
+                />
+                <button
+                  onClick={() => book(shipment)}
+                  disabled={!booking.courierProvider || !booking.trackingNumber.trim()}
+                  className="btn-primary text-xs disabled:opacity-50"
+                >
+                  حجز المندوب
+                </button>
+              </div>
+            )}
+            {promise && (
+              <p className="text-[11px] text-earth-500">
+                🗓️ {promise.leadTimeDays > 0 && `إنتاج ${promise.leadTimeDays} يوم · `}
+                تجهيز {promise.dispatchDays} يوم · توصيل {promise.transitDays.min}-{promise.transitDays.max} يوم
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+}
+
 export function OrderManagement() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [delayedOnly, setDelayedOnly] = useState(false);
+  const [productionRiskOnly, setProductionRiskOnly] = useState(false);
   const [expandedOrder, setExpandedOrder] = useState<string | null>(null);
+  const { orders } = useOrderStore();
+  const [slaResult, setSlaResult] = useState<string | null>(null);
+  const { currentRole } = useAppStore();
+  const { clock, runSlaChecks } = useSlaStore();
+  const slaConfig = useAdminConfigStore().getVendorSlaConfig();
+  const now = clock();
+  const today = now.toISOString().slice(0, 10);
 
-  const filteredOrders = statusFilter === 'all'
-    ? sampleOrders
-    : sampleOrders.filter((o) => o.status === statusFilter);
+  // Cancelling orders and striking vendors is an admin decision, not a side effect of viewing
+  const handleRunSla = () => {
+    const { applied, failed } = runSlaChecks();
+    const cancelled = applied.filter(a => a.kind === 'cancel_order').length;
+    setSlaResult(applied.length + failed.length === 0
+      ? 'لا توجد طلبات تجاوزت مهلتها'
+      : `تم إلغاء ${cancelled} طلب وتسجيل ${applied.length - cancelled} مخالفة تأخير` +
+        (failed.length > 0 ? ` — تعذر تنفيذ ${failed.length} (راجع سجل التدقيق)` : ''));
+  };
 
-  const totalGmv = sampleOrders.reduce((sum, o) => sum + o.totalAmount, 0);
-  const codOrders = sampleOrders.filter((o) => o.paymentMethod === 'cod').length;
-  const deliveredOrders = sampleOrders.filter((o) => o.status === 'delivered').length;
+  const delayedCount = orders.filter((o) => hasDelayedShipment(o, today)).length;
+  const productionRiskCount = orders.filter((o) => getProductionRisks(o, today).length > 0).length;
+  const filteredOrders = orders
+    .filter((o) => statusFilter === 'all' || o.status === statusFilter)
+    .filter((o) => !delayedOnly || hasDelayedShipment(o, today))
+    .filter((o) => !productionRiskOnly || getProductionRisks(o, today).length > 0);
+
+  const totalGmv = orders.reduce((sum, o) => sum + o.totalAmount, 0);
+  const codOrders = orders.filter((o) => o.paymentMethod === 'cod').length;
+  const deliveredOrders = orders.filter((o) => o.status === 'delivered').length;
 
   return (
     <div className="space-y-6">
       {/* KPIs */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-        <StatCard label="إجمالي الطلبات" value={sampleOrders.length} accent="orange" icon={<span className="text-2xl">🛒</span>} />
+        <StatCard label="إجمالي الطلبات" value={orders.length} accent="orange" icon={<span className="text-2xl">🛒</span>} />
         <StatCard label="إجمالي القيمة" value={formatMoney(totalGmv)} accent="green" icon={<span className="text-2xl">💰</span>} />
-        <StatCard label="طلبات COD" value={`${codOrders} من ${sampleOrders.length}`} accent="blue" icon={<span className="text-2xl">💵</span>} />
+        <StatCard label="طلبات COD" value={`${codOrders} من ${orders.length}`} accent="blue" icon={<span className="text-2xl">💵</span>} />
         <StatCard label="تم التسليم" value={deliveredOrders} accent="green" icon={<span className="text-2xl">✅</span>} />
       </div>
 
@@ -140,10 +677,10 @@ export function OrderManagement() {
               statusFilter === 'all' ? 'bg-arooba-500 text-white' : 'bg-earth-100 text-earth-600 hover:bg-earth-200'
             }`}
           >
-            الكل ({sampleOrders.length})
+            الكل ({orders.length})
           </button>
-          {Object.entries(statusConfig).slice(0, 6).map(([key, config]) => {
-            const count = sampleOrders.filter((o) => o.status === key).length;
+          {Object.entries(statusConfig).map(([key, config]) => {
+            const count = orders.filter((o) => o.status === key).length;
             if (count === 0) return null;
             return (
               <button
@@ -157,15 +694,39 @@ export function OrderManagement() {
               </button>
             );
           })}
+          <button
+            onClick={() => setDelayedOnly(!delayedOnly)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors mr-auto ${
+              delayedOnly ? 'bg-red-500 text-white' : 'bg-red-50 text-red-700 hover:bg-red-100'
+            }`}
+          >
+            ⏰ بها شحنة متأخرة ({delayedCount})
+          </button>
+          <button
+            onClick={() => setProductionRiskOnly(!productionRiskOnly)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              productionRiskOnly ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+            }`}
+          >
+            🧵 تصنيع معرض للتأخير ({productionRiskCount})
+          </button>
+          {orderActorForRole(currentRole) === 'admin' && (
+            <button onClick={handleRunSla} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-earth-100 text-earth-600 hover:bg-earth-200">
+              ⌛ تطبيق مهل الموردين
+            </button>
+          )}
         </div>
+        {slaResult && <p className="text-[11px] text-earth-500 mt-2">{slaResult}</p>}
       </div>
 
       {/* Orders List */}
       <div className="space-y-3">
         {filteredOrders.map((order) => {
           const isExpanded = expandedOrder === order.id;
-          const config = statusConfig[order.status] || statusConfig.pending;
+          const config = statusConfig[order.status];
+          const sla = getOrderSla(order, slaConfig, now);
           const isSplit = order.shipments.length > 1;
+          const productionRisks = getProductionRisks(order, today);
 
           return (
             <div key={order.id} className="card overflow-hidden animate-fade-in">
@@ -181,6 +742,17 @@ export function OrderManagement() {
                       <span className="font-mono text-sm font-bold text-earth-800 dir-ltr">{order.id}</span>
                       <Badge variant={config.variant}>{config.label}</Badge>
                       {isSplit && <Badge variant="info" dot={false}>📦 طلب مقسم ({order.shipments.length})</Badge>}
+                      {hasDelayedShipment(order, today) && <Badge variant="danger" dot={false}>⏰ متأخر</Badge>}
+                      {productionRisks.length > 0 && (productionRisks.some(r => r.level === 'late')
+                        ? <Badge variant="danger" dot={false}>🧵 إنتاج متأخر</Badge>
+                        : <Badge variant="warning" dot={false}>🧵 إنتاج معرض للتأخير</Badge>)}
+                      {sla && (sla.breached
+                        ? <Badge variant="danger" dot={false}>⌛ انتهت مهلة {sla.kind === 'acceptance' ? 'القبول' : 'التجهيز'}</Badge>
+                        : (
+                          <Badge variant={sla.remainingMs < 2 * 60 * 60 * 1000 ? 'danger' : 'warning'} dot={false}>
+                            ⏳ {formatRemaining(sla.remainingMs)} {sla.kind === 'acceptance' ? 'للقبول' : 'للتجهيز'}
+                          </Badge>
+                        ))}
                     </div>
                     <p className="text-xs text-earth-500">{order.customerName} • {order.deliveryCity}</p>
                   </div>
@@ -221,32 +793,9 @@ export function OrderManagement() {
               {/* Expanded Details */}
               {isExpanded && (
                 <div className="border-t border-earth-100 animate-slide-down">
-                  {/* Status Timeline */}
-                  <div className="px-4 py-3 bg-earth-50/50">
-                    <p className="text-xs font-semibold text-earth-500 mb-2">مسار الطلب</p>
-                    <div className="flex items-center gap-1">
-                      {STATUS_FLOW.map((step, i) => {
-                        const stepIdx = STATUS_FLOW.indexOf(order.status as OrderStatus);
-                        const isComplete = i <= stepIdx;
-                        const isCurrent = i === stepIdx;
-                        const stepConfig = statusConfig[step];
-                        return (
-                          <React.Fragment key={step}>
-                            <div className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs ${
-                              isCurrent ? 'bg-arooba-100 text-arooba-700 font-bold' :
-                              isComplete ? 'bg-nile-100 text-nile-700' :
-                              'bg-earth-100 text-earth-400'
-                            }`}>
-                              {isComplete && !isCurrent ? '✓' : ''} {stepConfig?.label}
-                            </div>
-                            {i < STATUS_FLOW.length - 1 && (
-                              <div className={`w-6 h-0.5 ${isComplete ? 'bg-nile-400' : 'bg-earth-200'}`} />
-                            )}
-                          </React.Fragment>
-                        );
-                      })}
-                    </div>
-                  </div>
+                  <OrderActions order={order} />
+                  {order.items.some(i => i.production) && <ProductionPanel order={order} today={today} />}
+                  <ShipmentTimeline order={order} today={today} />
 
                   {/* Items */}
                   <div className="p-4">
@@ -263,28 +812,8 @@ export function OrderManagement() {
                     ))}
                   </div>
 
-                  {/* Shipments (if split) */}
-                  {isSplit && (
-                    <div className="px-4 pb-4">
-                      <p className="text-xs font-semibold text-earth-500 mb-3">📦 الشحنات المنفصلة</p>
-                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                        {order.shipments.map((shipment, idx) => (
-                          <div key={shipment.id} className="p-3 rounded-xl bg-earth-50 border border-earth-100">
-                            <div className="flex items-center justify-between mb-2">
-                              <span className="text-xs font-bold text-earth-600">شحنة {idx + 1}</span>
-                              <Badge variant={statusConfig[shipment.status]?.variant || 'neutral'}>
-                                {statusConfig[shipment.status]?.label}
-                              </Badge>
-                            </div>
-                            {shipment.trackingNumber && (
-                              <p className="text-xs text-earth-500 dir-ltr mb-1">📍 {shipment.trackingNumber}</p>
-                            )}
-                            <p className="text-xs text-earth-500">رسوم التوصيل: {formatMoney(shipment.deliveryFee)}</p>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+                  {deliveredItems(order).length > 0 && <TaxDocumentsPanel order={order} />}
+                  {deliveredItems(order).length > 0 && <ReturnsPanel order={order} />}
 
                   {/* Financial Summary */}
                   <div className="px-4 pb-4">
@@ -5,66 +5,63 @@
  * 
  * Manages the product listing with the 3-step product wizard logic.
  * Shows SKU, pricing breakdown, stock mode, and pickup location.
+ * Prices far from the category benchmark are flagged for review.
+ * Ready-stock products show what is available to new checkouts next
+ * to what open checkouts and unaccepted orders hold, with the stock
+ * movement ledger behind the numbers.
  * ============================================================
  */
 
-import React, { useState } from 'react';
-import { StatCard, Badge, SectionHeader, formatMoney } from '../../shared/components';
-import { PRODUCT_CATEGORIES } from '../../../config/constants';
+import React, { useEffect, useState } from 'react';
+import { StatCard, Badge, SectionHeader, formatMoney, formatDate } from '../../shared/components';
 import type { Product } from '../../shared/types';
+import { PRODUCT_CATEGORIES } from '../../../config/constants';
+import { useProductStore } from '../../../store/product-store';
+import { useInventoryStore } from '../../../store/inventory-store';
+import type { PriceBenchmarkCheck } from '../../../lib/price-benchmarks';
+import { STOCK_MOVEMENT_LABELS, getStockLevel } from '../../../lib/inventory';
 
-const mockProducts: Product[] = [
-  {
-    id: 'p-001', sku: 'HASAN-FATMA-CERAM-001', parentVendorId: 'v-001', subVendorId: 'sv-001',
-    categoryId: 'home-decor-fragile', title: 'Hand-Painted Ceramic Vase', titleAr: 'فازة سيراميك مرسومة يدوياً',
-    description: '', descriptionAr: 'فخار الفيوم التقليدي، مرسوم يدوياً بزخارف اللوتس.',
-    images: [], costPrice: 80, sellingPrice: 100, cooperativeFee: 0, marketplaceUplift: 25,
-    finalPrice: 130, pickupLocationId: 'loc-001', stockMode: 'made_to_order', leadTimeDays: 3,
-    quantityAvailable: 20, weightKg: 1.2, dimensionL: 20, dimensionW: 20, dimensionH: 35,
-    volumetricWeight: 2.8, isLocalOnly: false, status: 'active', isFeatured: true,
-    createdAt: '2025-10-25', updatedAt: '2025-12-01',
-  },
-  {
-    id: 'p-002', sku: 'SIWA-MAIN-TEXTI-001', parentVendorId: 'v-002',
-    categoryId: 'home-decor-textiles', title: 'Siwa Embroidered Kilim', titleAr: 'سجادة كليم سيوة مطرزة',
-    description: '', descriptionAr: 'كليم سيوي أصيل بأنماط أمازيغية تقليدية.',
-    images: [], costPrice: 1200, sellingPrice: 1500, cooperativeFee: 0, marketplaceUplift: 300,
-    finalPrice: 1800, pickupLocationId: 'loc-002', stockMode: 'ready_stock',
-    quantityAvailable: 8, weightKg: 4.5, dimensionL: 120, dimensionW: 80, dimensionH: 15,
-    volumetricWeight: 28.8, isLocalOnly: false, status: 'active', isFeatured: true,
-    createdAt: '2025-10-28', updatedAt: '2025-12-01',
-  },
-  {
-    id: 'p-003', sku: 'NADIA-MONA-FASHI-001', parentVendorId: 'v-003', subVendorId: 'sv-002',
-    categoryId: 'fashion-apparel', title: 'Handmade Crochet Scarf', titleAr: 'وشاح كروشيه يدوي',
-    description: '', descriptionAr: 'وشاح كروشيه رقيق بألوان ترابية.',
-    images: [], costPrice: 60, sellingPrice: 85, cooperativeFee: 4.25, marketplaceUplift: 20,
-    finalPrice: 112, pickupLocationId: 'loc-003', stockMode: 'made_to_order', leadTimeDays: 5,
-    quantityAvailable: 50, weightKg: 0.3, dimensionL: 30, dimensionW: 20, dimensionH: 5,
-    volumetricWeight: 0.6, isLocalOnly: false, status: 'active', isFeatured: false,
-    createdAt: '2025-11-10', updatedAt: '2025-12-02',
-  },
-  {
-    id: 'p-004', sku: 'KHAN-MAIN-LEATH-001', parentVendorId: 'v-004',
-    categoryId: 'leather-goods', title: 'Leather Messenger Bag', titleAr: 'حقيبة ماسنجر جلد طبيعي',
-    description: '', descriptionAr: 'حقيبة جلد مصنوعة يدوياً من ورشة خان الخليلي.',
-    images: [], costPrice: 400, sellingPrice: 550, cooperativeFee: 0, marketplaceUplift: 110,
-    finalPrice: 660, pickupLocationId: 'loc-004', stockMode: 'ready_stock',
-    quantityAvailable: 15, weightKg: 0.8, dimensionL: 35, dimensionW: 10, dimensionH: 28,
-    volumetricWeight: 1.96, isLocalOnly: false, status: 'active', isFeatured: true,
-    createdAt: '2025-10-15', updatedAt: '2025-12-03',
-  },
-  {
-    id: 'p-005', sku: 'NADIA-MAIN-BEAUT-001', parentVendorId: 'v-003',
-    categoryId: 'beauty-personal', title: 'Natural Olive Oil Soap', titleAr: 'صابون زيت زيتون طبيعي',
-    description: '', descriptionAr: 'صابون يدوي بزيت زيتون نقي.',
-    images: [], costPrice: 20, sellingPrice: 30, cooperativeFee: 1.5, marketplaceUplift: 20,
-    finalPrice: 55, pickupLocationId: 'loc-003', stockMode: 'ready_stock',
-    quantityAvailable: 200, weightKg: 0.15, dimensionL: 8, dimensionW: 5, dimensionH: 3,
-    volumetricWeight: 0.024, isLocalOnly: false, status: 'active', isFeatured: false,
-    createdAt: '2025-11-15', updatedAt: '2025-12-01',
-  },
-];
+function PriceFlag({ check }: { check?: PriceBenchmarkCheck }) {
+  if (!check?.isFlagged || !check.benchmark) return null;
+  return (
+    <div className="text-[11px] text-red-600 bg-red-50 rounded-lg px-2 py-1 mt-1">
+      ⚠ {check.direction === 'above' ? 'أعلى' : 'أقل'} من المعتاد بنسبة {Math.abs(check.deviation)}% — الوسيط {formatMoney(check.benchmark.median)}
+    </div>
+  );
+}
+
+/** Available vs reserved; made-to-order products have no stock to show. */
+function StockCell({ product, at }: { product: Product; at: string }) {
+  const { reservations } = useInventoryStore();
+  if (product.stockMode !== 'ready_stock') return <span className="text-earth-400">حسب الطلب</span>;
+  const level = getStockLevel(product, reservations, at);
+  return (
+    <span className={level.isLow ? 'text-red-600 font-medium' : 'text-earth-600'}>
+      متاح {level.available}
+      {level.reserved > 0 && <span className="text-amber-600"> • محجوز {level.reserved}</span>}
+      {level.isLow && ' ⚠'}
+    </span>
+  );
+}
+
+function StockMovements({ productId }: { productId: string }) {
+  const movements = useInventoryStore().getMovements(productId).slice(-5).reverse();
+  if (movements.length === 0) return <p className="text-[11px] text-earth-400">لا توجد حركات مخزون بعد</p>;
+  return (
+    <div className="space-y-1">
+      {movements.map(m => (
+        <div key={m.id} className="flex items-center gap-2 text-[11px]">
+          <span className="text-earth-400">{formatDate(m.at)}</span>
+          <span className="text-earth-600 flex-1">{STOCK_MOVEMENT_LABELS[m.type].ar}</span>
+          <span className={`font-mono dir-ltr ${m.onHandDelta < 0 ? 'text-red-600' : m.onHandDelta > 0 ? 'text-nile-600' : 'text-amber-600'}`}>
+            {m.onHandDelta !== 0 ? `${m.onHandDelta > 0 ? '+' : ''}${m.onHandDelta}` : `${m.reservedDelta > 0 ? '+' : ''}${m.reservedDelta} محجوز`}
+          </span>
+          <span className="text-earth-500">= {m.onHandAfter}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 const categoryEmoji: Record<string, string> = {
   'home-decor-fragile': '🏺', 'home-decor-textiles': '🧶',
@@ -76,11 +73,21 @@ const categoryEmoji: Record<string, string> = {
 export function ProductCatalog() {
   const [view, setView] = useState<'grid' | 'list'>('grid');
   const [catFilter, setCatFilter] = useState<string>('all');
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const { products, priceChecks } = useProductStore();
+  const [now, setNow] = useState(() => new Date().toISOString());
 
-  const filtered = catFilter === 'all' ? mockProducts : mockProducts.filter(p => p.categoryId === catFilter);
-  const totalSKUs = mockProducts.length;
-  const activeProducts = mockProducts.filter(p => p.status === 'active').length;
-  const featuredCount = mockProducts.filter(p => p.isFeatured).length;
+  // Lapsed holds stop counting as reserved on the next tick; closing them
+  // in the ledger is the inventory store's job, not this view's
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date().toISOString()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const filtered = catFilter === 'all' ? products : products.filter(p => p.categoryId === catFilter);
+  const totalSKUs = products.length;
+  const activeProducts = products.filter(p => p.status === 'active').length;
+  const featuredCount = products.filter(p => p.isFeatured).length;
 
   return (
     <div className="space-y-6">
@@ -167,13 +174,23 @@ export function ProductCatalog() {
                     <span>السعر النهائي</span>
                     <span className="text-arooba-600">{formatMoney(product.finalPrice)}</span>
                   </div>
+                  <PriceFlag check={priceChecks[product.id]} />
                 </div>
 
                 {/* Meta */}
                 <div className="flex items-center justify-between text-xs text-earth-400">
-                  <span>المخزون: {product.quantityAvailable}</span>
+                  {product.stockMode === 'ready_stock' ? (
+                    <button onClick={() => setHistoryFor(historyFor === product.id ? null : product.id)} className="hover:underline">
+                      <StockCell product={product} at={now} />
+                    </button>
+                  ) : <StockCell product={product} at={now} />}
                   <span>{product.weightKg} كجم</span>
                 </div>
+                {historyFor === product.id && (
+                  <div className="mt-2 pt-2 border-t border-earth-100">
+                    <StockMovements productId={product.id} />
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -211,9 +228,15 @@ export function ProductCatalog() {
                       {PRODUCT_CATEGORIES.find(c => c.id === p.categoryId)?.nameAr}
                     </Badge>
                   </td>
-                  <td className="text-earth-600">{formatMoney(p.sellingPrice)}</td>
+                  <td className="text-earth-600">
+                    {formatMoney(p.sellingPrice)}
+                    <PriceFlag check={priceChecks[p.id]} />
+                  </td>
                   <td className="font-bold text-arooba-600">{formatMoney(p.finalPrice)}</td>
-                  <td>{p.quantityAvailable}</td>
+                  <td className="text-xs">
+                    <StockCell product={p} at={now} />
+                    {p.stockMode === 'ready_stock' && <p className="text-[11px] text-earth-400">في المخزن {p.quantityAvailable}</p>}
+                  </td>
                   <td>
                     <Badge variant={p.stockMode === 'ready_stock' ? 'success' : 'warning'}>
                       {p.stockMode === 'ready_stock' ? 'جاهز' : 'حسب الطلب'}
@@ -9,6 +9,7 @@
  */
 
 import React from 'react';
+import { type Money, isMoney, toEgp } from '../../../lib/money';
 
 // ──────────────────────────────────────────────
 // STAT CARD — for dashboard KPIs
@@ -243,7 +244,9 @@ export function SectionHeader({ title, subtitle, action }: SectionHeaderProps) {
 // MONEY FORMATTER
 // ──────────────────────────────────────────────
 
-export function formatMoney(amount: number, compact = false): string {
+/** Formats EGP for display. Accepts plain pounds or a piastre-exact Money. */
+export function formatMoney(value: number | Money, compact = false): string {
+  const amount = isMoney(value) ? toEgp(value) : value;
   if (compact) {
     if (amount >= 1000000) return `${(amount / 1000000).toFixed(1)}M`;
     if (amount >= 1000) return `${(amount / 1000).toFixed(1)}K`;
@@ -8,6 +8,8 @@
  * ============================================================
  */
 
+import type { Money } from '../../../lib/money';
+
 // ──────────────────────────────────────────────
 // MODULE 1: IAM (Identity & Access Management)
 // ──────────────────────────────────────────────
@@ -40,7 +42,8 @@ export interface User {
 // MODULE 2: VENDOR ECOSYSTEM
 // ──────────────────────────────────────────────
 
-export type VendorStatus = 'pending' | 'active' | 'suspended' | 'rejected';
+/** under_review = reliability strikes reached sla.maxReliabilityStrikes (lib/sla-engine.ts). */
+export type VendorStatus = 'pending' | 'active' | 'under_review' | 'suspended' | 'rejected';
 export type VendorType = 'legalized' | 'non_legalized';
 
 export interface ParentVendor {
@@ -129,6 +132,7 @@ export interface Product {
   parentVendorId: string;
   subVendorId?: string;
   categoryId: string;
+  subcategoryId?: string;
   
   title: string;
   titleAr: string;
@@ -147,7 +151,8 @@ export interface Product {
   pickupLocationId: string;
   stockMode: StockMode;
   leadTimeDays?: number;          // For made-to-order
-  quantityAvailable: number;
+  quantityAvailable: number;      // On hand: not yet sold to an accepted order (lib/inventory.ts)
+  lowStockThreshold?: number;     // Vendor is notified at or below this; default INVENTORY.defaultLowStockThreshold
   
   // Physical (for shipping calc)
   weightKg: number;
@@ -171,7 +176,7 @@ export interface Product {
 // MODULE 4: ORDERS (OMS)
 // ──────────────────────────────────────────────
 
-export type OrderStatus = 
+export type ShipmentStatus =
   | 'pending'
   | 'accepted'
   | 'ready_to_ship'
@@ -181,12 +186,24 @@ export type OrderStatus =
   | 'cancelled'
   | 'rejected_shipping';
 
+/**
+ * A split order's status is derived from its shipments
+ * (lib/shipment-tracking.ts) — the partial states only appear when the
+ * shipments are at different stages.
+ */
+export type OrderStatus =
+  | ShipmentStatus
+  | 'partially_shipped'
+  | 'partially_delivered'
+  | 'partially_returned';
+
 export type PaymentMethod = 'cod' | 'fawry' | 'card' | 'wallet';
 
 export interface Order {
   id: string;
   customerId: string;
   customerName: string;
+  customerNationalId?: string;   // 14 digits; required on receipts above E_INVOICING.personIdThreshold
   
   // Items
   items: OrderItem[];
@@ -206,6 +223,7 @@ export interface Order {
   shipments: Shipment[];
   
   status: OrderStatus;
+  acceptedAt?: string;           // Starts the dispatch SLA
   createdAt: string;
   updatedAt: string;
 }
@@ -218,16 +236,40 @@ export interface OrderItem {
   vendorId: string;
   vendorName: string;
   quantity: number;
-  unitPrice: number;
-  totalPrice: number;
+  unitPrice: Money;
+  totalPrice: Money;
   pickupLocationId: string;
   
-  // The 5-Bucket Split (per item)
-  bucketA_vendorRevenue: number;
-  bucketB_vendorVat: number;
-  bucketC_aroobaRevenue: number;
-  bucketD_aroobaVat: number;
-  bucketE_logisticsFee: number;
+  // The 5-Bucket Split (per item) — exact piastres, A–D sum to totalPrice
+  bucketA_vendorRevenue: Money;
+  bucketB_vendorVat: Money;
+  bucketC_aroobaRevenue: Money;
+  bucketD_aroobaVat: Money;
+  bucketE_logisticsFee: Money;
+
+  // Made-to-order: lead time promised at checkout, tracked once accepted
+  leadTimeDays?: number;
+  production?: ProductionTracking;
+}
+
+export type ProductionStage = 'awaiting_start' | 'in_production' | 'finishing' | 'completed';
+
+/** A vendor's progress report on a made-to-order item. */
+export interface ProductionCheckIn {
+  at: string;
+  stage: ProductionStage;
+  progressPercent: number;       // 0–100
+  expectedCompletionDate?: string;
+  note?: string;
+}
+
+export interface ProductionTracking {
+  startedAt: string;             // Order accepted
+  dueDate: string;               // YYYY-MM-DD — must be done by then to keep the promise
+  stage: ProductionStage;
+  progressPercent: number;
+  checkIns: ProductionCheckIn[];
+  completedAt?: string;
 }
 
 export interface Shipment {
@@ -236,10 +278,11 @@ export interface Shipment {
   pickupLocationId: string;
   trackingNumber?: string;
   courierProvider?: string;
-  deliveryFee: number;
-  codAmountDue: number;
-  status: OrderStatus;
-  estimatedDeliveryDate?: string;
+  deliveryFee: Money;
+  codAmountDue: Money;           // Cash the courier collects on delivery (zero when prepaid)
+  status: ShipmentStatus;
+  earliestDeliveryDate?: string;  // Promise window shown to the customer…
+  estimatedDeliveryDate?: string; // …ending here (lib/fulfilment-schedule.ts)
   actualDeliveryDate?: string;
 }
 
@@ -302,12 +345,15 @@ export interface VendorWallet {
   lifetimeEarnings: number;
 }
 
+/** One side of a balanced journal (see lib/ledger.ts) — exact piastres. */
 export interface LedgerEntry {
   id: string;
-  transactionId: string;
+  transactionId: string;          // The journal; its entries' debits equal credits
   type: TransactionType;
-  amount: number;
-  balanceAfter: number;
+  account: string;                // e.g. 'cash', 'vendor_payable_pending:v-001'
+  side: 'debit' | 'credit';
+  amount: Money;
+  balanceAfter: Money;            // Account balance on its normal side after this entry
   description: string;
   orderId?: string;
   vendorId?: string;
@@ -318,12 +364,12 @@ export interface TransactionSplit {
   id: string;
   orderItemId: string;
   orderId: string;
-  bucketA: number;
-  bucketB: number;
-  bucketC: number;
-  bucketD: number;
-  bucketE: number;
-  totalAmount: number;
+  bucketA: Money;
+  bucketB: Money;
+  bucketC: Money;
+  bucketD: Money;
+  bucketE: Money;
+  totalAmount: Money;             // Always A + B + C + D + E exactly
   createdAt: string;
 }
 
@@ -403,6 +449,11 @@ export interface PlatformConfig {
   sortOrder: number;
   lastModifiedBy?: string;
   updatedAt: string;
+
+  // Effective window (ISO). Several versions of one key may exist;
+  // missing bounds are open-ended.
+  effectiveFrom?: string;
+  effectiveTo?: string;           // Exclusive
 }
 
 // ──────────────────────────────────────────────
@@ -477,3 +528,41 @@ export interface AuditLogEntry {
   vendorActionRequestId?: string;
   createdAt: string;
 }
+
+// ──────────────────────────────────────────────
+// MODULE 10: PROMOTIONS & DISCOUNTS
+// ──────────────────────────────────────────────
+
+export type PromotionType =
+  | 'percentage_coupon'
+  | 'fixed_coupon'
+  | 'buy_x_get_y'
+  | 'category_sale';
+
+export type PromotionFunding = 'vendor' | 'arooba';
+export type PromotionStatus = 'active' | 'paused' | 'expired';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  nameAr: string;
+  type: PromotionType;
+  fundedBy: PromotionFunding;     // Vendor-funded may reduce Buckets A/B; Arooba-funded only C/D
+
+  code?: string;                  // Coupons only — entered at checkout
+  value: number;                  // Rate (0–1) for percentage/category sale, EGP for fixed coupon
+  buyQuantity?: number;           // Buy X…
+  getQuantity?: number;           // …get Y free
+
+  // Scope (empty = everything the funder sells)
+  vendorId?: string;              // Required when vendor-funded
+  categoryIds?: string[];
+  productIds?: string[];
+  minOrderAmount?: number;
+
+  startsAt: string;
+  endsAt?: string;
+  status: PromotionStatus;
+  sourceRequestId?: string;       // VendorActionRequest that created it
+  createdAt: string;
+}
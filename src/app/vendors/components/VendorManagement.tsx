@@ -21,64 +21,30 @@
 import React, { useState } from 'react';
 import { StatCard, Badge, DataTable, SectionHeader, formatMoney, formatDate } from '../../shared/components';
 import type { ParentVendor } from '../../shared/types';
+import { useVendorStore } from '../../../store/vendor-store';
 
-// Mock data import (in production, this comes from API)
-const mockVendors: ParentVendor[] = [
-  {
-    id: 'v-001', userId: 'u-101', businessName: 'Hassan Ceramics', businessNameAr: 'خزفيات حسن',
-    type: 'legalized', status: 'active', commercialRegNumber: 'CR-2024-001234', taxId: 'TX-9900112233',
-    isVatRegistered: true, defaultCommissionRate: 0.25, bankName: 'CIB', bankAccountNumber: '****7890',
-    reliabilityStrikes: 0, averageRating: 4.7, totalOrders: 342, totalRevenue: 187500,
-    subVendorIds: ['sv-001'], createdAt: '2025-10-15T10:00:00Z', updatedAt: '2025-12-01T14:30:00Z',
-  },
-  {
-    id: 'v-002', userId: 'u-102', businessName: 'Siwa Textiles Co.', businessNameAr: 'سيوة للمنسوجات',
-    type: 'legalized', status: 'active', commercialRegNumber: 'CR-2024-005678', taxId: 'TX-8800223344',
-    isVatRegistered: true, defaultCommissionRate: 0.20, bankName: 'Banque Misr', bankAccountNumber: '****4321',
-    reliabilityStrikes: 0, averageRating: 4.5, totalOrders: 215, totalRevenue: 324000,
-    subVendorIds: [], createdAt: '2025-10-20T08:00:00Z', updatedAt: '2025-11-28T16:00:00Z',
-  },
-  {
-    id: 'v-003', userId: 'u-103', businessName: 'Nadia Handcraft', businessNameAr: 'يدوية نادية',
-    type: 'non_legalized', status: 'active', isVatRegistered: false, cooperativeId: 'coop-01',
-    defaultCommissionRate: 0.20, reliabilityStrikes: 1, averageRating: 4.2, totalOrders: 89,
-    totalRevenue: 42300, subVendorIds: ['sv-002'], createdAt: '2025-11-01T12:00:00Z', updatedAt: '2025-12-02T10:00:00Z',
-  },
-  {
-    id: 'v-004', userId: 'u-104', businessName: 'Khan El-Khalili Leather', businessNameAr: 'جلود خان الخليلي',
-    type: 'legalized', status: 'active', commercialRegNumber: 'CR-2024-009012', taxId: 'TX-7700334455',
-    isVatRegistered: true, defaultCommissionRate: 0.20, bankName: 'NBE', bankAccountNumber: '****6543',
-    reliabilityStrikes: 0, averageRating: 4.8, totalOrders: 567, totalRevenue: 892000,
-    subVendorIds: [], createdAt: '2025-10-10T09:00:00Z', updatedAt: '2025-12-03T11:00:00Z',
-  },
-  {
-    id: 'v-005', userId: 'u-105', businessName: 'Aswan Spices', businessNameAr: 'بهارات أسوان',
-    type: 'non_legalized', status: 'pending', isVatRegistered: false, cooperativeId: 'coop-01',
-    defaultCommissionRate: 0.15, reliabilityStrikes: 0, averageRating: 0, totalOrders: 0,
-    totalRevenue: 0, subVendorIds: [], createdAt: '2025-12-01T15:00:00Z', updatedAt: '2025-12-01T15:00:00Z',
-  },
-];
-
-type FilterStatus = 'all' | 'active' | 'pending' | 'suspended';
+type FilterStatus = 'all' | 'active' | 'pending' | 'under_review' | 'suspended';
 
 export function VendorManagement() {
   const [filter, setFilter] = useState<FilterStatus>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const { vendors } = useVendorStore();
 
-  const filteredVendors = mockVendors.filter((v) => {
+  const filteredVendors = vendors.filter((v) => {
     if (filter !== 'all' && v.status !== filter) return false;
     if (searchQuery && !v.businessNameAr.includes(searchQuery) && !v.businessName.toLowerCase().includes(searchQuery.toLowerCase())) return false;
     return true;
   });
 
-  const activeCount = mockVendors.filter(v => v.status === 'active').length;
-  const pendingCount = mockVendors.filter(v => v.status === 'pending').length;
-  const totalRevenue = mockVendors.reduce((sum, v) => sum + v.totalRevenue, 0);
+  const activeCount = vendors.filter(v => v.status === 'active').length;
+  const pendingCount = vendors.filter(v => v.status === 'pending').length;
+  const totalRevenue = vendors.reduce((sum, v) => sum + v.totalRevenue, 0);
 
   const statusVariant = (status: string): 'success' | 'pending' | 'danger' | 'neutral' => {
     switch (status) {
       case 'active': return 'success';
       case 'pending': return 'pending';
+      case 'under_review': return 'danger';
       case 'suspended': return 'danger';
       default: return 'neutral';
     }
@@ -88,6 +54,7 @@ export function VendorManagement() {
     switch (status) {
       case 'active': return 'نشط';
       case 'pending': return 'قيد المراجعة';
+      case 'under_review': return 'مراجعة الحساب';
       case 'suspended': return 'معلّق';
       case 'rejected': return 'مرفوض';
       default: return status;
@@ -185,7 +152,7 @@ export function VendorManagement() {
     <div className="space-y-6">
       {/* KPI Summary */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-        <StatCard label="إجمالي الموردين" value={mockVendors.length} accent="orange" icon={<span className="text-2xl">🏪</span>} />
+        <StatCard label="إجمالي الموردين" value={vendors.length} accent="orange" icon={<span className="text-2xl">🏪</span>} />
         <StatCard label="نشطون" value={activeCount} trend={12} accent="green" icon={<span className="text-2xl">✅</span>} />
         <StatCard label="قيد المراجعة" value={pendingCount} accent="blue" icon={<span className="text-2xl">⏳</span>} />
         <StatCard label="إجمالي الإيرادات" value={formatMoney(totalRevenue, true)} trend={23} accent="orange" icon={<span className="text-2xl">💰</span>} />
@@ -202,7 +169,7 @@ export function VendorManagement() {
             className="input max-w-xs"
           />
           <div className="flex gap-1">
-            {(['all', 'active', 'pending', 'suspended'] as FilterStatus[]).map((status) => (
+            {(['all', 'active', 'pending', 'under_review', 'suspended'] as FilterStatus[]).map((status) => (
               <button
                 key={status}
                 onClick={() => setFilter(status)}
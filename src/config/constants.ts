@@ -47,6 +47,30 @@ export const TAX = {
   aroobaAlwaysChargesVat: true,
 } as const;
 
+/**
+ * Egyptian Tax Authority (ETA) e-invoicing fields.
+ * Arooba's own registration issues the customer receipt and the
+ * commission invoice; vendors issue their own VAT invoices.
+ */
+export const E_INVOICING = {
+  documentTypeVersion: '1.0',
+  taxpayerActivityCode: '4791',      // Retail sale via internet
+  vatTaxType: 'T1',                  // Value added tax
+  vatSubType: 'V009',                // General item sales
+  itemType: 'EGS',                   // Internal (Egyptian) goods & services codes
+  unitType: 'EA',
+  personIdThreshold: 50000,          // EGP — above this a person receiver needs a national ID
+  arooba: {
+    taxId: '100-200-300',
+    name: 'Arooba Marketplace S.A.E.',
+    nameAr: 'أروبة ماركت بليس ش.م.م',
+    address: {
+      branchID: '0', country: 'EG', governate: 'Cairo', regionCity: 'New Cairo',
+      street: 'South 90th Street', buildingNumber: '12',
+    },
+  },
+} as const;
+
 // ──────────────────────────────────────────────
 // UPLIFT MATRIX (Pricing Engine)
 // ──────────────────────────────────────────────
@@ -77,6 +101,7 @@ export const UPLIFT_MATRIX = {
 export const UPLIFT_RULES = {
   mvpFlatRate: 0.20,
   fragileOverride: 0.25,
+  fragileCategoryIds: ['home-decor-fragile'],  // Categories the fragile floor applies to
   minimumFixedUplift: 15,        // EGP — protects against cheap items
   lowPriceThreshold: 100,        // Items under this get fixed markup
   lowPriceFixedMarkup: 20,       // EGP fixed for items < 100 EGP
@@ -107,6 +132,21 @@ export const PAYMENT_BUCKETS = {
   E: 'logistics_fee',
 } as const;
 
+/**
+ * All money is held as whole piastres (1 EGP = 100 piastres).
+ *
+ * BUSINESS CHALLENGE:
+ * Rounding floating-point pounds after every step leaves the buckets
+ * a piastre or two away from the customer price — and vendors notice.
+ * Amounts are rounded ONCE, explicitly, when a rate is applied.
+ * - half_up:   0.5 piastre rounds away from zero (Egyptian retail norm)
+ * - half_even: 0.5 piastre rounds to the even piastre (banker's rounding)
+ */
+export const MONEY = {
+  piastresPerPound: 100,
+  defaultRoundingMode: 'half_up',
+} as const;
+
 // ──────────────────────────────────────────────
 // ESCROW & PAYOUT RULES
 // ──────────────────────────────────────────────
@@ -122,10 +162,38 @@ export const ESCROW = {
   holdDays: 14,                  // Days before funds become available
   minimumPayoutThreshold: 500,   // EGP — minimum to trigger a payout
   payoutBatchDay: 'weekly',      // Payouts are batched weekly
+  payoutBatchWeekday: 0,         // Sunday — first working day of the Egyptian week
   codDepositCycle: 48,           // Hours — couriers must deposit COD funds
   codDiscrepancyThreshold: 0.01, // 1% — triggers freeze on courier
+  payoutRestDays: [5],           // Day-of-week (0 = Sunday) — no releases on Fridays
 } as const;
 
+/**
+ * Egyptian public holidays on which escrow is never released (banks are
+ * closed). Islamic holidays follow the moon sighting, so their dates are
+ * estimates — admins correct them through `escrow.publicHolidays`.
+ */
+export const EGYPT_PUBLIC_HOLIDAYS = [
+  { date: '2025-10-06', name: 'Armed Forces Day',         nameAr: 'عيد القوات المسلحة' },
+  { date: '2026-01-07', name: 'Coptic Christmas',         nameAr: 'عيد الميلاد المجيد' },
+  { date: '2026-01-25', name: 'Revolution Day',           nameAr: 'عيد ثورة 25 يناير وعيد الشرطة' },
+  { date: '2026-03-19', name: 'Eid al-Fitr',              nameAr: 'عيد الفطر' },
+  { date: '2026-03-20', name: 'Eid al-Fitr',              nameAr: 'عيد الفطر' },
+  { date: '2026-03-21', name: 'Eid al-Fitr',              nameAr: 'عيد الفطر' },
+  { date: '2026-04-13', name: 'Sham El-Nessim',           nameAr: 'شم النسيم' },
+  { date: '2026-04-25', name: 'Sinai Liberation Day',     nameAr: 'عيد تحرير سيناء' },
+  { date: '2026-05-01', name: 'Labour Day',               nameAr: 'عيد العمال' },
+  { date: '2026-05-26', name: 'Arafat Day',               nameAr: 'يوم عرفة' },
+  { date: '2026-05-27', name: 'Eid al-Adha',              nameAr: 'عيد الأضحى' },
+  { date: '2026-05-28', name: 'Eid al-Adha',              nameAr: 'عيد الأضحى' },
+  { date: '2026-05-29', name: 'Eid al-Adha',              nameAr: 'عيد الأضحى' },
+  { date: '2026-06-16', name: 'Islamic New Year',         nameAr: 'رأس السنة الهجرية' },
+  { date: '2026-06-30', name: 'June 30 Revolution',       nameAr: 'ذكرى ثورة 30 يونيو' },
+  { date: '2026-07-23', name: 'July 23 Revolution',       nameAr: 'عيد ثورة 23 يوليو' },
+  { date: '2026-08-25', name: "Prophet's Birthday",       nameAr: 'المولد النبوي الشريف' },
+  { date: '2026-10-06', name: 'Armed Forces Day',         nameAr: 'عيد القوات المسلحة' },
+] as const;
+
 // ──────────────────────────────────────────────
 // ORDER & LOGISTICS CONFIGURATION
 // ──────────────────────────────────────────────
@@ -154,6 +222,44 @@ export const VENDOR_SLAS = {
   maxReturnRate: 0.12,           // 12% — triggers review
 } as const;
 
+/**
+ * Made-to-order items are tracked through production. Vendors check in
+ * with their progress; silence or slow progress flags the order before
+ * the delivery promise is missed.
+ */
+export const MADE_TO_ORDER = {
+  checkInIntervalDays: 2,        // Expected gap between vendor check-ins
+  behindScheduleTolerance: 0.25, // Progress this far behind the straight line = at risk
+} as const;
+
+/**
+ * Ready-stock inventory. A checkout holds its units for
+ * reservationTtlMinutes; an abandoned checkout frees them again.
+ */
+export const INVENTORY = {
+  reservationTtlMinutes: 15,
+  defaultLowStockThreshold: 5,   // Units left (after reservations) that trigger a vendor alert
+} as const;
+
+/**
+ * Returns: who pays for the return trip depends on whose fault it was.
+ * The same party funds the refund of the original delivery fee — a
+ * customer who simply changed their mind gets the items back in full
+ * but not the delivery they used. Broken items don't go back on sale.
+ */
+export const RETURNS = {
+  windowDays: 14,                // Matches the escrow hold
+  reasons: {
+    defective:          { label: 'Defective / broken',      labelAr: 'معيب أو مكسور',          costBorneBy: 'vendor', refundsDelivery: true,  restocks: false },
+    not_as_described:   { label: 'Not as described',        labelAr: 'غير مطابق للوصف',        costBorneBy: 'vendor', refundsDelivery: true,  restocks: true },
+    wrong_item:         { label: 'Wrong item sent',         labelAr: 'منتج خاطئ',              costBorneBy: 'vendor', refundsDelivery: true,  restocks: true },
+    damaged_in_transit: { label: 'Damaged in transit',      labelAr: 'تلف أثناء الشحن',        costBorneBy: 'arooba', refundsDelivery: true,  restocks: false },
+    late_delivery:      { label: 'Arrived too late',        labelAr: 'تأخر التوصيل',           costBorneBy: 'arooba', refundsDelivery: true,  restocks: true },
+    changed_mind:       { label: 'Changed mind',            labelAr: 'غيّر رأيه',               costBorneBy: 'arooba', refundsDelivery: false, restocks: true },
+    size_or_fit:        { label: 'Size / fit',              labelAr: 'المقاس غير مناسب',       costBorneBy: 'arooba', refundsDelivery: false, restocks: true },
+  },
+} as const;
+
 /**
  * Shipping fee calculation uses zones and weight.
  * Volumetric Weight = (L × W × H) / 5000
@@ -164,6 +270,7 @@ export const SHIPPING = {
   smartComBaseRate: 50,          // EGP approximate base rate
   subsidizedRate: 45,            // What customer sees after buffer
   imageMaxSizeKB: 150,          // Auto-compress for 3G networks
+  couriers: ['SmartCom', 'Bosta', 'Aramex'], // Booked per shipment; a courier frozen for COD takes prepaid only
 } as const;
 
 // ──────────────────────────────────────────────
@@ -178,6 +285,47 @@ export const DELIVERY_ZONES = [
   { id: 'sinai',       name: 'سيناء',          nameEn: 'Sinai',          slaDays: '5-7' },
 ] as const;
 
+/**
+ * Courier rate cards by zone pair (EGP). Lookup order:
+ * exact pair → reverse pair → same-zone rate → national default.
+ */
+export const SHIPPING_RATES = {
+  national: { basePrice: 60, pricePerKg: 8 },
+  sameZone: {
+    'cairo':       { basePrice: 45, pricePerKg: 5 },
+    'alexandria':  { basePrice: 50, pricePerKg: 6 },
+    'delta':       { basePrice: 55, pricePerKg: 7 },
+    'upper-egypt': { basePrice: 65, pricePerKg: 8 },
+    'canal':       { basePrice: 55, pricePerKg: 7 },
+    'sinai':       { basePrice: 80, pricePerKg: 10 },
+  },
+  cards: [
+    { id: 'rc-001', fromZoneId: 'cairo',      toZoneId: 'alexandria',  basePrice: 55, pricePerKg: 6 },
+    { id: 'rc-002', fromZoneId: 'cairo',      toZoneId: 'delta',       basePrice: 55, pricePerKg: 6 },
+    { id: 'rc-003', fromZoneId: 'cairo',      toZoneId: 'canal',       basePrice: 55, pricePerKg: 6 },
+    { id: 'rc-004', fromZoneId: 'cairo',      toZoneId: 'upper-egypt', basePrice: 70, pricePerKg: 8 },
+    { id: 'rc-005', fromZoneId: 'cairo',      toZoneId: 'sinai',       basePrice: 90, pricePerKg: 10 },
+    { id: 'rc-006', fromZoneId: 'alexandria', toZoneId: 'delta',       basePrice: 55, pricePerKg: 6 },
+    { id: 'rc-007', fromZoneId: 'upper-egypt', toZoneId: 'alexandria', basePrice: 75, pricePerKg: 9 },
+  ],
+} as const;
+
+/**
+ * Shipping subsidy defaults (admin-editable under the 'shipping' config
+ * category). Arooba pays the gap between the courier fee and what the
+ * customer is charged — these rules decide how big that gap may be.
+ */
+export const SHIPPING_SUBSIDY = {
+  maxSubsidyRate: 0.25,          // Buffer never covers more than 25% of a fee
+  freeDeliveryThreshold: 400,    // Basket subtotal (EGP) for free delivery; 0 = off
+  firstOrderFreeDelivery: true,  // Customer's first order ships free
+  monthlyBudget: 150000,         // EGP Arooba may spend on delivery subsidies per month
+  zoneOverrides: {
+    'upper-egypt': { maxSubsidyRate: 0.35, freeDeliveryThreshold: 600 },
+    'sinai':       { maxSubsidyRate: 0.40, freeDeliveryThreshold: 800 },
+  } as Record<string, { maxSubsidyRate?: number; freeDeliveryThreshold?: number }>,
+} as const;
+
 // ──────────────────────────────────────────────
 // CUSTOMER & LOYALTY
 // ──────────────────────────────────────────────
@@ -204,6 +352,21 @@ export const FRAUD_RULES = {
   priceDeviationFlag: 0.20,     // ±20% from market = manual review
 } as const;
 
+/**
+ * Category reference prices for the deviation check. A benchmark needs
+ * at least `minSampleSize` active products; narrower groups (subcategory,
+ * weight band) fall back to the whole category when too small.
+ */
+export const PRICE_BENCHMARKS = {
+  minSampleSize: 4,
+  weightBands: [
+    { id: 'light',  maxKg: 0.5 },
+    { id: 'medium', maxKg: 2 },
+    { id: 'heavy',  maxKg: 10 },
+    { id: 'bulky',  maxKg: Infinity },
+  ],
+} as const;
+
 // ──────────────────────────────────────────────
 // PLATFORM KPI TARGETS (from monitoring checklist)
 // ──────────────────────────────────────────────
@@ -233,6 +396,18 @@ export const KPI_TARGETS = {
   systemUptime: 0.999,          // 99.9%
 } as const;
 
+// ──────────────────────────────────────────────
+// PRICING SIMULATION (config what-if)
+// ──────────────────────────────────────────────
+/**
+ * Price points customers notice. A config change that pushes a product
+ * from 99 to 104 EGP "crosses" 100 and usually hurts conversion more
+ * than the 5 EGP suggests.
+ */
+export const PRICE_SIMULATION = {
+  friendlyPricePoints: [50, 100, 150, 200, 250, 300, 500, 750, 1000, 1500, 2000, 3000, 5000],
+} as const;
+
 // ──────────────────────────────────────────────
 // PRODUCT CATEGORIES (for the catalog)
 // ──────────────────────────────────────────────
@@ -247,6 +422,19 @@ export const PRODUCT_CATEGORIES = [
   { id: 'food-essentials',      nameAr: 'أغذية ومستلزمات',      nameEn: 'Food & Essentials',      icon: '🍚' },
 ] as const;
 
+export const PRODUCT_SUBCATEGORIES = [
+  { id: 'pottery',       categoryId: 'home-decor-fragile',  nameAr: 'فخار وخزف',          nameEn: 'Pottery & Ceramics' },
+  { id: 'glassware',     categoryId: 'home-decor-fragile',  nameAr: 'زجاج يدوي',          nameEn: 'Hand-blown Glass' },
+  { id: 'kilims',        categoryId: 'home-decor-textiles', nameAr: 'كليم وسجاد',         nameEn: 'Kilims & Rugs' },
+  { id: 'cushions',      categoryId: 'home-decor-textiles', nameAr: 'وسائد ومفارش',       nameEn: 'Cushions & Throws' },
+  { id: 'scarves',       categoryId: 'fashion-apparel',     nameAr: 'أوشحة وشالات',       nameEn: 'Scarves & Shawls' },
+  { id: 'galabeyas',     categoryId: 'fashion-apparel',     nameAr: 'جلابيات',            nameEn: 'Galabeyas' },
+  { id: 'bags',          categoryId: 'leather-goods',       nameAr: 'حقائب',              nameEn: 'Bags' },
+  { id: 'small-leather', categoryId: 'leather-goods',       nameAr: 'محافظ وإكسسوارات',   nameEn: 'Wallets & Small Leather' },
+  { id: 'soaps',         categoryId: 'beauty-personal',     nameAr: 'صابون طبيعي',        nameEn: 'Natural Soaps' },
+  { id: 'oils',          categoryId: 'beauty-personal',     nameAr: 'زيوت عطرية',         nameEn: 'Essential Oils' },
+] as const;
+
 // ──────────────────────────────────────────────
 // USER ROLES (RBAC)
 // ──────────────────────────────────────────────
@@ -0,0 +1,385 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — COD Remittance Reconciliation
+ * ============================================================
+ *
+ * Matches the cash couriers say they deposited (their remittance CSV)
+ * against what each delivered shipment should have collected
+ * (`Shipment.codAmountDue`), flags deposits that are overdue and freezes
+ * couriers whose books don't add up.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * 62% of our orders are cash on delivery, so for a few days the courier
+ * holds most of our money. They must deposit it within
+ * `escrow.codDepositCycle` hours (default 48) of delivery. Every
+ * remittance file is checked line by line:
+ * - matched        — collected exactly what was due
+ * - partial        — collected less than due
+ * - over_collected — collected more than due (customer overcharged)
+ * - unmatched      — a tracking number we don't know
+ * - duplicate      — a shipment already remitted in an earlier line
+ * - overdue        — delivered, cash due, and no deposit in time
+ * If a courier's unresolved differences exceed
+ * `escrow.codDiscrepancyThreshold` (default 1%) of what they owe, they
+ * are frozen: no new COD shipments until finance resolves the lines.
+ * ============================================================
+ */
+
+import type { Shipment } from '../app/shared/types';
+import { ESCROW } from '../config/constants';
+import { type Money, ZERO_MONEY, egp, toEgp, addMoney, subtractMoney, sumMoney, negateMoney } from './money';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export interface RemittanceRow {
+  lineNumber: number;
+  trackingNumber: string;
+  amountCollected: Money;
+  depositedAt: string;
+  reference?: string;
+}
+
+export interface RemittanceParseIssue {
+  lineNumber: number;
+  message: string;
+}
+
+export interface RemittanceFile {
+  id: string;
+  courierProvider: string;
+  fileName: string;
+  importedAt: string;
+  rows: RemittanceRow[];
+  issues: RemittanceParseIssue[];         // Lines that could not be read
+}
+
+export type ReconciliationStatus = 'matched' | 'partial' | 'over_collected' | 'unmatched' | 'duplicate' | 'overdue';
+
+export type ResolutionAction =
+  | 'accept_variance'                     // The difference is real (e.g. agreed discount); close it
+  | 'charge_courier'                      // The courier owes the difference; recovered from their invoice
+  | 'write_off';
+
+export interface ReconciliationResolution {
+  action: ResolutionAction;
+  note: string;
+  resolvedBy: string;
+  resolvedAt: string;
+}
+
+export interface ReconciliationLine {
+  id: string;                             // `${fileId}:${lineNumber}` or `overdue:${shipmentId}`
+  status: ReconciliationStatus;
+  courierProvider: string;
+  trackingNumber: string;
+  shipmentId?: string;
+  orderId?: string;
+  amountDue: Money;
+  amountCollected: Money;
+  difference: Money;                      // collected − due
+  deliveredAt?: string;
+  depositedAt?: string;
+  isLate: boolean;                        // Deposited (or still missing) after the cycle
+  linkedManually?: boolean;               // Tracking number corrected by finance
+  resolution?: ReconciliationResolution;
+}
+
+export interface CourierReconciliationSummary {
+  courierProvider: string;
+  expected: Money;                        // COD due on delivered shipments
+  collected: Money;
+  discrepancy: Money;                     // Sum of unresolved |differences|
+  discrepancyRate: number;                // discrepancy ÷ expected
+  overdueCount: number;
+  lateCount: number;
+  openExceptions: number;
+  isFrozen: boolean;
+}
+
+export interface ReconciliationOptions {
+  asOf: string | Date;
+  depositCycleHours?: number;             // escrow.codDepositCycle
+  resolutions?: Record<string, ReconciliationResolution>;
+  links?: Record<string, string>;         // Line id → shipment id, for mistyped tracking numbers
+}
+
+export class CodReconciliationError extends Error {
+  readonly code:
+    | 'invalid_file'
+    | 'line_not_found'
+    | 'already_resolved'
+    | 'shipment_not_found'
+    | 'not_an_exception'
+    | 'not_unmatched'
+    | 'courier_frozen';
+
+  constructor(code: CodReconciliationError['code'], message: string) {
+    super(message);
+    this.name = 'CodReconciliationError';
+    this.code = code;
+  }
+}
+
+// ──────────────────────────────────────────────
+// IMPORTING REMITTANCE FILES
+// ──────────────────────────────────────────────
+
+const COLUMN_ALIASES: Record<'trackingNumber' | 'amountCollected' | 'depositedAt' | 'reference', string[]> = {
+  trackingNumber: ['tracking_number', 'tracking', 'awb'],
+  amountCollected: ['amount_collected', 'cod_amount', 'amount'],
+  depositedAt: ['deposited_at', 'deposit_date', 'date'],
+  reference: ['reference', 'deposit_reference', 'ref'],
+};
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted && ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+    else if (ch === '"') quoted = !quoted;
+    else if (ch === ',' && !quoted) { cells.push(cell.trim()); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Reads a courier remittance CSV. The header row may use any of the
+ * common column names (tracking_number/awb, amount_collected/cod_amount,
+ * deposited_at/date). Bad lines are reported in `issues`, not thrown —
+ * one typo must not block the rest of the file.
+ *
+ * @throws CodReconciliationError('invalid_file') when a required column is missing.
+ */
+export function parseRemittanceCsv(
+  csv: string,
+  meta: { id: string; courierProvider: string; fileName: string; importedAt: string }
+): RemittanceFile {
+  const lines = csv.replace(/^﻿/, '').split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? '').map(h => h.toLowerCase());
+  const column = (key: keyof typeof COLUMN_ALIASES) => header.findIndex(h => COLUMN_ALIASES[key].includes(h));
+  const idx = {
+    trackingNumber: column('trackingNumber'),
+    amountCollected: column('amountCollected'),
+    depositedAt: column('depositedAt'),
+    reference: column('reference'),
+  };
+  const missing = (['trackingNumber', 'amountCollected', 'depositedAt'] as const).filter(k => idx[k] < 0);
+  if (missing.length > 0) {
+    throw new CodReconciliationError('invalid_file', `${meta.fileName} is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const rows: RemittanceRow[] = [];
+  const issues: RemittanceParseIssue[] = [];
+  lines.slice(1).forEach((raw, i) => {
+    const lineNumber = i + 2;
+    if (!raw.trim()) return;
+    const cells = splitCsvLine(raw);
+    const trackingNumber = cells[idx.trackingNumber] ?? '';
+    const rawAmount = (cells[idx.amountCollected] ?? '').replace(/,/g, '');
+    const amount = Number(rawAmount);
+    const depositedAt = cells[idx.depositedAt] ?? '';
+
+    if (!trackingNumber) return void issues.push({ lineNumber, message: 'Missing tracking number' });
+    if (!rawAmount || !Number.isFinite(amount) || amount < 0) return void issues.push({ lineNumber, message: `Invalid amount "${cells[idx.amountCollected]}"` });
+    if (isNaN(new Date(depositedAt).getTime())) return void issues.push({ lineNumber, message: `Invalid deposit date "${depositedAt}"` });
+
+    rows.push({
+      lineNumber,
+      trackingNumber,
+      amountCollected: egp(amount),
+      depositedAt,
+      ...(idx.reference >= 0 && cells[idx.reference] ? { reference: cells[idx.reference] } : {}),
+    });
+  });
+
+  return { ...meta, rows, issues };
+}
+
+// ──────────────────────────────────────────────
+// MATCHING
+// ──────────────────────────────────────────────
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Deposit deadline: the cycle counts from the end of the delivery day. */
+export function codDepositDeadline(deliveredAt: string, cycleHours: number = ESCROW.codDepositCycle): Date {
+  return new Date(new Date(`${deliveredAt.slice(0, 10)}T23:59:59Z`).getTime() + cycleHours * HOUR_MS);
+}
+
+/**
+ * Reconciles remittance files against delivered COD shipments.
+ * Files are read in import order; the first line for a shipment wins and
+ * later ones are duplicates. Links and resolutions are keyed by line id.
+ */
+export function reconcileCodRemittances(
+  shipments: Shipment[],
+  files: RemittanceFile[],
+  options: ReconciliationOptions
+): ReconciliationLine[] {
+  const cycle = options.depositCycleHours ?? ESCROW.codDepositCycle;
+  const asOf = typeof options.asOf === 'string' ? new Date(options.asOf) : options.asOf;
+  const resolutions = options.resolutions ?? {};
+  const links = options.links ?? {};
+  const codShipments = shipments.filter(s => s.status === 'delivered' && s.codAmountDue.piastres > 0);
+  const byTracking = new Map(codShipments.filter(s => s.trackingNumber).map(s => [s.trackingNumber!, s]));
+  const byId = new Map(codShipments.map(s => [s.id, s]));
+  const remitted = new Set<string>();
+  const lines: ReconciliationLine[] = [];
+
+  for (const file of files) {
+    for (const row of file.rows) {
+      const id = `${file.id}:${row.lineNumber}`;
+      const resolution = resolutions[id];
+      // A row linked by hand is matched against the shipment finance chose
+      const shipment = links[id] ? byId.get(links[id]) : byTracking.get(row.trackingNumber);
+
+      const base = {
+        id,
+        courierProvider: file.courierProvider,
+        trackingNumber: row.trackingNumber,
+        amountCollected: row.amountCollected,
+        depositedAt: row.depositedAt,
+        ...(links[id] ? { linkedManually: true } : {}),
+        ...(resolution ? { resolution } : {}),
+      };
+
+      if (!shipment) {
+        lines.push({ ...base, status: 'unmatched', amountDue: ZERO_MONEY, difference: row.amountCollected, isLate: false });
+        continue;
+      }
+
+      const amountDue = shipment.codAmountDue;
+      const difference = subtractMoney(row.amountCollected, amountDue);
+      const deliveredAt = shipment.actualDeliveryDate;
+      const isLate = deliveredAt ? new Date(row.depositedAt) > codDepositDeadline(deliveredAt, cycle) : false;
+      const status: ReconciliationStatus = remitted.has(shipment.id) ? 'duplicate'
+        : difference.piastres === 0 ? 'matched'
+        : difference.piastres < 0 ? 'partial'
+        : 'over_collected';
+      remitted.add(shipment.id);
+
+      lines.push({
+        ...base,
+        status,
+        shipmentId: shipment.id,
+        orderId: shipment.orderId,
+        amountDue,
+        // A duplicate line is entirely extra cash
+        difference: status === 'duplicate' ? row.amountCollected : difference,
+        ...(deliveredAt ? { deliveredAt } : {}),
+        isLate,
+      });
+    }
+  }
+
+  for (const shipment of codShipments) {
+    if (remitted.has(shipment.id) || !shipment.actualDeliveryDate) continue;
+    if (asOf <= codDepositDeadline(shipment.actualDeliveryDate, cycle)) continue;
+    const id = `overdue:${shipment.id}`;
+    const amountDue = shipment.codAmountDue;
+    lines.push({
+      id,
+      status: 'overdue',
+      courierProvider: shipment.courierProvider ?? 'unknown',
+      trackingNumber: shipment.trackingNumber ?? '',
+      shipmentId: shipment.id,
+      orderId: shipment.orderId,
+      amountDue,
+      amountCollected: ZERO_MONEY,
+      difference: negateMoney(amountDue),
+      deliveredAt: shipment.actualDeliveryDate,
+      isLate: true,
+      ...(resolutions[id] ? { resolution: resolutions[id] } : {}),
+    });
+  }
+
+  return lines;
+}
+
+export function isReconciliationException(line: ReconciliationLine): boolean {
+  return line.status !== 'matched';
+}
+
+/**
+ * Per-courier totals and the freeze decision.
+ *
+ * BUSINESS LOGIC: discrepancy = Σ |difference| of unresolved exception
+ * lines (overdue deposits count in full). Frozen when
+ * discrepancy ÷ expected > threshold.
+ */
+export function summarizeCourierReconciliation(
+  lines: ReconciliationLine[],
+  discrepancyThreshold: number = ESCROW.codDiscrepancyThreshold
+): CourierReconciliationSummary[] {
+  const couriers = [...new Set(lines.map(l => l.courierProvider))].sort();
+  return couriers.map(courierProvider => {
+    const own = lines.filter(l => l.courierProvider === courierProvider);
+    const open = own.filter(l => isReconciliationException(l) && !l.resolution);
+    const expected = sumMoney(own.filter(l => l.status !== 'unmatched' && l.status !== 'duplicate').map(l => l.amountDue));
+    const collected = sumMoney(own.map(l => l.amountCollected));
+    const discrepancy = open.reduce((acc, l) => addMoney(acc, l.difference.piastres < 0 ? negateMoney(l.difference) : l.difference), ZERO_MONEY);
+    const discrepancyRate = expected.piastres > 0 ? discrepancy.piastres / expected.piastres : (discrepancy.piastres > 0 ? 1 : 0);
+
+    return {
+      courierProvider,
+      expected,
+      collected,
+      discrepancy,
+      discrepancyRate,
+      overdueCount: own.filter(l => l.status === 'overdue' && !l.resolution).length,
+      lateCount: own.filter(l => l.isLate).length,
+      openExceptions: open.length,
+      isFrozen: discrepancyRate > discrepancyThreshold,
+    };
+  });
+}
+
+// ──────────────────────────────────────────────
+// MANUAL RESOLUTION
+// ──────────────────────────────────────────────
+
+/** Exception lines only, and only once. */
+export function validateResolution(line: ReconciliationLine): void {
+  if (!isReconciliationException(line)) {
+    throw new CodReconciliationError('not_an_exception', `Line ${line.id} is matched — nothing to resolve`);
+  }
+  if (line.resolution) {
+    throw new CodReconciliationError('already_resolved', `Line ${line.id} was resolved by ${line.resolution.resolvedBy}`);
+  }
+}
+
+/**
+ * An unmatched row can be linked to a delivered COD shipment of the same
+ * courier. It is then re-matched — and may still turn out partial.
+ */
+export function validateLink(line: ReconciliationLine, shipmentId: string, shipments: Shipment[]): void {
+  if (line.status !== 'unmatched' || line.resolution) {
+    throw new CodReconciliationError('not_unmatched', `Line ${line.id} is ${line.status} — only unmatched lines can be linked`);
+  }
+  const target = shipments.find(s => s.id === shipmentId);
+  if (!target || target.status !== 'delivered' || target.codAmountDue.piastres <= 0 || target.courierProvider !== line.courierProvider) {
+    throw new CodReconciliationError('shipment_not_found', `${shipmentId || '—'} is not a delivered ${line.courierProvider} COD shipment`);
+  }
+}
+
+/**
+ * A courier frozen for COD discrepancies can't be booked for a shipment
+ * that collects cash; prepaid shipments can still use it.
+ */
+export function validateCodCourier(shipment: Shipment, courierProvider: string, frozenCouriers: string[]): void {
+  if (shipment.codAmountDue.piastres > 0 && frozenCouriers.includes(courierProvider)) {
+    throw new CodReconciliationError('courier_frozen', `${courierProvider} is frozen for COD — choose another courier for ${shipment.id}`);
+  }
+}
+
+/** One-line English summary for the audit trail. */
+export function describeResolution(line: ReconciliationLine, resolution: ReconciliationResolution): string {
+  return `COD ${line.status} ${line.trackingNumber || line.shipmentId} (${line.courierProvider}, ` +
+    `difference ${toEgp(line.difference)} EGP): ${resolution.action} — ${resolution.note}`;
+}
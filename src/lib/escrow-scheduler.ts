@@ -0,0 +1,291 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Escrow Scheduler
+ * ============================================================
+ *
+ * Works out, for every delivered shipment, when the vendor's money
+ * moves from "pending" (in escrow) to "available" (withdrawable), and
+ * rolls that up into a per-vendor timeline and wallet balances.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * After delivery we hold the vendor's share for `escrow.holdDays`
+ * (default 14) in case the customer returns the item.
+ * - Money is only released on a working day: never on a Friday or an
+ *   Egyptian public holiday — it rolls to the next working day.
+ * - If the customer opens a return, the hold clock stops. When the
+ *   return is rejected the clock resumes where it stopped; when it is
+ *   refunded the refunded amount is forfeited and never released.
+ *
+ * All dates are handled as calendar days (YYYY-MM-DD); the clock is
+ * injectable so the schedule can be replayed for any "today".
+ * ============================================================
+ */
+
+import type { Shipment, VendorWallet } from '../app/shared/types';
+import { ESCROW, EGYPT_PUBLIC_HOLIDAYS } from '../config/constants';
+import { type Money, ZERO_MONEY, toEgp, addMoney, subtractMoney, minMoney, sumMoney, isZeroMoney } from './money';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type EscrowClock = () => Date;
+
+export const systemClock: EscrowClock = () => new Date();
+
+export interface EscrowReturn {
+  id: string;
+  initiatedAt: string;
+  resolvedAt?: string;                    // Unset while the return is open
+  outcome?: 'rejected' | 'refunded';      // rejected = hold resumes
+  refundAmount?: Money;                   // Partial refund; defaults to everything held
+}
+
+/** A delivered shipment and the vendor share (Buckets A + B) it owes. */
+export interface EscrowShipmentInput {
+  shipment: Shipment;
+  vendorId: string;
+  vendorAmount: Money;
+  returns?: EscrowReturn[];
+}
+
+export interface PayoutCalendar {
+  holidays: readonly string[];            // YYYY-MM-DD
+  restDays: readonly number[];            // Day of week, 0 = Sunday
+}
+
+export interface EscrowScheduleOptions {
+  holdDays?: number;
+  calendar?: Partial<PayoutCalendar>;
+  clock?: EscrowClock;
+}
+
+export type EscrowStatus = 'pending' | 'paused' | 'available' | 'forfeited';
+
+export type EscrowEventType = 'held' | 'paused' | 'resumed' | 'released' | 'forfeited';
+
+export interface EscrowEvent {
+  date: string;
+  type: EscrowEventType;
+  vendorId: string;
+  shipmentId: string;
+  orderId: string;
+  amount: Money;
+  projected: boolean;                     // Scheduled, not yet happened
+}
+
+export interface EscrowEntry {
+  vendorId: string;
+  shipmentId: string;
+  orderId: string;
+  deliveredAt: string;
+  amount: Money;                          // Still owed to the vendor (after forfeits)
+  forfeited: Money;
+  status: EscrowStatus;
+  releaseDate?: string;                   // Unknown while a return is open
+  daysRemaining: number;                  // To release; frozen hold days while paused
+  pausedDays: number;
+}
+
+export interface VendorEscrowTimeline {
+  vendorId: string;
+  entries: EscrowEntry[];
+  events: EscrowEvent[];                  // Chronological
+  pendingBalance: Money;                  // Pending + paused
+  availableBalance: Money;
+  forfeitedTotal: Money;
+  nextReleaseDate?: string;
+  nextReleaseAmount: Money;
+}
+
+// ──────────────────────────────────────────────
+// PAYOUT CALENDAR
+// ──────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_PAYOUT_CALENDAR: PayoutCalendar = {
+  holidays: EGYPT_PUBLIC_HOLIDAYS.map(h => h.date),
+  restDays: ESCROW.payoutRestDays,
+};
+
+function toDayNumber(value: string | Date): number {
+  const d = typeof value === 'string' ? new Date(value) : value;
+  return Math.floor(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / DAY_MS);
+}
+
+function toIsoDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isPayoutDayNumber(day: number, calendar: PayoutCalendar): boolean {
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return !calendar.restDays.includes(weekday) && !calendar.holidays.includes(toIsoDate(day));
+}
+
+/** False on Fridays and Egyptian public holidays. */
+export function isPayoutDay(date: string | Date, calendar: PayoutCalendar = DEFAULT_PAYOUT_CALENDAR): boolean {
+  return isPayoutDayNumber(toDayNumber(date), calendar);
+}
+
+/** The given day if money can move on it, otherwise the next day that can. */
+export function nextPayoutDate(date: string | Date, calendar: PayoutCalendar = DEFAULT_PAYOUT_CALENDAR): string {
+  let day = toDayNumber(date);
+  while (!isPayoutDayNumber(day, calendar)) day++;
+  return toIsoDate(day);
+}
+
+// ──────────────────────────────────────────────
+// SCHEDULE
+// ──────────────────────────────────────────────
+
+/**
+ * Schedules one delivered shipment. Returns null for shipments that are
+ * not delivered yet — nothing is in escrow for them.
+ */
+export function scheduleEscrowEntry(
+  input: EscrowShipmentInput,
+  options: EscrowScheduleOptions = {}
+): { entry: EscrowEntry; events: EscrowEvent[] } | null {
+  const { shipment, vendorId } = input;
+  if (shipment.status !== 'delivered' || !shipment.actualDeliveryDate) return null;
+
+  const holdDays = options.holdDays ?? ESCROW.holdDays;
+  const calendar = { ...DEFAULT_PAYOUT_CALENDAR, ...options.calendar };
+  const today = toDayNumber((options.clock ?? systemClock)());
+
+  const delivered = toDayNumber(shipment.actualDeliveryDate);
+  let holdEnd = delivered + holdDays;
+  let amount = input.vendorAmount;
+  let forfeited = ZERO_MONEY;
+  let pausedDays = 0;
+  let status: EscrowStatus | undefined;
+  let daysRemaining = 0;
+
+  const events: EscrowEvent[] = [];
+  const push = (day: number, type: EscrowEventType, value: Money) =>
+    events.push({
+      date: toIsoDate(day), type, vendorId, shipmentId: shipment.id, orderId: shipment.orderId,
+      amount: value, projected: day > today,
+    });
+
+  push(delivered, 'held', amount);
+
+  const returns = [...(input.returns ?? [])].sort((a, b) => a.initiatedAt.localeCompare(b.initiatedAt));
+  for (const ret of returns) {
+    const start = toDayNumber(ret.initiatedAt);
+    // Returns opened after release are clawbacks, not escrow pauses
+    if (start > today || start >= holdEnd) continue;
+    push(start, 'paused', amount);
+
+    if (!ret.resolvedAt || toDayNumber(ret.resolvedAt) > today) {
+      status = 'paused';
+      daysRemaining = holdEnd - start;
+      break;
+    }
+
+    const end = toDayNumber(ret.resolvedAt);
+    holdEnd += end - start;
+    pausedDays += end - start;
+
+    if (ret.outcome === 'refunded') {
+      const refunded = minMoney(ret.refundAmount ?? amount, amount);
+      amount = subtractMoney(amount, refunded);
+      forfeited = addMoney(forfeited, refunded);
+      push(end, 'forfeited', refunded);
+      if (isZeroMoney(amount)) {
+        status = 'forfeited';
+        break;
+      }
+    }
+    push(end, 'resumed', amount);
+  }
+
+  let releaseDate: string | undefined;
+  if (!status) {
+    releaseDate = nextPayoutDate(toIsoDate(holdEnd), calendar);
+    const releaseDay = toDayNumber(releaseDate);
+    status = releaseDay <= today ? 'available' : 'pending';
+    daysRemaining = Math.max(0, releaseDay - today);
+    push(releaseDay, 'released', amount);
+  }
+
+  return {
+    entry: {
+      vendorId,
+      shipmentId: shipment.id,
+      orderId: shipment.orderId,
+      deliveredAt: toIsoDate(delivered),
+      amount,
+      forfeited,
+      status,
+      releaseDate,
+      daysRemaining,
+      pausedDays,
+    },
+    events,
+  };
+}
+
+/**
+ * Builds the escrow timeline for every vendor with delivered shipments.
+ *
+ * @example
+ * const timelines = buildEscrowSchedule(shipments, {
+ *   holdDays: getEscrowConfig().holdDays,
+ *   calendar: { holidays: getEscrowConfig().publicHolidays },
+ *   clock: () => new Date('2026-02-18'),
+ * });
+ * timelines[0].availableBalance // → released so far
+ */
+export function buildEscrowSchedule(
+  shipments: EscrowShipmentInput[],
+  options: EscrowScheduleOptions = {}
+): VendorEscrowTimeline[] {
+  const byVendor = new Map<string, { entries: EscrowEntry[]; events: EscrowEvent[] }>();
+
+  for (const input of shipments) {
+    const scheduled = scheduleEscrowEntry(input, options);
+    if (!scheduled) continue;
+    const vendor = byVendor.get(input.vendorId) ?? { entries: [], events: [] };
+    vendor.entries.push(scheduled.entry);
+    vendor.events.push(...scheduled.events);
+    byVendor.set(input.vendorId, vendor);
+  }
+
+  return [...byVendor.entries()].map(([vendorId, { entries, events }]) => {
+    const total = (statuses: EscrowStatus[]) =>
+      sumMoney(entries.filter(e => statuses.includes(e.status)).map(e => e.amount));
+
+    const upcoming = entries
+      .filter(e => e.status === 'pending' && e.releaseDate)
+      .sort((a, b) => a.releaseDate!.localeCompare(b.releaseDate!));
+    const nextReleaseDate = upcoming[0]?.releaseDate;
+
+    return {
+      vendorId,
+      entries,
+      events: events.sort((a, b) => a.date.localeCompare(b.date)),
+      pendingBalance: total(['pending', 'paused']),
+      availableBalance: total(['available']),
+      forfeitedTotal: sumMoney(entries.map(e => e.forfeited)),
+      nextReleaseDate,
+      nextReleaseAmount: sumMoney(upcoming.filter(e => e.releaseDate === nextReleaseDate).map(e => e.amount)),
+    };
+  });
+}
+
+/**
+ * Wallet balances from the escrow timeline. `withdrawn` is what has
+ * already been paid out of the released funds.
+ */
+export function toVendorWallet(timeline: VendorEscrowTimeline, withdrawn: Money = ZERO_MONEY): VendorWallet {
+  const available = subtractMoney(timeline.availableBalance, minMoney(withdrawn, timeline.availableBalance));
+  return {
+    vendorId: timeline.vendorId,
+    totalBalance: toEgp(addMoney(timeline.pendingBalance, available)),
+    pendingBalance: toEgp(timeline.pendingBalance),
+    availableBalance: toEgp(available),
+    lifetimeEarnings: toEgp(timeline.availableBalance),
+  };
+}
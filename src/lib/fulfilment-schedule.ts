@@ -0,0 +1,292 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Fulfilment Schedule (Promise Dates)
+ * ============================================================
+ *
+ * Works out the delivery window we promise the customer for every
+ * shipment, and tracks made-to-order items through production so a
+ * late workshop is noticed while the promise can still be kept.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * A hand-painted vase is made after the order comes in. For an order
+ * placed on 1 December to Cairo:
+ *   production     3 days (product lead time, else the sub-vendor's)
+ *   dispatch       1 day  (sla.maxDispatchHours, rounded up to days)
+ *   delivery     1–2 days (the zone's slaDays in DELIVERY_ZONES)
+ *   → "arrives 5–6 December"; the workshop must finish by 4 December.
+ * A shipment waits for its slowest item. Ready-stock items have no
+ * production step.
+ *
+ * While an item is in production the vendor checks in with progress.
+ * It is flagged:
+ * - late    — past its due date, or the vendor expects to finish after it
+ * - at risk — progress well behind schedule, or no check-in for
+ *             MADE_TO_ORDER.checkInIntervalDays
+ * All dates are calendar days (YYYY-MM-DD).
+ * ============================================================
+ */
+
+import type {
+  Order, OrderItem, Product, ProductionCheckIn, ProductionTracking, Shipment, SubVendor,
+} from '../app/shared/types';
+import { DELIVERY_ZONES, MADE_TO_ORDER, VENDOR_SLAS } from '../config/constants';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export interface PromiseOptions {
+  maxDispatchHours?: number;              // sla.maxDispatchHours
+}
+
+/** How a shipment's delivery window was built. */
+export interface ShipmentPromise {
+  shipmentId: string;
+  leadTimeDays: number;                   // Slowest made-to-order item; 0 for ready stock
+  dispatchDays: number;
+  transitDays: { min: number; max: number };
+  productionDueDate: string;              // Ready to hand over by
+  dispatchBy: string;
+  earliestDeliveryDate: string;
+  latestDeliveryDate: string;             // The promise
+}
+
+export type ProductionRiskLevel = 'on_track' | 'at_risk' | 'late';
+
+export type ProductionRiskReason = 'past_due' | 'vendor_expects_late' | 'behind_schedule' | 'no_recent_check_in';
+
+export interface ProductionRisk {
+  orderItemId: string;
+  level: ProductionRiskLevel;
+  reasons: ProductionRiskReason[];
+  expectedProgressPercent: number;        // Where a straight line from start to due would be today
+  projectedCompletionDate: string;
+}
+
+export class ProductionError extends Error {
+  readonly code: 'item_not_found' | 'not_made_to_order' | 'not_in_production' | 'production_completed' | 'invalid_progress';
+
+  constructor(code: ProductionError['code'], message: string) {
+    super(message);
+    this.name = 'ProductionError';
+    this.code = code;
+  }
+}
+
+export const PRODUCTION_STAGE_LABELS: Record<ProductionTracking['stage'], { ar: string; en: string }> = {
+  awaiting_start: { ar: 'لم يبدأ', en: 'Not started' },
+  in_production: { ar: 'قيد التصنيع', en: 'In production' },
+  finishing: { ar: 'التشطيب والتغليف', en: 'Finishing' },
+  completed: { ar: 'اكتمل', en: 'Completed' },
+};
+
+export const PRODUCTION_RISK_LABELS: Record<ProductionRiskReason, { ar: string; en: string }> = {
+  past_due: { ar: 'تجاوز موعد الانتهاء', en: 'Past its production due date' },
+  vendor_expects_late: { ar: 'المورد يتوقع التأخير', en: 'Vendor expects to finish late' },
+  behind_schedule: { ar: 'التقدم أبطأ من المخطط', en: 'Progress behind schedule' },
+  no_recent_check_in: { ar: 'لا توجد متابعة حديثة من المورد', en: 'No recent vendor check-in' },
+};
+
+// ──────────────────────────────────────────────
+// DATE HELPERS
+// ──────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date.slice(0, 10)) + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS);
+
+const laterDate = (a: string, b: string) => (a > b ? a : b);
+
+// ──────────────────────────────────────────────
+// PROMISE DATES
+// ──────────────────────────────────────────────
+
+/**
+ * Production days for a product: its own lead time, else its
+ * sub-vendor's default. Ready-stock products take none.
+ */
+export function resolveLeadTimeDays(product: Product, subVendors: SubVendor[] = []): number {
+  if (product.stockMode !== 'made_to_order') return 0;
+  return product.leadTimeDays ?? subVendors.find(sv => sv.id === product.subVendorId)?.defaultLeadTimeDays ?? 0;
+}
+
+/** The courier's delivery window for a zone, e.g. '1-2' → { min: 1, max: 2 }. Unknown zones get the slowest window. */
+export function zoneTransitDays(zoneId: string): { min: number; max: number } {
+  const parse = (slaDays: string) => {
+    const [min, max = min] = slaDays.split('-').map(Number);
+    return { min, max };
+  };
+  const zone = DELIVERY_ZONES.find(z => z.id === zoneId);
+  if (zone) return parse(zone.slaDays);
+  return DELIVERY_ZONES.map(z => parse(z.slaDays)).reduce((a, b) => (b.max > a.max ? b : a));
+}
+
+const shipmentItems = (order: Order, shipment: Shipment): OrderItem[] =>
+  order.items.filter(i => i.pickupLocationId === shipment.pickupLocationId);
+
+/**
+ * The customer-facing delivery window for one shipment, counted from
+ * when the order was placed.
+ */
+export function promiseShipment(order: Order, shipment: Shipment, options: PromiseOptions = {}): ShipmentPromise {
+  const leadTimeDays = Math.max(0, ...shipmentItems(order, shipment).map(i => i.leadTimeDays ?? 0));
+  const dispatchDays = Math.ceil((options.maxDispatchHours ?? VENDOR_SLAS.maxDispatchHours) / 24);
+  const transitDays = zoneTransitDays(order.deliveryZoneId);
+
+  const productionDueDate = addDays(order.createdAt, leadTimeDays);
+  const dispatchBy = addDays(productionDueDate, dispatchDays);
+  return {
+    shipmentId: shipment.id,
+    leadTimeDays,
+    dispatchDays,
+    transitDays,
+    productionDueDate,
+    dispatchBy,
+    earliestDeliveryDate: addDays(dispatchBy, transitDays.min),
+    latestDeliveryDate: addDays(dispatchBy, transitDays.max),
+  };
+}
+
+/** Stamps every shipment with its promised window (at checkout). */
+export function applyPromiseDates(order: Order, options: PromiseOptions = {}): Order {
+  return {
+    ...order,
+    shipments: order.shipments.map(shipment => {
+      const promise = promiseShipment(order, shipment, options);
+      return { ...shipment, earliestDeliveryDate: promise.earliestDeliveryDate, estimatedDeliveryDate: promise.latestDeliveryDate };
+    }),
+  };
+}
+
+/**
+ * A new order at checkout: each item gets its product's lead time and
+ * every shipment its promised window. Lead times already on an item
+ * (agreed with the customer) are kept.
+ */
+export function promiseOrder(
+  order: Order,
+  catalogue: { products: Product[]; subVendors: SubVendor[] },
+  options: PromiseOptions = {}
+): Order {
+  const items = order.items.map((item) => {
+    const product = catalogue.products.find(p => p.id === item.productId);
+    if (item.leadTimeDays !== undefined || !product) return item;
+    const leadTimeDays = resolveLeadTimeDays(product, catalogue.subVendors);
+    return leadTimeDays > 0 ? { ...item, leadTimeDays } : item;
+  });
+  return applyPromiseDates({ ...order, items }, options);
+}
+
+// ──────────────────────────────────────────────
+// PRODUCTION TRACKING
+// ──────────────────────────────────────────────
+
+/**
+ * Opens production for every made-to-order item when the vendor
+ * accepts. The due date comes from the promise, not the acceptance —
+ * a late acceptance eats into the workshop's time, not the customer's.
+ */
+export function startProduction(order: Order, at: string): OrderItem[] {
+  return order.items.map(item => (!item.leadTimeDays || item.production ? item : {
+    ...item,
+    production: {
+      startedAt: at,
+      dueDate: addDays(order.createdAt, item.leadTimeDays),
+      stage: 'awaiting_start',
+      progressPercent: 0,
+      checkIns: [],
+    },
+  }));
+}
+
+/** Items of these shipments still being made. */
+export function unfinishedProduction(order: Order, shipments: readonly Shipment[]): OrderItem[] {
+  const locations = new Set(shipments.map(s => s.pickupLocationId));
+  return order.items.filter(i => locations.has(i.pickupLocationId) && i.production && i.production.stage !== 'completed');
+}
+
+/**
+ * Adds a vendor check-in. Progress can't go backwards; the 'completed'
+ * stage closes production at 100%.
+ *
+ * @throws ProductionError when the item is unknown, not made to order,
+ *   not in production yet, already completed, or the progress is
+ *   outside 0–100 or lower than the last check-in.
+ */
+export function recordProductionCheckIn(order: Order, orderItemId: string, checkIn: ProductionCheckIn): Order {
+  const item = order.items.find(i => i.id === orderItemId);
+  if (!item) throw new ProductionError('item_not_found', `Item ${orderItemId} is not on order ${order.id}`);
+  if (!item.leadTimeDays) throw new ProductionError('not_made_to_order', `${item.productTitle} is ready stock`);
+  const production = item.production;
+  if (!production) throw new ProductionError('not_in_production', `Order ${order.id} has not been accepted yet`);
+  if (production.stage === 'completed') throw new ProductionError('production_completed', `${orderItemId} was completed on ${production.completedAt}`);
+
+  const progressPercent = checkIn.stage === 'completed' ? 100 : checkIn.progressPercent;
+  if (progressPercent < 0 || progressPercent > 100 || progressPercent < production.progressPercent) {
+    throw new ProductionError('invalid_progress', `Progress must be between ${production.progressPercent} and 100, got ${checkIn.progressPercent}`);
+  }
+
+  const updated: ProductionTracking = {
+    ...production,
+    stage: checkIn.stage,
+    progressPercent,
+    checkIns: [...production.checkIns, { ...checkIn, progressPercent }],
+    ...(checkIn.stage === 'completed' ? { completedAt: checkIn.at } : {}),
+  };
+  return {
+    ...order,
+    items: order.items.map(i => (i.id === orderItemId ? { ...i, production: updated } : i)),
+    updatedAt: checkIn.at,
+  };
+}
+
+/**
+ * How an item's production is going as of `today`. Null for items
+ * without production tracking.
+ */
+export function assessProduction(item: OrderItem, today: string): ProductionRisk | null {
+  const production = item.production;
+  if (!production) return null;
+
+  const totalDays = Math.max(1, daysBetween(production.startedAt, production.dueDate));
+  const elapsed = Math.min(1, Math.max(0, daysBetween(production.startedAt, today) / totalDays));
+  const expectedProgressPercent = Math.round(elapsed * 100);
+
+  if (production.stage === 'completed') {
+    const completed = (production.completedAt ?? today).slice(0, 10);
+    return {
+      orderItemId: item.id,
+      level: completed > production.dueDate ? 'late' : 'on_track',
+      reasons: completed > production.dueDate ? ['past_due'] : [],
+      expectedProgressPercent,
+      projectedCompletionDate: completed,
+    };
+  }
+
+  const last = production.checkIns[production.checkIns.length - 1];
+  const reasons: ProductionRiskReason[] = [];
+  if (today > production.dueDate) reasons.push('past_due');
+  if (last?.expectedCompletionDate && last.expectedCompletionDate > production.dueDate) reasons.push('vendor_expects_late');
+  if (expectedProgressPercent - production.progressPercent > MADE_TO_ORDER.behindScheduleTolerance * 100) reasons.push('behind_schedule');
+  if (daysBetween(last?.at ?? production.startedAt, today) > MADE_TO_ORDER.checkInIntervalDays) reasons.push('no_recent_check_in');
+
+  const late = reasons.includes('past_due') || reasons.includes('vendor_expects_late');
+  return {
+    orderItemId: item.id,
+    level: late ? 'late' : reasons.length > 0 ? 'at_risk' : 'on_track',
+    reasons,
+    expectedProgressPercent,
+    projectedCompletionDate: laterDate(today, last?.expectedCompletionDate ?? production.dueDate),
+  };
+}
+
+/** The order's production items that are at risk or late. */
+export function getProductionRisks(order: Order, today: string): ProductionRisk[] {
+  return order.items
+    .map(item => assessProduction(item, today))
+    .filter((risk): risk is ProductionRisk => risk !== null && risk.level !== 'on_track');
+}
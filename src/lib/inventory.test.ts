@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { Order, Product } from '../app/shared/types';
+import {
+  InventoryError,
+  commitOrderStock,
+  getStockLevel,
+  placeReservation,
+  releaseReservation,
+  reserveStock,
+  type InventoryChange,
+  type InventorySnapshot,
+} from './inventory';
+
+const at = '2026-03-01T10:00:00.000Z';
+const minutesLater = (minutes: number) => new Date(Date.parse(at) + minutes * 60_000).toISOString();
+
+/** A kilim with one unit left on the shelf. */
+const lastKilim: Product = {
+  id: 'p-kilim', sku: 'SIWA-KILIM-001', parentVendorId: 'v-002',
+  categoryId: 'home-decor-textiles', subcategoryId: 'kilims', title: 'Siwa Kilim', titleAr: 'كليم سيوة',
+  description: '', descriptionAr: '', images: [], costPrice: 1200, sellingPrice: 1500, cooperativeFee: 0,
+  marketplaceUplift: 300, finalPrice: 1800, pickupLocationId: 'loc-002', stockMode: 'ready_stock',
+  quantityAvailable: 1, weightKg: 4.5, isLocalOnly: false, status: 'active', isFeatured: false,
+  createdAt: '2026-01-10', updatedAt: '2026-01-10',
+};
+
+const emptyShelf: InventorySnapshot = { products: [lastKilim], reservations: [] };
+
+/** The snapshot after `change`, as the store would apply it. */
+const apply = (snapshot: InventorySnapshot, change: InventoryChange): InventorySnapshot => ({
+  products: snapshot.products.map(p => change.updatedProducts.find(u => u.id === p.id) ?? p),
+  reservations: change.reservations,
+});
+
+const reserveLast = (snapshot: InventorySnapshot, checkoutId: string, when = at) =>
+  reserveStock(snapshot, { checkoutId, lines: [{ productId: lastKilim.id, quantity: 1 }], at: when });
+
+function inventoryError(fn: () => unknown) {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof InventoryError) return { code: e.code, details: e.details };
+    throw e;
+  }
+  return null;
+}
+
+describe('reserving the last unit', () => {
+  it('holds it for the first checkout', () => {
+    const { reservation, change } = reserveLast(emptyShelf, 'chk-1');
+    expect(reservation).toMatchObject({ id: 'RSV-chk-1', status: 'held', expiresAt: minutesLater(15) });
+    expect(change.movements.map(m => [m.type, m.reservedAfter, m.onHandAfter])).toEqual([['reserved', 1, 1]]);
+    expect(getStockLevel(lastKilim, change.reservations, at).available).toBe(0);
+  });
+
+  it('refuses a second checkout while the hold is live', () => {
+    const held = apply(emptyShelf, reserveLast(emptyShelf, 'chk-1').change);
+    expect(inventoryError(() => reserveLast(held, 'chk-2', minutesLater(14)))).toEqual({
+      code: 'insufficient_stock',
+      details: { productId: lastKilim.id, requested: 1, available: 0 },
+    });
+  });
+
+  it('returns the same hold when the first checkout retries', () => {
+    const held = apply(emptyShelf, reserveLast(emptyShelf, 'chk-1').change);
+    const retry = reserveLast(held, 'chk-1', minutesLater(1));
+    expect(retry.reservation.id).toBe('RSV-chk-1');
+    expect(retry.change.movements).toEqual([]);
+  });
+
+  it('frees it for the next checkout once the hold expires', () => {
+    const held = apply(emptyShelf, reserveLast(emptyShelf, 'chk-1').change);
+    const { reservation, change } = reserveLast(held, 'chk-2', minutesLater(15));
+    expect(reservation.id).toBe('RSV-chk-2');
+    expect(change.movements.map(m => m.type)).toEqual(['reservation_expired', 'reserved']);
+    expect(change.reservations.find(r => r.id === 'RSV-chk-1')?.status).toBe('expired');
+  });
+
+  it('frees it when the checkout is abandoned', () => {
+    const held = apply(emptyShelf, reserveLast(emptyShelf, 'chk-1').change);
+    const released = apply(held, releaseReservation(held, 'RSV-chk-1', minutesLater(2)));
+    expect(reserveLast(released, 'chk-2', minutesLater(3)).reservation.status).toBe('held');
+  });
+
+  it('keeps a placed hold past the expiry and sells it on acceptance', () => {
+    const held = apply(emptyShelf, reserveLast(emptyShelf, 'chk-1').change);
+    const placed = apply(held, placeReservation(held, 'RSV-chk-1', 'ORD-1', minutesLater(5)));
+    expect(inventoryError(() => reserveLast(placed, 'chk-2', minutesLater(60)))?.code).toBe('insufficient_stock');
+
+    const order = { id: 'ORD-1', items: [{ productId: lastKilim.id, quantity: 1 }] } as Order;
+    const sold = commitOrderStock(placed, order, minutesLater(90));
+    expect(sold.updatedProducts.map(p => p.quantityAvailable)).toEqual([0]);
+    expect(sold.movements.map(m => [m.type, m.onHandAfter, m.reservedAfter])).toEqual([['sold', 0, 0]]);
+  });
+
+  it('refuses more than is on the shelf, or a fractional quantity', () => {
+    const tooMany = () => reserveStock(emptyShelf, { checkoutId: 'chk-1', lines: [{ productId: lastKilim.id, quantity: 2 }], at });
+    expect(inventoryError(tooMany)?.code).toBe('insufficient_stock');
+    const fraction = () => reserveStock(emptyShelf, { checkoutId: 'chk-1', lines: [{ productId: lastKilim.id, quantity: 0.5 }], at });
+    expect(inventoryError(fraction)?.code).toBe('invalid_quantity');
+  });
+});
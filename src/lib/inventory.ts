@@ -0,0 +1,509 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Ready-Stock Inventory
+ * ============================================================
+ *
+ * Reservations, sales and restocks of ready-stock products, each one
+ * written to a per-product stock movement ledger. Pure: every
+ * operation takes the current products and reservations and returns
+ * what changed; the store (store/inventory-store.ts) applies it.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Siwa Textiles has 8 kilims on the shelf.
+ * - A customer starts checkout with 1: it is held for them for
+ *   INVENTORY.reservationTtlMinutes. Other customers can buy 7.
+ * - They pay / confirm COD → the hold stays until the vendor accepts.
+ *   They walk away instead → the hold expires and the kilim is free.
+ * - The vendor accepts → the kilim is sold: 7 on the shelf.
+ * - The order is cancelled after acceptance, or the kilim comes back
+ *   in a return in sellable condition → back on the shelf (8).
+ * - Stock counts from the vendor (bulk_stock_update requests) are
+ *   adjustments, and may not drop below what is already promised.
+ * "Available" is what is on the shelf minus what is held. When it
+ * falls to the product's low-stock threshold, the vendor is told.
+ * Made-to-order products hold no stock and are not tracked here.
+ * ============================================================
+ */
+
+import type { Order, Product, VendorActionRequest } from '../app/shared/types';
+import { INVENTORY } from '../config/constants';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * held      — checkout in progress, binding until expiresAt
+ * placed    — checkout completed, waiting for the vendor to accept
+ * committed — accepted: the units were sold
+ * released / expired — the units went back to available
+ */
+export type ReservationStatus = 'held' | 'placed' | 'committed' | 'released' | 'expired';
+
+export interface StockReservation {
+  id: string;                             // RSV-<checkoutId>
+  checkoutId: string;
+  orderId?: string;
+  lines: StockLine[];                     // Ready-stock lines only
+  status: ReservationStatus;
+  createdAt: string;
+  expiresAt: string;                      // Only binding while 'held'
+  closedAt?: string;
+}
+
+export type StockMovementType =
+  | 'reserved'
+  | 'reservation_released'
+  | 'reservation_expired'
+  | 'sold'
+  | 'restock_cancellation'
+  | 'restock_return'
+  | 'adjustment';
+
+/** One line of a product's stock ledger. */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  onHandDelta: number;
+  reservedDelta: number;
+  onHandAfter: number;
+  reservedAfter: number;
+  at: string;
+  reference: string;                      // Reservation, order, return or approval request id
+  note?: string;
+}
+
+export interface StockLevel {
+  productId: string;
+  onHand: number;
+  reserved: number;
+  available: number;                      // What a new checkout can still take
+  lowStockThreshold: number;
+  isLow: boolean;
+}
+
+export interface LowStockAlert {
+  productId: string;
+  vendorId: string;
+  available: number;
+  lowStockThreshold: number;
+}
+
+export interface InventorySnapshot {
+  products: Product[];
+  reservations: StockReservation[];
+}
+
+/** The result of an operation: apply all of it or none. */
+export interface InventoryChange {
+  updatedProducts: Product[];
+  reservations: StockReservation[];
+  movements: StockMovement[];
+  lowStock: LowStockAlert[];              // Products that just crossed their threshold
+}
+
+/** The proposedValues of a bulk_stock_update request. */
+export interface BulkStockUpdate {
+  lines: { productId: string; quantityAvailable: number }[];
+}
+
+export class InventoryError extends Error {
+  readonly code:
+    | 'product_not_found'
+    | 'not_ready_stock'
+    | 'invalid_quantity'
+    | 'insufficient_stock'
+    | 'reservation_not_found'
+    | 'reservation_closed'
+    | 'invalid_payload';
+  readonly details: { productId?: string; requested?: number; available?: number; reservationId?: string };
+
+  constructor(code: InventoryError['code'], message: string, details: InventoryError['details'] = {}) {
+    super(message);
+    this.name = 'InventoryError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, { ar: string; en: string }> = {
+  reserved: { ar: 'حجز عند الدفع', en: 'Reserved at checkout' },
+  reservation_released: { ar: 'إلغاء الحجز', en: 'Reservation released' },
+  reservation_expired: { ar: 'انتهاء مهلة الحجز', en: 'Reservation expired' },
+  sold: { ar: 'بيع (قبول الطلب)', en: 'Sold (order accepted)' },
+  restock_cancellation: { ar: 'إرجاع للمخزون — إلغاء', en: 'Restocked — cancellation' },
+  restock_return: { ar: 'إرجاع للمخزون — مرتجع', en: 'Restocked — return' },
+  adjustment: { ar: 'تعديل جرد', en: 'Stock count adjustment' },
+};
+
+// ──────────────────────────────────────────────
+// STOCK LEVELS
+// ──────────────────────────────────────────────
+
+const isOpen = (r: StockReservation) => r.status === 'held' || r.status === 'placed';
+
+const isBinding = (r: StockReservation, at: string) =>
+  r.status === 'placed' || (r.status === 'held' && Date.parse(r.expiresAt) > Date.parse(at));
+
+const lowStockThreshold = (product: Product) => product.lowStockThreshold ?? INVENTORY.defaultLowStockThreshold;
+
+/** Units of the product held by checkouts and unaccepted orders at `at`. */
+export function reservedQuantity(reservations: readonly StockReservation[], productId: string, at: string): number {
+  return reservations
+    .filter(r => isBinding(r, at))
+    .flatMap(r => r.lines)
+    .filter(l => l.productId === productId)
+    .reduce((sum, l) => sum + l.quantity, 0);
+}
+
+export function getStockLevel(product: Product, reservations: readonly StockReservation[], at: string): StockLevel {
+  const reserved = reservedQuantity(reservations, product.id, at);
+  const available = Math.max(0, product.quantityAvailable - reserved);
+  return {
+    productId: product.id,
+    onHand: product.quantityAvailable,
+    reserved,
+    available,
+    lowStockThreshold: lowStockThreshold(product),
+    isLow: product.stockMode === 'ready_stock' && available <= lowStockThreshold(product),
+  };
+}
+
+// ──────────────────────────────────────────────
+// CHANGE BUILDER
+// ──────────────────────────────────────────────
+
+interface StockStep {
+  productId: string;
+  type: StockMovementType;
+  onHandDelta: number;
+  reservedDelta: number;
+  reference: string;
+  note?: string;
+}
+
+/**
+ * Turns steps into movements with running balances. Held reservations
+ * past their expiry are swept first, so every change also records the
+ * expiries it found.
+ */
+function buildChange(
+  snapshot: InventorySnapshot,
+  at: string,
+  update: (reservations: StockReservation[]) => { reservations: StockReservation[]; steps: StockStep[] }
+): InventoryChange {
+  const sweepSteps: StockStep[] = [];
+  const swept = snapshot.reservations.map(r => {
+    if (r.status !== 'held' || Date.parse(r.expiresAt) > Date.parse(at)) return r;
+    sweepSteps.push(...r.lines.map(l => ({
+      productId: l.productId, type: 'reservation_expired' as const, onHandDelta: 0, reservedDelta: -l.quantity, reference: r.id,
+    })));
+    return { ...r, status: 'expired' as const, closedAt: r.expiresAt };
+  });
+  const { reservations, steps } = update(swept);
+
+  // Running balances start from the unswept holds: an expiry is a movement too
+  const onHand = new Map<string, number>();
+  const reserved = new Map<string, number>();
+  const product = (id: string) => snapshot.products.find(p => p.id === id)!;
+  const movements: StockMovement[] = [];
+  for (const step of [...sweepSteps, ...steps]) {
+    const beforeOnHand = onHand.get(step.productId) ?? product(step.productId).quantityAvailable;
+    const beforeReserved = reserved.get(step.productId)
+      ?? snapshot.reservations.filter(isOpen).flatMap(r => r.lines).filter(l => l.productId === step.productId).reduce((s, l) => s + l.quantity, 0);
+    onHand.set(step.productId, beforeOnHand + step.onHandDelta);
+    reserved.set(step.productId, beforeReserved + step.reservedDelta);
+    movements.push({
+      id: `SM-${Date.parse(at)}-${step.type}-${step.reference}-${step.productId}`,
+      productId: step.productId,
+      type: step.type,
+      onHandDelta: step.onHandDelta,
+      reservedDelta: step.reservedDelta,
+      onHandAfter: beforeOnHand + step.onHandDelta,
+      reservedAfter: beforeReserved + step.reservedDelta,
+      at,
+      reference: step.reference,
+      ...(step.note ? { note: step.note } : {}),
+    });
+  }
+
+  const updatedProducts = snapshot.products
+    .filter(p => onHand.has(p.id) && onHand.get(p.id) !== p.quantityAvailable)
+    .map(p => ({ ...p, quantityAvailable: onHand.get(p.id)!, updatedAt: at }));
+
+  const lowStock = [...new Set(steps.map(s => s.productId))].flatMap(id => {
+    const before = getStockLevel(product(id), snapshot.reservations, at);
+    const after = getStockLevel(updatedProducts.find(p => p.id === id) ?? product(id), reservations, at);
+    return after.isLow && before.available > after.lowStockThreshold
+      ? [{ productId: id, vendorId: product(id).parentVendorId, available: after.available, lowStockThreshold: after.lowStockThreshold }]
+      : [];
+  });
+  return { updatedProducts, reservations, movements, lowStock };
+}
+
+function findReservation(reservations: StockReservation[], id: string): StockReservation {
+  const reservation = reservations.find(r => r.id === id);
+  if (!reservation) throw new InventoryError('reservation_not_found', `Reservation ${id} not found`, { reservationId: id });
+  return reservation;
+}
+
+const replace = (reservations: StockReservation[], updated: StockReservation) =>
+  reservations.map(r => (r.id === updated.id ? updated : r));
+
+/** Merges duplicate products and drops made-to-order lines. */
+function stockLines(products: readonly Product[], lines: readonly StockLine[]): StockLine[] {
+  const merged = new Map<string, number>();
+  for (const line of lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new InventoryError('invalid_quantity', `Quantity of ${line.productId} must be a positive whole number`, { productId: line.productId, requested: line.quantity });
+    }
+    const product = products.find(p => p.id === line.productId);
+    if (!product) throw new InventoryError('product_not_found', `Product ${line.productId} not found`, { productId: line.productId });
+    if (product.stockMode !== 'ready_stock') continue;
+    merged.set(line.productId, (merged.get(line.productId) ?? 0) + line.quantity);
+  }
+  return [...merged].map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/** @throws InventoryError('insufficient_stock') for the first line that doesn't fit. */
+function assertAvailable(snapshot: InventorySnapshot, reservations: StockReservation[], lines: StockLine[], at: string) {
+  for (const line of lines) {
+    const product = snapshot.products.find(p => p.id === line.productId)!;
+    const { available } = getStockLevel(product, reservations, at);
+    if (line.quantity > available) {
+      throw new InventoryError(
+        'insufficient_stock',
+        `Only ${available} of ${product.titleAr} available, ${line.quantity} requested`,
+        { productId: line.productId, requested: line.quantity, available }
+      );
+    }
+  }
+}
+
+// ──────────────────────────────────────────────
+// CHECKOUT RESERVATIONS
+// ──────────────────────────────────────────────
+
+/**
+ * Holds the checkout's ready-stock units, all or nothing. Calling it
+ * again for a checkout that already has an open reservation returns
+ * that reservation — a retried request never holds twice.
+ *
+ * @throws InventoryError when a product is unknown, a quantity is not a
+ *   positive whole number, or a line exceeds what is available.
+ */
+export function reserveStock(
+  snapshot: InventorySnapshot,
+  input: { checkoutId: string; lines: StockLine[]; at: string; ttlMinutes?: number }
+): { reservation: StockReservation; change: InventoryChange } {
+  const id = `RSV-${input.checkoutId}`;
+  const lines = stockLines(snapshot.products, input.lines);
+  let reservation!: StockReservation;
+
+  const change = buildChange(snapshot, input.at, (reservations) => {
+    const existing = reservations.find(r => r.id === id && isOpen(r));
+    if (existing) {
+      reservation = existing;
+      return { reservations, steps: [] };
+    }
+    assertAvailable(snapshot, reservations, lines, input.at);
+    reservation = {
+      id,
+      checkoutId: input.checkoutId,
+      lines,
+      status: 'held',
+      createdAt: input.at,
+      expiresAt: new Date(Date.parse(input.at) + (input.ttlMinutes ?? INVENTORY.reservationTtlMinutes) * 60_000).toISOString(),
+    };
+    return {
+      reservations: [...reservations.filter(r => r.id !== id), reservation],
+      steps: lines.map(l => ({ productId: l.productId, type: 'reserved', onHandDelta: 0, reservedDelta: l.quantity, reference: id })),
+    };
+  });
+  return { reservation, change };
+}
+
+/**
+ * The checkout completed: the hold now belongs to the order and no
+ * longer expires.
+ *
+ * @throws InventoryError when the reservation is unknown, or already
+ *   expired, released or attached to an order.
+ */
+export function placeReservation(snapshot: InventorySnapshot, reservationId: string, orderId: string, at: string): InventoryChange {
+  return buildChange(snapshot, at, (reservations) => {
+    const reservation = findReservation(reservations, reservationId);
+    if (reservation.status !== 'held') {
+      throw new InventoryError('reservation_closed', `Reservation ${reservationId} is ${reservation.status}`, { reservationId });
+    }
+    return { reservations: replace(reservations, { ...reservation, status: 'placed', orderId }), steps: [] };
+  });
+}
+
+/** The checkout was abandoned: its units are free again. */
+export function releaseReservation(snapshot: InventorySnapshot, reservationId: string, at: string): InventoryChange {
+  return buildChange(snapshot, at, (reservations) => {
+    const reservation = findReservation(reservations, reservationId);
+    if (!isOpen(reservation)) return { reservations, steps: [] };
+    return {
+      reservations: replace(reservations, { ...reservation, status: 'released', closedAt: at }),
+      steps: reservation.lines.map(l => ({
+        productId: l.productId, type: 'reservation_released', onHandDelta: 0, reservedDelta: -l.quantity, reference: reservation.id,
+      })),
+    };
+  });
+}
+
+/** Frees every hold whose checkout wasn't completed in time. */
+export function expireReservations(snapshot: InventorySnapshot, at: string): InventoryChange {
+  return buildChange(snapshot, at, (reservations) => ({ reservations, steps: [] }));
+}
+
+// ──────────────────────────────────────────────
+// ORDER LIFECYCLE
+// ──────────────────────────────────────────────
+
+const orderLines = (products: readonly Product[], order: Order): StockLine[] =>
+  stockLines(products, order.items.map(i => ({ productId: i.productId, quantity: i.quantity })));
+
+const orderReservation = (reservations: StockReservation[], orderId: string) =>
+  reservations.find(r => r.orderId === orderId && (r.status === 'placed' || r.status === 'committed'));
+
+/**
+ * The vendor accepted: the order's units are sold. Uses the order's
+ * reservation; an order placed without one takes from what is
+ * available.
+ *
+ * @throws InventoryError('insufficient_stock') when an order without a
+ *   reservation no longer fits.
+ */
+export function commitOrderStock(snapshot: InventorySnapshot, order: Order, at: string): InventoryChange {
+  return buildChange(snapshot, at, (reservations) => {
+    const reservation = orderReservation(reservations, order.id);
+    if (reservation?.status === 'committed') return { reservations, steps: [] };
+    if (reservation) {
+      return {
+        reservations: replace(reservations, { ...reservation, status: 'committed', closedAt: at }),
+        steps: reservation.lines.map(l => ({
+          productId: l.productId, type: 'sold', onHandDelta: -l.quantity, reservedDelta: -l.quantity, reference: order.id,
+        })),
+      };
+    }
+    const lines = orderLines(snapshot.products, order);
+    assertAvailable(snapshot, reservations, lines, at);
+    return {
+      reservations,
+      steps: lines.map(l => ({ productId: l.productId, type: 'sold', onHandDelta: -l.quantity, reservedDelta: 0, reference: order.id })),
+    };
+  });
+}
+
+/**
+ * The order was cancelled. Before acceptance (`wasAccepted` false) its
+ * hold is released; after, its sold units go back on the shelf.
+ */
+export function restockCancelledOrder(
+  snapshot: InventorySnapshot,
+  order: Order,
+  options: { at: string; wasAccepted: boolean }
+): InventoryChange {
+  return buildChange(snapshot, options.at, (reservations) => {
+    const reservation = orderReservation(reservations, order.id);
+    if (reservation?.status === 'placed') {
+      return {
+        reservations: replace(reservations, { ...reservation, status: 'released', closedAt: options.at }),
+        steps: reservation.lines.map(l => ({
+          productId: l.productId, type: 'reservation_released', onHandDelta: 0, reservedDelta: -l.quantity, reference: order.id,
+        })),
+      };
+    }
+    if (!reservation && !options.wasAccepted) return { reservations, steps: [] };
+    return {
+      reservations,
+      steps: (reservation?.lines ?? orderLines(snapshot.products, order)).map(l => ({
+        productId: l.productId, type: 'restock_cancellation', onHandDelta: l.quantity, reservedDelta: 0, reference: order.id,
+      })),
+    };
+  });
+}
+
+/** Returned units in sellable condition go back on the shelf. */
+export function restockReturn(snapshot: InventorySnapshot, input: { returnId: string; lines: StockLine[]; at: string }): InventoryChange {
+  const lines = stockLines(snapshot.products, input.lines);
+  return buildChange(snapshot, input.at, (reservations) => ({
+    reservations,
+    steps: lines.map(l => ({ productId: l.productId, type: 'restock_return', onHandDelta: l.quantity, reservedDelta: 0, reference: input.returnId })),
+  }));
+}
+
+// ──────────────────────────────────────────────
+// STOCK COUNTS (bulk_stock_update)
+// ──────────────────────────────────────────────
+
+/**
+ * Reads a bulk_stock_update request.
+ *
+ * @example
+ * parseBulkStockUpdate(request)
+ * // proposedValues: '{"lines":[{"productId":"p-002","quantityAvailable":12}]}'
+ * // → { lines: [{ productId: 'p-002', quantityAvailable: 12 }] }
+ *
+ * @throws InventoryError('invalid_payload') for any other shape.
+ */
+export function parseBulkStockUpdate(request: Pick<VendorActionRequest, 'id' | 'proposedValues'>): BulkStockUpdate {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(request.proposedValues ?? '');
+  } catch {
+    parsed = null;
+  }
+  const lines = (parsed as Partial<BulkStockUpdate> | null)?.lines;
+  const valid = Array.isArray(lines) && lines.length > 0 && lines.every(l =>
+    typeof l?.productId === 'string' && Number.isInteger(l.quantityAvailable) && l.quantityAvailable >= 0
+  );
+  if (!valid) {
+    throw new InventoryError('invalid_payload', `Request ${request.id} is not a valid stock update — expected { lines: [{ productId, quantityAvailable }] }`);
+  }
+  return { lines: lines.map(l => ({ productId: l.productId, quantityAvailable: l.quantityAvailable })) };
+}
+
+/**
+ * Sets on-hand counts, recording the difference as adjustments.
+ *
+ * @throws InventoryError when a product is unknown or made to order, or
+ *   the new count is below what checkouts and orders already hold.
+ */
+export function adjustStock(
+  snapshot: InventorySnapshot,
+  update: BulkStockUpdate,
+  options: { at: string; reference: string; note?: string }
+): InventoryChange {
+  return buildChange(snapshot, options.at, (reservations) => ({
+    reservations,
+    steps: update.lines.flatMap(line => {
+      const product = snapshot.products.find(p => p.id === line.productId);
+      if (!product) throw new InventoryError('product_not_found', `Product ${line.productId} not found`, { productId: line.productId });
+      if (product.stockMode !== 'ready_stock') {
+        throw new InventoryError('not_ready_stock', `${product.titleAr} is made to order and holds no stock`, { productId: line.productId });
+      }
+      const reserved = reservedQuantity(reservations, product.id, options.at);
+      if (line.quantityAvailable < reserved) {
+        throw new InventoryError(
+          'insufficient_stock',
+          `${product.titleAr}: ${reserved} units are already reserved, the count can't be ${line.quantityAvailable}`,
+          { productId: product.id, requested: line.quantityAvailable, available: reserved }
+        );
+      }
+      const delta = line.quantityAvailable - product.quantityAvailable;
+      return delta === 0 ? [] : [{
+        productId: product.id, type: 'adjustment' as const, onHandDelta: delta, reservedDelta: 0, reference: options.reference, note: options.note,
+      }];
+    }),
+  }));
+}
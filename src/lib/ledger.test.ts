@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { LedgerError, accountId, createLedger, getAccountBalance, getTrialBalance, postJournal, postJournals, type JournalDraft } from './ledger';
+import { egp, sumMoney } from './money';
+
+const draft = (debit: number, credit: number, description = 'Test journal'): JournalDraft => ({
+  event: 'order_placed',
+  description,
+  orderId: 'ord-test',
+  createdAt: '2026-03-01T10:00:00Z',
+  lines: [
+    { account: accountId('cash'), side: 'debit', amount: egp(debit), type: 'sale' },
+    { account: accountId('customer_deposits'), side: 'credit', amount: egp(credit), type: 'sale' },
+  ],
+});
+
+const codeOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof LedgerError) return e.code;
+    throw e;
+  }
+  return null;
+};
+
+describe('postJournal', () => {
+  it('posts a balanced journal and moves both accounts on their normal side', () => {
+    const ledger = postJournal(createLedger(), draft(150.25, 150.25));
+    expect(ledger.journalCount).toBe(1);
+    expect(ledger.entries.map(e => e.transactionId)).toEqual(['TXN-000001', 'TXN-000001']);
+    expect(getAccountBalance(ledger, accountId('cash'))).toEqual(egp(150.25));
+    expect(getAccountBalance(ledger, accountId('customer_deposits'))).toEqual(egp(150.25));
+  });
+
+  it('rejects a journal whose debits and credits differ by a piastre', () => {
+    expect(codeOf(() => postJournal(createLedger(), draft(100, 99.99)))).toBe('unbalanced_journal');
+    expect(() => postJournal(createLedger(), draft(100, 99.99))).toThrow(/unbalanced: debits 100 ≠ credits 99.99/);
+  });
+
+  it('rejects empty journals and negative lines', () => {
+    expect(codeOf(() => postJournal(createLedger(), draft(0, 0)))).toBe('empty_journal');
+    expect(codeOf(() => postJournal(createLedger(), draft(-5, -5)))).toBe('negative_amount');
+  });
+
+  it('leaves the ledger untouched when a journal is rejected', () => {
+    const ledger = postJournal(createLedger(), draft(10, 10));
+    expect(() => postJournal(ledger, draft(10, 20))).toThrow(LedgerError);
+    expect(ledger.journalCount).toBe(1);
+    expect(ledger.entries).toHaveLength(2);
+    expect(getAccountBalance(ledger, accountId('cash'))).toEqual(egp(10));
+  });
+});
+
+describe('postJournals', () => {
+  it('posts nothing when any journal in the batch is unbalanced', () => {
+    const ledger = createLedger();
+    expect(codeOf(() => postJournals(ledger, [draft(10, 10), null, draft(5, 4)]))).toBe('unbalanced_journal');
+    expect(ledger.entries).toHaveLength(0);
+  });
+
+  it('keeps the trial balance balanced', () => {
+    const ledger = postJournals(createLedger(), [draft(10, 10), null, draft(0.01, 0.01), draft(999.99, 999.99)]);
+    const rows = getTrialBalance(ledger);
+    expect(sumMoney(rows.map(r => r.debits))).toEqual(sumMoney(rows.map(r => r.credits)));
+    expect(ledger.journalCount).toBe(3);
+  });
+});
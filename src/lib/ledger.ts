@@ -0,0 +1,511 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Double-Entry Ledger
+ * ============================================================
+ *
+ * Turns order lifecycle events into balanced journal entries and keeps a
+ * running balance for every account. Vendor wallets are rebuilt from the
+ * ledger alone — nothing else stores a balance.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Every pound that moves is written down twice: where it came from
+ * (credit) and where it went (debit). If the two sides of any posting
+ * differ by even one piastre, the posting is refused. That is what lets
+ * finance prove, at any moment, that vendor balances + VAT owed + courier
+ * fees owed + Arooba's revenue account for all the cash collected.
+ *
+ * THE ACCOUNTS:
+ * - cash                       Arooba's bank / payment gateway balance
+ * - cod_receivable             COD cash still held by the courier
+ * - customer_deposits          Prepaid orders not yet delivered
+ * - vendor_payable_pending:<v> Bucket A + B owed to a vendor, in escrow
+ * - vendor_payable_available:<v> Released, waiting for a payout
+ * - payouts_in_transit         In an approved payout batch, not yet confirmed by the bank
+ * - vat_payable                Bucket D — Arooba's VAT owed to the ETA
+ * - arooba_revenue             Bucket C
+ * - courier_payable            Bucket E owed to the courier
+ * - customer_wallet            Refunds credited to Arooba wallets
+ *
+ * Bucket B (the vendor's VAT) sits in the vendor payable: the vendor is
+ * paid it and remits it themselves (see TAX in constants.ts).
+ * ============================================================
+ */
+
+import type { LedgerEntry, Order, OrderItem, TransactionType, VendorWallet } from '../app/shared/types';
+import { type Money, ZERO_MONEY, addMoney, subtractMoney, sumMoney, toEgp } from './money';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type LedgerAccountType =
+  | 'cash'
+  | 'cod_receivable'
+  | 'customer_deposits'
+  | 'vendor_payable_pending'
+  | 'vendor_payable_available'
+  | 'payouts_in_transit'
+  | 'vat_payable'
+  | 'arooba_revenue'
+  | 'courier_payable'
+  | 'customer_wallet';
+
+export type LedgerEvent =
+  | 'order_placed'
+  | 'order_cancelled'
+  | 'order_delivered'
+  | 'cod_collected'
+  | 'escrow_released'
+  | 'payout_queued'
+  | 'payout_sent'
+  | 'payout_reversed'
+  | 'wasted_trip_fee'
+  | 'order_refunded';
+
+export interface JournalLine {
+  account: string;
+  side: 'debit' | 'credit';
+  amount: Money;
+  type: TransactionType;
+  vendorId?: string;
+}
+
+/** A posting before it is numbered. Debits must equal credits. */
+export interface JournalDraft {
+  event: LedgerEvent;
+  description: string;
+  orderId?: string;
+  vendorId?: string;
+  createdAt: string;
+  lines: JournalLine[];
+}
+
+export interface Ledger {
+  entries: LedgerEntry[];
+  balances: Record<string, Money>;        // Normal-side balance per account
+  journalCount: number;
+}
+
+export interface TrialBalanceRow {
+  account: string;
+  type: LedgerAccountType;
+  vendorId?: string;
+  debits: Money;
+  credits: Money;
+  balance: Money;                         // On the account's normal side
+}
+
+export class LedgerError extends Error {
+  readonly code: 'unbalanced_journal' | 'empty_journal' | 'negative_amount';
+
+  constructor(code: LedgerError['code'], message: string) {
+    super(message);
+    this.name = 'LedgerError';
+    this.code = code;
+  }
+}
+
+// ──────────────────────────────────────────────
+// ACCOUNTS
+// ──────────────────────────────────────────────
+
+/** Assets grow with debits; liabilities and revenue grow with credits. */
+const DEBIT_NORMAL: readonly LedgerAccountType[] = ['cash', 'cod_receivable'];
+
+export function accountId(type: LedgerAccountType, vendorId?: string): string {
+  return vendorId ? `${type}:${vendorId}` : type;
+}
+
+export function parseAccountId(account: string): { type: LedgerAccountType; vendorId?: string } {
+  const [type, vendorId] = account.split(':');
+  return { type: type as LedgerAccountType, ...(vendorId ? { vendorId } : {}) };
+}
+
+export function createLedger(): Ledger {
+  return { entries: [], balances: {}, journalCount: 0 };
+}
+
+export function getAccountBalance(ledger: Ledger, account: string): Money {
+  return ledger.balances[account] ?? ZERO_MONEY;
+}
+
+// ──────────────────────────────────────────────
+// POSTING
+// ──────────────────────────────────────────────
+
+/**
+ * Posts a journal and returns the new ledger (the old one is untouched).
+ * Zero-amount lines are dropped; a journal whose debits and credits differ
+ * by a single piastre is refused with a LedgerError.
+ */
+export function postJournal(ledger: Ledger, draft: JournalDraft): Ledger {
+  const lines = draft.lines.filter(line => line.amount.piastres !== 0);
+  if (lines.length === 0) {
+    throw new LedgerError('empty_journal', `Journal "${draft.description}" has no amounts`);
+  }
+  if (lines.some(line => line.amount.piastres < 0)) {
+    throw new LedgerError('negative_amount', `Journal "${draft.description}" has a negative line — swap its side instead`);
+  }
+  const debits = sumMoney(lines.filter(l => l.side === 'debit').map(l => l.amount));
+  const credits = sumMoney(lines.filter(l => l.side === 'credit').map(l => l.amount));
+  if (debits.piastres !== credits.piastres) {
+    throw new LedgerError(
+      'unbalanced_journal',
+      `Journal "${draft.description}" is unbalanced: debits ${toEgp(debits)} ≠ credits ${toEgp(credits)}`
+    );
+  }
+
+  const journalNumber = ledger.journalCount + 1;
+  const transactionId = `TXN-${String(journalNumber).padStart(6, '0')}`;
+  const balances = { ...ledger.balances };
+  const entries: LedgerEntry[] = lines.map((line, i) => {
+    const grows = (line.side === 'debit') === DEBIT_NORMAL.includes(parseAccountId(line.account).type);
+    const before = balances[line.account] ?? ZERO_MONEY;
+    const balanceAfter = grows ? addMoney(before, line.amount) : subtractMoney(before, line.amount);
+    balances[line.account] = balanceAfter;
+    return {
+      id: `${transactionId}-${i + 1}`,
+      transactionId,
+      type: line.type,
+      account: line.account,
+      side: line.side,
+      amount: line.amount,
+      balanceAfter,
+      description: draft.description,
+      ...(draft.orderId ? { orderId: draft.orderId } : {}),
+      ...((line.vendorId ?? draft.vendorId) ? { vendorId: line.vendorId ?? draft.vendorId } : {}),
+      createdAt: draft.createdAt,
+    };
+  });
+
+  return { entries: [...ledger.entries, ...entries], balances, journalCount: journalNumber };
+}
+
+/** Posts several journals in order. */
+export function postJournals(ledger: Ledger, drafts: (JournalDraft | null)[]): Ledger {
+  return drafts.reduce((current, draft) => (draft ? postJournal(current, draft) : current), ledger);
+}
+
+// ──────────────────────────────────────────────
+// JOURNALS FOR ORDER EVENTS
+// ──────────────────────────────────────────────
+
+const debit = (account: string, amount: Money, type: TransactionType, vendorId?: string): JournalLine =>
+  ({ account, side: 'debit', amount, type, ...(vendorId ? { vendorId } : {}) });
+const credit = (account: string, amount: Money, type: TransactionType, vendorId?: string): JournalLine =>
+  ({ account, side: 'credit', amount, type, ...(vendorId ? { vendorId } : {}) });
+
+function itemsForShipment(order: Order, shipmentId?: string): OrderItem[] {
+  if (!shipmentId) return order.items;
+  const shipment = order.shipments.find(s => s.id === shipmentId);
+  return shipment ? order.items.filter(i => i.pickupLocationId === shipment.pickupLocationId) : [];
+}
+
+const itemTotal = (item: OrderItem) => addMoney(
+  item.bucketA_vendorRevenue, item.bucketB_vendorVat, item.bucketC_aroobaRevenue, item.bucketD_aroobaVat, item.bucketE_logisticsFee
+);
+
+/**
+ * Prepaid order placed: the customer's money is held as a deposit until
+ * delivery. COD orders move no money at placement — returns null.
+ */
+export function journalOrderPlaced(order: Order, at: string = order.createdAt): JournalDraft | null {
+  if (order.paymentMethod === 'cod') return null;
+  const total = sumMoney(order.items.map(itemTotal));
+  return {
+    event: 'order_placed',
+    description: `Payment received for ${order.id}`,
+    orderId: order.id,
+    createdAt: at,
+    lines: [debit(accountId('cash'), total, 'sale'), credit(accountId('customer_deposits'), total, 'sale')],
+  };
+}
+
+/**
+ * Prepaid order cancelled (or one shipment refused at the door): that
+ * part of the deposit goes back to the customer. COD orders never took
+ * money — returns null.
+ */
+export function journalOrderCancelled(order: Order, options: { at: string; shipmentId?: string }): JournalDraft | null {
+  if (order.paymentMethod === 'cod') return null;
+  const total = sumMoney(itemsForShipment(order, options.shipmentId).map(itemTotal));
+  return {
+    event: 'order_cancelled',
+    description: `Deposit refunded for ${options.shipmentId ?? order.id}`,
+    orderId: order.id,
+    createdAt: options.at,
+    lines: [debit(accountId('customer_deposits'), total, 'refund'), credit(accountId('cash'), total, 'refund')],
+  };
+}
+
+/**
+ * Delivery (of the whole order, or one shipment) recognises the sale:
+ * the deposit — or, for COD, the cash the courier just collected — is
+ * split into the five buckets. Vendor money starts in escrow (pending).
+ */
+export function journalOrderDelivered(order: Order, options: { at: string; shipmentId?: string }): JournalDraft {
+  const items = itemsForShipment(order, options.shipmentId);
+  const total = sumMoney(items.map(itemTotal));
+  const source = order.paymentMethod === 'cod' ? accountId('cod_receivable') : accountId('customer_deposits');
+
+  const lines: JournalLine[] = [debit(source, total, 'sale')];
+  for (const item of items) {
+    lines.push(credit(accountId('vendor_payable_pending', item.vendorId), addMoney(item.bucketA_vendorRevenue, item.bucketB_vendorVat), 'sale', item.vendorId));
+  }
+  lines.push(
+    credit(accountId('arooba_revenue'), sumMoney(items.map(i => i.bucketC_aroobaRevenue)), 'commission'),
+    credit(accountId('vat_payable'), sumMoney(items.map(i => i.bucketD_aroobaVat)), 'vat'),
+    credit(accountId('courier_payable'), sumMoney(items.map(i => i.bucketE_logisticsFee)), 'shipping'),
+  );
+
+  return {
+    event: 'order_delivered',
+    description: `Delivered ${options.shipmentId ?? order.id}`,
+    orderId: order.id,
+    createdAt: options.at,
+    lines,
+  };
+}
+
+/**
+ * The courier hands over COD cash. When they keep their own fee, pass
+ * it as `courierFeeNetted` — it settles the courier payable instead of
+ * arriving as cash.
+ */
+export function journalCodCollected(
+  order: Order,
+  options: { at: string; amount: Money; courierFeeNetted?: Money; shipmentId?: string }
+): JournalDraft {
+  const netted = options.courierFeeNetted ?? ZERO_MONEY;
+  return {
+    event: 'cod_collected',
+    description: `COD remitted for ${options.shipmentId ?? order.id}`,
+    orderId: order.id,
+    createdAt: options.at,
+    lines: [
+      debit(accountId('cash'), subtractMoney(options.amount, netted), 'sale'),
+      debit(accountId('courier_payable'), netted, 'shipping'),
+      credit(accountId('cod_receivable'), options.amount, 'sale'),
+    ],
+  };
+}
+
+/** Escrow hold ended: the vendor's money becomes withdrawable. */
+export function journalEscrowReleased(
+  vendorId: string,
+  amount: Money,
+  options: { at: string; orderId?: string; reference?: string }
+): JournalDraft {
+  return {
+    event: 'escrow_released',
+    description: `Escrow released${options.reference ? ` — ${options.reference}` : ''}`,
+    orderId: options.orderId,
+    vendorId,
+    createdAt: options.at,
+    lines: [
+      debit(accountId('vendor_payable_pending', vendorId), amount, 'sale', vendorId),
+      credit(accountId('vendor_payable_available', vendorId), amount, 'sale', vendorId),
+    ],
+  };
+}
+
+/**
+ * Money transferred to the vendor's bank account. Pass `queued` when an
+ * approved payout batch already moved it to payouts_in_transit.
+ */
+export function journalPayoutSent(
+  vendorId: string,
+  amount: Money,
+  options: { at: string; reference?: string; queued?: boolean }
+): JournalDraft {
+  const source = options.queued ? accountId('payouts_in_transit') : accountId('vendor_payable_available', vendorId);
+  return {
+    event: 'payout_sent',
+    description: `Payout to ${vendorId}${options.reference ? ` — ${options.reference}` : ''}`,
+    vendorId,
+    createdAt: options.at,
+    lines: [
+      debit(source, amount, 'payout', options.queued ? undefined : vendorId),
+      credit(accountId('cash'), amount, 'payout'),
+    ],
+  };
+}
+
+/** A payout batch was approved: the transfer leaves the wallet for the bank upload. */
+export function journalPayoutQueued(vendorId: string, amount: Money, options: { at: string; reference: string }): JournalDraft {
+  return {
+    event: 'payout_queued',
+    description: `Payout to ${vendorId} queued — ${options.reference}`,
+    vendorId,
+    createdAt: options.at,
+    lines: [
+      debit(accountId('vendor_payable_available', vendorId), amount, 'payout', vendorId),
+      credit(accountId('payouts_in_transit'), amount, 'payout'),
+    ],
+  };
+}
+
+/** The bank bounced a queued transfer: the money goes back to the wallet. */
+export function journalPayoutReversed(vendorId: string, amount: Money, options: { at: string; reference: string }): JournalDraft {
+  return {
+    event: 'payout_reversed',
+    description: `Payout to ${vendorId} reversed — ${options.reference}`,
+    vendorId,
+    createdAt: options.at,
+    lines: [
+      debit(accountId('payouts_in_transit'), amount, 'payout'),
+      credit(accountId('vendor_payable_available', vendorId), amount, 'payout', vendorId),
+    ],
+  };
+}
+
+/**
+ * Wasted-trip fees a payout deducted: the vendor pays the courier's
+ * wasted visit. `reversed` gives them back with the bounced transfer.
+ */
+export function journalWastedTripFees(
+  vendorId: string,
+  amount: Money,
+  options: { at: string; reference: string; reversed?: boolean }
+): JournalDraft {
+  const vendorLine = { account: accountId('vendor_payable_available', vendorId), amount, type: 'shipping' as const, vendorId };
+  const courierLine = { account: accountId('courier_payable'), amount, type: 'shipping' as const };
+  return {
+    event: 'wasted_trip_fee',
+    description: `Wasted-trip fees ${options.reversed ? 'returned to' : 'charged to'} ${vendorId} — ${options.reference}`,
+    vendorId,
+    createdAt: options.at,
+    lines: options.reversed
+      ? [{ ...courierLine, side: 'debit' }, { ...vendorLine, side: 'credit' }]
+      : [{ ...vendorLine, side: 'debit' }, { ...courierLine, side: 'credit' }],
+  };
+}
+
+/** One vendor's share of a return, already allocated (see lib/returns.ts). */
+export interface RefundJournalLine {
+  vendorId: string;
+  vendorShare: Money;                     // Buckets A + B
+  commission: Money;                      // Bucket C
+  vat: Money;                             // Bucket D
+  delivery: Money;                        // Bucket E refunded to the customer
+  returnShipping: Money;                  // Courier's charge for the return trip
+  clawbackFrom: 'pending' | 'available';  // Escrow still held, or already released
+}
+
+export interface RefundJournalOptions {
+  at: string;
+  reference: string;                      // Return id
+  refundTo: 'cash' | 'customer_wallet';
+  costBorneBy: 'vendor' | 'arooba';       // Funds the refunded delivery and the return trip
+}
+
+/**
+ * A return is refunded: every bucket of the returned units is reversed,
+ * the customer is paid back (or credited in their wallet) and the
+ * courier is owed the return trip. Whoever bears the cost — the vendor
+ * or Arooba — also funds the refunded delivery fee.
+ */
+export function journalOrderRefunded(orderId: string, lines: RefundJournalLine[], options: RefundJournalOptions): JournalDraft {
+  const vendorAccount = (line: RefundJournalLine) =>
+    accountId(line.clawbackFrom === 'available' ? 'vendor_payable_available' : 'vendor_payable_pending', line.vendorId);
+  const borneByVendor = options.costBorneBy === 'vendor';
+
+  const entries: JournalLine[] = [];
+  for (const line of lines) {
+    entries.push(debit(vendorAccount(line), line.vendorShare, 'refund', line.vendorId));
+    if (borneByVendor) {
+      entries.push(
+        debit(vendorAccount(line), line.delivery, 'refund', line.vendorId),
+        debit(vendorAccount(line), line.returnShipping, 'shipping', line.vendorId),
+      );
+    }
+  }
+
+  const sum = (pick: (line: RefundJournalLine) => Money) => sumMoney(lines.map(pick));
+  const delivery = sum(l => l.delivery);
+  const returnShipping = sum(l => l.returnShipping);
+  entries.push(
+    debit(accountId('arooba_revenue'), sum(l => l.commission), 'refund'),
+    debit(accountId('vat_payable'), sum(l => l.vat), 'refund'),
+  );
+  if (!borneByVendor) {
+    entries.push(
+      debit(accountId('arooba_revenue'), delivery, 'refund'),
+      debit(accountId('arooba_revenue'), returnShipping, 'shipping'),
+    );
+  }
+  entries.push(
+    credit(accountId(options.refundTo), addMoney(sum(l => l.vendorShare), sum(l => l.commission), sum(l => l.vat), delivery), 'refund'),
+    credit(accountId('courier_payable'), returnShipping, 'shipping'),
+  );
+
+  return {
+    event: 'order_refunded',
+    description: `Refund ${options.reference} for ${orderId}`,
+    orderId,
+    createdAt: options.at,
+    lines: entries,
+  };
+}
+
+// ──────────────────────────────────────────────
+// REPORTS
+// ──────────────────────────────────────────────
+
+/** Totals per account. Debits always equal credits across the whole ledger. */
+export function getTrialBalance(ledger: Ledger): TrialBalanceRow[] {
+  const rows = new Map<string, TrialBalanceRow>();
+  for (const entry of ledger.entries) {
+    const row = rows.get(entry.account) ?? {
+      account: entry.account,
+      ...parseAccountId(entry.account),
+      debits: ZERO_MONEY,
+      credits: ZERO_MONEY,
+      balance: ZERO_MONEY,
+    };
+    if (entry.side === 'debit') row.debits = addMoney(row.debits, entry.amount);
+    else row.credits = addMoney(row.credits, entry.amount);
+    row.balance = entry.balanceAfter;
+    rows.set(entry.account, row);
+  }
+  return [...rows.values()].sort((a, b) => a.account.localeCompare(b.account));
+}
+
+/**
+ * A vendor's wallet, from ledger entries only.
+ * lifetimeEarnings = everything credited on delivery minus what the
+ * vendor paid back: refunds and the courier charges they bore (less
+ * wasted-trip fees given back with a bounced payout).
+ */
+export function vendorWalletFromLedger(ledger: Ledger, vendorId: string): VendorWallet {
+  const pending = getAccountBalance(ledger, accountId('vendor_payable_pending', vendorId));
+  const available = getAccountBalance(ledger, accountId('vendor_payable_available', vendorId));
+  const vendorAccounts = [accountId('vendor_payable_pending', vendorId), accountId('vendor_payable_available', vendorId)];
+
+  let lifetime = ZERO_MONEY;
+  for (const entry of ledger.entries) {
+    if (!vendorAccounts.includes(entry.account)) continue;
+    if (entry.type === 'sale' && entry.side === 'credit' && entry.account === vendorAccounts[0]) lifetime = addMoney(lifetime, entry.amount);
+    if (entry.type === 'refund' || entry.type === 'shipping') {
+      lifetime = entry.side === 'debit' ? subtractMoney(lifetime, entry.amount) : addMoney(lifetime, entry.amount);
+    }
+  }
+
+  return {
+    vendorId,
+    totalBalance: toEgp(addMoney(pending, available)),
+    pendingBalance: toEgp(pending),
+    availableBalance: toEgp(available),
+    lifetimeEarnings: toEgp(lifetime),
+  };
+}
+
+/** Every vendor with a payable account in the ledger. */
+export function getLedgerVendorIds(ledger: Ledger): string[] {
+  const ids = new Set<string>();
+  for (const account of Object.keys(ledger.balances)) {
+    const { vendorId } = parseAccountId(account);
+    if (vendorId) ids.add(vendorId);
+  }
+  return [...ids].sort();
+}
@@ -3,7 +3,14 @@
  * Wallets, Dashboard Stats, and Analytics
  */
 
-import type { VendorWallet, DashboardStats, TimeSeriesData } from '../app/shared/types';
+import type { VendorWallet, DashboardStats, TimeSeriesData, Shipment, Order, ParentVendor, SubVendor, Cooperative } from '../app/shared/types';
+import type { SubsidyRecord, SubsidyRule } from './shipping-subsidy';
+import type { EscrowShipmentInput } from './escrow-scheduler';
+import type { WastedTrip } from './payout-batches';
+import type { ReturnRequest } from './returns';
+import type { StockMovement, StockReservation } from './inventory';
+import type { VendorDirectory } from './pricing-inputs';
+import { ZERO_MONEY, egp } from './money';
 
 export const mockWallets: VendorWallet[] = [
   { vendorId: 'v-001', totalBalance: 45200, pendingBalance: 12800, availableBalance: 32400, lifetimeEarnings: 187500 },
@@ -12,6 +19,360 @@ export const mockWallets: VendorWallet[] = [
   { vendorId: 'v-004', totalBalance: 125000, pendingBalance: 45000, availableBalance: 80000, lifetimeEarnings: 892000 },
 ];
 
+export const mockVendors: ParentVendor[] = [
+  {
+    id: 'v-001', userId: 'u-101', businessName: 'Hassan Ceramics', businessNameAr: 'خزفيات حسن',
+    type: 'legalized', status: 'active', commercialRegNumber: 'CR-2024-001234', taxId: 'TX-9900112233',
+    isVatRegistered: true, defaultCommissionRate: 0.25, bankName: 'CIB', bankAccountNumber: '****7890',
+    reliabilityStrikes: 0, averageRating: 4.7, totalOrders: 342, totalRevenue: 187500,
+    subVendorIds: ['sv-001'], createdAt: '2025-10-15T10:00:00Z', updatedAt: '2025-12-01T14:30:00Z',
+  },
+  {
+    id: 'v-002', userId: 'u-102', businessName: 'Siwa Textiles Co.', businessNameAr: 'سيوة للمنسوجات',
+    type: 'legalized', status: 'active', commercialRegNumber: 'CR-2024-005678', taxId: 'TX-8800223344',
+    isVatRegistered: true, defaultCommissionRate: 0.20, bankName: 'Banque Misr', bankAccountNumber: '****4321',
+    reliabilityStrikes: 0, averageRating: 4.5, totalOrders: 215, totalRevenue: 324000,
+    subVendorIds: [], createdAt: '2025-10-20T08:00:00Z', updatedAt: '2025-11-28T16:00:00Z',
+  },
+  {
+    id: 'v-003', userId: 'u-103', businessName: 'Nadia Handcraft', businessNameAr: 'يدوية نادية',
+    type: 'non_legalized', status: 'active', isVatRegistered: false, cooperativeId: 'coop-01',
+    defaultCommissionRate: 0.20, reliabilityStrikes: 1, averageRating: 4.2, totalOrders: 89,
+    totalRevenue: 42300, subVendorIds: ['sv-002'], createdAt: '2025-11-01T12:00:00Z', updatedAt: '2025-12-02T10:00:00Z',
+  },
+  {
+    id: 'v-004', userId: 'u-104', businessName: 'Khan El-Khalili Leather', businessNameAr: 'جلود خان الخليلي',
+    type: 'legalized', status: 'active', commercialRegNumber: 'CR-2024-009012', taxId: 'TX-7700334455',
+    isVatRegistered: true, defaultCommissionRate: 0.20, bankName: 'NBE', bankAccountNumber: '****6543',
+    reliabilityStrikes: 0, averageRating: 4.8, totalOrders: 567, totalRevenue: 892000,
+    subVendorIds: [], createdAt: '2025-10-10T09:00:00Z', updatedAt: '2025-12-03T11:00:00Z',
+  },
+  {
+    id: 'v-005', userId: 'u-105', businessName: 'Aswan Spices', businessNameAr: 'بهارات أسوان',
+    type: 'non_legalized', status: 'pending', isVatRegistered: false, cooperativeId: 'coop-02',
+    defaultCommissionRate: 0.15, reliabilityStrikes: 0, averageRating: 0, totalOrders: 0,
+    totalRevenue: 0, subVendorIds: [], createdAt: '2025-12-01T15:00:00Z', updatedAt: '2025-12-01T15:00:00Z',
+  },
+];
+
+export const mockSubVendors: SubVendor[] = [
+  {
+    id: 'sv-001', parentVendorId: 'v-001', internalName: 'Aunt Fatma', internalNameAr: 'الحاجة فاطمة',
+    defaultLeadTimeDays: 3, upliftType: 'fixed', upliftValue: 15, isActive: true, createdAt: '2025-10-20T10:00:00Z',
+  },
+  {
+    id: 'sv-002', parentVendorId: 'v-003', internalName: 'Mona Crochet', internalNameAr: 'منى للكروشيه',
+    defaultLeadTimeDays: 5, upliftType: 'percentage', upliftValue: 0.10, isActive: true, createdAt: '2025-11-05T09:00:00Z',
+  },
+];
+
+export const mockCooperatives: Cooperative[] = [
+  {
+    id: 'coop-01', name: 'Fayoum Artisans Cooperative', nameAr: 'جمعية حرفيي الفيوم',
+    taxId: 'TX-5500667788', feePercentage: 0.05, vendorIds: ['v-003'], isActive: true,
+  },
+  {
+    id: 'coop-02', name: 'Aswan Producers Cooperative', nameAr: 'جمعية منتجي أسوان',
+    taxId: 'TX-5500998877', feePercentage: 0.03, vendorIds: ['v-005'], isActive: true,
+  },
+];
+
+export const mockVendorDirectory: VendorDirectory = {
+  parentVendors: mockVendors,
+  subVendors: mockSubVendors,
+  cooperatives: mockCooperatives,
+};
+
+/** Sample orders (OrderManagement, invoices). */
+export const mockOrders: Order[] = [
+  {
+    id: 'ORD-20251203-001', customerId: 'c-001', customerName: 'أحمد محمد',
+    items: [{
+      id: 'oi-001', productId: 'p-001', productTitle: 'فازة سيراميك مرسومة يدوياً',
+      productImage: '', vendorId: 'v-001', vendorName: 'خزفيات حسن', quantity: 2,
+      unitPrice: egp(130), totalPrice: egp(260), pickupLocationId: 'loc-001',
+      bucketA_vendorRevenue: egp(200), bucketB_vendorVat: egp(28), bucketC_aroobaRevenue: egp(28.07),
+      bucketD_aroobaVat: egp(3.93), bucketE_logisticsFee: egp(45),
+    }],
+    subtotal: 260, totalDeliveryFee: 45, totalAmount: 305, paymentMethod: 'cod',
+    deliveryAddress: 'شارع التحرير، وسط البلد', deliveryCity: 'القاهرة', deliveryZoneId: 'cairo',
+    shipments: [{
+      id: 'SH-001-A', orderId: 'ORD-20251203-001', pickupLocationId: 'loc-001',
+      trackingNumber: 'SC-2025-78901', courierProvider: 'SmartCom', deliveryFee: egp(45),
+      codAmountDue: egp(305), status: 'in_transit', estimatedDeliveryDate: '2025-12-06',
+    }],
+    status: 'in_transit', createdAt: '2025-12-03T14:30:00Z', updatedAt: '2025-12-04T09:00:00Z',
+  },
+  {
+    id: 'ORD-20251202-015', customerId: 'c-002', customerName: 'سارة عبدالله',
+    items: [
+      {
+        id: 'oi-002', productId: 'p-004', productTitle: 'حقيبة ماسنجر جلد طبيعي',
+        productImage: '', vendorId: 'v-004', vendorName: 'جلود خان الخليلي', quantity: 1,
+        unitPrice: egp(660), totalPrice: egp(660), pickupLocationId: 'loc-004',
+        bucketA_vendorRevenue: egp(550), bucketB_vendorVat: egp(77), bucketC_aroobaRevenue: egp(28.95),
+        bucketD_aroobaVat: egp(4.05), bucketE_logisticsFee: egp(35),
+      },
+      {
+        id: 'oi-003', productId: 'p-005', productTitle: 'صابون زيت زيتون طبيعي',
+        productImage: '', vendorId: 'v-003', vendorName: 'يدوية نادية', quantity: 3,
+        unitPrice: egp(55), totalPrice: egp(165), pickupLocationId: 'loc-003',
+        bucketA_vendorRevenue: egp(90), bucketB_vendorVat: egp(0), bucketC_aroobaRevenue: egp(65.79),
+        bucketD_aroobaVat: egp(9.21), bucketE_logisticsFee: egp(40),
+      },
+    ],
+    subtotal: 825, totalDeliveryFee: 75, totalAmount: 900, paymentMethod: 'fawry',
+    deliveryAddress: 'كورنيش النيل، المعادي', deliveryCity: 'القاهرة', deliveryZoneId: 'cairo',
+    shipments: [
+      { id: 'SH-015-A', orderId: 'ORD-20251202-015', pickupLocationId: 'loc-004', trackingNumber: 'SC-2025-78910', courierProvider: 'SmartCom', deliveryFee: egp(35), codAmountDue: ZERO_MONEY, status: 'delivered', estimatedDeliveryDate: '2025-12-04', actualDeliveryDate: '2025-12-04' },
+      { id: 'SH-015-B', orderId: 'ORD-20251202-015', pickupLocationId: 'loc-003', trackingNumber: 'SC-2025-78911', courierProvider: 'SmartCom', deliveryFee: egp(40), codAmountDue: ZERO_MONEY, status: 'delivered', estimatedDeliveryDate: '2025-12-04', actualDeliveryDate: '2025-12-04' },
+    ],
+    status: 'delivered', createdAt: '2025-12-02T11:00:00Z', updatedAt: '2025-12-04T16:00:00Z',
+  },
+  {
+    id: 'ORD-20251201-042', customerId: 'c-003', customerName: 'محمد حسين',
+    items: [{
+      id: 'oi-004', productId: 'p-002', productTitle: 'سجادة كليم سيوة مطرزة',
+      productImage: '', vendorId: 'v-002', vendorName: 'سيوة للمنسوجات', quantity: 1,
+      unitPrice: egp(1800), totalPrice: egp(1800), pickupLocationId: 'loc-002',
+      bucketA_vendorRevenue: egp(1500), bucketB_vendorVat: egp(210), bucketC_aroobaRevenue: egp(78.95),
+      bucketD_aroobaVat: egp(11.05), bucketE_logisticsFee: egp(85),
+    }],
+    subtotal: 1800, totalDeliveryFee: 85, totalAmount: 1885, paymentMethod: 'cod',
+    deliveryAddress: 'شارع الهرم، الجيزة', deliveryCity: 'الجيزة', deliveryZoneId: 'cairo',
+    shipments: [{
+      id: 'SH-042-A', orderId: 'ORD-20251201-042', pickupLocationId: 'loc-002',
+      courierProvider: 'SmartCom', deliveryFee: egp(85), codAmountDue: egp(1885), status: 'pending',
+      estimatedDeliveryDate: '2025-12-05',
+    }],
+    status: 'pending', createdAt: '2025-12-01T09:00:00Z', updatedAt: '2025-12-01T09:00:00Z',
+  },
+  {
+    id: 'ORD-20251128-007', customerId: 'c-004', customerName: 'منى إبراهيم',
+    items: [{
+      id: 'oi-005', productId: 'p-014', productTitle: 'غطاء وسادة مطرز',
+      productImage: '', vendorId: 'v-002', vendorName: 'سيوة للمنسوجات', quantity: 2,
+      unitPrice: egp(312.36), totalPrice: egp(624.72), pickupLocationId: 'loc-002',
+      bucketA_vendorRevenue: egp(440), bucketB_vendorVat: egp(61.6), bucketC_aroobaRevenue: egp(108),
+      bucketD_aroobaVat: egp(15.12), bucketE_logisticsFee: egp(40),
+    }],
+    subtotal: 624.72, totalDeliveryFee: 40, totalAmount: 664.72, paymentMethod: 'card',
+    deliveryAddress: 'شارع فؤاد، محطة الرمل', deliveryCity: 'الإسكندرية', deliveryZoneId: 'alexandria',
+    shipments: [{
+      id: 'SH-007-A', orderId: 'ORD-20251128-007', pickupLocationId: 'loc-002',
+      trackingNumber: 'SC-2025-78650', courierProvider: 'SmartCom', deliveryFee: egp(40),
+      codAmountDue: ZERO_MONEY, status: 'returned', estimatedDeliveryDate: '2025-11-30', actualDeliveryDate: '2025-11-30',
+    }],
+    status: 'returned', createdAt: '2025-11-28T17:20:00Z', updatedAt: '2025-12-03T12:00:00Z',
+  },
+  {
+    id: 'ORD-20251204-023', customerId: 'c-002', customerName: 'سارة عبدالله',
+    items: [
+      {
+        id: 'oi-006', productId: 'p-001', productTitle: 'فازة سيراميك مرسومة يدوياً',
+        productImage: '', vendorId: 'v-001', vendorName: 'خزفيات حسن', quantity: 1,
+        unitPrice: egp(130), totalPrice: egp(130), pickupLocationId: 'loc-001',
+        bucketA_vendorRevenue: egp(100), bucketB_vendorVat: egp(14), bucketC_aroobaRevenue: egp(14.04),
+        bucketD_aroobaVat: egp(1.96), bucketE_logisticsFee: egp(45),
+      },
+      {
+        id: 'oi-007', productId: 'p-005', productTitle: 'صابون زيت زيتون طبيعي',
+        productImage: '', vendorId: 'v-003', vendorName: 'يدوية نادية', quantity: 2,
+        unitPrice: egp(55), totalPrice: egp(110), pickupLocationId: 'loc-003',
+        bucketA_vendorRevenue: egp(60), bucketB_vendorVat: egp(0), bucketC_aroobaRevenue: egp(43.86),
+        bucketD_aroobaVat: egp(6.14), bucketE_logisticsFee: egp(40),
+      },
+    ],
+    subtotal: 240, totalDeliveryFee: 85, totalAmount: 325, paymentMethod: 'cod',
+    deliveryAddress: 'كورنيش النيل، المعادي', deliveryCity: 'القاهرة', deliveryZoneId: 'cairo',
+    shipments: [
+      { id: 'SH-023-A', orderId: 'ORD-20251204-023', pickupLocationId: 'loc-001', trackingNumber: 'SC-2025-78955', courierProvider: 'SmartCom', deliveryFee: egp(45), codAmountDue: egp(175), status: 'delivered', estimatedDeliveryDate: '2025-12-06', actualDeliveryDate: '2025-12-06' },
+      { id: 'SH-023-B', orderId: 'ORD-20251204-023', pickupLocationId: 'loc-003', trackingNumber: 'SC-2025-78956', courierProvider: 'SmartCom', deliveryFee: egp(40), codAmountDue: egp(150), status: 'in_transit', estimatedDeliveryDate: '2025-12-07' },
+    ],
+    status: 'partially_delivered', createdAt: '2025-12-04T10:15:00Z', updatedAt: '2025-12-06T15:00:00Z',
+  },
+  {
+    id: 'ORD-20251205-031', customerId: 'c-003', customerName: 'محمد حسين',
+    items: [{
+      id: 'oi-008', productId: 'p-003', productTitle: 'وشاح كروشيه يدوي',
+      productImage: '', vendorId: 'v-003', vendorName: 'يدوية نادية', quantity: 2,
+      unitPrice: egp(112), totalPrice: egp(224), pickupLocationId: 'loc-003',
+      bucketA_vendorRevenue: egp(170), bucketB_vendorVat: egp(0), bucketC_aroobaRevenue: egp(47.36),
+      bucketD_aroobaVat: egp(6.64), bucketE_logisticsFee: egp(45),
+      leadTimeDays: 5,
+      production: {
+        startedAt: '2025-12-05T12:00:00Z', dueDate: '2025-12-10', stage: 'in_production', progressPercent: 40,
+        checkIns: [
+          { at: '2025-12-07T10:00:00Z', stage: 'in_production', progressPercent: 40, expectedCompletionDate: '2025-12-10', note: 'تم تجهيز الخيوط وبدأ الحياكة' },
+        ],
+      },
+    }],
+    subtotal: 224, totalDeliveryFee: 45, totalAmount: 269, paymentMethod: 'cod',
+    deliveryAddress: 'شارع عباس العقاد، مدينة نصر', deliveryCity: 'القاهرة', deliveryZoneId: 'cairo',
+    shipments: [{
+      id: 'SH-031-A', orderId: 'ORD-20251205-031', pickupLocationId: 'loc-003',
+      courierProvider: 'SmartCom', deliveryFee: egp(45), codAmountDue: egp(269), status: 'accepted',
+      earliestDeliveryDate: '2025-12-12', estimatedDeliveryDate: '2025-12-13',
+    }],
+    status: 'accepted', acceptedAt: '2025-12-05T12:00:00Z',
+    createdAt: '2025-12-05T08:00:00Z', updatedAt: '2025-12-07T10:00:00Z',
+  },
+];
+
+/** Returns already settled on mockOrders. */
+export const mockReturns: ReturnRequest[] = [
+  {
+    id: 'RET-20251128-007-1', orderId: 'ORD-20251128-007',
+    items: [{ orderItemId: 'oi-005', quantity: 2 }],
+    reason: 'not_as_described', refundMethod: 'card_reversal',
+    requestedAt: '2025-12-01T10:00:00Z', note: 'اللون مختلف عن الصور',
+  },
+];
+
+/**
+ * "Now" for the order SLA and production mocks above: the made-to-order
+ * scarf is mid-production and the 1 Dec order has overrun its acceptance
+ * window, waiting for the next SLA run to cancel it.
+ */
+export const mockSlaAsOf = '2025-12-07T12:00:00Z';
+
+/** "Today" for the escrow mocks below. */
+export const mockEscrowAsOf = '2026-02-18T10:00:00Z';
+
+const deliveredShipment = (id: string, orderId: string, pickupLocationId: string, date: string): Shipment => ({
+  id, orderId, pickupLocationId, courierProvider: 'SmartCom', deliveryFee: egp(45), codAmountDue: ZERO_MONEY,
+  status: 'delivered', estimatedDeliveryDate: date, actualDeliveryDate: date,
+});
+
+/** Delivered shipments with the vendor share (Buckets A + B of mockEscrowShipmentItems) held in escrow. */
+export const mockEscrowShipments: EscrowShipmentInput[] = [
+  // Hassan Ceramics — one release rolled past a Friday, one return still open
+  { vendorId: 'v-001', vendorAmount: egp(3112.2), shipment: deliveredShipment('SH-E101', 'ORD-20260118-004', 'loc-001', '2026-01-20') },
+  { vendorId: 'v-001', vendorAmount: egp(4172.4), shipment: deliveredShipment('SH-E102', 'ORD-20260121-011', 'loc-001', '2026-01-23') },
+  { vendorId: 'v-001', vendorAmount: egp(2610.6), shipment: deliveredShipment('SH-E103', 'ORD-20260204-007', 'loc-001', '2026-02-06') },
+  {
+    vendorId: 'v-001', vendorAmount: egp(1915.2), shipment: deliveredShipment('SH-E104', 'ORD-20260210-019', 'loc-001', '2026-02-12'),
+    returns: [{ id: 'ret-101', initiatedAt: '2026-02-14T09:30:00Z' }],
+  },
+  // Siwa Textiles — release moved off the 25 January holiday, one rejected return
+  { vendorId: 'v-002', vendorAmount: egp(12996), shipment: deliveredShipment('SH-E201', 'ORD-20260109-002', 'loc-002', '2026-01-11') },
+  {
+    vendorId: 'v-002', vendorAmount: egp(9815.4), shipment: deliveredShipment('SH-E202', 'ORD-20260128-006', 'loc-002', '2026-01-30'),
+    returns: [{ id: 'ret-201', initiatedAt: '2026-02-02T12:00:00Z', resolvedAt: '2026-02-06T15:00:00Z', outcome: 'rejected' }],
+  },
+  { vendorId: 'v-002', vendorAmount: egp(13908), shipment: deliveredShipment('SH-E203', 'ORD-20260208-013', 'loc-002', '2026-02-10') },
+  // Nadia Handcraft — one full refund, one partial
+  {
+    vendorId: 'v-003', vendorAmount: egp(1659.3), shipment: deliveredShipment('SH-E301', 'ORD-20260126-009', 'loc-003', '2026-01-28'),
+    returns: [{ id: 'ret-301', initiatedAt: '2026-01-30T10:00:00Z', resolvedAt: '2026-02-03T11:00:00Z', outcome: 'refunded' }],
+  },
+  { vendorId: 'v-003', vendorAmount: egp(2100), shipment: deliveredShipment('SH-E302', 'ORD-20260130-021', 'loc-003', '2026-02-01') },
+  {
+    vendorId: 'v-003', vendorAmount: egp(984), shipment: deliveredShipment('SH-E303', 'ORD-20260207-003', 'loc-003', '2026-02-09'),
+    returns: [{ id: 'ret-302', initiatedAt: '2026-02-11T08:00:00Z', resolvedAt: '2026-02-13T16:00:00Z', outcome: 'refunded', refundAmount: egp(300) }],
+  },
+  // Khan El-Khalili Leather
+  { vendorId: 'v-004', vendorAmount: egp(20748), shipment: deliveredShipment('SH-E401', 'ORD-20260113-001', 'loc-004', '2026-01-15') },
+  { vendorId: 'v-004', vendorAmount: egp(18741.6), shipment: deliveredShipment('SH-E402', 'ORD-20260125-014', 'loc-004', '2026-01-27') },
+  { vendorId: 'v-004', vendorAmount: egp(16701), shipment: deliveredShipment('SH-E403', 'ORD-20260203-008', 'loc-004', '2026-02-05') },
+  { vendorId: 'v-004', vendorAmount: egp(11582.4), shipment: deliveredShipment('SH-E404', 'ORD-20260213-017', 'loc-004', '2026-02-15') },
+];
+
+/** What each escrow shipment carried; priced, these add up to its vendorAmount (vendor statements). */
+export const mockEscrowShipmentItems: Record<string, { productId: string; quantity: number }[]> = {
+  'SH-E101': [{ productId: 'p-001', quantity: 12 }, { productId: 'p-006', quantity: 15 }],
+  'SH-E102': [{ productId: 'p-007', quantity: 18 }, { productId: 'p-010', quantity: 12 }],
+  'SH-E103': [{ productId: 'p-001', quantity: 10 }, { productId: 'p-009', quantity: 12 }],
+  'SH-E104': [{ productId: 'p-008', quantity: 8 }, { productId: 'p-006', quantity: 8 }],
+  'SH-E201': [{ productId: 'p-002', quantity: 4 }, { productId: 'p-011', quantity: 4 }],
+  'SH-E202': [{ productId: 'p-012', quantity: 3 }, { productId: 'p-014', quantity: 18 }],
+  'SH-E203': [{ productId: 'p-013', quantity: 6 }, { productId: 'p-027', quantity: 4 }],
+  'SH-E301': [{ productId: 'p-003', quantity: 10 }, { productId: 'p-015', quantity: 9 }],
+  'SH-E302': [{ productId: 'p-016', quantity: 14 }, { productId: 'p-022', quantity: 30 }],
+  'SH-E303': [{ productId: 'p-017', quantity: 8 }, { productId: 'p-024', quantity: 12 }],
+  'SH-E401': [{ productId: 'p-004', quantity: 20 }, { productId: 'p-019', quantity: 12 }],
+  'SH-E402': [{ productId: 'p-020', quantity: 18 }, { productId: 'p-021', quantity: 15 }],
+  'SH-E403': [{ productId: 'p-026', quantity: 14 }, { productId: 'p-004', quantity: 12 }],
+  'SH-E404': [{ productId: 'p-019', quantity: 10 }, { productId: 'p-021', quantity: 8 }],
+};
+
+const codShipment = (id: string, orderId: string, courierProvider: string, trackingNumber: string, codAmountDue: number, date: string): Shipment => ({
+  id, orderId, pickupLocationId: 'loc-001', trackingNumber, courierProvider, deliveryFee: egp(45), codAmountDue: egp(codAmountDue),
+  status: 'delivered', estimatedDeliveryDate: date, actualDeliveryDate: date,
+});
+
+/** Delivered COD shipments awaiting courier remittance (as of mockEscrowAsOf). */
+export const mockCodShipments: Shipment[] = [
+  codShipment('SH-C101', 'ORD-20260212-031', 'SmartCom', 'SC-2026-10101', 305, '2026-02-12'),
+  codShipment('SH-C102', 'ORD-20260212-033', 'SmartCom', 'SC-2026-10102', 1885, '2026-02-12'),
+  codShipment('SH-C103', 'ORD-20260213-040', 'SmartCom', 'SC-2026-10103', 540, '2026-02-13'),
+  codShipment('SH-C104', 'ORD-20260214-002', 'SmartCom', 'SC-2026-10104', 720, '2026-02-14'),
+  codShipment('SH-C105', 'ORD-20260215-010', 'SmartCom', 'SC-2026-10105', 410, '2026-02-15'),
+  codShipment('SH-C201', 'ORD-20260211-020', 'Bosta', 'BO-55120', 960, '2026-02-11'),
+  codShipment('SH-C202', 'ORD-20260213-006', 'Bosta', 'BO-55121', 1250, '2026-02-13'),
+  codShipment('SH-C203', 'ORD-20260216-014', 'Bosta', 'BO-55122', 380, '2026-02-16'),
+];
+
+/** Remittance files as the couriers send them. */
+export const mockCourierRemittances: { courierProvider: string; fileName: string; csv: string }[] = [
+  {
+    courierProvider: 'SmartCom',
+    fileName: 'smartcom-remittance-2026-02-16.csv',
+    csv: [
+      'tracking_number,amount_collected,deposited_at,reference',
+      'SC-2026-10101,305,2026-02-13T15:00:00Z,DEP-8812',
+      'SC-2026-10102,1885,2026-02-13T15:00:00Z,DEP-8812',
+      'SC-2026-10103,500,2026-02-14T16:00:00Z,DEP-8820',
+      'SC-2026-10104,720,2026-02-15T12:00:00Z,DEP-8827',
+      'SC-2026-10190,220,2026-02-15T12:00:00Z,DEP-8827',
+    ].join('\n'),
+  },
+  {
+    courierProvider: 'Bosta',
+    fileName: 'bosta-cod-2026-02-17.csv',
+    csv: [
+      'awb,cod_amount,deposit_date',
+      'BO-55120,960,2026-02-12',
+      'BO-55121,1250,2026-02-17',
+      'BO-55122,,2026-02-17',
+    ].join('\n'),
+  },
+];
+
+/** Checkout holds; the pending kilim order is waiting for Siwa Textiles to accept. */
+export const mockStockReservations: StockReservation[] = [
+  {
+    id: 'RSV-CHK-20251201-042', checkoutId: 'CHK-20251201-042', orderId: 'ORD-20251201-042',
+    lines: [{ productId: 'p-002', quantity: 1 }], status: 'placed',
+    createdAt: '2025-12-01T08:55:00Z', expiresAt: '2025-12-01T09:10:00Z',
+  },
+];
+
+export const mockStockMovements: StockMovement[] = [
+  {
+    id: 'SM-1764579300000-reserved-RSV-CHK-20251201-042-p-002', productId: 'p-002', type: 'reserved',
+    onHandDelta: 0, reservedDelta: 1, onHandAfter: 8, reservedAfter: 1,
+    at: '2025-12-01T08:55:00Z', reference: 'RSV-CHK-20251201-042',
+  },
+];
+
+/** Courier visits where the order was not ready (charged at sla.wastedTripFee). */
+export const mockWastedTrips: WastedTrip[] = [
+  { vendorId: 'v-001', shipmentId: 'SH-E103', date: '2026-02-05' },
+  { vendorId: 'v-001', shipmentId: 'SH-E104', date: '2026-02-11' },
+  { vendorId: 'v-004', shipmentId: 'SH-E404', date: '2026-02-14' },
+];
+
+/** Average units sold per month over the last 90 days, by product. */
+export const mockProductMonthlyUnits: Record<string, number> = {
+  'p-001': 46, 'p-002': 6, 'p-003': 38, 'p-004': 21, 'p-005': 140,
+  'p-006': 30, 'p-007': 18, 'p-008': 25, 'p-009': 34, 'p-010': 4,
+  'p-011': 5, 'p-012': 3, 'p-013': 7, 'p-014': 28, 'p-015': 26,
+  'p-016': 22, 'p-017': 31, 'p-018': 12, 'p-019': 11, 'p-020': 17,
+  'p-021': 9, 'p-022': 95, 'p-023': 60, 'p-024': 72, 'p-025': 48,
+  'p-026': 10, 'p-027': 8, 'p-028': 19, 'p-029': 9, 'p-030': 24, 'p-031': 11,
+};
+
 export const mockDashboardStats: DashboardStats = {
   totalGmv: 2450000,
   totalOrders: 1213,
@@ -58,3 +419,38 @@ export const mockZonePerformance = [
   { zone: 'القنال', orders: 45, slaHit: 0.84, avgDays: 2.3 },
   { zone: 'سيناء', orders: 15, slaHit: 0.67, avgDays: 5.8 },
 ];
+
+/**
+ * Delivery subsidies for February 2026 (one record per delivery).
+ * Generated deterministically so the dashboard is stable between reloads.
+ */
+export const mockShippingSubsidies: SubsidyRecord[] = (() => {
+  const zones = [
+    { zoneId: 'cairo', share: 0.5, buffer: 10, courierFee: 50 },
+    { zoneId: 'alexandria', share: 0.17, buffer: 10, courierFee: 58 },
+    { zoneId: 'delta', share: 0.14, buffer: 10, courierFee: 61 },
+    { zoneId: 'upper-egypt', share: 0.1, buffer: 14, courierFee: 78 },
+    { zoneId: 'canal', share: 0.06, buffer: 10, courierFee: 61 },
+    { zoneId: 'sinai', share: 0.03, buffer: 22, courierFee: 95 },
+  ];
+  const records: SubsidyRecord[] = [];
+  for (let day = 1; day <= 18; day++) {
+    const deliveries = 32 + ((day * 7) % 11);
+    for (let n = 0; n < deliveries; n++) {
+      const pick = ((n * 37 + day * 13) % 100) / 100;
+      let cumulative = 0;
+      const zone = zones.find(z => (cumulative += z.share) > pick) ?? zones[0];
+      // Roughly 1 in 4 deliveries ships free (basket threshold), 1 in 12 is a first order
+      const rule: SubsidyRule = n % 12 === 0 ? 'first_order' : n % 4 === 1 ? 'free_delivery_threshold' : 'smartcom_buffer';
+      records.push({
+        id: `sub-2026-02-${day}-${n}`,
+        orderId: `ORD-2602${String(day).padStart(2, '0')}-${String(n).padStart(3, '0')}`,
+        zoneId: zone.zoneId,
+        date: `2026-02-${String(day).padStart(2, '0')}`,
+        amount: rule === 'smartcom_buffer' ? zone.buffer : zone.courierFee,
+        rule,
+      });
+    }
+  }
+  return records;
+})();
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ZERO_MONEY,
+  addMoney,
+  allocateMoney,
+  compareMoney,
+  egp,
+  multiplyMoney,
+  negateMoney,
+  piastres,
+  roundPiastres,
+  subtractMoney,
+  sumMoney,
+  toEgp,
+} from './money';
+
+const amounts = (list: { piastres: number }[]) => list.map(m => m.piastres);
+
+describe('construction', () => {
+  it('holds EGP amounts as whole piastres', () => {
+    expect(egp(12.5).piastres).toBe(1250);
+    expect(toEgp(piastres(1250))).toBe(12.5);
+  });
+
+  it('rounds sub-piastre amounts once, half up by default', () => {
+    expect(egp(1.005).piastres).toBe(101);
+    expect(egp(1.004).piastres).toBe(100);
+    expect(egp(1.005, 'half_even').piastres).toBe(100);
+  });
+
+  it('refuses a fractional number of piastres', () => {
+    expect(() => piastres(10.5)).toThrow(RangeError);
+  });
+
+  it('never produces negative zero', () => {
+    expect(Object.is(negateMoney(ZERO_MONEY).piastres, 0)).toBe(true);
+    expect(Object.is(roundPiastres(-0.4), 0)).toBe(true);
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds without floating-point drift', () => {
+    expect(addMoney(egp(0.1), egp(0.2))).toEqual(egp(0.3));
+    expect(sumMoney(Array.from({ length: 10 }, () => egp(0.1)))).toEqual(egp(1));
+    expect(sumMoney([])).toEqual(ZERO_MONEY);
+  });
+
+  it('subtracts and compares', () => {
+    expect(subtractMoney(egp(100), egp(99.99)).piastres).toBe(1);
+    expect(compareMoney(egp(5), egp(5))).toBe(0);
+    expect(compareMoney(egp(5), egp(4.99))).toBe(1);
+    expect(compareMoney(egp(-1), ZERO_MONEY)).toBe(-1);
+  });
+
+  it('rounds only when a rate is applied', () => {
+    expect(multiplyMoney(egp(99.99), 0.14).piastres).toBe(1400);   // 1399.86
+    expect(multiplyMoney(egp(0.25), 0.5).piastres).toBe(13);       // 12.5, half up
+    expect(multiplyMoney(egp(0.25), 0.5, 'half_even').piastres).toBe(12);
+    expect(multiplyMoney(egp(12.34), 3)).toEqual(egp(37.02));
+  });
+});
+
+describe('allocateMoney', () => {
+  it('splits without losing a piastre', () => {
+    expect(amounts(allocateMoney(egp(100), [1, 1, 1]))).toEqual([3334, 3333, 3333]);
+  });
+
+  it('follows the weights and gives remainders to the largest fractions', () => {
+    expect(amounts(allocateMoney(piastres(10), [1, 2]))).toEqual([3, 7]);
+    expect(amounts(allocateMoney(piastres(-100), [1, 1, 1]))).toEqual([-34, -33, -33]);
+  });
+
+  it('splits evenly when every weight is zero', () => {
+    expect(amounts(allocateMoney(piastres(5), [0, 0]))).toEqual([3, 2]);
+    expect(allocateMoney(egp(10), [])).toEqual([]);
+  });
+
+  it('always sums back to the original amount', () => {
+    for (const total of [1, 99, 1001, 123457]) {
+      const parts = allocateMoney(piastres(total), [3, 7, 11, 0, 13]);
+      expect(sumMoney(parts).piastres).toBe(total);
+    }
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Money Value Type
+ * ============================================================
+ *
+ * Every amount that ends up in a vendor payout, a VAT return or a
+ * customer receipt is held as an integer number of piastres.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Computers store 0.1 + 0.2 as 0.30000000000000004. If we keep prices
+ * as fractional pounds and round after each step, the vendor share,
+ * Arooba's share and the VAT no longer add up to what the customer
+ * paid. Holding whole piastres and rounding only when a percentage is
+ * applied makes every split add up exactly.
+ *
+ * Money values are plain, immutable objects so they travel unchanged
+ * through the Zustand stores and the JSON API.
+ * ============================================================
+ */
+
+import { MONEY, PLATFORM } from '../config/constants';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type RoundingMode = 'half_up' | 'half_even';
+
+export interface Money {
+  readonly piastres: number;
+  readonly currency: typeof PLATFORM.currency;
+}
+
+export const ZERO_MONEY: Money = Object.freeze({ piastres: 0, currency: PLATFORM.currency });
+
+// ──────────────────────────────────────────────
+// CONSTRUCTION & CONVERSION
+// ──────────────────────────────────────────────
+
+/** Builds Money from a whole number of piastres. */
+export function piastres(amount: number): Money {
+  if (!Number.isInteger(amount)) {
+    throw new RangeError(`Money must be a whole number of piastres, got ${amount}`);
+  }
+  return Object.freeze({ piastres: amount === 0 ? 0 : amount, currency: PLATFORM.currency });
+}
+
+/**
+ * Builds Money from an EGP amount (e.g. a price typed by a vendor).
+ * Anything finer than a piastre is rounded with the given mode.
+ */
+export function egp(amount: number, mode: RoundingMode = MONEY.defaultRoundingMode): Money {
+  return piastres(roundPiastres(amount * MONEY.piastresPerPound, mode));
+}
+
+/** Converts Money back to EGP for display and charts. */
+export function toEgp(money: Money): number {
+  return money.piastres / MONEY.piastresPerPound;
+}
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Money).piastres === 'number'
+    && (value as Money).currency === PLATFORM.currency;
+}
+
+// ──────────────────────────────────────────────
+// ARITHMETIC
+// ──────────────────────────────────────────────
+
+export function addMoney(...amounts: Money[]): Money {
+  return piastres(amounts.reduce((sum, m) => sum + m.piastres, 0));
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  return piastres(a.piastres - b.piastres);
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return addMoney(...amounts);
+}
+
+/**
+ * Applies a rate or quantity. This is the ONLY place rounding happens:
+ * the result is rounded to the piastre with an explicit mode.
+ */
+export function multiplyMoney(money: Money, factor: number, mode: RoundingMode = MONEY.defaultRoundingMode): Money {
+  return piastres(roundPiastres(money.piastres * factor, mode));
+}
+
+export function negateMoney(money: Money): Money {
+  return piastres(-money.piastres);
+}
+
+export function maxMoney(a: Money, b: Money): Money {
+  return a.piastres >= b.piastres ? a : b;
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  return a.piastres <= b.piastres ? a : b;
+}
+
+export function compareMoney(a: Money, b: Money): -1 | 0 | 1 {
+  if (a.piastres === b.piastres) return 0;
+  return a.piastres > b.piastres ? 1 : -1;
+}
+
+export function isZeroMoney(money: Money): boolean {
+  return money.piastres === 0;
+}
+
+/**
+ * Splits an amount across weights without losing a piastre
+ * (largest-remainder method). The parts always sum to `money`.
+ *
+ * @example
+ * allocateMoney(egp(100), [1, 1, 1]) // → 33.34, 33.33, 33.33
+ */
+export function allocateMoney(money: Money, weights: number[]): Money[] {
+  if (weights.length === 0) return [];
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (totalWeight === 0) {
+    // Nothing to weigh by — split evenly
+    return allocateMoney(money, weights.map(() => 1));
+  }
+
+  const sign = money.piastres < 0 ? -1 : 1;
+  const total = Math.abs(money.piastres);
+  const exact = weights.map((w) => (total * Math.max(0, w)) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let remainder = total - parts.reduce((sum, p) => sum + p, 0);
+
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of byFraction) {
+    if (remainder === 0) break;
+    parts[index] += 1;
+    remainder -= 1;
+  }
+
+  return parts.map((p) => piastres(sign * p));
+}
+
+// ──────────────────────────────────────────────
+// ROUNDING
+// ──────────────────────────────────────────────
+
+/**
+ * Rounds a (possibly fractional) piastre amount to a whole piastre.
+ * A tiny tolerance absorbs binary noise such as 1.005 * 100 = 100.49999…
+ */
+export function roundPiastres(value: number, mode: RoundingMode = MONEY.defaultRoundingMode): number {
+  const sign = value < 0 ? -1 : 1;
+  const abs = Math.abs(value);
+  const floor = Math.floor(abs + 1e-9);
+  const fraction = abs - floor;
+
+  let rounded: number;
+  if (Math.abs(fraction - 0.5) < 1e-9) {
+    rounded = mode === 'half_even' ? (floor % 2 === 0 ? floor : floor + 1) : floor + 1;
+  } else {
+    rounded = fraction > 0.5 ? floor + 1 : floor;
+  }
+  return sign * rounded === 0 ? 0 : sign * rounded;
+}
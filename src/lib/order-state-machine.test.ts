@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { Order, OrderStatus, ShipmentStatus } from '../app/shared/types';
+import { mockOrders } from './mock-data-extended';
+import {
+  OrderTransitionError,
+  checkOrderTransition,
+  getAvailableTransitions,
+  transitionOrder,
+  type OrderAction,
+  type OrderTransitionContext,
+} from './order-state-machine';
+
+const at = '2026-03-01T10:00:00Z';
+
+/** The split, prepaid seed order (two shipments) at `status`. */
+function splitOrder(status: OrderStatus & ShipmentStatus): Order {
+  const order = mockOrders.find(o => o.id === 'ORD-20251202-015')!;
+  return {
+    ...order,
+    status,
+    shipments: order.shipments.map(s => ({ ...s, status, actualDeliveryDate: undefined })),
+  };
+}
+
+function failure(order: Order, action: OrderAction, context: Partial<OrderTransitionContext> = {}) {
+  try {
+    transitionOrder(order, action, { actor: 'admin', at, ...context });
+  } catch (e) {
+    if (e instanceof OrderTransitionError) return { code: e.code, guard: e.details.guard };
+    throw e;
+  }
+  return null;
+}
+
+describe('transition table', () => {
+  it('refuses to skip a step', () => {
+    expect(failure(splitOrder('pending'), 'deliver')).toEqual({ code: 'invalid_transition', guard: undefined });
+    expect(failure(splitOrder('accepted'), 'pick_up')).toEqual({ code: 'invalid_transition', guard: undefined });
+  });
+
+  it('treats cancelled, returned and refused orders as final', () => {
+    for (const status of ['cancelled', 'returned', 'rejected_shipping'] as const) {
+      expect(getAvailableTransitions(splitOrder(status), 'admin')).toEqual([]);
+    }
+  });
+
+  it('only lets the allowed actors trigger a step', () => {
+    expect(failure(splitOrder('pending'), 'accept', { actor: 'courier_webhook' })?.code).toBe('actor_not_allowed');
+    expect(failure(splitOrder('in_transit'), 'deliver', { actor: 'vendor' })?.code).toBe('actor_not_allowed');
+    expect(checkOrderTransition(splitOrder('pending'), 'accept', { actor: 'vendor' })).toBeNull();
+  });
+
+  it('keeps whole-order steps off single shipments', () => {
+    expect(failure(splitOrder('pending'), 'accept', { shipmentId: 'SH-015-A' })?.code).toBe('invalid_transition');
+  });
+
+  it('offers a vendor only accept and cancel on a pending order', () => {
+    expect(getAvailableTransitions(splitOrder('pending'), 'vendor').map(t => t.action)).toEqual(['accept', 'cancel']);
+  });
+});
+
+describe('guards', () => {
+  it('needs a pickup location on every item before ready to ship', () => {
+    const order = splitOrder('accepted');
+    const noPickup = { ...order, items: order.items.map((i, n) => (n === 0 ? { ...i, pickupLocationId: '' } : i)) };
+    expect(failure(noPickup, 'mark_ready')).toEqual({ code: 'guard_failed', guard: 'missing_pickup_location' });
+  });
+
+  it('needs made-to-order items finished before ready to ship', () => {
+    const order = splitOrder('accepted');
+    const inProduction = {
+      ...order,
+      items: order.items.map((i, n) => (n === 0 ? {
+        ...i, leadTimeDays: 10,
+        production: { startedAt: at, dueDate: '2026-03-11', stage: 'in_production' as const, progressPercent: 40, checkIns: [] },
+      } : i)),
+    };
+    expect(failure(inProduction, 'mark_ready')).toEqual({ code: 'guard_failed', guard: 'production_incomplete' });
+  });
+
+  it('needs a courier and tracking number before pickup', () => {
+    const order = splitOrder('ready_to_ship');
+    const unbooked = { ...order, shipments: order.shipments.map(s => ({ ...s, trackingNumber: undefined })) };
+    expect(failure(unbooked, 'pick_up')).toEqual({ code: 'guard_failed', guard: 'missing_tracking_number' });
+    expect(failure(order, 'pick_up')).toBeNull();
+  });
+
+  it('needs a reason to cancel or refuse', () => {
+    expect(failure(splitOrder('pending'), 'cancel')).toEqual({ code: 'guard_failed', guard: 'reason_required' });
+    expect(failure(splitOrder('pending'), 'cancel', { reason: '   ' })?.guard).toBe('reason_required');
+    expect(failure(splitOrder('in_transit'), 'refuse_delivery', { reason: 'Customer not home' })).toBeNull();
+  });
+});
+
+describe('transitionOrder', () => {
+  it('commits stock and stamps acceptedAt on accept', () => {
+    const result = transitionOrder(splitOrder('pending'), 'accept', { actor: 'vendor', at });
+    expect(result.order.status).toBe('accepted');
+    expect(result.order.acceptedAt).toBe(at);
+    expect(result.effects.map(e => e.kind)).toEqual(['commit_stock', 'notify']);
+  });
+
+  it('restocks what was committed when an accepted order is cancelled', () => {
+    const { effects } = transitionOrder(splitOrder('accepted'), 'cancel', { actor: 'admin', at, reason: 'Vendor closed' });
+    expect(effects).toContainEqual({ kind: 'restock', wasAccepted: true });
+  });
+
+  it('delivers one shipment of a split order and holds only its escrow', () => {
+    const result = transitionOrder(splitOrder('in_transit'), 'deliver', { actor: 'courier_webhook', at, shipmentId: 'SH-015-B' });
+    expect(result.order.status).toBe('partially_delivered');
+    expect(result.order.shipments.map(s => s.status)).toEqual(['in_transit', 'delivered']);
+    expect(result.effects.filter(e => e.kind === 'post_ledger')).toHaveLength(1);
+    const escrow = result.effects.find(e => e.kind === 'start_escrow');
+    expect(escrow?.kind === 'start_escrow' && escrow.shipments.map(s => [s.shipment.id, s.vendorId])).toEqual([['SH-015-B', 'v-003']]);
+  });
+
+  it('leaves the input order unchanged', () => {
+    const order = splitOrder('in_transit');
+    transitionOrder(order, 'deliver', { actor: 'admin', at });
+    expect(order.status).toBe('in_transit');
+    expect(order.shipments.every(s => s.status === 'in_transit')).toBe(true);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Order Lifecycle State Machine
+ * ============================================================
+ *
+ * The only way an order changes status. Every transition declares:
+ * - where it may start from and where it lands,
+ * - who may trigger it (vendor, courier webhook, admin, system),
+ * - guards the order must pass (e.g. a pickup location before
+ *   ready_to_ship),
+ * - the side effects it causes (ledger posting, notification, escrow
+ *   start, stock sale or restock), returned as data for the store to
+ *   carry out.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ *   pending ──accept──▶ accepted ──mark ready──▶ ready_to_ship
+ *      │                   │                         │
+ *      └──cancel──▶ cancelled ◀──cancel──────────────┘
+ *   ready_to_ship ──courier pickup──▶ in_transit ──delivered──▶ delivered ──return──▶ returned
+ *                                         └──refused at door──▶ rejected_shipping
+ * Returned, cancelled and refused orders are final. An order can never
+ * skip a step — "pending → delivered" is refused with a clear error.
+ * Accepting starts production of made-to-order items; the order can't
+ * be marked ready until it is finished (lib/fulfilment-schedule.ts).
+ *
+ * Split orders: pickup, delivery, refusal and return can target one
+ * shipment; without a shipment they apply to every shipment at that
+ * stage. The order status is then derived from the shipments
+ * (lib/shipment-tracking.ts), which is where "partially delivered"
+ * and friends come from.
+ * ============================================================
+ */
+
+import type { Order, OrderStatus, Shipment, ShipmentStatus, UserRole } from '../app/shared/types';
+import { addMoney, sumMoney } from './money';
+import { type JournalDraft, journalOrderCancelled, journalOrderDelivered } from './ledger';
+import type { EscrowShipmentInput } from './escrow-scheduler';
+import { deriveOrderStatus } from './shipment-tracking';
+import { startProduction, unfinishedProduction } from './fulfilment-schedule';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type OrderActor = 'vendor' | 'courier_webhook' | 'admin' | 'system';
+
+export type OrderAction = 'accept' | 'mark_ready' | 'pick_up' | 'deliver' | 'refuse_delivery' | 'return' | 'cancel';
+
+export type OrderGuardCode = 'missing_pickup_location' | 'missing_tracking_number' | 'production_incomplete' | 'reason_required';
+
+export interface OrderTransitionContext {
+  actor: OrderActor;
+  at: string;                             // ISO timestamp of the event
+  reason?: string;                        // Required for cancellations and refusals
+  shipmentId?: string;                    // Only for per-shipment actions
+}
+
+export interface OrderTransitionDefinition {
+  action: OrderAction;
+  from: readonly OrderStatus[];
+  to: ShipmentStatus;                     // Where the moved shipments land
+  actors: readonly OrderActor[];
+  label: string;
+  labelAr: string;
+  requiresReason: boolean;
+  /** Can target a single shipment of a split order. */
+  perShipment: boolean;
+  guards: readonly OrderGuard[];
+}
+
+export interface OrderGuardFailure {
+  code: OrderGuardCode;
+  message: string;
+  messageAr: string;
+}
+
+/** Checked against the shipments the transition would move. */
+type OrderGuard = (order: Order, shipments: readonly Shipment[]) => OrderGuardFailure | null;
+
+export type OrderSideEffect =
+  | { kind: 'post_ledger'; journal: JournalDraft }
+  | { kind: 'notify'; recipient: 'customer' | 'vendor' | 'admin'; type: 'success' | 'warning' | 'info'; title: string; message: string }
+  | { kind: 'start_escrow'; shipments: EscrowShipmentInput[] }
+  | { kind: 'commit_stock' }
+  | { kind: 'restock'; wasAccepted: boolean };
+
+export interface OrderTransitionResult {
+  order: Order;
+  from: OrderStatus;
+  action: OrderAction;
+  effects: OrderSideEffect[];
+}
+
+export class OrderTransitionError extends Error {
+  readonly code: 'invalid_transition' | 'actor_not_allowed' | 'guard_failed';
+  readonly messageAr: string;
+  readonly details: { orderId: string; from: OrderStatus; action: OrderAction; actor: OrderActor; shipmentId?: string; guard?: OrderGuardCode };
+
+  constructor(
+    code: OrderTransitionError['code'],
+    message: string,
+    messageAr: string,
+    details: OrderTransitionError['details']
+  ) {
+    super(message);
+    this.name = 'OrderTransitionError';
+    this.code = code;
+    this.messageAr = messageAr;
+    this.details = details;
+  }
+}
+
+// ──────────────────────────────────────────────
+// GUARDS
+// ──────────────────────────────────────────────
+
+const hasPickupLocations: OrderGuard = (order, shipments) =>
+  order.items.some(i => !i.pickupLocationId) || shipments.some(s => !s.pickupLocationId)
+    ? {
+      code: 'missing_pickup_location',
+      message: `Order ${order.id} has items or shipments without a pickup location`,
+      messageAr: 'لا يمكن تجهيز الطلب للشحن بدون تحديد موقع الاستلام لكل منتج وشحنة',
+    }
+    : null;
+
+const hasTrackingNumbers: OrderGuard = (order, shipments) =>
+  shipments.length === 0 || shipments.some(s => !s.trackingNumber || !s.courierProvider)
+    ? {
+      code: 'missing_tracking_number',
+      message: `Every shipment of ${order.id} picked up needs a courier and tracking number`,
+      messageAr: 'يجب حجز شركة الشحن ورقم التتبع لكل شحنة قبل الاستلام',
+    }
+    : null;
+
+const hasFinishedProduction: OrderGuard = (order, shipments) => {
+  const unfinished = unfinishedProduction(order, shipments);
+  return unfinished.length > 0
+    ? {
+      code: 'production_incomplete',
+      message: `${unfinished.map(i => i.productTitle).join(', ')} on ${order.id} still in production`,
+      messageAr: 'لا يمكن تجهيز الشحنة قبل اكتمال تصنيع المنتجات المصنوعة حسب الطلب',
+    }
+    : null;
+};
+
+// ──────────────────────────────────────────────
+// TRANSITIONS
+// ──────────────────────────────────────────────
+
+const PARTIAL_ORDER_STATUSES: readonly OrderStatus[] = ['partially_shipped', 'partially_delivered', 'partially_returned'];
+
+export const ORDER_TRANSITIONS: readonly OrderTransitionDefinition[] = [
+  {
+    action: 'accept', from: ['pending'], to: 'accepted', actors: ['vendor', 'admin'],
+    label: 'Accept order', labelAr: 'قبول الطلب', requiresReason: false, perShipment: false, guards: [],
+  },
+  {
+    action: 'mark_ready', from: ['accepted'], to: 'ready_to_ship', actors: ['vendor', 'admin'],
+    label: 'Mark ready to ship', labelAr: 'جاهز للشحن', requiresReason: false, perShipment: false, guards: [hasPickupLocations, hasFinishedProduction],
+  },
+  {
+    action: 'pick_up', from: ['ready_to_ship', ...PARTIAL_ORDER_STATUSES], to: 'in_transit', actors: ['courier_webhook', 'admin'],
+    label: 'Picked up by courier', labelAr: 'استلمها المندوب', requiresReason: false, perShipment: true, guards: [hasTrackingNumbers],
+  },
+  {
+    action: 'deliver', from: ['in_transit', ...PARTIAL_ORDER_STATUSES], to: 'delivered', actors: ['courier_webhook', 'admin'],
+    label: 'Mark delivered', labelAr: 'تم التسليم', requiresReason: false, perShipment: true, guards: [],
+  },
+  {
+    action: 'refuse_delivery', from: ['in_transit', ...PARTIAL_ORDER_STATUSES], to: 'rejected_shipping', actors: ['courier_webhook', 'admin'],
+    label: 'Refused at delivery', labelAr: 'رفض الاستلام', requiresReason: true, perShipment: true, guards: [],
+  },
+  {
+    // system = returns settled every item of the shipment (lib/returns.ts)
+    action: 'return', from: ['delivered', ...PARTIAL_ORDER_STATUSES], to: 'returned', actors: ['admin', 'system'],
+    label: 'Mark returned', labelAr: 'تسجيل الإرجاع', requiresReason: false, perShipment: true, guards: [],
+  },
+  {
+    // system = the acceptance SLA expired ("Accept or Die")
+    action: 'cancel', from: ['pending', 'accepted', 'ready_to_ship'], to: 'cancelled', actors: ['vendor', 'admin', 'system'],
+    label: 'Cancel order', labelAr: 'إلغاء الطلب', requiresReason: true, perShipment: false, guards: [],
+  },
+];
+
+export const TERMINAL_ORDER_STATUSES: readonly OrderStatus[] = ['returned', 'cancelled', 'rejected_shipping'];
+
+export function isTerminalOrderStatus(status: OrderStatus): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(status);
+}
+
+function findTransition(status: OrderStatus, action: OrderAction): OrderTransitionDefinition | undefined {
+  return ORDER_TRANSITIONS.find(t => t.action === action && t.from.includes(status));
+}
+
+/**
+ * The shipments `transition` moves: those at one of its starting stages,
+ * narrowed to `shipmentId` when given.
+ */
+function targetShipments(order: Order, transition: OrderTransitionDefinition, shipmentId?: string): Shipment[] {
+  return order.shipments.filter(s => transition.from.includes(s.status) && (!shipmentId || s.id === shipmentId));
+}
+
+/**
+ * Why `action` cannot run on `order` right now, or null when it can.
+ * The reason requirement is not checked here (the UI asks for it).
+ */
+export function checkOrderTransition(
+  order: Order,
+  action: OrderAction,
+  context: Pick<OrderTransitionContext, 'actor' | 'shipmentId'>
+): OrderTransitionError | null {
+  const details = { orderId: order.id, from: order.status, action, actor: context.actor, shipmentId: context.shipmentId };
+  const transition = findTransition(order.status, action);
+  if (!transition) {
+    return new OrderTransitionError(
+      'invalid_transition',
+      `Order ${order.id} cannot '${action}' from '${order.status}'`,
+      `لا يمكن تنفيذ هذا الإجراء على طلب حالته الحالية "${order.status}"`,
+      details
+    );
+  }
+  if (!transition.actors.includes(context.actor)) {
+    return new OrderTransitionError(
+      'actor_not_allowed',
+      `'${action}' on ${order.id} is reserved for ${transition.actors.join(', ')}, not ${context.actor}`,
+      `الإجراء "${transition.labelAr}" غير مسموح لهذا المستخدم`,
+      details
+    );
+  }
+  if (context.shipmentId && !transition.perShipment) {
+    return new OrderTransitionError(
+      'invalid_transition',
+      `'${action}' applies to the whole order ${order.id}, not one shipment`,
+      `الإجراء "${transition.labelAr}" يخص الطلب كله وليس شحنة واحدة`,
+      details
+    );
+  }
+  const shipments = targetShipments(order, transition, context.shipmentId);
+  if (order.shipments.length > 0 && shipments.length === 0) {
+    return new OrderTransitionError(
+      'invalid_transition',
+      `No shipment of ${order.id}${context.shipmentId ? ` matching ${context.shipmentId}` : ''} can '${action}' now`,
+      `لا توجد شحنة في هذا الطلب يمكن تنفيذ "${transition.labelAr}" عليها الآن`,
+      details
+    );
+  }
+  for (const guard of transition.guards) {
+    const failure = guard(order, shipments);
+    if (failure) {
+      return new OrderTransitionError('guard_failed', failure.message, failure.messageAr, { ...details, guard: failure.code });
+    }
+  }
+  return null;
+}
+
+/** Console users act as vendors or admins; customers never move orders directly. */
+export function orderActorForRole(role: UserRole): OrderActor | null {
+  if (role === 'parent_vendor' || role === 'sub_vendor') return 'vendor';
+  if (role.startsWith('admin_')) return 'admin';
+  return null;
+}
+
+/**
+ * The transitions `actor` can run on `order` now — what the UI should
+ * offer. With `shipmentId`, only the per-shipment ones for that shipment.
+ */
+export function getAvailableTransitions(order: Order, actor: OrderActor, shipmentId?: string): OrderTransitionDefinition[] {
+  return ORDER_TRANSITIONS.filter(t => t.from.includes(order.status) && !checkOrderTransition(order, t.action, { actor, shipmentId }));
+}
+
+// ──────────────────────────────────────────────
+// APPLY
+// ──────────────────────────────────────────────
+
+function updateShipments(order: Order, moved: readonly Shipment[], to: ShipmentStatus, at: string): Shipment[] {
+  return order.shipments.map(s => (!moved.includes(s) ? s : {
+    ...s,
+    status: to,
+    ...(to === 'delivered' ? { actualDeliveryDate: at.slice(0, 10) } : {}),
+  }));
+}
+
+function sideEffects(
+  after: Order,
+  from: OrderStatus,
+  moved: readonly Shipment[],
+  action: OrderAction,
+  context: OrderTransitionContext
+): OrderSideEffect[] {
+  const subject = context.shipmentId ? `${after.id} (${context.shipmentId})` : after.id;
+  switch (action) {
+    case 'accept':
+      return [
+        { kind: 'commit_stock' },
+        { kind: 'notify', recipient: 'customer', type: 'success', title: 'تم قبول الطلب', message: `تم قبول الطلب ${after.id} وجارٍ تجهيزه` },
+      ];
+    case 'mark_ready':
+      return [{ kind: 'notify', recipient: 'admin', type: 'info', title: 'طلب جاهز للشحن', message: `الطلب ${after.id} جاهز — احجز المندوب` }];
+    case 'pick_up':
+      return [{ kind: 'notify', recipient: 'customer', type: 'info', title: 'الطلب في الطريق', message: `تم شحن الطلب ${subject}` }];
+    case 'deliver': {
+      // One journal and one escrow hold per shipment delivered
+      const delivered = after.shipments.filter(s => moved.some(m => m.id === s.id));
+      return [
+        ...(delivered.length > 0
+          ? delivered.map(s => ({ kind: 'post_ledger' as const, journal: journalOrderDelivered(after, { at: context.at, shipmentId: s.id }) }))
+          : [{ kind: 'post_ledger' as const, journal: journalOrderDelivered(after, { at: context.at }) }]),
+        {
+          kind: 'start_escrow',
+          shipments: delivered.flatMap(shipment => {
+            const items = after.items.filter(i => i.pickupLocationId === shipment.pickupLocationId);
+            return [...new Set(items.map(i => i.vendorId))].map(vendorId => ({
+              shipment,
+              vendorId,
+              vendorAmount: sumMoney(items.filter(i => i.vendorId === vendorId).map(i => addMoney(i.bucketA_vendorRevenue, i.bucketB_vendorVat))),
+            }));
+          }),
+        },
+        { kind: 'notify', recipient: 'vendor', type: 'success', title: 'تم التسليم', message: `تم تسليم الطلب ${subject} — بدأت فترة الضمان` },
+      ];
+    }
+    case 'refuse_delivery':
+    case 'cancel': {
+      // A refusal refunds only the refused shipments; a cancellation the whole order
+      const journals = action === 'refuse_delivery' && moved.length > 0
+        ? moved.map(s => journalOrderCancelled(after, { at: context.at, shipmentId: s.id }))
+        : [journalOrderCancelled(after, { at: context.at })];
+      return [
+        ...journals.flatMap(journal => (journal ? [{ kind: 'post_ledger' as const, journal }] : [])),
+        ...(action === 'cancel' ? [{ kind: 'restock' as const, wasAccepted: from !== 'pending' }] : []),
+        {
+          kind: 'notify', recipient: 'admin', type: 'warning',
+          title: action === 'cancel' ? 'تم إلغاء الطلب' : 'رفض العميل الاستلام',
+          message: `${subject}: ${context.reason ?? ''}`,
+        },
+      ];
+    }
+    case 'return':
+      return [{ kind: 'notify', recipient: 'admin', type: 'info', title: 'طلب مرتجع', message: `تم تسجيل إرجاع الطلب ${subject}` }];
+  }
+}
+
+/**
+ * Moves the order (or one of its shipments) one step. Pure: the caller
+ * applies the returned effects (see store/order-store.ts).
+ *
+ * @throws OrderTransitionError when the step is not allowed from the
+ *   current status, not allowed for the actor, has no shipment to move,
+ *   a guard fails, or a required reason is missing.
+ */
+export function transitionOrder(order: Order, action: OrderAction, context: OrderTransitionContext): OrderTransitionResult {
+  const error = checkOrderTransition(order, action, context);
+  if (error) throw error;
+
+  const transition = findTransition(order.status, action)!;
+  if (transition.requiresReason && !context.reason?.trim()) {
+    throw new OrderTransitionError(
+      'guard_failed',
+      `'${action}' on ${order.id} needs a reason`,
+      'يجب ذكر السبب',
+      { orderId: order.id, from: order.status, action, actor: context.actor, shipmentId: context.shipmentId, guard: 'reason_required' }
+    );
+  }
+
+  const moved = targetShipments(order, transition, context.shipmentId);
+  const shipments = updateShipments(order, moved, transition.to, context.at);
+  const next: Order = {
+    ...order,
+    status: deriveOrderStatus(shipments, transition.to),
+    shipments,
+    ...(action === 'accept' ? { acceptedAt: context.at, items: startProduction(order, context.at) } : {}),
+    updatedAt: context.at,
+  };
+  return { order: next, from: order.status, action, effects: sideEffects(next, order.status, moved, action, context) };
+}
@@ -0,0 +1,338 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Weekly Payout Batches
+ * ============================================================
+ *
+ * Builds the weekly vendor payout batch from wallet balances: who is
+ * paid, how much after deductions, and through which bank. Tracks the
+ * batch through approval and every transfer through the bank.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Once a week finance pays every vendor whose withdrawable balance has
+ * reached the minimum payout (default 500 EGP). Before paying we take
+ * off what the vendor owes us:
+ * - wasted-trip fees — the courier came and the order wasn't ready;
+ * - refunds already promised to customers on money that had been
+ *   released (the vendor keeps that part until the refund settles).
+ * Transfers are grouped by bank so each bank gets one upload file.
+ * Nothing leaves until a finance manager approves the batch; a transfer
+ * the bank bounces is reversed and the money goes back to the wallet.
+ *
+ * LIFECYCLE:
+ *   batch:    draft → approved → completed (every transfer settled)
+ *   transfer: queued → sent
+ *                    ↘ failed → (reversed back into the wallet)
+ * ============================================================
+ */
+
+import type { ParentVendor, VendorWallet } from '../app/shared/types';
+import { ESCROW, VENDOR_SLAS } from '../config/constants';
+import { type Money, ZERO_MONEY, egp, toEgp, addMoney, subtractMoney, sumMoney, compareMoney, minMoney } from './money';
+import { nextPayoutDate, DEFAULT_PAYOUT_CALENDAR, type PayoutCalendar } from './escrow-scheduler';
+import type { ReturnSettlement } from './returns';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+/** A courier visit where the vendor's order was not ready (SOP 4.1). */
+export interface WastedTrip {
+  vendorId: string;
+  shipmentId: string;
+  date: string;
+}
+
+/** A refund owed on money already released to the vendor. */
+export interface PendingRefund {
+  vendorId: string;
+  orderId: string;
+  returnId: string;
+  amount: Money;
+}
+
+export interface PayoutDeduction {
+  kind: 'wasted_trip' | 'pending_refund';
+  reference: string;                      // Shipment or return id
+  amount: Money;
+  date?: string;                          // Wasted trips: the courier's visit
+}
+
+export type PayoutTransferStatus = 'queued' | 'sent' | 'failed';
+
+export interface PayoutTransfer {
+  id: string;
+  vendorId: string;
+  beneficiaryName: string;
+  bankName: string;
+  bankAccountNumber: string;
+  available: Money;                       // Wallet balance when the batch was built
+  deductions: PayoutDeduction[];
+  amount: Money;                          // What the bank sends
+  status: PayoutTransferStatus;
+  sentAt?: string;
+  failedAt?: string;
+  failureReason?: string;
+  reversedAt?: string;                    // Failed money credited back to the wallet
+}
+
+export type PayoutSkipReason = 'below_threshold' | 'missing_bank_details' | 'nothing_after_deductions' | 'vendor_inactive';
+
+export interface SkippedPayout {
+  vendorId: string;
+  reason: PayoutSkipReason;
+  available: Money;
+}
+
+export type PayoutBatchStatus = 'draft' | 'approved' | 'completed';
+
+export interface PayoutBatch {
+  id: string;
+  payoutDate: string;                     // YYYY-MM-DD
+  threshold: Money;
+  status: PayoutBatchStatus;
+  createdAt: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  transfers: PayoutTransfer[];
+  skipped: SkippedPayout[];
+}
+
+export interface PayoutBankGroup {
+  bankName: string;
+  transfers: PayoutTransfer[];
+  total: Money;
+}
+
+export interface PayoutBatchOptions {
+  payoutDate: string;
+  createdAt: string;
+  threshold?: number;                     // EGP — escrow.minimumPayoutThreshold
+  wastedTripFee?: number;                 // EGP — sla.wastedTripFee
+  wastedTrips?: WastedTrip[];
+  pendingRefunds?: PendingRefund[];
+  previousBatches?: PayoutBatch[];        // Wasted trips they already charged aren't charged again
+}
+
+export class PayoutBatchError extends Error {
+  readonly code: 'batch_not_draft' | 'batch_not_approved' | 'batch_empty' | 'transfer_not_found' | 'invalid_transfer_status';
+
+  constructor(code: PayoutBatchError['code'], message: string) {
+    super(message);
+    this.name = 'PayoutBatchError';
+    this.code = code;
+  }
+}
+
+// ──────────────────────────────────────────────
+// SCHEDULE
+// ──────────────────────────────────────────────
+
+/**
+ * The next weekly payout date on or after `from`: the batch weekday
+ * (ESCROW.payoutBatchWeekday), moved to the next working day when it
+ * falls on a holiday.
+ */
+export function nextPayoutBatchDate(from: string | Date, calendar: Partial<PayoutCalendar> = {}): string {
+  const iso = typeof from === 'string' ? from.slice(0, 10) : from.toISOString().slice(0, 10);
+  const day = new Date(`${iso}T00:00:00Z`);
+  const offset = (ESCROW.payoutBatchWeekday - day.getUTCDay() + 7) % 7;
+  day.setUTCDate(day.getUTCDate() + offset);
+  return nextPayoutDate(day.toISOString().slice(0, 10), { ...DEFAULT_PAYOUT_CALENDAR, ...calendar });
+}
+
+// ──────────────────────────────────────────────
+// BUILDING A BATCH
+// ──────────────────────────────────────────────
+
+const tripKey = (shipmentId: string, date?: string) => `${shipmentId}@${date ?? ''}`;
+
+/** Wasted trips taken by approved batches; a reversed transfer gave its fees back. */
+function chargedWastedTrips(batches: PayoutBatch[]): Set<string> {
+  return new Set(batches
+    .filter(b => b.status !== 'draft')
+    .flatMap(b => b.transfers.filter(t => !t.reversedAt))
+    .flatMap(t => t.deductions.filter(d => d.kind === 'wasted_trip').map(d => tripKey(d.reference, d.date))));
+}
+
+/**
+ * Refunds settled against money already released: the vendor's share of
+ * every return line clawed back from the available balance, one entry
+ * per vendor and return.
+ */
+export function pendingRefundsFrom(settlements: ReturnSettlement[]): PendingRefund[] {
+  return settlements.flatMap(settlement => {
+    const byVendor = new Map<string, Money>();
+    for (const line of settlement.lines.filter(l => l.clawbackFrom === 'available')) {
+      byVendor.set(line.vendorId, addMoney(byVendor.get(line.vendorId) ?? ZERO_MONEY, line.bucketA, line.bucketB));
+    }
+    return [...byVendor.entries()].map(([vendorId, amount]) => ({
+      vendorId, orderId: settlement.orderId, returnId: settlement.returnId, amount,
+    }));
+  });
+}
+
+/**
+ * Drafts the batch for `payoutDate`.
+ *
+ * BUSINESS LOGIC:
+ * 1. Vendors below the threshold, inactive, or without bank details are
+ *    skipped (and listed, so finance can chase the bank details).
+ * 2. Wasted-trip fees and pending refunds are deducted, never below zero.
+ *    A wasted trip is charged once: trips an approved batch already took
+ *    (and didn't reverse) are left out.
+ * 3. Transfers are sorted by bank, then vendor.
+ */
+export function buildPayoutBatch(
+  wallets: VendorWallet[],
+  vendors: ParentVendor[],
+  options: PayoutBatchOptions
+): PayoutBatch {
+  const threshold = egp(options.threshold ?? ESCROW.minimumPayoutThreshold);
+  const tripFee = egp(options.wastedTripFee ?? VENDOR_SLAS.wastedTripFee);
+  const batchId = `PB-${options.payoutDate}`;
+  const transfers: PayoutTransfer[] = [];
+  const skipped: SkippedPayout[] = [];
+  const charged = chargedWastedTrips(options.previousBatches ?? []);
+
+  for (const wallet of wallets) {
+    const available = egp(wallet.availableBalance);
+    const vendor = vendors.find(v => v.id === wallet.vendorId);
+    const skip = (reason: PayoutSkipReason) => skipped.push({ vendorId: wallet.vendorId, reason, available });
+
+    if (compareMoney(available, threshold) < 0) { skip('below_threshold'); continue; }
+    if (!vendor || vendor.status !== 'active') { skip('vendor_inactive'); continue; }
+    if (!vendor.bankName || !vendor.bankAccountNumber) { skip('missing_bank_details'); continue; }
+
+    const deductions: PayoutDeduction[] = [
+      ...(options.wastedTrips ?? []).filter(t => t.vendorId === vendor.id && !charged.has(tripKey(t.shipmentId, t.date)))
+        .map(t => ({ kind: 'wasted_trip' as const, reference: t.shipmentId, amount: tripFee, date: t.date })),
+      ...(options.pendingRefunds ?? []).filter(r => r.vendorId === vendor.id)
+        .map(r => ({ kind: 'pending_refund' as const, reference: r.returnId, amount: r.amount })),
+    ];
+    const amount = subtractMoney(available, minMoney(available, sumMoney(deductions.map(d => d.amount))));
+    if (amount.piastres === 0) { skip('nothing_after_deductions'); continue; }
+
+    transfers.push({
+      id: `${batchId}-${vendor.id}`,
+      vendorId: vendor.id,
+      beneficiaryName: vendor.businessName,
+      bankName: vendor.bankName,
+      bankAccountNumber: vendor.bankAccountNumber,
+      available,
+      deductions,
+      amount,
+      status: 'queued',
+    });
+  }
+
+  transfers.sort((a, b) => a.bankName.localeCompare(b.bankName) || a.vendorId.localeCompare(b.vendorId));
+  return { id: batchId, payoutDate: options.payoutDate, threshold, status: 'draft', createdAt: options.createdAt, transfers, skipped };
+}
+
+/** Transfers grouped per bank — one upload per bank. */
+export function groupTransfersByBank(batch: PayoutBatch): PayoutBankGroup[] {
+  const groups = new Map<string, PayoutTransfer[]>();
+  for (const transfer of batch.transfers) {
+    groups.set(transfer.bankName, [...(groups.get(transfer.bankName) ?? []), transfer]);
+  }
+  return [...groups.entries()].map(([bankName, transfers]) => ({
+    bankName,
+    transfers,
+    total: sumMoney(transfers.map(t => t.amount)),
+  }));
+}
+
+export function getBatchTotal(batch: PayoutBatch): Money {
+  return sumMoney(batch.transfers.map(t => t.amount));
+}
+
+// ──────────────────────────────────────────────
+// APPROVAL & TRANSFER STATUS
+// ──────────────────────────────────────────────
+
+export function approvePayoutBatch(batch: PayoutBatch, approvedBy: string, at: string): PayoutBatch {
+  if (batch.status !== 'draft') {
+    throw new PayoutBatchError('batch_not_draft', `Batch ${batch.id} is already ${batch.status}`);
+  }
+  if (batch.transfers.length === 0) {
+    throw new PayoutBatchError('batch_empty', `Batch ${batch.id} has no transfers to approve`);
+  }
+  return { ...batch, status: 'approved', approvedBy, approvedAt: at };
+}
+
+function updateTransfer(
+  batch: PayoutBatch,
+  transferId: string,
+  expected: PayoutTransferStatus,
+  update: (transfer: PayoutTransfer) => PayoutTransfer
+): PayoutBatch {
+  if (batch.status === 'draft') {
+    throw new PayoutBatchError('batch_not_approved', `Batch ${batch.id} must be approved before transfers move`);
+  }
+  const transfer = batch.transfers.find(t => t.id === transferId);
+  if (!transfer) {
+    throw new PayoutBatchError('transfer_not_found', `Transfer ${transferId} is not in batch ${batch.id}`);
+  }
+  if (transfer.status !== expected || transfer.reversedAt) {
+    throw new PayoutBatchError('invalid_transfer_status', `Transfer ${transferId} is ${transfer.status}, expected ${expected}`);
+  }
+
+  const transfers = batch.transfers.map(t => (t.id === transferId ? update(t) : t));
+  const isSettled = (t: PayoutTransfer) => t.status === 'sent' || Boolean(t.reversedAt);
+  return { ...batch, transfers, status: transfers.every(isSettled) ? 'completed' : 'approved' };
+}
+
+export function markTransferSent(batch: PayoutBatch, transferId: string, at: string): PayoutBatch {
+  return updateTransfer(batch, transferId, 'queued', t => ({ ...t, status: 'sent', sentAt: at }));
+}
+
+export function markTransferFailed(batch: PayoutBatch, transferId: string, reason: string, at: string): PayoutBatch {
+  return updateTransfer(batch, transferId, 'queued', t => ({ ...t, status: 'failed', failedAt: at, failureReason: reason }));
+}
+
+/** Credits a bounced transfer back to the vendor's wallet. */
+export function reverseFailedTransfer(batch: PayoutBatch, transferId: string, at: string): PayoutBatch {
+  return updateTransfer(batch, transferId, 'failed', t => ({ ...t, reversedAt: at }));
+}
+
+/**
+ * What the batch has taken out of a vendor's wallet: the transfer plus
+ * the wasted-trip fees. Pending refunds stay in the wallet (they are
+ * settled by the refund itself); reversed transfers take nothing.
+ */
+export function getWithdrawnAmount(batches: PayoutBatch[], vendorId: string): Money {
+  let withdrawn = ZERO_MONEY;
+  for (const batch of batches) {
+    if (batch.status === 'draft') continue;
+    for (const t of batch.transfers) {
+      if (t.vendorId !== vendorId || t.reversedAt) continue;
+      const fees = sumMoney(t.deductions.filter(d => d.kind === 'wasted_trip').map(d => d.amount));
+      withdrawn = addMoney(withdrawn, t.amount, fees);
+    }
+  }
+  return withdrawn;
+}
+
+// ──────────────────────────────────────────────
+// BANK UPLOAD
+// ──────────────────────────────────────────────
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Bank-upload CSV for an approved batch: one row per queued transfer,
+ * grouped by bank. Pass `bankName` for a single bank's file.
+ */
+export function payoutBatchToCsv(batch: PayoutBatch, bankName?: string): string {
+  if (batch.status === 'draft') {
+    throw new PayoutBatchError('batch_not_approved', `Batch ${batch.id} must be approved before export`);
+  }
+  const header = ['batch_id', 'transfer_id', 'bank_name', 'account_number', 'beneficiary_name', 'amount', 'currency', 'value_date', 'reference'];
+  const rows = batch.transfers
+    .filter(t => t.status === 'queued' && (!bankName || t.bankName === bankName))
+    .map(t => [
+      batch.id, t.id, t.bankName, t.bankAccountNumber, t.beneficiaryName,
+      toEgp(t.amount).toFixed(2), 'EGP', batch.payoutDate, `Arooba payout ${batch.payoutDate}`,
+    ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
@@ -0,0 +1,211 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Category Price Benchmarks
+ * ============================================================
+ *
+ * Derives a reference price for every category (and, where there are
+ * enough products, every subcategory and weight band) from the active
+ * catalogue, and checks new or changed prices against it.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * "Is 110 EGP a fair price for a crochet scarf?" We answer by looking at
+ * what the other active scarves sell for. We use the MEDIAN (the middle
+ * price) and the interquartile range (where the middle half of prices
+ * sit) instead of the average, so one 5,000 EGP listing typed with an
+ * extra zero cannot drag the benchmark up and hide real gouging.
+ *
+ * Prices compared are vendor selling prices (before Arooba uplift), the
+ * same number vendors propose in price-change requests.
+ * ============================================================
+ */
+
+import type { Product, VendorActionRequest } from '../app/shared/types';
+import { PRICE_BENCHMARKS, FRAUD_RULES } from '../config/constants';
+import { checkPriceDeviation } from './pricing-engine';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type WeightBand = (typeof PRICE_BENCHMARKS.weightBands)[number]['id'];
+
+export type PriceBenchmarkScope = 'subcategory' | 'weight_band' | 'category';
+
+export interface PriceBenchmark {
+  key: string;                            // e.g. 'fashion-apparel/scarves', 'leather-goods@medium'
+  scope: PriceBenchmarkScope;
+  categoryId: string;
+  subcategoryId?: string;
+  weightBand?: WeightBand;
+  sampleSize: number;
+  median: number;
+  q1: number;                             // 25th percentile
+  q3: number;                             // 75th percentile
+  iqr: number;                            // q3 − q1
+}
+
+/** What is being priced — a product, or the product a request proposes. */
+export interface PriceCheckSubject {
+  productId?: string;                     // Excluded from its own benchmark
+  categoryId: string;
+  subcategoryId?: string;
+  weightKg?: number;
+  price: number;
+}
+
+export interface PriceBenchmarkCheck {
+  price: number;
+  benchmark?: PriceBenchmark;             // Absent when the category has too few products
+  threshold: number;
+  isFlagged: boolean;
+  deviation: number;                      // % from the benchmark median
+  direction: 'above' | 'below' | 'normal';
+  withinIqr: boolean;                     // Inside the typical (middle-half) range
+}
+
+// ──────────────────────────────────────────────
+// STATISTICS
+// ──────────────────────────────────────────────
+
+/** Linear-interpolated quantile of an ascending list. */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  return Math.round(value * 100) / 100;
+}
+
+export function getWeightBand(weightKg: number): WeightBand {
+  return (PRICE_BENCHMARKS.weightBands.find(b => weightKg <= b.maxKg) ?? PRICE_BENCHMARKS.weightBands[PRICE_BENCHMARKS.weightBands.length - 1]).id;
+}
+
+// ──────────────────────────────────────────────
+// BENCHMARKS
+// ──────────────────────────────────────────────
+
+/**
+ * Builds every benchmark the active catalogue supports. Groups smaller
+ * than `minSampleSize` are left out — a median of two prices is noise.
+ */
+export function buildPriceBenchmarks(
+  products: Product[],
+  options: { excludeProductId?: string; minSampleSize?: number } = {}
+): Map<string, PriceBenchmark> {
+  const minSampleSize = options.minSampleSize ?? PRICE_BENCHMARKS.minSampleSize;
+  const groups = new Map<string, { base: Omit<PriceBenchmark, 'sampleSize' | 'median' | 'q1' | 'q3' | 'iqr'>; prices: number[] }>();
+  const add = (base: Omit<PriceBenchmark, 'sampleSize' | 'median' | 'q1' | 'q3' | 'iqr'>, price: number) => {
+    const group = groups.get(base.key) ?? { base, prices: [] };
+    group.prices.push(price);
+    groups.set(base.key, group);
+  };
+
+  for (const product of products) {
+    if (product.status !== 'active' || product.id === options.excludeProductId) continue;
+    const { categoryId, subcategoryId, sellingPrice } = product;
+    add({ key: categoryId, scope: 'category', categoryId }, sellingPrice);
+    if (subcategoryId) {
+      add({ key: `${categoryId}/${subcategoryId}`, scope: 'subcategory', categoryId, subcategoryId }, sellingPrice);
+    }
+    const weightBand = getWeightBand(product.weightKg);
+    add({ key: `${categoryId}@${weightBand}`, scope: 'weight_band', categoryId, weightBand }, sellingPrice);
+  }
+
+  const benchmarks = new Map<string, PriceBenchmark>();
+  for (const { base, prices } of groups.values()) {
+    if (prices.length < minSampleSize) continue;
+    const sorted = [...prices].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    benchmarks.set(base.key, {
+      ...base,
+      sampleSize: sorted.length,
+      median: quantile(sorted, 0.5),
+      q1,
+      q3,
+      iqr: Math.round((q3 - q1) * 100) / 100,
+    });
+  }
+  return benchmarks;
+}
+
+/** Most specific benchmark available: subcategory → weight band → category. */
+export function findPriceBenchmark(
+  benchmarks: Map<string, PriceBenchmark>,
+  subject: Omit<PriceCheckSubject, 'price'>
+): PriceBenchmark | undefined {
+  const { categoryId, subcategoryId, weightKg } = subject;
+  return (subcategoryId ? benchmarks.get(`${categoryId}/${subcategoryId}`) : undefined)
+    ?? (weightKg !== undefined ? benchmarks.get(`${categoryId}@${getWeightBand(weightKg)}`) : undefined)
+    ?? benchmarks.get(categoryId);
+}
+
+// ──────────────────────────────────────────────
+// CHECKS
+// ──────────────────────────────────────────────
+
+/**
+ * Checks a price against its benchmark. The product itself is left out
+ * of the benchmark so an outlier cannot vouch for itself.
+ *
+ * @example
+ * checkPriceAgainstBenchmark({ categoryId: 'fashion-apparel', subcategoryId: 'scarves', price: 110 }, products)
+ * // → { benchmark: { median: 85, ... }, deviation: 29.41, isFlagged: true, direction: 'above' }
+ */
+export function checkPriceAgainstBenchmark(
+  subject: PriceCheckSubject,
+  products: Product[],
+  threshold: number = FRAUD_RULES.priceDeviationFlag
+): PriceBenchmarkCheck {
+  const benchmarks = buildPriceBenchmarks(products, { excludeProductId: subject.productId });
+  const benchmark = findPriceBenchmark(benchmarks, subject);
+  if (!benchmark) {
+    return { price: subject.price, threshold, isFlagged: false, deviation: 0, direction: 'normal', withinIqr: true };
+  }
+
+  const result = checkPriceDeviation(subject.price, benchmark.median, threshold);
+  return {
+    price: subject.price,
+    benchmark,
+    threshold,
+    ...result,
+    withinIqr: subject.price >= benchmark.q1 && subject.price <= benchmark.q3,
+  };
+}
+
+/**
+ * The price a `price_change` or `product_listing` request proposes,
+ * checked against the catalogue. Null for other request types or when
+ * no price can be read.
+ */
+export function checkRequestPrice(
+  request: VendorActionRequest,
+  products: Product[],
+  threshold?: number
+): PriceBenchmarkCheck | null {
+  if (request.actionType !== 'price_change' && request.actionType !== 'product_listing') return null;
+
+  let proposed: Partial<Product>;
+  try {
+    proposed = JSON.parse(request.proposedValues ?? '{}');
+  } catch {
+    return null;
+  }
+  if (typeof proposed.sellingPrice !== 'number') return null;
+
+  const existing = products.find(p => p.id === request.entityId);
+  const categoryId = proposed.categoryId ?? existing?.categoryId;
+  if (!categoryId) return null;
+
+  return checkPriceAgainstBenchmark(
+    {
+      productId: existing?.id,
+      categoryId,
+      subcategoryId: proposed.subcategoryId ?? existing?.subcategoryId,
+      weightKg: proposed.weightKg ?? existing?.weightKg,
+      price: proposed.sellingPrice,
+    },
+    products,
+    threshold
+  );
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCartPrice, calculatePrice, type PricingInput } from './pricing-engine';
+import { addMoney, sumMoney } from './money';
+
+const vase: PricingInput = {
+  vendorBasePrice: 333.33, categoryId: 'home-decor-textiles',
+  isVendorVatRegistered: true, isNonLegalizedVendor: false,
+};
+const soap: PricingInput = {
+  vendorBasePrice: 47.77, categoryId: 'jewelry-accessories',
+  isVendorVatRegistered: false, isNonLegalizedVendor: true,
+};
+
+describe('calculatePrice', () => {
+  it('splits the final price into buckets A–D to the piastre', () => {
+    for (const input of [vase, soap, { ...vase, vendorBasePrice: 0.01 }, { ...soap, vendorBasePrice: 12345.67 }]) {
+      const result = calculatePrice(input);
+      expect(addMoney(
+        result.bucketA_vendorRevenue,
+        result.bucketB_vendorVat,
+        result.bucketC_aroobaRevenue,
+        result.bucketD_aroobaVat,
+      )).toEqual(result.finalPrice);
+    }
+  });
+});
+
+describe('calculateCartPrice', () => {
+  const cart = calculateCartPrice({
+    lines: [
+      { lineId: 'oi-001', pricing: vase, quantity: 3, pickupLocationId: 'loc-001' },
+      { lineId: 'oi-002', pricing: soap, quantity: 7, pickupLocationId: 'loc-003' },
+      { lineId: 'oi-003', pricing: soap, quantity: 1, pickupLocationId: 'loc-001' },
+    ],
+    shipmentDeliveryFees: { 'loc-001': 45, 'loc-003': 40.5 },
+  });
+
+  it('prices each line as unit price times quantity', () => {
+    for (const line of cart.lines) {
+      expect(line.totalPrice.piastres).toBe(line.unitPrice.piastres * line.quantity);
+    }
+  });
+
+  it('keeps bucket totals, shipment subtotals and the order subtotal equal', () => {
+    const { A, B, C, D, E } = cart.bucketTotals;
+    expect(addMoney(A, B, C, D)).toEqual(cart.subtotal);
+    expect(sumMoney(cart.shipments.map(s => s.subtotal))).toEqual(cart.subtotal);
+    expect(sumMoney(cart.lines.map(l => l.totalPrice))).toEqual(cart.subtotal);
+    expect(E).toEqual(cart.totalDeliveryFee);
+    expect(addMoney(cart.subtotal, cart.totalDeliveryFee)).toEqual(cart.totalAmount);
+  });
+
+  it('charges delivery once per pickup location', () => {
+    expect(cart.shipments.map(s => [s.pickupLocationId, s.deliveryFee.piastres])).toEqual([
+      ['loc-001', 4500],
+      ['loc-003', 4050],
+    ]);
+  });
+});
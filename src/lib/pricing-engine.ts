@@ -30,10 +30,33 @@
  * store. The hardcoded constants serve only as fallback defaults.
  * Admin can modify uplift rates, VAT, cooperative fees, and thresholds
  * without code changes.
+ *
+ * MONEY:
+ * All amounts are computed as whole piastres (see lib/money.ts) and only
+ * rounded when a rate is applied. The four buckets therefore always add
+ * up to the final price exactly.
+ * Results are returned as Money too; convert with toEgp only to display
+ * them, so nothing is re-rounded on the way out.
  * ============================================================
  */
 
-import { TAX, UPLIFT_RULES, UPLIFT_MATRIX, SHIPPING } from '../config/constants';
+import { TAX, UPLIFT_RULES, UPLIFT_MATRIX, SHIPPING, SHIPPING_SUBSIDY, PAYMENT_BUCKETS, MONEY, FRAUD_RULES } from '../config/constants';
+import {
+  type Money,
+  type RoundingMode,
+  ZERO_MONEY,
+  egp,
+  toEgp,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  maxMoney,
+  allocateMoney,
+} from './money';
+import { resolveRateCard, type RateCardSource } from './rate-cards';
+import { getZoneSubsidyRates } from './shipping-subsidy';
+import { nextPayoutDate, systemClock, type EscrowClock, type PayoutCalendar } from './escrow-scheduler';
+import type { RateCard, PickupLocation, CustomerAddress } from '../app/shared/types';
 
 // ──────────────────────────────────────────────
 // DYNAMIC CONFIG INTERFACE
@@ -47,25 +70,43 @@ import { TAX, UPLIFT_RULES, UPLIFT_MATRIX, SHIPPING } from '../config/constants'
 export interface DynamicPricingConfig {
   vatRate: number;
   mvpFlatRate: number;
+  fragileOverride?: number;                   // Uplift floor for fragile categories
   minimumFixedUplift: number;
   lowPriceThreshold: number;
   lowPriceFixedMarkup: number;
   cooperativeFee: number;
   logisticsSurcharge: number;
   categoryUplifts?: Record<string, { min: number; max: number; default: number; risk: string }>;
+  roundingMode?: RoundingMode;
+  maxSubsidyRate?: number;                    // Cap on the SmartCom buffer, share of the fee
+  zoneSubsidyRates?: Record<string, number>;  // Per destination zone, overrides maxSubsidyRate
 }
 
+/**
+ * Looks up the admin config in force at `asOf` (omitted = now), e.g. the
+ * admin store's getDynamicPricingConfig. Passing one instead of a fixed
+ * config lets the engine honour the `asOf` pricing option.
+ */
+export type PricingConfigResolver = (asOf?: string | Date) => DynamicPricingConfig;
+
+/** A fixed config, or a resolver that picks the version in force at `asOf`. */
+export type PricingConfigSource = DynamicPricingConfig | PricingConfigResolver;
+
 /** Returns the default config from hardcoded constants. */
 export function getDefaultPricingConfig(): DynamicPricingConfig {
   return {
     vatRate: TAX.vatRate,
     mvpFlatRate: UPLIFT_RULES.mvpFlatRate,
+    fragileOverride: UPLIFT_RULES.fragileOverride,
     minimumFixedUplift: UPLIFT_RULES.minimumFixedUplift,
     lowPriceThreshold: UPLIFT_RULES.lowPriceThreshold,
     lowPriceFixedMarkup: UPLIFT_RULES.lowPriceFixedMarkup,
     cooperativeFee: UPLIFT_RULES.cooperativeFee,
     logisticsSurcharge: UPLIFT_RULES.logisticsSurcharge,
     categoryUplifts: { ...UPLIFT_MATRIX },
+    roundingMode: MONEY.defaultRoundingMode,
+    maxSubsidyRate: SHIPPING_SUBSIDY.maxSubsidyRate,
+    zoneSubsidyRates: getZoneSubsidyRates(SHIPPING_SUBSIDY.zoneOverrides),
   };
 }
 
@@ -81,35 +122,151 @@ export interface PricingInput {
   parentUpliftType?: 'fixed' | 'percentage';
   parentUpliftValue?: number;
   customUpliftOverride?: number;
+  cooperativeFeeRate?: number;    // The vendor's cooperative (Cooperative.feePercentage); else uplift.cooperativeFee
+  subVendorId?: string;           // Sub-vendor product: bucket A is split with the parent vendor
 }
 
 export interface PricingResult {
   // What the customer sees
-  finalPrice: number;
+  finalPrice: Money;
 
   // Breakdown
-  vendorBasePrice: number;
-  cooperativeFee: number;
-  parentVendorUplift: number;
-  marketplaceUplift: number;
-  logisticsSurcharge: number;
+  vendorBasePrice: Money;
+  cooperativeFee: Money;
+  parentVendorUplift: Money;
+  marketplaceUplift: Money;
+  logisticsSurcharge: Money;
+
+  // Bucket A split: the sub-vendor (artisan) is owed their base price,
+  // the parent keeps their uplift. Parent-only products: all to the parent.
+  subVendorRevenue: Money;
+  parentVendorRevenue: Money;
 
   // VAT
-  vendorVat: number;
-  aroobaVat: number;
+  vendorVat: Money;
+  aroobaVat: Money;
 
   // The 5-Bucket Waterfall
-  bucketA_vendorRevenue: number;
-  bucketB_vendorVat: number;
-  bucketC_aroobaRevenue: number;
-  bucketD_aroobaVat: number;
+  bucketA_vendorRevenue: Money;
+  bucketB_vendorVat: Money;
+  bucketC_aroobaRevenue: Money;
+  bucketD_aroobaVat: Money;
 
   // Margins
-  aroobaGrossMargin: number;
+  aroobaGrossMargin: Money;
   aroobaMarginPercent: number;
 
+  // Bucket amounts again, keyed A–D (A + B + C + D === finalPrice, to the piastre)
+  buckets: WaterfallBuckets;
+
   // Config source indicator (for transparency in admin UI)
   configSource: 'dynamic' | 'default';
+
+  // Rules that had to correct the configured uplift (empty when none did)
+  warnings: PricingWarning[];
+
+  // Ordered rule trace — only present when requested via PricingOptions
+  trace?: PricingTraceStep[];
+}
+
+export interface PricingOptions {
+  /** Record which rule fired at each step (for payout disputes). */
+  trace?: boolean;
+  /**
+   * What to do with a `customUpliftOverride` outside the category's
+   * [min, max] band: 'clamp' it to the band with a warning (default), or
+   * 'reject' it with a PricingValidationError.
+   */
+  upliftOverridePolicy?: 'clamp' | 'reject';
+  /**
+   * Price under the config in force at this moment (default now). Needs a
+   * PricingConfigResolver; a fixed config is already as of its own date.
+   */
+  asOf?: string | Date;
+}
+
+export type PricingRule =
+  | 'vendor_base_price'
+  | 'cooperative_fee'
+  | 'parent_vendor_uplift'
+  | 'custom_uplift_override'
+  | 'category_uplift'
+  | 'mvp_flat_uplift'
+  | 'fragile_override'
+  | 'minimum_fixed_uplift'
+  | 'low_price_fixed_markup'
+  | 'logistics_surcharge'
+  | 'bucket_a_vendor_revenue'
+  | 'bucket_b_vendor_vat'
+  | 'bucket_c_arooba_revenue'
+  | 'bucket_d_arooba_vat'
+  | 'final_price';
+
+/**
+ * One step of the pricing trace. `applied` is false when a rule was
+ * evaluated but did not change the price (e.g. the minimum uplift floor
+ * when the percentage uplift was already higher).
+ */
+export interface PricingTraceStep {
+  step: number;
+  rule: PricingRule;
+  applied: boolean;
+  inputs: Record<string, number | string | boolean>;
+  configKey?: string;             // Admin config key the value was read from
+  amount: Money;                  // Amount after this step
+}
+
+export type CategoryUpliftBand = NonNullable<DynamicPricingConfig['categoryUplifts']>[string];
+
+export type PricingWarningCode =
+  | 'uplift_override_clamped'       // Custom override outside the category band
+  | 'category_default_out_of_band'  // Admin default outside its own band
+  | 'invalid_uplift_band'           // min > max — band ignored
+  | 'fragile_override_capped';      // Fragile floor above the category max
+
+/** A correction the engine made instead of pricing with the raw value. */
+export interface PricingWarning {
+  code: PricingWarningCode;
+  message: string;
+  messageAr: string;
+  configKey?: string;
+}
+
+/**
+ * Thrown when pricing input is refused outright rather than corrected —
+ * an out-of-band override under the 'reject' policy, or an invalid
+ * category band (see assertValidUpliftBand).
+ */
+export class PricingValidationError extends Error {
+  readonly code:
+    | 'uplift_override_out_of_band'
+    | 'invalid_uplift_band'
+    | 'vendor_not_found'          // See lib/pricing-inputs.ts
+    | 'sub_vendor_mismatch'
+    | 'cooperative_not_found';
+  readonly messageAr: string;
+  readonly details: Record<string, number | string>;
+
+  constructor(
+    code: PricingValidationError['code'],
+    message: string,
+    messageAr: string,
+    details: Record<string, number | string> = {}
+  ) {
+    super(message);
+    this.name = 'PricingValidationError';
+    this.code = code;
+    this.messageAr = messageAr;
+    this.details = details;
+  }
+}
+
+/** Bucket amounts held as Money — safe to add, split and compare exactly. */
+export interface WaterfallBuckets {
+  A: Money;
+  B: Money;
+  C: Money;
+  D: Money;
 }
 
 export interface ShippingFeeInput {
@@ -119,19 +276,25 @@ export interface ShippingFeeInput {
   dimensionH: number;
   fromZoneId: string;
   toZoneId: string;
-  baseRate: number;
-  perKgRate: number;
+  // Omit both to look the rate up from the zone pair (see rate-cards.ts)
+  baseRate?: number;
+  perKgRate?: number;
+  rateCards?: RateCard[];
 }
 
 export interface ShippingFeeResult {
   actualWeight: number;
   volumetricWeight: number;
   chargeableWeight: number;
-  baseFee: number;
-  excessWeightFee: number;
-  totalFee: number;
-  subsidizedCustomerFee: number;
-  aroobaSubsidy: number;
+  baseFee: Money;
+  excessWeightFee: Money;
+  totalFee: Money;
+  subsidizedCustomerFee: Money;
+  aroobaSubsidy: Money;
+
+  // Which rate card priced it (absent when rates were passed in)
+  rateCardId?: string;
+  rateSource?: RateCardSource;
 }
 
 // ──────────────────────────────────────────────
@@ -159,83 +322,605 @@ export interface ShippingFeeResult {
  * // Using dynamic admin config
  * const config = adminStore.getState().getDynamicPricingConfig();
  * const result = calculatePrice(input, config);
+ *
+ * @example
+ * // Explaining a disputed payout
+ * const { trace } = calculatePrice(input, config, { trace: true });
+ *
+ * @example
+ * // What the order would have cost when it was placed
+ * const historical = calculatePrice(input, getDynamicPricingConfig, { asOf: order.createdAt });
  */
-export function calculatePrice(input: PricingInput, dynamicConfig?: DynamicPricingConfig): PricingResult {
+export function calculatePrice(
+  input: PricingInput,
+  dynamicConfig?: PricingConfigSource,
+  options: PricingOptions = {}
+): PricingResult {
   const { vendorBasePrice, categoryId, isVendorVatRegistered, isNonLegalizedVendor } = input;
 
-  // Resolve config: dynamic admin values or hardcoded fallback
-  const config = dynamicConfig ?? getDefaultPricingConfig();
-  const configSource: PricingResult['configSource'] = dynamicConfig ? 'dynamic' : 'default';
+  // Resolve config: the caller's admin values (current or as of a date), else hardcoded fallback
+  const { config, configSource } = resolvePricingConfigFor(dynamicConfig, options.asOf);
+
+  const rounding = config.roundingMode ?? MONEY.defaultRoundingMode;
+  const basePrice = egp(vendorBasePrice, rounding);
+
+  const trace: PricingTraceStep[] = [];
+  const record = (step: Omit<PricingTraceStep, 'step' | 'amount'>, amount: Money) => {
+    if (options.trace) trace.push({ step: trace.length + 1, ...step, amount });
+  };
+
+  record({ rule: 'vendor_base_price', applied: true, inputs: { vendorBasePrice } }, basePrice);
 
-  // Step 1: Calculate Cooperative Fee (only for non-legalized vendors)
+  // Step 1: Calculate Cooperative Fee (only for non-legalized vendors),
+  // at the vendor's own cooperative rate when known
+  const cooperativeFeeRate = input.cooperativeFeeRate ?? config.cooperativeFee;
   const cooperativeFee = isNonLegalizedVendor
-    ? vendorBasePrice * config.cooperativeFee
-    : 0;
+    ? multiplyMoney(basePrice, cooperativeFeeRate, rounding)
+    : ZERO_MONEY;
+  record({
+    rule: 'cooperative_fee',
+    applied: isNonLegalizedVendor,
+    inputs: { isNonLegalizedVendor, rate: cooperativeFeeRate },
+    ...(input.cooperativeFeeRate === undefined ? { configKey: 'uplift.cooperativeFee' } : {}),
+  }, cooperativeFee);
 
-  const priceAfterCoop = vendorBasePrice + cooperativeFee;
+  const priceAfterCoop = addMoney(basePrice, cooperativeFee);
 
   // Step 2: Calculate Parent Vendor Uplift (if sub-vendor product)
-  let parentVendorUplift = 0;
+  let parentVendorUplift = ZERO_MONEY;
   if (input.parentUpliftType && input.parentUpliftValue) {
     parentVendorUplift = input.parentUpliftType === 'fixed'
-      ? input.parentUpliftValue
-      : priceAfterCoop * input.parentUpliftValue;
+      ? egp(input.parentUpliftValue, rounding)
+      : multiplyMoney(priceAfterCoop, input.parentUpliftValue, rounding);
+    record({
+      rule: 'parent_vendor_uplift',
+      applied: true,
+      inputs: { type: input.parentUpliftType, value: input.parentUpliftValue },
+    }, parentVendorUplift);
   }
 
-  // Step 3: Calculate Marketplace Uplift
-  const categoryConfig = config.categoryUplifts?.[categoryId] ??
-    (UPLIFT_MATRIX as Record<string, { min: number; max: number; default: number; risk: string }>)[categoryId];
-  const upliftRate = input.customUpliftOverride ?? categoryConfig?.default ?? config.mvpFlatRate;
+  // Step 3: Calculate Marketplace Uplift (rate clamped to the category band)
+  const uplift = resolveUpliftRate(input, config, options.upliftOverridePolicy);
+  const { categoryConfig, requestedRate } = uplift;
+  const bandInputs: PricingTraceStep['inputs'] = uplift.clamped && categoryConfig
+    ? { requestedRate, bandMin: categoryConfig.min, bandMax: categoryConfig.max }
+    : {};
 
-  let marketplaceUplift = priceAfterCoop * upliftRate;
+  let marketplaceUplift = multiplyMoney(priceAfterCoop, uplift.bandRate, rounding);
+  if (input.customUpliftOverride !== undefined) {
+    record({ rule: 'custom_uplift_override', applied: true, inputs: { rate: uplift.bandRate, ...bandInputs } }, marketplaceUplift);
+  } else if (categoryConfig) {
+    record({
+      rule: 'category_uplift',
+      applied: true,
+      inputs: { categoryId, rate: uplift.bandRate, ...bandInputs },
+      configKey: `uplift.category.${categoryId}`,
+    }, marketplaceUplift);
+  } else {
+    record({
+      rule: 'mvp_flat_uplift',
+      applied: true,
+      inputs: { categoryId, rate: uplift.bandRate },
+      configKey: 'uplift.mvpFlatRate',
+    }, marketplaceUplift);
+  }
 
-  // Step 3b: Apply Minimum Uplift Rule
-  if (marketplaceUplift < config.minimumFixedUplift) {
-    marketplaceUplift = config.minimumFixedUplift;
+  // Step 3a: Fragile categories never go below the fragile floor
+  if (uplift.isFragile) {
+    if (uplift.fragileApplied) marketplaceUplift = multiplyMoney(priceAfterCoop, uplift.rate, rounding);
+    record({
+      rule: 'fragile_override',
+      applied: uplift.fragileApplied,
+      inputs: { categoryId, floor: uplift.fragileFloor, rate: uplift.rate },
+      configKey: 'uplift.fragileOverride',
+    }, marketplaceUplift);
   }
 
+  // Step 3b: Apply Minimum Uplift Rule
+  const minimumUplift = egp(config.minimumFixedUplift, rounding);
+  const minimumApplied = minimumUplift.piastres > marketplaceUplift.piastres;
+  marketplaceUplift = maxMoney(marketplaceUplift, minimumUplift);
+  record({
+    rule: 'minimum_fixed_uplift',
+    applied: minimumApplied,
+    inputs: { floor: config.minimumFixedUplift },
+    configKey: 'uplift.minimumFixedUplift',
+  }, marketplaceUplift);
+
   // Step 3c: For items under the low-price threshold, use fixed markup
-  if (vendorBasePrice < config.lowPriceThreshold) {
-    marketplaceUplift = Math.max(marketplaceUplift, config.lowPriceFixedMarkup);
+  const isLowPrice = vendorBasePrice < config.lowPriceThreshold;
+  const lowPriceMarkup = egp(config.lowPriceFixedMarkup, rounding);
+  const lowPriceApplied = isLowPrice && lowPriceMarkup.piastres > marketplaceUplift.piastres;
+  if (isLowPrice) {
+    marketplaceUplift = maxMoney(marketplaceUplift, lowPriceMarkup);
   }
+  record({
+    rule: 'low_price_fixed_markup',
+    applied: lowPriceApplied,
+    inputs: { vendorBasePrice, threshold: config.lowPriceThreshold, markup: config.lowPriceFixedMarkup },
+    configKey: 'uplift.lowPriceFixedMarkup',
+  }, marketplaceUplift);
 
   // Step 4: Add Logistics Surcharge (SmartCom Buffer)
-  const logisticsSurcharge = config.logisticsSurcharge;
+  const logisticsSurcharge = egp(config.logisticsSurcharge, rounding);
+  record({
+    rule: 'logistics_surcharge',
+    applied: true,
+    inputs: { surcharge: config.logisticsSurcharge },
+    configKey: 'uplift.logisticsSurcharge',
+  }, logisticsSurcharge);
 
   // Step 5: Calculate Bucket A — Vendor Revenue
-  const bucketA = vendorBasePrice + parentVendorUplift;
+  const bucketA = addMoney(basePrice, parentVendorUplift);
+  const subVendorRevenue = input.subVendorId ? basePrice : ZERO_MONEY;
+  const parentVendorRevenue = subtractMoney(bucketA, subVendorRevenue);
+  record({
+    rule: 'bucket_a_vendor_revenue',
+    applied: true,
+    inputs: {
+      vendorBasePrice: toEgp(basePrice),
+      parentVendorUplift: toEgp(parentVendorUplift),
+      ...(input.subVendorId ? { subVendorId: input.subVendorId, subVendorRevenue: toEgp(subVendorRevenue), parentVendorRevenue: toEgp(parentVendorRevenue) } : {}),
+    },
+  }, bucketA);
 
   // Step 6: Calculate Bucket B — Vendor VAT
-  const bucketB = isVendorVatRegistered ? bucketA * config.vatRate : 0;
+  const bucketB = isVendorVatRegistered ? multiplyMoney(bucketA, config.vatRate, rounding) : ZERO_MONEY;
+  record({
+    rule: 'bucket_b_vendor_vat',
+    applied: isVendorVatRegistered,
+    inputs: { isVendorVatRegistered, vatRate: config.vatRate },
+    configKey: 'tax.vatRate',
+  }, bucketB);
 
   // Step 7: Calculate Bucket C — Arooba Revenue
-  const bucketC = cooperativeFee + marketplaceUplift + logisticsSurcharge;
+  const bucketC = addMoney(cooperativeFee, marketplaceUplift, logisticsSurcharge);
+  record({
+    rule: 'bucket_c_arooba_revenue',
+    applied: true,
+    inputs: {
+      cooperativeFee: toEgp(cooperativeFee),
+      marketplaceUplift: toEgp(marketplaceUplift),
+      logisticsSurcharge: toEgp(logisticsSurcharge),
+    },
+  }, bucketC);
 
   // Step 8: Calculate Bucket D — Arooba VAT (always applies)
-  const bucketD = bucketC * config.vatRate;
+  const bucketD = multiplyMoney(bucketC, config.vatRate, rounding);
+  record({ rule: 'bucket_d_arooba_vat', applied: true, inputs: { vatRate: config.vatRate }, configKey: 'tax.vatRate' }, bucketD);
 
   // Step 9: Final Price (excluding delivery — that's Bucket E)
-  const finalPrice = bucketA + bucketB + bucketC + bucketD;
+  // Summed from the rounded buckets, so the split can never drift.
+  const finalPrice = addMoney(bucketA, bucketB, bucketC, bucketD);
+  record({ rule: 'final_price', applied: true, inputs: {} }, finalPrice);
 
   // Step 10: Calculate margins
   const aroobaGrossMargin = bucketC; // Before VAT, before costs
-  const aroobaMarginPercent = (aroobaGrossMargin / finalPrice) * 100;
+  const aroobaMarginPercent = finalPrice.piastres > 0
+    ? (aroobaGrossMargin.piastres / finalPrice.piastres) * 100
+    : 0;
 
   return {
-    finalPrice: roundPrice(finalPrice),
-    vendorBasePrice,
-    cooperativeFee: roundPrice(cooperativeFee),
-    parentVendorUplift: roundPrice(parentVendorUplift),
-    marketplaceUplift: roundPrice(marketplaceUplift),
+    finalPrice,
+    vendorBasePrice: basePrice,
+    cooperativeFee,
+    parentVendorUplift,
+    marketplaceUplift,
     logisticsSurcharge,
-    vendorVat: roundPrice(bucketB),
-    aroobaVat: roundPrice(bucketD),
-    bucketA_vendorRevenue: roundPrice(bucketA),
-    bucketB_vendorVat: roundPrice(bucketB),
-    bucketC_aroobaRevenue: roundPrice(bucketC),
-    bucketD_aroobaVat: roundPrice(bucketD),
-    aroobaGrossMargin: roundPrice(aroobaGrossMargin),
+    subVendorRevenue,
+    parentVendorRevenue,
+    vendorVat: bucketB,
+    aroobaVat: bucketD,
+    bucketA_vendorRevenue: bucketA,
+    bucketB_vendorVat: bucketB,
+    bucketC_aroobaRevenue: bucketC,
+    bucketD_aroobaVat: bucketD,
+    aroobaGrossMargin,
     aroobaMarginPercent: roundPrice(aroobaMarginPercent),
+    buckets: { A: bucketA, B: bucketB, C: bucketC, D: bucketD },
+    configSource,
+    warnings: uplift.warnings,
+    ...(options.trace ? { trace } : {}),
+  };
+}
+
+// ──────────────────────────────────────────────
+// UPLIFT BANDS
+// ──────────────────────────────────────────────
+
+/**
+ * The uplift rate the engine actually charges, shared by forward and
+ * reverse pricing so both read the same rules.
+ *
+ * BUSINESS LOGIC:
+ * Every category has an approved [min, max] band in UPLIFT_MATRIX (or its
+ * admin override). A manual override or admin default outside that band
+ * is pulled back to the nearest edge and reported as a warning — or, for
+ * overrides under the 'reject' policy, refused. Fragile categories then
+ * get at least the fragile floor (breakage and packaging cost), capped at
+ * the band max. Categories without a band use the MVP flat rate as-is.
+ */
+interface UpliftRateResolution {
+  categoryConfig?: CategoryUpliftBand;
+  requestedRate: number;          // Override, category default or flat rate
+  bandRate: number;               // After clamping to [min, max]
+  rate: number;                   // After the fragile floor — what is charged
+  clamped: boolean;
+  isFragile: boolean;
+  fragileFloor: number;
+  fragileApplied: boolean;
+  warnings: PricingWarning[];
+}
+
+function resolveUpliftRate(
+  input: Pick<PricingInput, 'categoryId' | 'customUpliftOverride'>,
+  config: DynamicPricingConfig,
+  policy: PricingOptions['upliftOverridePolicy'] = 'clamp'
+): UpliftRateResolution {
+  const { categoryId, customUpliftOverride } = input;
+  const categoryConfig: CategoryUpliftBand | undefined = config.categoryUplifts?.[categoryId] ??
+    (UPLIFT_MATRIX as Record<string, CategoryUpliftBand>)[categoryId];
+  const configKey = `uplift.category.${categoryId}`;
+  const warnings: PricingWarning[] = [];
+  const pct = (rate: number) => `${roundPrice(rate * 100)}%`;
+
+  const requestedRate = customUpliftOverride ?? categoryConfig?.default ?? config.mvpFlatRate;
+  let bandRate = requestedRate;
+
+  const hasBand = categoryConfig !== undefined && categoryConfig.min <= categoryConfig.max;
+  if (categoryConfig && !hasBand) {
+    warnings.push({
+      code: 'invalid_uplift_band',
+      message: `Uplift band for "${categoryId}" has min ${pct(categoryConfig.min)} above max ${pct(categoryConfig.max)} — band ignored`,
+      messageAr: `نطاق هامش الفئة "${categoryId}" غير صالح (الحد الأدنى ${pct(categoryConfig.min)} أعلى من الأقصى ${pct(categoryConfig.max)}) — تم تجاهل النطاق`,
+      configKey,
+    });
+  }
+
+  if (categoryConfig && hasBand) {
+    bandRate = Math.min(Math.max(requestedRate, categoryConfig.min), categoryConfig.max);
+    const band = `${pct(categoryConfig.min)}–${pct(categoryConfig.max)}`;
+    if (bandRate !== requestedRate && customUpliftOverride !== undefined) {
+      if (policy === 'reject') {
+        throw new PricingValidationError(
+          'uplift_override_out_of_band',
+          `Uplift override ${pct(customUpliftOverride)} is outside the ${band} band for "${categoryId}"`,
+          `الهامش المخصص ${pct(customUpliftOverride)} خارج نطاق الفئة "${categoryId}" (${band})`,
+          { categoryId, override: customUpliftOverride, min: categoryConfig.min, max: categoryConfig.max }
+        );
+      }
+      warnings.push({
+        code: 'uplift_override_clamped',
+        message: `Uplift override ${pct(requestedRate)} is outside the ${band} band for "${categoryId}" — ${pct(bandRate)} used`,
+        messageAr: `الهامش المخصص ${pct(requestedRate)} خارج نطاق الفئة "${categoryId}" (${band}) — تم استخدام ${pct(bandRate)}`,
+        configKey,
+      });
+    } else if (bandRate !== requestedRate) {
+      warnings.push({
+        code: 'category_default_out_of_band',
+        message: `Default uplift ${pct(requestedRate)} for "${categoryId}" is outside its ${band} band — ${pct(bandRate)} used`,
+        messageAr: `الهامش الافتراضي ${pct(requestedRate)} للفئة "${categoryId}" خارج نطاقها (${band}) — تم استخدام ${pct(bandRate)}`,
+        configKey,
+      });
+    }
+  }
+
+  const isFragile = (UPLIFT_RULES.fragileCategoryIds as readonly string[]).includes(categoryId);
+  let fragileFloor = config.fragileOverride ?? UPLIFT_RULES.fragileOverride;
+  if (isFragile && categoryConfig && hasBand && fragileFloor > categoryConfig.max) {
+    warnings.push({
+      code: 'fragile_override_capped',
+      message: `Fragile override ${pct(fragileFloor)} is above the ${pct(categoryConfig.max)} maximum for "${categoryId}" — capped`,
+      messageAr: `هامش المنتجات الهشة ${pct(fragileFloor)} أعلى من الحد الأقصى ${pct(categoryConfig.max)} للفئة "${categoryId}" — تم تقليله`,
+      configKey: 'uplift.fragileOverride',
+    });
+    fragileFloor = categoryConfig.max;
+  }
+  const fragileApplied = isFragile && bandRate < fragileFloor;
+
+  return {
+    categoryConfig,
+    requestedRate,
+    bandRate,
+    rate: fragileApplied ? fragileFloor : bandRate,
+    clamped: bandRate !== requestedRate,
+    isFragile,
+    fragileFloor,
+    fragileApplied,
+    warnings,
+  };
+}
+
+/**
+ * Throws PricingValidationError unless `band` is a usable category uplift
+ * band: numeric rates in [0, 1] with min ≤ default ≤ max. Used to refuse
+ * bad `uplift.category.*` edits before they are saved.
+ */
+export function assertValidUpliftBand(band: unknown, categoryId: string): asserts band is CategoryUpliftBand {
+  const fail = (message: string, messageAr: string): never => {
+    throw new PricingValidationError('invalid_uplift_band', message, messageAr, { categoryId });
+  };
+  const candidate = (band ?? {}) as Partial<Record<'min' | 'max' | 'default', unknown>>;
+  const rates = [candidate.min, candidate.max, candidate.default];
+  if (!rates.every(rate => typeof rate === 'number' && Number.isFinite(rate) && rate >= 0 && rate <= 1)) {
+    fail('min, max and default must be rates between 0 and 1', 'يجب أن تكون قيم min و max و default نسباً بين 0 و 1');
+  }
+  const { min, max, default: defaultRate } = candidate as CategoryUpliftBand;
+  if (min > max) {
+    fail(`min (${min}) is above max (${max})`, `الحد الأدنى (${min}) أعلى من الحد الأقصى (${max})`);
+  }
+  if (defaultRate < min || defaultRate > max) {
+    fail(
+      `default (${defaultRate}) must be within [${min}, ${max}]`,
+      `القيمة الافتراضية (${defaultRate}) يجب أن تكون بين ${min} و ${max}`
+    );
+  }
+}
+
+// ──────────────────────────────────────────────
+// REVERSE PRICING (Target shelf price)
+// ──────────────────────────────────────────────
+
+export interface ReversePricingInput extends Omit<PricingInput, 'vendorBasePrice'> {
+  targetFinalPrice: number;
+  /** Snap the target up to the next friendly price point first (see roundToFriendlyPrice). */
+  useFriendlyPrice?: boolean;
+}
+
+export interface ReversePricingResult {
+  targetFinalPrice: number;       // After friendly rounding, if requested
+  vendorBasePrice: number;        // What the vendor should enter
+  achievedFinalPrice: Money;      // What the customer will actually see
+  difference: Money;              // achieved − target (zero when exact)
+  status: 'exact' | 'nearest' | 'unreachable';
+  pricing: PricingResult | null;  // Forward breakdown for the solved base price
+}
+
+/**
+ * Answers the vendor question "what base price do I enter so the
+ * customer sees X EGP?" — the inverse of `calculatePrice`.
+ *
+ * BUSINESS LOGIC:
+ * The forward price is piecewise linear in the base price. The uplift is
+ * either the category percentage, the minimum fixed uplift, or (under the
+ * low-price threshold) the fixed markup — and the threshold itself makes
+ * the function jump. We solve each piece analytically, then check the
+ * neighbouring piastres with the forward engine so the answer matches
+ * `calculatePrice` to the piastre.
+ *
+ * Because piastres are rounded on the way forward, some targets cannot be
+ * hit exactly; the closest reachable price is returned as 'nearest'. When
+ * several base prices produce the target, the highest one (best for the
+ * vendor) wins. Targets below the cheapest possible product are
+ * 'unreachable'.
+ *
+ * @example
+ * const { vendorBasePrice } = calculateBasePriceForTarget({
+ *   targetFinalPrice: 250,
+ *   categoryId: 'home-decor-textiles',
+ *   isVendorVatRegistered: false,
+ *   isNonLegalizedVendor: true,
+ * });
+ */
+export function calculateBasePriceForTarget(
+  input: ReversePricingInput,
+  dynamicConfig?: PricingConfigSource,
+  options: Pick<PricingOptions, 'upliftOverridePolicy' | 'asOf'> = {}
+): ReversePricingResult {
+  const { targetFinalPrice: rawTarget, useFriendlyPrice, ...pricingFields } = input;
+  // Resolved once, so every candidate below is priced under the same version
+  const { config } = resolvePricingConfigFor(dynamicConfig, options.asOf);
+  const resolved = dynamicConfig ? config : undefined;
+  const targetFinalPrice = useFriendlyPrice ? roundToFriendlyPrice(rawTarget) : rawTarget;
+  const target = egp(targetFinalPrice, config.roundingMode ?? MONEY.defaultRoundingMode);
+
+  const priceFor = (basePiastres: number) =>
+    calculatePrice({ ...pricingFields, vendorBasePrice: basePiastres / MONEY.piastresPerPound }, resolved, { upliftOverridePolicy: options.upliftOverridePolicy });
+
+  // Linear coefficients: finalPrice = slope * base + intercept, per uplift regime
+  const coopFactor = 1 + (pricingFields.isNonLegalizedVendor ? pricingFields.cooperativeFeeRate ?? config.cooperativeFee : 0);
+  const vendorVatFactor = 1 + (pricingFields.isVendorVatRegistered ? config.vatRate : 0);
+  const aroobaVatFactor = 1 + config.vatRate;
+
+  const hasParentUplift = Boolean(pricingFields.parentUpliftType && pricingFields.parentUpliftValue);
+  const parentFixed = hasParentUplift && pricingFields.parentUpliftType === 'fixed' ? pricingFields.parentUpliftValue! : 0;
+  const parentRate = hasParentUplift && pricingFields.parentUpliftType === 'percentage' ? pricingFields.parentUpliftValue! : 0;
+
+  const upliftRate = resolveUpliftRate(pricingFields, config, options.upliftOverridePolicy).rate;
+
+  const vendorSlope = vendorVatFactor * (1 + parentRate * coopFactor);
+  const vendorIntercept = vendorVatFactor * parentFixed;
+  const solveFor = (aroobaSlope: number, fixedUplift: number) =>
+    (toEgp(target) - vendorIntercept - aroobaVatFactor * (fixedUplift + config.logisticsSurcharge)) /
+    (vendorSlope + aroobaVatFactor * aroobaSlope);
+
+  const estimates = [
+    // Percentage uplift regime
+    solveFor(coopFactor - 1 + upliftRate * coopFactor, 0),
+    // Minimum fixed uplift regime
+    solveFor(coopFactor - 1, config.minimumFixedUplift),
+    // Low-price fixed markup regime
+    solveFor(coopFactor - 1, Math.max(config.minimumFixedUplift, config.lowPriceFixedMarkup)),
+    // Either side of the low-price threshold jump
+    config.lowPriceThreshold,
+  ];
+
+  // Check a few piastres around each estimate with the forward engine
+  const candidates = new Set<number>();
+  for (const estimate of estimates) {
+    if (!Number.isFinite(estimate)) continue;
+    const centre = Math.round(estimate * MONEY.piastresPerPound);
+    for (let offset = -5; offset <= 5; offset++) {
+      if (centre + offset > 0) candidates.add(centre + offset);
+    }
+  }
+
+  let best: { basePiastres: number; pricing: PricingResult; gap: number } | null = null;
+  for (const basePiastres of candidates) {
+    const pricing = priceFor(basePiastres);
+    const gap = pricing.finalPrice.piastres - target.piastres;
+    const isBetter = !best
+      || Math.abs(gap) < Math.abs(best.gap)
+      || (Math.abs(gap) === Math.abs(best.gap) && (gap < best.gap || (gap === best.gap && basePiastres > best.basePiastres)));
+    if (isBetter) best = { basePiastres, pricing, gap };
+  }
+
+  // Even a 1-piastre product costs more than the target
+  const cheapest = priceFor(1);
+  if (!best || cheapest.finalPrice.piastres > target.piastres) {
+    return {
+      targetFinalPrice,
+      vendorBasePrice: 0,
+      achievedFinalPrice: cheapest.finalPrice,
+      difference: subtractMoney(cheapest.finalPrice, target),
+      status: 'unreachable',
+      pricing: null,
+    };
+  }
+
+  return {
+    targetFinalPrice,
+    vendorBasePrice: best.basePiastres / MONEY.piastresPerPound,
+    achievedFinalPrice: best.pricing.finalPrice,
+    difference: subtractMoney(best.pricing.finalPrice, target),
+    status: best.gap === 0 ? 'exact' : 'nearest',
+    pricing: best.pricing,
+  };
+}
+
+// ──────────────────────────────────────────────
+// CART PRICING (Multi-item orders)
+// ──────────────────────────────────────────────
+
+/** One cart line: a product priced through the engine, times a quantity. */
+export interface CartLineInput {
+  lineId: string;
+  pricing: PricingInput;
+  quantity: number;
+  pickupLocationId: string;
+  productId?: string;             // Used to scope promotions
+  vendorId?: string;
+}
+
+export interface CartPricingInput {
+  lines: CartLineInput[];
+  /** Bucket E per shipment, keyed by pickupLocationId. Missing keys = 0. */
+  shipmentDeliveryFees?: Record<string, number>;
+}
+
+/** Totals per waterfall bucket, keyed like PAYMENT_BUCKETS (A–E). */
+export type BucketTotals = Record<keyof typeof PAYMENT_BUCKETS, Money>;
+
+export interface CartLineResult {
+  lineId: string;
+  pickupLocationId: string;
+  quantity: number;
+  unit: PricingResult;
+  unitPrice: Money;         // The unit's final price (sum of its buckets)
+  totalPrice: Money;        // unitPrice x quantity
+  buckets: BucketTotals;    // Line totals; E is allocated per shipment
+}
+
+export interface CartShipmentResult {
+  pickupLocationId: string;
+  lineIds: string[];
+  subtotal: Money;
+  deliveryFee: Money;
+  total: Money;
+}
+
+export interface CartPricingResult {
+  lines: CartLineResult[];
+  shipments: CartShipmentResult[];
+  bucketTotals: BucketTotals;
+  subtotal: Money;
+  totalDeliveryFee: Money;
+  totalAmount: Money;
+  configSource: PricingResult['configSource'];
+}
+
+/**
+ * Prices a whole cart: every line through `calculatePrice`, then rolls
+ * the lines up into shipments (one per pickup location) and order totals.
+ *
+ * ROUNDING RULE:
+ * Each unit bucket is rounded once by `calculatePrice`, then multiplied by
+ * the quantity in whole piastres. Line totals, shipment subtotals and the
+ * order subtotal are all sums of those same bucket amounts, so
+ * A + B + C + D always equals the subtotal exactly.
+ *
+ * @example
+ * const cart = calculateCartPrice({
+ *   lines: [
+ *     { lineId: 'oi-001', pricing: vaseInput, quantity: 2, pickupLocationId: 'loc-001' },
+ *     { lineId: 'oi-002', pricing: soapInput, quantity: 3, pickupLocationId: 'loc-003' },
+ *   ],
+ *   shipmentDeliveryFees: { 'loc-001': 45, 'loc-003': 40 },
+ * });
+ */
+export function calculateCartPrice(
+  input: CartPricingInput,
+  dynamicConfig?: PricingConfigSource,
+  options: Pick<PricingOptions, 'asOf'> = {}
+): CartPricingResult {
+  const deliveryFees = input.shipmentDeliveryFees ?? {};
+  const { config, configSource } = resolvePricingConfigFor(dynamicConfig, options.asOf);
+  const rounding = config.roundingMode ?? MONEY.defaultRoundingMode;
+  let totals = emptyBucketTotals();
+  const shipmentMap = new Map<string, { lineIds: string[]; subtotal: Money }>();
+
+  const lines: CartLineResult[] = input.lines.map((line) => {
+    const quantity = Math.max(0, Math.floor(line.quantity));
+    const unit = calculatePrice(line.pricing, dynamicConfig ? config : undefined);
+
+    const buckets: BucketTotals = {
+      A: multiplyMoney(unit.buckets.A, quantity),
+      B: multiplyMoney(unit.buckets.B, quantity),
+      C: multiplyMoney(unit.buckets.C, quantity),
+      D: multiplyMoney(unit.buckets.D, quantity),
+      E: ZERO_MONEY,
+    };
+    const totalPrice = addMoney(buckets.A, buckets.B, buckets.C, buckets.D);
+    totals = addBucketTotals(totals, buckets);
+
+    const shipment = shipmentMap.get(line.pickupLocationId) ?? { lineIds: [], subtotal: ZERO_MONEY };
+    shipment.lineIds.push(line.lineId);
+    shipment.subtotal = addMoney(shipment.subtotal, totalPrice);
+    shipmentMap.set(line.pickupLocationId, shipment);
+
+    return {
+      lineId: line.lineId,
+      pickupLocationId: line.pickupLocationId,
+      quantity,
+      unit,
+      unitPrice: unit.finalPrice,
+      totalPrice,
+      buckets,
+    };
+  });
+
+  // One shipment per pickup location — each carries its own delivery fee (Bucket E)
+  const shipments: CartShipmentResult[] = [...shipmentMap.entries()].map(([pickupLocationId, s]) => {
+    const deliveryFee = egp(deliveryFees[pickupLocationId] ?? 0, rounding);
+    totals = { ...totals, E: addMoney(totals.E, deliveryFee) };
+    return {
+      pickupLocationId,
+      lineIds: s.lineIds,
+      subtotal: s.subtotal,
+      deliveryFee,
+      total: addMoney(s.subtotal, deliveryFee),
+    };
+  });
+
+  const subtotal = addMoney(totals.A, totals.B, totals.C, totals.D);
+
+  return {
+    lines,
+    shipments,
+    bucketTotals: totals,
+    subtotal,
+    totalDeliveryFee: totals.E,
+    totalAmount: addMoney(subtotal, totals.E),
     configSource,
   };
 }
@@ -252,38 +937,177 @@ export function calculatePrice(input: PricingInput, dynamicConfig?: DynamicPrici
  * 2. Chargeable weight = MAX(actual, volumetric)
  * 3. Fee = Base Rate + (excess weight x per-kg rate)
  * 4. Apply SmartCom Buffer to lower customer-facing fee
+ *
+ * When `baseRate`/`perKgRate` are omitted, the rate card for
+ * fromZoneId → toZoneId is used.
  */
 export function calculateShippingFee(input: ShippingFeeInput, dynamicConfig?: DynamicPricingConfig): ShippingFeeResult {
-  const { actualWeightKg, dimensionL, dimensionW, dimensionH, baseRate, perKgRate } = input;
+  const { actualWeightKg, dimensionL, dimensionW, dimensionH } = input;
   const config = dynamicConfig ?? getDefaultPricingConfig();
 
+  const lookup = input.baseRate === undefined || input.perKgRate === undefined
+    ? resolveRateCard(input.fromZoneId, input.toZoneId, input.rateCards)
+    : undefined;
+  const baseRate = input.baseRate ?? lookup!.rateCard.basePrice;
+  const perKgRate = input.perKgRate ?? lookup!.rateCard.pricePerKg;
+
   // Volumetric weight = (L x W x H) / 5000
   const volumetricWeight = (dimensionL * dimensionW * dimensionH) / SHIPPING.volumetricDivisor;
 
   // Chargeable = whichever is higher
   const chargeableWeight = Math.max(actualWeightKg, volumetricWeight);
 
+  const rounding = config.roundingMode ?? MONEY.defaultRoundingMode;
+
   // Base fee + excess weight charge (first 1kg included in base)
+  const baseFee = egp(baseRate, rounding);
   const excessWeight = Math.max(0, chargeableWeight - 1);
-  const excessWeightFee = excessWeight * perKgRate;
-  const totalFee = baseRate + excessWeightFee;
+  const excessWeightFee = multiplyMoney(egp(perKgRate, rounding), excessWeight, rounding);
+  const totalFee = addMoney(baseFee, excessWeightFee);
 
-  // SmartCom Buffer: subsidize part of the fee
-  const subsidizedCustomerFee = Math.max(
-    totalFee - config.logisticsSurcharge,
-    totalFee * 0.75 // Never subsidize more than 25%
+  // SmartCom Buffer: subsidize part of the fee, never more than the cap
+  // (default 25%, higher for remote zones — see SHIPPING_SUBSIDY)
+  const maxSubsidyRate = config.zoneSubsidyRates?.[input.toZoneId]
+    ?? config.maxSubsidyRate
+    ?? SHIPPING_SUBSIDY.maxSubsidyRate;
+  const subsidizedCustomerFee = maxMoney(
+    subtractMoney(totalFee, egp(config.logisticsSurcharge, rounding)),
+    multiplyMoney(totalFee, 1 - maxSubsidyRate, rounding)
   );
-  const aroobaSubsidy = totalFee - subsidizedCustomerFee;
+  const aroobaSubsidy = subtractMoney(totalFee, subsidizedCustomerFee);
 
   return {
     actualWeight: actualWeightKg,
     volumetricWeight: roundPrice(volumetricWeight),
     chargeableWeight: roundPrice(chargeableWeight),
-    baseFee: baseRate,
-    excessWeightFee: roundPrice(excessWeightFee),
-    totalFee: roundPrice(totalFee),
-    subsidizedCustomerFee: roundPrice(subsidizedCustomerFee),
-    aroobaSubsidy: roundPrice(aroobaSubsidy),
+    baseFee,
+    excessWeightFee,
+    totalFee,
+    subsidizedCustomerFee,
+    aroobaSubsidy,
+    ...(lookup ? { rateCardId: lookup.rateCard.id, rateSource: lookup.source } : {}),
+  };
+}
+
+/** Parcel measurements for a shipment fee quote. */
+export interface ParcelInput {
+  actualWeightKg: number;
+  dimensionL: number;
+  dimensionW: number;
+  dimensionH: number;
+}
+
+/**
+ * Quotes a shipment from the product's pickup location and the
+ * customer's delivery address alone — the rate card is looked up.
+ *
+ * @example
+ * calculateShipmentShippingFee(product.pickupLocation, customer.addresses[0], parcel);
+ */
+export function calculateShipmentShippingFee(
+  pickupLocation: Pick<PickupLocation, 'zoneId'>,
+  deliveryAddress: Pick<CustomerAddress, 'zoneId'>,
+  parcel: ParcelInput,
+  dynamicConfig?: DynamicPricingConfig,
+  rateCards?: RateCard[]
+): ShippingFeeResult {
+  return calculateShippingFee({
+    ...parcel,
+    fromZoneId: pickupLocation.zoneId,
+    toZoneId: deliveryAddress.zoneId,
+    rateCards,
+  }, dynamicConfig);
+}
+
+// ──────────────────────────────────────────────
+// CONSOLIDATED SHIPMENTS (Multi-parcel)
+// ──────────────────────────────────────────────
+
+/** One order item inside a shipment. Weight and dimensions are per unit. */
+export interface ShipmentItemInput extends ParcelInput {
+  itemId: string;
+  quantity: number;
+}
+
+export interface ConsolidatedShipmentInput {
+  fromZoneId: string;
+  toZoneId: string;
+  items: ShipmentItemInput[];
+  baseRate?: number;
+  perKgRate?: number;
+  rateCards?: RateCard[];
+}
+
+export interface ShipmentItemAllocation {
+  itemId: string;
+  chargeableWeight: number;       // The item's own share of the weight
+  bucketE: Money;                 // Its share of the customer delivery fee
+}
+
+export interface ConsolidatedShipmentResult extends ShippingFeeResult {
+  packedDimensions: { L: number; W: number; H: number };
+  unitCount: number;
+  allocations: ShipmentItemAllocation[];
+}
+
+/**
+ * Prices one shipment holding several order items from the same pickup
+ * location, then splits the customer delivery fee (Bucket E) across them.
+ *
+ * BUSINESS LOGIC:
+ * 1. Actual weight = sum of every unit's weight
+ * 2. Packing heuristic: each box is laid flat on its smallest side and
+ *    the boxes are stacked — the parcel is as long and wide as the
+ *    biggest box and as tall as the stack
+ * 3. Chargeable = MAX(actual, volumetric of the packed parcel)
+ * 4. The SmartCom buffer is applied ONCE to the whole shipment
+ * 5. The customer fee is split by each item's own chargeable weight,
+ *    to the piastre (allocations always sum to the fee)
+ */
+export function calculateConsolidatedShipmentFee(
+  input: ConsolidatedShipmentInput,
+  dynamicConfig?: DynamicPricingConfig
+): ConsolidatedShipmentResult {
+  const units = input.items.flatMap(item => {
+    const quantity = Math.max(0, Math.floor(item.quantity));
+    const [long, mid, short] = [item.dimensionL, item.dimensionW, item.dimensionH].sort((a, b) => b - a);
+    return Array.from({ length: quantity }, () => ({ long, mid, short, weight: item.actualWeightKg }));
+  });
+
+  const packedDimensions = {
+    L: Math.max(0, ...units.map(u => u.long)),
+    W: Math.max(0, ...units.map(u => u.mid)),
+    H: units.reduce((sum, u) => sum + u.short, 0),
+  };
+  const totalWeight = roundPrice(units.reduce((sum, u) => sum + u.weight, 0));
+
+  const fee = calculateShippingFee({
+    actualWeightKg: totalWeight,
+    dimensionL: packedDimensions.L,
+    dimensionW: packedDimensions.W,
+    dimensionH: packedDimensions.H,
+    fromZoneId: input.fromZoneId,
+    toZoneId: input.toZoneId,
+    baseRate: input.baseRate,
+    perKgRate: input.perKgRate,
+    rateCards: input.rateCards,
+  }, dynamicConfig);
+
+  const itemWeights = input.items.map(item => {
+    const volumetric = (item.dimensionL * item.dimensionW * item.dimensionH) / SHIPPING.volumetricDivisor;
+    return Math.max(item.actualWeightKg, volumetric) * Math.max(0, Math.floor(item.quantity));
+  });
+  const shares = allocateMoney(fee.subsidizedCustomerFee, itemWeights);
+
+  return {
+    ...fee,
+    packedDimensions,
+    unitCount: units.length,
+    allocations: input.items.map((item, i) => ({
+      itemId: item.itemId,
+      chargeableWeight: roundPrice(itemWeights[i]),
+      bucketE: shares[i],
+    })),
   };
 }
 
@@ -297,17 +1121,24 @@ export function calculateShippingFee(input: ShippingFeeInput, dynamicConfig?: Dy
  * BUSINESS RULE:
  * After delivery confirmation, funds sit in escrow for a configurable
  * number of days (default 14). If no return is initiated, they become
- * withdrawable.
+ * withdrawable on the next payout day (not a Friday or public holiday).
+ * For return pauses and per-vendor balances see escrow-scheduler.ts.
  */
-export function calculateEscrowRelease(deliveryDate: Date, holdDays = 14): {
+export function calculateEscrowRelease(
+  deliveryDate: Date,
+  holdDays = 14,
+  clock: EscrowClock = systemClock,
+  calendar?: PayoutCalendar
+): {
   releaseDate: Date;
   daysRemaining: number;
   isReleasable: boolean;
 } {
-  const releaseDate = new Date(deliveryDate);
-  releaseDate.setDate(releaseDate.getDate() + holdDays);
+  const holdEnd = new Date(deliveryDate);
+  holdEnd.setUTCDate(holdEnd.getUTCDate() + holdDays);
+  const releaseDate = new Date(`${nextPayoutDate(holdEnd, calendar)}T00:00:00Z`);
 
-  const now = new Date();
+  const now = clock();
   const daysRemaining = Math.max(
     0,
     Math.ceil((releaseDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
@@ -326,14 +1157,19 @@ export function calculateEscrowRelease(deliveryDate: Date, holdDays = 14): {
 
 /**
  * Any product priced beyond the configured threshold from market
- * benchmarks is flagged. The threshold is now admin-configurable
- * (default +-20%). This prevents price-gouging and protects customers.
+ * benchmarks is flagged. The threshold is admin-configurable
+ * (`fraud.priceDeviationFlag`, default ±20%) and the reference price
+ * comes from the category benchmarks (see price-benchmarks.ts). This
+ * prevents price-gouging and protects customers.
  */
 export function checkPriceDeviation(
   productPrice: number,
   categoryAvgPrice: number,
-  threshold = 0.20
+  threshold: number = FRAUD_RULES.priceDeviationFlag
 ): { isFlagged: boolean; deviation: number; direction: 'above' | 'below' | 'normal' } {
+  // No reference price — nothing to compare against
+  if (categoryAvgPrice <= 0) return { isFlagged: false, deviation: 0, direction: 'normal' };
+
   const deviation = (productPrice - categoryAvgPrice) / categoryAvgPrice;
   const isFlagged = Math.abs(deviation) > threshold;
 
@@ -348,10 +1184,33 @@ export function checkPriceDeviation(
 // HELPERS
 // ──────────────────────────────────────────────
 
+function resolvePricingConfigFor(
+  dynamicConfig: PricingConfigSource | undefined,
+  asOf?: string | Date
+): { config: DynamicPricingConfig; configSource: PricingResult['configSource'] } {
+  if (typeof dynamicConfig === 'function') return { config: dynamicConfig(asOf), configSource: 'dynamic' };
+  if (dynamicConfig) return { config: dynamicConfig, configSource: 'dynamic' };
+  return { config: getDefaultPricingConfig(), configSource: 'default' };
+}
+
 function roundPrice(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
+function emptyBucketTotals(): BucketTotals {
+  return { A: ZERO_MONEY, B: ZERO_MONEY, C: ZERO_MONEY, D: ZERO_MONEY, E: ZERO_MONEY };
+}
+
+function addBucketTotals(a: BucketTotals, b: BucketTotals): BucketTotals {
+  return {
+    A: addMoney(a.A, b.A),
+    B: addMoney(a.B, b.B),
+    C: addMoney(a.C, b.C),
+    D: addMoney(a.D, b.D),
+    E: addMoney(a.E, b.E),
+  };
+}
+
 /**
  * Round up to nearest 5 EGP for customer-friendly pricing.
  * e.g., 46.5 EGP → 50 EGP
@@ -0,0 +1,126 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Pricing Explanation
+ * ============================================================
+ *
+ * Turns the pricing trace from `calculatePrice(..., { trace: true })`
+ * into plain Arabic or English sentences.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * When a vendor disputes a payout, support needs to say exactly which
+ * rule decided Arooba's share — the category rate, a manual override,
+ * the 15 EGP minimum or the low-price markup — and which admin setting
+ * it came from. These sentences are what the support agent reads out.
+ * ============================================================
+ */
+
+import { toEgp } from './money';
+import type { PricingTraceStep } from './pricing-engine';
+
+export type ExplanationLanguage = 'ar' | 'en';
+
+const RULE_TITLES: Record<PricingTraceStep['rule'], { ar: string; en: string }> = {
+  vendor_base_price: { ar: 'سعر المورد الأساسي', en: 'Vendor base price' },
+  cooperative_fee: { ar: 'رسوم التعاونية', en: 'Cooperative fee' },
+  parent_vendor_uplift: { ar: 'هامش المورد الرئيسي', en: 'Parent vendor uplift' },
+  custom_uplift_override: { ar: 'هامش مخصص (استثناء يدوي)', en: 'Custom uplift override' },
+  category_uplift: { ar: 'هامش الفئة', en: 'Category uplift' },
+  mvp_flat_uplift: { ar: 'الهامش الثابت العام', en: 'MVP flat uplift' },
+  fragile_override: { ar: 'هامش المنتجات الهشة', en: 'Fragile override' },
+  minimum_fixed_uplift: { ar: 'الحد الأدنى للهامش', en: 'Minimum fixed uplift' },
+  low_price_fixed_markup: { ar: 'هامش السعر المنخفض', en: 'Low-price fixed markup' },
+  logistics_surcharge: { ar: 'رسم لوجستي', en: 'Logistics surcharge' },
+  bucket_a_vendor_revenue: { ar: 'إيراد المورد (A)', en: 'Vendor revenue (A)' },
+  bucket_b_vendor_vat: { ar: 'ض.ق.م المورد (B)', en: 'Vendor VAT (B)' },
+  bucket_c_arooba_revenue: { ar: 'إيراد أروبة (C)', en: 'Arooba revenue (C)' },
+  bucket_d_arooba_vat: { ar: 'ض.ق.م أروبة (D)', en: 'Arooba VAT (D)' },
+  final_price: { ar: 'السعر النهائي', en: 'Final price' },
+};
+
+export function getRuleTitle(rule: PricingTraceStep['rule'], language: ExplanationLanguage): string {
+  return RULE_TITLES[rule][language];
+}
+
+/** Suffix for an uplift step whose rate was pulled back into the category band. */
+function clampNote(step: PricingTraceStep, ar: boolean): string {
+  const { requestedRate, bandMin, bandMax } = step.inputs;
+  if (requestedRate === undefined) return '';
+  const pct = (value: unknown) => `${(Number(value) * 100).toFixed(1)}%`;
+  return ar
+    ? ` (المطلوب ${pct(requestedRate)} خارج نطاق الفئة ${pct(bandMin)}–${pct(bandMax)})`
+    : ` (requested ${pct(requestedRate)} was outside the ${pct(bandMin)}–${pct(bandMax)} band)`;
+}
+
+/** One readable sentence describing what a trace step did. */
+export function explainPricingStep(step: PricingTraceStep, language: ExplanationLanguage): string {
+  const ar = language === 'ar';
+  const money = (value: unknown) => `${Number(value).toFixed(2)} ${ar ? 'ج.م' : 'EGP'}`;
+  const pct = (value: unknown) => `${(Number(value) * 100).toFixed(1)}%`;
+  const amount = money(toEgp(step.amount));
+  const { inputs } = step;
+
+  switch (step.rule) {
+    case 'vendor_base_price':
+      return ar ? `المورد أدخل سعراً أساسياً ${amount}` : `Vendor entered a base price of ${amount}`;
+    case 'cooperative_fee':
+      return step.applied
+        ? (ar ? `مورد غير مسجل: رسوم تعاونية ${pct(inputs.rate)} = ${amount}` : `Non-legalized vendor: cooperative fee of ${pct(inputs.rate)} = ${amount}`)
+        : (ar ? 'مورد مسجل: لا توجد رسوم تعاونية' : 'Legalized vendor: no cooperative fee');
+    case 'parent_vendor_uplift':
+      return inputs.type === 'fixed'
+        ? (ar ? `المورد الرئيسي أضاف مبلغاً ثابتاً ${amount}` : `Parent vendor added a fixed ${amount}`)
+        : (ar ? `المورد الرئيسي أضاف ${pct(inputs.value)} = ${amount}` : `Parent vendor added ${pct(inputs.value)} = ${amount}`);
+    case 'custom_uplift_override':
+      return (ar ? `تم استخدام هامش مخصص ${pct(inputs.rate)} = ${amount}` : `A custom uplift override of ${pct(inputs.rate)} was used = ${amount}`)
+        + clampNote(step, ar);
+    case 'category_uplift':
+      return (ar
+        ? `هامش فئة "${inputs.categoryId}" ${pct(inputs.rate)} = ${amount}`
+        : `Category "${inputs.categoryId}" uplift of ${pct(inputs.rate)} = ${amount}`) + clampNote(step, ar);
+    case 'mvp_flat_uplift':
+      return ar
+        ? `لا يوجد إعداد للفئة "${inputs.categoryId}" — تم تطبيق الهامش العام ${pct(inputs.rate)} = ${amount}`
+        : `No setting for category "${inputs.categoryId}" — the flat uplift of ${pct(inputs.rate)} applied = ${amount}`;
+    case 'fragile_override':
+      return step.applied
+        ? (ar ? `فئة هشة: تم رفع الهامش إلى ${pct(inputs.floor)} = ${amount}` : `Fragile category: uplift raised to ${pct(inputs.floor)} = ${amount}`)
+        : (ar ? `فئة هشة: الهامش لا يقل عن ${pct(inputs.floor)} — لم يتغير` : `Fragile category: uplift is already at least ${pct(inputs.floor)} — unchanged`);
+    case 'minimum_fixed_uplift':
+      return step.applied
+        ? (ar ? `الهامش أقل من الحد الأدنى، فتم رفعه إلى ${money(inputs.floor)}` : `Uplift was below the floor, so it was raised to ${money(inputs.floor)}`)
+        : (ar ? `الهامش أعلى من الحد الأدنى (${money(inputs.floor)}) — لم يتغير` : `Uplift is above the ${money(inputs.floor)} floor — unchanged`);
+    case 'low_price_fixed_markup':
+      if (Number(inputs.vendorBasePrice) >= Number(inputs.threshold)) {
+        return ar
+          ? `السعر ليس أقل من ${money(inputs.threshold)} — لا ينطبق هامش السعر المنخفض`
+          : `Price is not under ${money(inputs.threshold)} — low-price markup does not apply`;
+      }
+      return step.applied
+        ? (ar ? `السعر أقل من ${money(inputs.threshold)}، فتم تطبيق هامش ثابت ${money(inputs.markup)}` : `Price is under ${money(inputs.threshold)}, so a fixed ${money(inputs.markup)} markup applied`)
+        : (ar ? `السعر أقل من ${money(inputs.threshold)} لكن الهامش الحالي أعلى من ${money(inputs.markup)}` : `Price is under ${money(inputs.threshold)} but the uplift already exceeds ${money(inputs.markup)}`);
+    case 'logistics_surcharge':
+      return ar ? `رسم لوجستي ثابت ${amount}` : `Fixed logistics surcharge of ${amount}`;
+    case 'bucket_a_vendor_revenue':
+      if (inputs.subVendorId !== undefined) {
+        return ar
+          ? `إيراد المورد = السعر الأساسي + هامش المورد الرئيسي = ${amount}: ${money(inputs.subVendorRevenue)} للمورد الفرعي و${money(inputs.parentVendorRevenue)} للمورد الرئيسي`
+          : `Vendor revenue = base price + parent uplift = ${amount}: ${money(inputs.subVendorRevenue)} to the sub-vendor, ${money(inputs.parentVendorRevenue)} to the parent`;
+      }
+      return ar ? `إيراد المورد = السعر الأساسي + هامش المورد الرئيسي = ${amount}` : `Vendor revenue = base price + parent uplift = ${amount}`;
+    case 'bucket_b_vendor_vat':
+      return step.applied
+        ? (ar ? `مورد مسجل ضريبياً: ض.ق.م ${pct(inputs.vatRate)} على إيراده = ${amount}` : `VAT-registered vendor: ${pct(inputs.vatRate)} VAT on their revenue = ${amount}`)
+        : (ar ? 'المورد غير مسجل ضريبياً: لا توجد ض.ق.م للمورد' : 'Vendor is not VAT-registered: no vendor VAT');
+    case 'bucket_c_arooba_revenue':
+      return ar ? `إيراد أروبة = رسوم التعاونية + الهامش + الرسم اللوجستي = ${amount}` : `Arooba revenue = cooperative fee + uplift + logistics surcharge = ${amount}`;
+    case 'bucket_d_arooba_vat':
+      return ar ? `ض.ق.م ${pct(inputs.vatRate)} على إيراد أروبة = ${amount}` : `${pct(inputs.vatRate)} VAT on Arooba revenue = ${amount}`;
+    case 'final_price':
+      return ar ? `السعر النهائي للعميل (A + B + C + D) = ${amount}` : `Customer price (A + B + C + D) = ${amount}`;
+  }
+}
+
+/** The whole trace as numbered lines, ready to paste into a dispute reply. */
+export function explainPricingTrace(trace: PricingTraceStep[], language: ExplanationLanguage): string[] {
+  return trace.map((step) => `${step.step}. ${explainPricingStep(step, language)}`);
+}
@@ -0,0 +1,120 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Pricing Inputs from Vendor Records
+ * ============================================================
+ *
+ * Builds the `PricingInput` for a product from the vendor records behind
+ * it: the ParentVendor (VAT status, legal type), the optional SubVendor
+ * (parent uplift) and, for non-legalized vendors, their Cooperative
+ * (fee rate).
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * "Hassan Ceramics" sells a vase made by "Aunt Fatma". Fatma is paid her
+ * price, Hassan adds his agreed 15 EGP on top, and if the seller had no
+ * commercial registration their cooperative would take its own fee —
+ * not always the platform's default 5%. Reading those numbers from the
+ * records instead of retyping them means Hassan's payout report shows
+ * exactly what he owes Fatma.
+ * ============================================================
+ */
+
+import type { Cooperative, ParentVendor, Product, SubVendor } from '../app/shared/types';
+import { PricingValidationError, type PricingInput } from './pricing-engine';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+/** The vendor records pricing reads from (in production, loaded from the API). */
+export interface VendorDirectory {
+  parentVendors: ParentVendor[];
+  subVendors: SubVendor[];
+  cooperatives: Cooperative[];
+}
+
+export type PricedProduct = Pick<Product, 'id' | 'parentVendorId' | 'subVendorId' | 'categoryId' | 'sellingPrice'>;
+
+export interface ResolvedPricingInput {
+  input: PricingInput;
+  parentVendor: ParentVendor;
+  subVendor?: SubVendor;
+  cooperative?: Cooperative;
+}
+
+// ──────────────────────────────────────────────
+// RESOLUTION
+// ──────────────────────────────────────────────
+
+/**
+ * Pricing input for a product, derived from its vendor records.
+ *
+ * BUSINESS LOGIC:
+ * - VAT registration and legal type come from the parent vendor — the
+ *   parent is the legal seller for every sub-vendor product.
+ * - The parent uplift is the sub-vendor's agreed upliftType/upliftValue.
+ * - Non-legalized vendors pay their own cooperative's feePercentage.
+ *
+ * Throws PricingValidationError when a record is missing or inconsistent
+ * (unknown vendor, sub-vendor of another parent, non-legalized vendor
+ * without an active cooperative) — guessing would misprice the product.
+ *
+ * @example
+ * const { input } = resolvePricingInput(product, directory);
+ * const pricing = calculatePrice({ ...input, customUpliftOverride: 0.2 });
+ */
+export function resolvePricingInput(product: PricedProduct, directory: VendorDirectory): ResolvedPricingInput {
+  const parentVendor = directory.parentVendors.find(v => v.id === product.parentVendorId);
+  if (!parentVendor) {
+    throw new PricingValidationError(
+      'vendor_not_found',
+      `Vendor ${product.parentVendorId} of product ${product.id} was not found`,
+      `المورد ${product.parentVendorId} للمنتج ${product.id} غير موجود`,
+      { productId: product.id, parentVendorId: product.parentVendorId }
+    );
+  }
+
+  let subVendor: SubVendor | undefined;
+  if (product.subVendorId) {
+    subVendor = directory.subVendors.find(sv => sv.id === product.subVendorId);
+    if (!subVendor || subVendor.parentVendorId !== parentVendor.id) {
+      throw new PricingValidationError(
+        'sub_vendor_mismatch',
+        `Sub-vendor ${product.subVendorId} does not belong to vendor ${parentVendor.id}`,
+        `المورد الفرعي ${product.subVendorId} لا يتبع المورد ${parentVendor.businessNameAr}`,
+        { productId: product.id, parentVendorId: parentVendor.id, subVendorId: product.subVendorId }
+      );
+    }
+  }
+
+  const isNonLegalizedVendor = parentVendor.type === 'non_legalized';
+  let cooperative: Cooperative | undefined;
+  if (isNonLegalizedVendor) {
+    cooperative = directory.cooperatives.find(c => c.id === parentVendor.cooperativeId && c.isActive);
+    if (!cooperative) {
+      throw new PricingValidationError(
+        'cooperative_not_found',
+        `Non-legalized vendor ${parentVendor.id} has no active cooperative`,
+        `المورد غير المسجل ${parentVendor.businessNameAr} ليس له تعاونية نشطة`,
+        { productId: product.id, parentVendorId: parentVendor.id, cooperativeId: parentVendor.cooperativeId ?? '' }
+      );
+    }
+  }
+
+  return {
+    input: {
+      vendorBasePrice: product.sellingPrice,
+      categoryId: product.categoryId,
+      isVendorVatRegistered: parentVendor.isVatRegistered,
+      isNonLegalizedVendor,
+      ...(subVendor ? {
+        subVendorId: subVendor.id,
+        parentUpliftType: subVendor.upliftType,
+        parentUpliftValue: subVendor.upliftValue,
+      } : {}),
+      ...(cooperative ? { cooperativeFeeRate: cooperative.feePercentage } : {}),
+    },
+    parentVendor,
+    subVendor,
+    cooperative,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Pricing Simulation Runner
+ * ============================================================
+ *
+ * Runs the what-if simulation in a web worker so re-pricing a
+ * 10,000-SKU catalogue twice does not freeze the admin screen. Falls
+ * back to the main thread where workers are unavailable (tests, SSR).
+ * ============================================================
+ */
+
+import {
+  simulatePricingChange,
+  type PricingSimulationRequest,
+  type PricingSimulationResult,
+} from './pricing-simulation';
+
+type WorkerResponse = { ok: true; result: PricingSimulationResult } | { ok: false; error: string };
+
+/**
+ * Starts a simulation. `cancel` stops the worker (e.g. when the admin
+ * edits the value again before the previous run finished).
+ */
+export function runPricingSimulation(request: PricingSimulationRequest): {
+  result: Promise<PricingSimulationResult>;
+  cancel: () => void;
+} {
+  if (typeof Worker === 'undefined') {
+    return { result: Promise.resolve().then(() => simulatePricingChange(request)), cancel: () => {} };
+  }
+
+  const worker = new Worker(new URL('./pricing-simulation.worker.ts', import.meta.url), { type: 'module' });
+  const result = new Promise<PricingSimulationResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      worker.terminate();
+      if (event.data.ok) resolve(event.data.result);
+      else reject(new Error(event.data.error));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(request);
+  });
+
+  return { result, cancel: () => worker.terminate() };
+}
@@ -0,0 +1,173 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Pricing What-If Simulation
+ * ============================================================
+ *
+ * Re-prices the whole catalogue under the current and a proposed
+ * DynamicPricingConfig and reports the difference per category.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Moving a category uplift from 22% to 25% looks small on the config
+ * screen. Before approving it, finance sees what it does to every
+ * product: the average customer price, Arooba's margin (Bucket C), how
+ * many products jump over a price customers notice (e.g. past 100 EGP),
+ * and — assuming customers keep buying the same quantities — the effect
+ * on monthly GMV.
+ *
+ * Runs in a web worker for large catalogues (see
+ * pricing-simulation.worker.ts / pricing-simulation-runner.ts); this
+ * module is plain computation so it can run on either side.
+ * ============================================================
+ */
+
+import { PRICE_SIMULATION } from '../config/constants';
+import { calculatePrice, type DynamicPricingConfig, type PricingInput } from './pricing-engine';
+import { type Money, ZERO_MONEY, toEgp, addMoney, multiplyMoney, subtractMoney } from './money';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+/** One product, reduced to what pricing needs (must survive postMessage). */
+export interface SimulationItem {
+  productId: string;
+  pricing: PricingInput;
+  monthlyUnits: number;                   // Historical volume, for the GMV estimate
+}
+
+export interface PricingSimulationRequest {
+  items: SimulationItem[];
+  currentConfig: DynamicPricingConfig;
+  proposedConfig: DynamicPricingConfig;
+}
+
+export interface PricingImpact {
+  productCount: number;
+  changedCount: number;                   // Final price differs
+  avgPriceBefore: number;
+  avgPriceAfter: number;
+  avgPriceChangePercent: number;
+  avgMarginBefore: number;                // Bucket C per product
+  avgMarginAfter: number;
+  friendlyPointCrossings: number;         // Products that moved across a friendly price point
+  monthlyGmvBefore: number;
+  monthlyGmvAfter: number;
+  monthlyGmvChange: number;
+  monthlyMarginBefore: number;            // Bucket C × monthly units
+  monthlyMarginAfter: number;
+}
+
+export interface CategoryPricingImpact extends PricingImpact {
+  categoryId: string;
+}
+
+export interface PricingSimulationResult {
+  categories: CategoryPricingImpact[];
+  totals: PricingImpact;
+  durationMs: number;
+}
+
+// ──────────────────────────────────────────────
+// SIMULATION
+// ──────────────────────────────────────────────
+
+interface Accumulator {
+  productCount: number;
+  changedCount: number;
+  priceBefore: Money;
+  priceAfter: Money;
+  marginBefore: Money;
+  marginAfter: Money;
+  friendlyPointCrossings: number;
+  gmvBefore: Money;
+  gmvAfter: Money;
+  monthlyMarginBefore: Money;
+  monthlyMarginAfter: Money;
+}
+
+const emptyAccumulator = (): Accumulator => ({
+  productCount: 0, changedCount: 0,
+  priceBefore: ZERO_MONEY, priceAfter: ZERO_MONEY,
+  marginBefore: ZERO_MONEY, marginAfter: ZERO_MONEY,
+  friendlyPointCrossings: 0,
+  gmvBefore: ZERO_MONEY, gmvAfter: ZERO_MONEY,
+  monthlyMarginBefore: ZERO_MONEY, monthlyMarginAfter: ZERO_MONEY,
+});
+
+/** True when a friendly price point lies between the two prices. */
+export function crossesFriendlyPoint(
+  before: number,
+  after: number,
+  points: readonly number[] = PRICE_SIMULATION.friendlyPricePoints
+): boolean {
+  const low = Math.min(before, after);
+  const high = Math.max(before, after);
+  return low !== high && points.some(p => low < p && p <= high);
+}
+
+function toImpact(acc: Accumulator): PricingImpact {
+  const avg = (total: Money) => (acc.productCount ? Math.round((toEgp(total) / acc.productCount) * 100) / 100 : 0);
+  const avgPriceBefore = avg(acc.priceBefore);
+  const avgPriceAfter = avg(acc.priceAfter);
+  return {
+    productCount: acc.productCount,
+    changedCount: acc.changedCount,
+    avgPriceBefore,
+    avgPriceAfter,
+    avgPriceChangePercent: avgPriceBefore ? Math.round(((avgPriceAfter - avgPriceBefore) / avgPriceBefore) * 10000) / 100 : 0,
+    avgMarginBefore: avg(acc.marginBefore),
+    avgMarginAfter: avg(acc.marginAfter),
+    friendlyPointCrossings: acc.friendlyPointCrossings,
+    monthlyGmvBefore: toEgp(acc.gmvBefore),
+    monthlyGmvAfter: toEgp(acc.gmvAfter),
+    monthlyGmvChange: toEgp(subtractMoney(acc.gmvAfter, acc.gmvBefore)),
+    monthlyMarginBefore: toEgp(acc.monthlyMarginBefore),
+    monthlyMarginAfter: toEgp(acc.monthlyMarginAfter),
+  };
+}
+
+/**
+ * Prices every item under both configs. The GMV estimate holds volume
+ * constant — it shows the mechanical effect, not customer reaction.
+ *
+ * @example
+ * simulatePricingChange({ items, currentConfig, proposedConfig })
+ *   .categories.find(c => c.categoryId === 'fashion-apparel')
+ * // → { avgPriceChangePercent: 2.4, friendlyPointCrossings: 3, ... }
+ */
+export function simulatePricingChange(request: PricingSimulationRequest): PricingSimulationResult {
+  const started = Date.now();
+  const byCategory = new Map<string, Accumulator>();
+  const totals = emptyAccumulator();
+
+  for (const item of request.items) {
+    const before = calculatePrice(item.pricing, request.currentConfig);
+    const after = calculatePrice(item.pricing, request.proposedConfig);
+    const priceBefore = before.finalPrice;
+    const priceAfter = after.finalPrice;
+
+    const acc = byCategory.get(item.pricing.categoryId) ?? emptyAccumulator();
+    for (const target of [acc, totals]) {
+      target.productCount++;
+      if (priceBefore.piastres !== priceAfter.piastres) target.changedCount++;
+      if (crossesFriendlyPoint(toEgp(priceBefore), toEgp(priceAfter))) target.friendlyPointCrossings++;
+      target.priceBefore = addMoney(target.priceBefore, priceBefore);
+      target.priceAfter = addMoney(target.priceAfter, priceAfter);
+      target.marginBefore = addMoney(target.marginBefore, before.buckets.C);
+      target.marginAfter = addMoney(target.marginAfter, after.buckets.C);
+      target.gmvBefore = addMoney(target.gmvBefore, multiplyMoney(priceBefore, item.monthlyUnits));
+      target.gmvAfter = addMoney(target.gmvAfter, multiplyMoney(priceAfter, item.monthlyUnits));
+      target.monthlyMarginBefore = addMoney(target.monthlyMarginBefore, multiplyMoney(before.buckets.C, item.monthlyUnits));
+      target.monthlyMarginAfter = addMoney(target.monthlyMarginAfter, multiplyMoney(after.buckets.C, item.monthlyUnits));
+    }
+    byCategory.set(item.pricing.categoryId, acc);
+  }
+
+  return {
+    categories: [...byCategory.entries()]
+      .map(([categoryId, acc]) => ({ categoryId, ...toImpact(acc) }))
+      .sort((a, b) => Math.abs(b.monthlyGmvChange) - Math.abs(a.monthlyGmvChange)),
+    totals: toImpact(totals),
+    durationMs: Date.now() - started,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * AROOBA — Pricing simulation web worker.
+ * Runs simulatePricingChange off the UI thread (see pricing-simulation-runner.ts).
+ */
+
+import { simulatePricingChange, type PricingSimulationRequest } from './pricing-simulation';
+
+self.onmessage = (event: MessageEvent<PricingSimulationRequest>) => {
+  try {
+    self.postMessage({ ok: true, result: simulatePricingChange(event.data) });
+  } catch (error) {
+    self.postMessage({ ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
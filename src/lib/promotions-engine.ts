@@ -0,0 +1,431 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Promotions & Discount Engine
+ * ============================================================
+ *
+ * Applies coupons, category sales and buy-X-get-Y offers on top of a
+ * priced cart (see calculateCartPrice) and records which waterfall
+ * bucket pays for every piastre of discount.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * A discount is money someone gives up. If Arooba runs the sale, it
+ * comes out of Arooba's share (Bucket C and its VAT, Bucket D). If a
+ * vendor runs it, it comes out of the vendor's share (Buckets A and B).
+ *
+ * GOLDEN RULE: "Never reduce vendor prices." An Arooba-funded discount
+ * can never touch Buckets A/B — if it is bigger than Arooba's share of
+ * a line, the excess is simply not given. Only a promotion explicitly
+ * marked vendor-funded, on that vendor's own products, reduces A/B.
+ * A discount cut short this way is reported as a warning, never hidden.
+ *
+ * Buy-X-get-Y units are free to the customer: their whole price, all
+ * four buckets, comes out of the funder's share of the line. When the
+ * funder's share can't cover it the offer is not applied to that line.
+ *
+ * Delivery (Bucket E) is never discounted here.
+ * ============================================================
+ */
+
+import type { Promotion, PromotionFunding, PromotionType, VendorActionRequest } from '../app/shared/types';
+import type { BucketTotals, CartLineInput, CartPricingInput, CartPricingResult } from './pricing-engine';
+import {
+  type Money,
+  ZERO_MONEY,
+  egp,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  minMoney,
+  allocateMoney,
+  sumMoney,
+  isZeroMoney,
+} from './money';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type DiscountBucket = 'A' | 'B' | 'C' | 'D';
+
+export interface PromotionDiscount {
+  promotionId: string;
+  promotionName: string;
+  promotionNameAr: string;
+  lineId: string;
+  fundedBy: PromotionFunding;
+  requested: Money;                                   // What the promotion asked for
+  amount: Money;                                      // What was actually given
+  absorbedBy: Partial<Record<DiscountBucket, Money>>; // Who paid, per bucket
+}
+
+export interface PromotedLineResult {
+  lineId: string;
+  buckets: BucketTotals;          // After discounts (E unchanged)
+  discount: Money;
+  totalPrice: Money;              // A + B + C + D after discounts
+}
+
+export type CouponRejection = 'not_found' | 'not_active' | 'below_minimum' | 'not_applicable';
+
+export type PromotionWarningCode =
+  | 'discount_capped'         // Funder's buckets smaller than the discount — the rest was not given
+  | 'free_units_unfunded';    // Funder's buckets can't pay for the free units — offer not applied
+
+/** A promotion the engine gave less of (or none of) than it asked for. */
+export interface PromotionWarning {
+  code: PromotionWarningCode;
+  promotionId: string;
+  lineId: string;
+  requested: Money;
+  amount: Money;
+  message: string;
+  messageAr: string;
+}
+
+export interface PromotedCartResult {
+  lines: PromotedLineResult[];
+  discounts: PromotionDiscount[];
+  appliedPromotionIds: string[];
+  couponRejection?: CouponRejection;
+  warnings: PromotionWarning[];
+  bucketTotals: BucketTotals;
+  subtotal: Money;
+  totalDiscount: Money;
+  totalDeliveryFee: Money;
+  totalAmount: Money;
+}
+
+export interface ApplyPromotionsOptions {
+  couponCode?: string;
+  asOf?: string | Date;
+}
+
+const FUNDING_BUCKETS: Record<PromotionFunding, [DiscountBucket, DiscountBucket]> = {
+  vendor: ['A', 'B'],
+  arooba: ['C', 'D'],
+};
+
+// ──────────────────────────────────────────────
+// ELIGIBILITY
+// ──────────────────────────────────────────────
+
+/** Active and inside its start/end window at `asOf`. */
+export function isPromotionLive(promotion: Promotion, asOf: string | Date = new Date()): boolean {
+  const at = typeof asOf === 'string' ? new Date(asOf).getTime() : asOf.getTime();
+  if (promotion.status !== 'active') return false;
+  if (new Date(promotion.startsAt).getTime() > at) return false;
+  if (promotion.endsAt && new Date(promotion.endsAt).getTime() <= at) return false;
+  return true;
+}
+
+function isLineInScope(promotion: Promotion, line: CartLineInput): boolean {
+  // A vendor can only fund discounts on its own products
+  if (promotion.fundedBy === 'vendor' && (!promotion.vendorId || promotion.vendorId !== line.vendorId)) {
+    return false;
+  }
+  if (promotion.vendorId && promotion.vendorId !== line.vendorId) return false;
+  if (promotion.categoryIds?.length && !promotion.categoryIds.includes(line.pricing.categoryId)) return false;
+  if (promotion.productIds?.length && (!line.productId || !promotion.productIds.includes(line.productId))) return false;
+  return true;
+}
+
+// ──────────────────────────────────────────────
+// APPLY PROMOTIONS
+// ──────────────────────────────────────────────
+
+/**
+ * Applies every live automatic promotion (no code) plus at most one
+ * coupon to a priced cart. Promotions stack in order: category sales and
+ * buy-X-get-Y first, then the coupon on what is left.
+ *
+ * @example
+ * const cart = calculateCartPrice(cartInput);
+ * const promoted = applyPromotions(cartInput, cart, activePromotions, { couponCode: 'WELCOME50' });
+ * promoted.discounts[0].absorbedBy // → { C: 43.86 EGP, D: 6.14 EGP }
+ */
+export function applyPromotions(
+  cartInput: CartPricingInput,
+  cart: CartPricingResult,
+  promotions: Promotion[],
+  options: ApplyPromotionsOptions = {}
+): PromotedCartResult {
+  const asOf = options.asOf ?? new Date();
+  const live = promotions.filter(p => isPromotionLive(p, asOf));
+  const inputById = new Map(cartInput.lines.map(l => [l.lineId, l]));
+
+  // Working copy of each line's buckets — discounts are subtracted from here
+  const working = new Map(cart.lines.map(l => [l.lineId, { ...l.buckets }]));
+  const lineTotal = (lineId: string) => {
+    const b = working.get(lineId)!;
+    return addMoney(b.A, b.B, b.C, b.D);
+  };
+
+  const discounts: PromotionDiscount[] = [];
+  const appliedPromotionIds: string[] = [];
+  const warnings: PromotionWarning[] = [];
+  let couponRejection: CouponRejection | undefined;
+
+  const queue = live.filter(p => !p.code);
+  if (options.couponCode) {
+    const code = options.couponCode.trim().toUpperCase();
+    const coupon = promotions.find(p => p.code?.toUpperCase() === code);
+    if (!coupon) couponRejection = 'not_found';
+    else if (!isPromotionLive(coupon, asOf)) couponRejection = 'not_active';
+    else queue.push(coupon);
+  }
+
+  for (const promotion of queue) {
+    const eligible = cart.lines.filter(l => {
+      const input = inputById.get(l.lineId);
+      return input && isLineInScope(promotion, input) && !isZeroMoney(lineTotal(l.lineId));
+    });
+    const isCoupon = Boolean(promotion.code);
+
+    if (eligible.length === 0) {
+      if (isCoupon) couponRejection = 'not_applicable';
+      continue;
+    }
+    const eligibleTotal = sumMoney(eligible.map(l => lineTotal(l.lineId)));
+    if (promotion.minOrderAmount && eligibleTotal.piastres < egp(promotion.minOrderAmount).piastres) {
+      if (isCoupon) couponRejection = 'below_minimum';
+      continue;
+    }
+
+    // What the promotion asks for, per eligible line
+    let requests: Money[];
+    switch (promotion.type) {
+      case 'percentage_coupon':
+      case 'category_sale':
+        requests = eligible.map(l => multiplyMoney(lineTotal(l.lineId), promotion.value));
+        break;
+      case 'fixed_coupon':
+        requests = allocateMoney(
+          minMoney(egp(promotion.value), eligibleTotal),
+          eligible.map(l => lineTotal(l.lineId).piastres)
+        );
+        break;
+      case 'buy_x_get_y': {
+        const buy = Math.max(1, promotion.buyQuantity ?? 1);
+        const free = Math.max(0, promotion.getQuantity ?? 0);
+        // The free units' whole price (A–D), so the customer pays nothing
+        // for them and the other party is still paid its share
+        requests = eligible.map(l => {
+          const freeUnits = Math.floor(l.quantity / (buy + free)) * free;
+          return multiplyMoney(l.unitPrice, freeUnits);
+        });
+        break;
+      }
+    }
+
+    let applied = false;
+    eligible.forEach((line, i) => {
+      const requested = requests[i];
+      if (isZeroMoney(requested)) return;
+      const absorbed = absorbDiscount(working.get(line.lineId)!, requested, promotion.fundedBy);
+      if (absorbed.amount.piastres < requested.piastres) {
+        const isFreeUnits = promotion.type === 'buy_x_get_y';
+        const funder = promotion.fundedBy === 'vendor' ? { en: 'vendor', ar: 'المورد' } : { en: 'Arooba', ar: 'أروبة' };
+        warnings.push({
+          code: isFreeUnits ? 'free_units_unfunded' : 'discount_capped',
+          promotionId: promotion.id,
+          lineId: line.lineId,
+          requested,
+          amount: isFreeUnits ? ZERO_MONEY : absorbed.amount,
+          message: isFreeUnits
+            ? `${promotion.name}: the ${funder.en} share of ${line.lineId} can't pay for the free units; offer not applied`
+            : `${promotion.name}: discount on ${line.lineId} capped at the ${funder.en} share`,
+          messageAr: isFreeUnits
+            ? `${promotion.nameAr}: حصة ${funder.ar} لا تغطي الوحدات المجانية — لم يُطبق العرض`
+            : `${promotion.nameAr}: تم تقليص الخصم إلى حصة ${funder.ar}`,
+        });
+        // Free units are free or not offered — never half-charged
+        if (isFreeUnits) return;
+      }
+      working.set(line.lineId, absorbed.buckets);
+      if (isZeroMoney(absorbed.amount)) return;
+      applied = true;
+      discounts.push({
+        promotionId: promotion.id,
+        promotionName: promotion.name,
+        promotionNameAr: promotion.nameAr,
+        lineId: line.lineId,
+        fundedBy: promotion.fundedBy,
+        requested,
+        amount: absorbed.amount,
+        absorbedBy: absorbed.absorbedBy,
+      });
+    });
+    if (applied) appliedPromotionIds.push(promotion.id);
+  }
+
+  const lines: PromotedLineResult[] = cart.lines.map(l => {
+    const buckets = working.get(l.lineId)!;
+    const totalPrice = addMoney(buckets.A, buckets.B, buckets.C, buckets.D);
+    return { lineId: l.lineId, buckets, discount: subtractMoney(l.totalPrice, totalPrice), totalPrice };
+  });
+
+  const bucketTotals: BucketTotals = {
+    A: sumMoney(lines.map(l => l.buckets.A)),
+    B: sumMoney(lines.map(l => l.buckets.B)),
+    C: sumMoney(lines.map(l => l.buckets.C)),
+    D: sumMoney(lines.map(l => l.buckets.D)),
+    E: cart.totalDeliveryFee,
+  };
+  const subtotal = addMoney(bucketTotals.A, bucketTotals.B, bucketTotals.C, bucketTotals.D);
+
+  return {
+    lines,
+    discounts,
+    appliedPromotionIds,
+    couponRejection,
+    warnings,
+    bucketTotals,
+    subtotal,
+    totalDiscount: subtractMoney(cart.subtotal, subtotal),
+    totalDeliveryFee: cart.totalDeliveryFee,
+    totalAmount: addMoney(subtotal, cart.totalDeliveryFee),
+  };
+}
+
+/**
+ * Takes a discount out of the funder's two buckets, in proportion to
+ * their size so net and VAT shrink together. Never goes below zero and
+ * never touches the other party's buckets; `amount` is less than
+ * `requested` when the funder's buckets run out.
+ */
+function absorbDiscount(
+  buckets: BucketTotals,
+  requested: Money,
+  fundedBy: PromotionFunding
+): { buckets: BucketTotals; amount: Money; absorbedBy: Partial<Record<DiscountBucket, Money>> } {
+  const [net, vat] = FUNDING_BUCKETS[fundedBy];
+  const available = addMoney(buckets[net], buckets[vat]);
+  const amount = minMoney(requested, available);
+  if (isZeroMoney(amount)) return { buckets, amount: ZERO_MONEY, absorbedBy: {} };
+
+  const [fromNet, fromVat] = allocateMoney(amount, [buckets[net].piastres, buckets[vat].piastres]);
+  return {
+    buckets: {
+      ...buckets,
+      [net]: subtractMoney(buckets[net], fromNet),
+      [vat]: subtractMoney(buckets[vat], fromVat),
+    },
+    amount,
+    absorbedBy: {
+      ...(isZeroMoney(fromNet) ? {} : { [net]: fromNet }),
+      ...(isZeroMoney(fromVat) ? {} : { [vat]: fromVat }),
+    },
+  };
+}
+
+// ──────────────────────────────────────────────
+// PROMOTION REQUESTS (Vendor Approval Workflow)
+// ──────────────────────────────────────────────
+
+export class PromotionError extends Error {
+  readonly code:
+    | 'invalid_proposal'
+    | 'unknown_type'
+    | 'value_out_of_range'
+    | 'invalid_dates';
+
+  constructor(code: PromotionError['code'], message: string) {
+    super(message);
+    this.name = 'PromotionError';
+    this.code = code;
+  }
+}
+
+const PROMOTION_TYPES: PromotionType[] = ['percentage_coupon', 'fixed_coupon', 'buy_x_get_y', 'category_sale'];
+
+const isPositiveInteger = (n: unknown) => typeof n === 'number' && Number.isInteger(n) && n > 0;
+
+/**
+ * Checks a proposed promotion before it can go live: a known type, a
+ * rate in (0, 1] for percentage coupons and category sales (0.15, not
+ * 15), a positive EGP amount for fixed coupons, whole positive buy/get
+ * quantities, a non-negative minimum order and an end after the start.
+ * Throws PromotionError on the first problem found.
+ */
+export function validatePromotion(
+  proposed: Partial<Promotion>
+): asserts proposed is Partial<Promotion> & Pick<Promotion, 'type' | 'value'> {
+  if (!proposed.type || !PROMOTION_TYPES.includes(proposed.type)) {
+    throw new PromotionError('unknown_type', `Unknown promotion type "${proposed.type}"`);
+  }
+  const value = proposed.value;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PromotionError('value_out_of_range', 'Promotion value must be a number');
+  }
+  switch (proposed.type) {
+    case 'percentage_coupon':
+    case 'category_sale':
+      if (value <= 0 || value > 1) {
+        throw new PromotionError('value_out_of_range', `Discount rate ${value} must be above 0 and at most 1 (e.g. 0.15 for 15%)`);
+      }
+      break;
+    case 'fixed_coupon':
+      if (value <= 0) throw new PromotionError('value_out_of_range', `Coupon amount ${value} EGP must be above 0`);
+      break;
+    case 'buy_x_get_y':
+      if (!isPositiveInteger(proposed.buyQuantity) || !isPositiveInteger(proposed.getQuantity)) {
+        throw new PromotionError('value_out_of_range', 'Buy and get quantities must be whole numbers above 0');
+      }
+      break;
+  }
+  if (proposed.minOrderAmount !== undefined
+    && (typeof proposed.minOrderAmount !== 'number' || !(proposed.minOrderAmount >= 0))) {
+    throw new PromotionError('value_out_of_range', `Minimum order ${proposed.minOrderAmount} EGP can't be negative`);
+  }
+  const startsAt = proposed.startsAt ? Date.parse(proposed.startsAt) : null;
+  const endsAt = proposed.endsAt ? Date.parse(proposed.endsAt) : null;
+  if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) {
+    throw new PromotionError('invalid_dates', 'Promotion dates must be valid dates');
+  }
+  if (startsAt !== null && endsAt !== null && endsAt <= startsAt) {
+    throw new PromotionError('invalid_dates', `Promotion ends (${proposed.endsAt}) before it starts (${proposed.startsAt})`);
+  }
+}
+
+/**
+ * Turns an approved `promotion_request` into a live promotion. A vendor
+ * asking for a promotion is always paying for it, so the result is
+ * vendor-funded and scoped to that vendor. Returns null for any other
+ * kind of request; throws PromotionError when the proposed values can't
+ * be read or fail validatePromotion.
+ */
+export function promotionFromRequest(request: VendorActionRequest, now = new Date()): Promotion | null {
+  if (request.actionType !== 'promotion_request') return null;
+
+  let proposed: Partial<Promotion>;
+  try {
+    proposed = JSON.parse(request.proposedValues ?? '');
+  } catch {
+    throw new PromotionError('invalid_proposal', `Promotion request ${request.id} has unreadable proposed values`);
+  }
+  if (!proposed || typeof proposed !== 'object') {
+    throw new PromotionError('invalid_proposal', `Promotion request ${request.id} has no proposed promotion`);
+  }
+  validatePromotion(proposed);
+
+  return {
+    id: `promo-${request.id}`,
+    name: proposed.name ?? `${request.vendorName} promotion`,
+    nameAr: proposed.nameAr ?? `عرض ${request.vendorNameAr}`,
+    type: proposed.type,
+    fundedBy: 'vendor',
+    vendorId: request.vendorId,
+    code: proposed.code,
+    value: proposed.value,
+    buyQuantity: proposed.buyQuantity,
+    getQuantity: proposed.getQuantity,
+    categoryIds: proposed.categoryIds,
+    productIds: proposed.productIds,
+    minOrderAmount: proposed.minOrderAmount,
+    startsAt: proposed.startsAt ?? now.toISOString(),
+    endsAt: proposed.endsAt,
+    status: 'active',
+    sourceRequestId: request.id,
+    createdAt: now.toISOString(),
+  };
+}
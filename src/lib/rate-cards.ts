@@ -0,0 +1,83 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Shipping Rate Cards
+ * ============================================================
+ *
+ * Finds the courier rate (base price + per-kg price) for a shipment
+ * from where it is picked up and where it is delivered.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Shipping a vase from a Cairo workshop to a Cairo customer costs less
+ * than sending it to Aswan. Each zone pair we have negotiated gets a
+ * "rate card". When a pair has no card we fall back, in order, to the
+ * same route in the other direction, the zone's local (same-zone) rate,
+ * and finally one national rate — so a fee can always be quoted.
+ * ============================================================
+ */
+
+import type { RateCard, PickupLocation, CustomerAddress } from '../app/shared/types';
+import { SHIPPING_RATES } from '../config/constants';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type RateCardSource = 'exact' | 'reverse' | 'same_zone' | 'national';
+
+export interface RateCardLookup {
+  rateCard: RateCard;
+  source: RateCardSource;
+}
+
+/** Negotiated zone-pair cards, seeded from constants. */
+export const DEFAULT_RATE_CARDS: RateCard[] = SHIPPING_RATES.cards.map(card => ({ ...card }));
+
+// ──────────────────────────────────────────────
+// LOOKUP
+// ──────────────────────────────────────────────
+
+/**
+ * Resolves the rate card for a zone pair.
+ * Order: exact pair → reverse pair → same-zone rate → national default.
+ *
+ * @example
+ * resolveRateCard('cairo', 'alexandria') // → rc-001, source 'exact'
+ * resolveRateCard('alexandria', 'cairo') // → rc-001, source 'reverse'
+ * resolveRateCard('delta', 'delta')      // → same-zone delta rate
+ * resolveRateCard('sinai', 'delta')      // → national rate
+ */
+export function resolveRateCard(
+  fromZoneId: string,
+  toZoneId: string,
+  rateCards: RateCard[] = DEFAULT_RATE_CARDS
+): RateCardLookup {
+  const exact = rateCards.find(c => c.fromZoneId === fromZoneId && c.toZoneId === toZoneId);
+  if (exact) return { rateCard: exact, source: 'exact' };
+
+  const reverse = rateCards.find(c => c.fromZoneId === toZoneId && c.toZoneId === fromZoneId);
+  if (reverse) return { rateCard: reverse, source: 'reverse' };
+
+  const sameZone = fromZoneId === toZoneId
+    ? (SHIPPING_RATES.sameZone as Record<string, { basePrice: number; pricePerKg: number }>)[fromZoneId]
+    : undefined;
+  if (sameZone) {
+    return {
+      rateCard: { id: `same-zone-${fromZoneId}`, fromZoneId, toZoneId, ...sameZone },
+      source: 'same_zone',
+    };
+  }
+
+  return {
+    rateCard: { id: 'national', fromZoneId, toZoneId, ...SHIPPING_RATES.national },
+    source: 'national',
+  };
+}
+
+/** Same lookup, straight from the product's pickup location and the delivery address. */
+export function resolveRateCardForShipment(
+  pickupLocation: Pick<PickupLocation, 'zoneId'>,
+  deliveryAddress: Pick<CustomerAddress, 'zoneId'>,
+  rateCards?: RateCard[]
+): RateCardLookup {
+  return resolveRateCard(pickupLocation.zoneId, deliveryAddress.zoneId, rateCards);
+}
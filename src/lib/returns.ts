@@ -0,0 +1,339 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Returns & Refunds
+ * ============================================================
+ *
+ * Settles a customer return: how much of every bucket comes back, who
+ * pays for the return trip, where the vendor's share is clawed back
+ * from, and how the customer is refunded. Produces the ledger journal
+ * (lib/ledger.ts) and the ETA credit notes (lib/tax-documents.ts).
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * Returns are accepted up to RETURNS.windowDays (14) after the item was
+ * delivered — the same as the escrow hold.
+ * A customer sends back 1 of 2 cushion covers because it is torn.
+ * - They get back exactly what they paid for that cover, split the
+ *   same way it was charged: vendor price + vendor VAT, Arooba's
+ *   commission + VAT. Their delivery fee share is refunded too, because
+ *   the fault was the vendor's (see RETURNS.reasons in constants.ts).
+ * - The vendor pays for the return trip and the refunded delivery.
+ * - The vendor's share is taken from money still in escrow; if escrow
+ *   was already released it comes out of their withdrawable balance.
+ * - Refunds go back the way the customer paid (cash for COD, Fawry,
+ *   card reversal) or, if they prefer, into their Arooba wallet.
+ *
+ * Several partial returns of the same line always add up exactly to
+ * the line: the rounding piastre stays with the units still kept.
+ * ============================================================
+ */
+
+import type { Order, OrderItem, ParentVendor } from '../app/shared/types';
+import { RETURNS } from '../config/constants';
+import { type Money, ZERO_MONEY, addMoney, subtractMoney, sumMoney, allocateMoney } from './money';
+import { type JournalDraft, type RefundJournalLine, journalOrderRefunded } from './ledger';
+import { type TaxDocument, generateOrderDocuments, issueCreditNote } from './tax-documents';
+import { deliveredItems } from './shipment-tracking';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type ReturnReason = keyof typeof RETURNS.reasons;
+
+export type ReturnCostBearer = 'vendor' | 'arooba';
+
+export type RefundMethod = 'cod_cash' | 'fawry' | 'card_reversal' | 'wallet_credit';
+
+export interface ReturnItemRequest {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  items: ReturnItemRequest[];
+  reason: ReturnReason;
+  refundMethod: RefundMethod;
+  requestedAt: string;
+  note?: string;
+}
+
+/** One returned order line, bucket by bucket. */
+export interface ReturnLine {
+  orderItemId: string;
+  vendorId: string;
+  quantity: number;
+  bucketA: Money;
+  bucketB: Money;
+  bucketC: Money;
+  bucketD: Money;
+  delivery: Money;                        // Bucket E refunded (zero if the reason doesn't refund delivery)
+  clawbackFrom: 'pending' | 'available';
+}
+
+export interface ReturnSettlement {
+  returnId: string;
+  orderId: string;
+  customerId: string;
+  reason: ReturnReason;
+  refundMethod: RefundMethod;
+  costBorneBy: ReturnCostBearer;
+  settledAt: string;
+  lines: ReturnLine[];
+  customerRefund: Money;
+  returnShipping: { vendorId: string; amount: Money }[];
+  isFullReturn: boolean;                  // Every unit of the order is now returned
+  journal: JournalDraft;
+  creditNotes: TaxDocument[];
+}
+
+export interface SettleReturnOptions {
+  vendors: ParentVendor[];
+  settledAt: string;
+  previousReturns?: ReturnRequest[];      // Earlier returns on the same order
+  /** Courier charge per return trip; defaults to the shipment's delivery fee. */
+  returnShippingFee?: (vendorId: string, pickupLocationId: string) => Money;
+  /**
+   * Where the vendor's share is taken back from; defaults to pending
+   * escrow. `amount` includes what earlier lines of this return already
+   * took from the vendor's pending balance.
+   */
+  clawbackFrom?: (vendorId: string, amount: Money) => 'pending' | 'available';
+}
+
+export class ReturnError extends Error {
+  readonly code:
+    | 'order_not_returnable'
+    | 'return_window_closed'
+    | 'empty_return'
+    | 'item_not_on_order'
+    | 'quantity_exceeds_order'
+    | 'refund_method_not_allowed';
+
+  constructor(code: ReturnError['code'], message: string) {
+    super(message);
+    this.name = 'ReturnError';
+    this.code = code;
+  }
+}
+
+// ──────────────────────────────────────────────
+// POLICY
+// ──────────────────────────────────────────────
+
+/** Refunds go back the way the customer paid, or into their Arooba wallet. */
+export function allowedRefundMethods(order: Pick<Order, 'paymentMethod'>): RefundMethod[] {
+  switch (order.paymentMethod) {
+    case 'cod': return ['cod_cash', 'wallet_credit'];
+    case 'fawry': return ['fawry', 'wallet_credit'];
+    case 'card': return ['card_reversal', 'wallet_credit'];
+    case 'wallet': return ['wallet_credit'];
+  }
+}
+
+export function returnCostBearer(reason: ReturnReason): ReturnCostBearer {
+  return RETURNS.reasons[reason].costBorneBy;
+}
+
+/** Units of each order line already returned by earlier requests. */
+export function returnedQuantities(previous: ReturnRequest[] = []): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const request of previous) {
+    for (const item of request.items) totals[item.orderItemId] = (totals[item.orderItemId] ?? 0) + item.quantity;
+  }
+  return totals;
+}
+
+/**
+ * The part of `amount` belonging to units [already, already + quantity)
+ * of a line of `total` units. Summed over any sequence of partial
+ * returns it gives back exactly `amount`.
+ */
+function unitsShare(amount: Money, total: number, already: number, quantity: number): Money {
+  const upTo = (units: number) => (units === 0 ? ZERO_MONEY : allocateMoney(amount, [units, total - units])[0]);
+  return subtractMoney(upTo(already + quantity), upTo(already));
+}
+
+// ──────────────────────────────────────────────
+// SETTLEMENT
+// ──────────────────────────────────────────────
+
+/**
+ * Works out the full financial effect of a return.
+ *
+ * @throws ReturnError when an item's shipment hasn't been delivered, was
+ *   delivered more than RETURNS.windowDays before the request, an item
+ *   is not on the order, more units are returned than remain, or the
+ *   refund method doesn't fit how the customer paid.
+ */
+export function settleReturn(order: Order, request: ReturnRequest, options: SettleReturnOptions): ReturnSettlement {
+  const received = deliveredItems(order);
+  if (received.length === 0) {
+    throw new ReturnError('order_not_returnable', `Order ${order.id} is ${order.status} — only delivered items can be returned`);
+  }
+  const items = request.items.filter(i => i.quantity > 0);
+  if (items.length === 0) {
+    throw new ReturnError('empty_return', `Return ${request.id} has no items`);
+  }
+  if (!allowedRefundMethods(order).includes(request.refundMethod)) {
+    throw new ReturnError('refund_method_not_allowed', `${request.refundMethod} cannot refund a ${order.paymentMethod} order`);
+  }
+
+  const policy = RETURNS.reasons[request.reason];
+  const previous = options.previousReturns ?? [];
+  const already = returnedQuantities(previous);
+  const clawbackFrom = options.clawbackFrom ?? (() => 'pending' as const);
+  const fromPending = new Map<string, Money>();            // vendorId → taken from pending by earlier lines
+
+  const lines: ReturnLine[] = items.map(({ orderItemId, quantity }) => {
+    const item = order.items.find(i => i.id === orderItemId);
+    if (!item) {
+      throw new ReturnError('item_not_on_order', `Item ${orderItemId} is not on order ${order.id}`);
+    }
+    if (!received.includes(item)) {
+      throw new ReturnError('order_not_returnable', `Item ${orderItemId} on order ${order.id} hasn't been delivered yet`);
+    }
+    const deliveredAt = deliveryDate(order, item);
+    if (daysBetween(deliveredAt, request.requestedAt) > RETURNS.windowDays) {
+      throw new ReturnError(
+        'return_window_closed',
+        `Item ${orderItemId} was delivered on ${deliveredAt.slice(0, 10)}, more than ${RETURNS.windowDays} days before ${request.requestedAt.slice(0, 10)}`
+      );
+    }
+    const returned = already[orderItemId] ?? 0;
+    if (returned + quantity > item.quantity) {
+      throw new ReturnError('quantity_exceeds_order', `Only ${item.quantity - returned} of ${orderItemId} can still be returned`);
+    }
+    const share = (amount: Money) => unitsShare(amount, item.quantity, returned, quantity);
+    const bucketA = share(item.bucketA_vendorRevenue);
+    const bucketB = share(item.bucketB_vendorVat);
+    const vendorShare = addMoney(bucketA, bucketB);
+    const pendingSoFar = fromPending.get(item.vendorId) ?? ZERO_MONEY;
+    const source = clawbackFrom(item.vendorId, addMoney(pendingSoFar, vendorShare));
+    if (source === 'pending') fromPending.set(item.vendorId, addMoney(pendingSoFar, vendorShare));
+    return {
+      orderItemId,
+      vendorId: item.vendorId,
+      quantity,
+      bucketA,
+      bucketB,
+      bucketC: share(item.bucketC_aroobaRevenue),
+      bucketD: share(item.bucketD_aroobaVat),
+      delivery: policy.refundsDelivery ? share(item.bucketE_logisticsFee) : ZERO_MONEY,
+      clawbackFrom: source,
+    };
+  });
+
+  // One return trip per pickup location the returned items came from
+  const returnShipping = returnTrips(order, lines.map(l => order.items.find(i => i.id === l.orderItemId)!), options);
+
+  const customerRefund = sumMoney(lines.map(l => addMoney(l.bucketA, l.bucketB, l.bucketC, l.bucketD, l.delivery)));
+  const afterThis = returnedQuantities([...previous, { ...request, items }]);
+  const isFullReturn = order.items.every(i => (afterThis[i.id] ?? 0) >= i.quantity);
+
+  return {
+    returnId: request.id,
+    orderId: order.id,
+    customerId: order.customerId,
+    reason: request.reason,
+    refundMethod: request.refundMethod,
+    costBorneBy: policy.costBorneBy,
+    settledAt: options.settledAt,
+    lines,
+    customerRefund,
+    returnShipping,
+    isFullReturn,
+    journal: journalOrderRefunded(order.id, toJournalLines(lines, returnShipping), {
+      at: options.settledAt,
+      reference: request.id,
+      refundTo: request.refundMethod === 'wallet_credit' ? 'customer_wallet' : 'cash',
+      costBorneBy: policy.costBorneBy,
+    }),
+    creditNotes: creditNotesFor(order, lines, {
+      vendors: options.vendors,
+      issuedAt: options.settledAt,
+      sequence: previous.length > 0 ? previous.length + 1 : undefined,
+      isWholeOrder: previous.length === 0 && isFullReturn,
+      refundsDelivery: policy.refundsDelivery,
+    }),
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS);
+
+/** When the item reached the customer: its shipment's delivery, else when the order was marked delivered. */
+function deliveryDate(order: Order, item: OrderItem): string {
+  return order.shipments.find(s => s.pickupLocationId === item.pickupLocationId)?.actualDeliveryDate ?? order.updatedAt;
+}
+
+function returnTrips(order: Order, items: OrderItem[], options: SettleReturnOptions): { vendorId: string; amount: Money }[] {
+  const trips = new Map<string, string>();                  // pickupLocationId → vendorId
+  for (const item of items) trips.set(item.pickupLocationId, item.vendorId);
+
+  const byVendor = new Map<string, Money>();
+  for (const [pickupLocationId, vendorId] of trips) {
+    const shipment = order.shipments.find(s => s.pickupLocationId === pickupLocationId);
+    const fee = options.returnShippingFee?.(vendorId, pickupLocationId) ?? shipment?.deliveryFee ?? ZERO_MONEY;
+    byVendor.set(vendorId, addMoney(byVendor.get(vendorId) ?? ZERO_MONEY, fee));
+  }
+  return [...byVendor.entries()].map(([vendorId, amount]) => ({ vendorId, amount }));
+}
+
+/** Rolls return lines up per vendor and clawback source for the ledger. */
+function toJournalLines(lines: ReturnLine[], returnShipping: { vendorId: string; amount: Money }[]): RefundJournalLine[] {
+  const grouped = new Map<string, RefundJournalLine>();
+  for (const line of lines) {
+    const key = `${line.vendorId}:${line.clawbackFrom}`;
+    const current = grouped.get(key) ?? {
+      vendorId: line.vendorId, clawbackFrom: line.clawbackFrom,
+      vendorShare: ZERO_MONEY, commission: ZERO_MONEY, vat: ZERO_MONEY, delivery: ZERO_MONEY, returnShipping: ZERO_MONEY,
+    };
+    grouped.set(key, {
+      ...current,
+      vendorShare: addMoney(current.vendorShare, line.bucketA, line.bucketB),
+      commission: addMoney(current.commission, line.bucketC),
+      vat: addMoney(current.vat, line.bucketD),
+      delivery: addMoney(current.delivery, line.delivery),
+    });
+  }
+  // The trip is charged once per vendor, on their first group
+  for (const trip of returnShipping) {
+    const key = [...grouped.keys()].find(k => k.startsWith(`${trip.vendorId}:`));
+    if (key) grouped.set(key, { ...grouped.get(key)!, returnShipping: trip.amount });
+  }
+  return [...grouped.values()];
+}
+
+/**
+ * Credit notes for every document the returned items appear on. The
+ * first return of the whole order reverses documents in full; partial
+ * returns credit the returned quantities (and delivery share) only.
+ */
+function creditNotesFor(
+  order: Order,
+  lines: ReturnLine[],
+  options: { vendors: ParentVendor[]; issuedAt: string; sequence?: number; isWholeOrder: boolean; refundsDelivery: boolean }
+): TaxDocument[] {
+  const documents = generateOrderDocuments(order, options.vendors);
+  const delivery = sumMoney(lines.map(l => l.delivery));
+
+  return documents.flatMap(doc => {
+    const items = lines
+      .filter(l => doc.lines.some(dl => dl.orderItemId === l.orderItemId))
+      .map(l => ({ orderItemId: l.orderItemId, quantity: l.quantity }));
+    if (items.length === 0) return [];
+    if (options.isWholeOrder && (options.refundsDelivery || doc.kind !== 'customer_receipt')) {
+      return [issueCreditNote(doc, { issuedAt: options.issuedAt, sequence: options.sequence })];
+    }
+    return [issueCreditNote(doc, {
+      issuedAt: options.issuedAt,
+      items,
+      sequence: options.sequence,
+      ...(doc.kind === 'customer_receipt' ? { delivery } : {}),
+    })];
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Shipment Tracking
+ * ============================================================
+ *
+ * One order can leave from several pickup points as separate shipments,
+ * each moving on its own. The order's status is never set by hand: it
+ * is derived here from where its shipments are.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * A customer buys a vase from Hassan Ceramics and soap from Nadia
+ * Handcraft. The vase arrives Tuesday; the soap is still on the road.
+ * - Both on the road, or both delivered → the order is simply
+ *   "in transit" or "delivered".
+ * - One delivered, one on the road → "partially delivered".
+ * - One picked up, the other still at the workshop → "partially shipped".
+ * - One sent back after delivery → "partially returned".
+ * A shipment is "delayed" when it is still out past its estimated
+ * delivery date, or arrived after it.
+ * ============================================================
+ */
+
+import type { Order, OrderItem, OrderStatus, Shipment, ShipmentStatus } from '../app/shared/types';
+
+// ──────────────────────────────────────────────
+// STATUS DERIVATION
+// ──────────────────────────────────────────────
+
+/** The happy path every shipment follows, in order. */
+export const SHIPMENT_FLOW: readonly ShipmentStatus[] = ['pending', 'accepted', 'ready_to_ship', 'in_transit', 'delivered'];
+
+const OPEN_SHIPMENT_STATUSES: readonly ShipmentStatus[] = ['pending', 'accepted', 'ready_to_ship', 'in_transit'];
+
+export function isShipmentOpen(shipment: Pick<Shipment, 'status'>): boolean {
+  return OPEN_SHIPMENT_STATUSES.includes(shipment.status);
+}
+
+/**
+ * How far along SHIPMENT_FLOW the shipment got: a return happened after
+ * delivery, a refusal at the door after pickup. -1 for cancelled.
+ */
+export function shipmentFlowIndex(status: ShipmentStatus): number {
+  if (status === 'returned') return SHIPMENT_FLOW.indexOf('delivered');
+  if (status === 'rejected_shipping') return SHIPMENT_FLOW.indexOf('in_transit');
+  return SHIPMENT_FLOW.indexOf(status);
+}
+
+/**
+ * The order status its shipments add up to. Cancelled shipments don't
+ * count unless every shipment is cancelled. `fallback` is used for an
+ * order that has no shipments yet.
+ */
+export function deriveOrderStatus(shipments: readonly Pick<Shipment, 'status'>[], fallback: OrderStatus): OrderStatus {
+  if (shipments.length === 0) return fallback;
+  const live = shipments.map(s => s.status).filter(s => s !== 'cancelled');
+  if (live.length === 0) return 'cancelled';
+  if (live.every(s => s === live[0])) return live[0];
+
+  if (live.includes('returned')) return 'partially_returned';
+  if (live.includes('delivered')) return 'partially_delivered';
+
+  const shipped = live.filter(s => s === 'in_transit' || s === 'rejected_shipping');
+  if (shipped.length > 0 && shipped.length < live.length) return 'partially_shipped';
+  if (live.includes('in_transit')) return 'in_transit';
+
+  // Only pre-pickup stages left: the order is as far as its slowest shipment
+  return live.reduce((slowest, s) => (shipmentFlowIndex(s) < shipmentFlowIndex(slowest) ? s : slowest));
+}
+
+/** Shipments that reached the customer (some may have come back since). */
+export function deliveredShipments(order: Pick<Order, 'shipments'>): Shipment[] {
+  return order.shipments.filter(s => s.status === 'delivered' || s.status === 'returned');
+}
+
+/**
+ * Items the customer has received: those on delivered shipments, or all
+ * of them once an order without shipments is delivered. Tax documents
+ * and returns work from these, so the first shipment of a split order
+ * can be invoiced and returned while the rest is still on its way.
+ */
+export function deliveredItems(order: Order): OrderItem[] {
+  if (order.shipments.length === 0) {
+    return order.status === 'delivered' || order.status === 'returned' ? order.items : [];
+  }
+  const locations = new Set(deliveredShipments(order).map(s => s.pickupLocationId));
+  return order.items.filter(i => locations.has(i.pickupLocationId));
+}
+
+/** Delivered shipments whose items have all been returned (quantities by order item id). */
+export function fullyReturnedShipments(order: Order, returned: Record<string, number>): Shipment[] {
+  return order.shipments.filter(shipment => {
+    if (shipment.status !== 'delivered') return false;
+    const items = order.items.filter(i => i.pickupLocationId === shipment.pickupLocationId);
+    return items.length > 0 && items.every(i => (returned[i.id] ?? 0) >= i.quantity);
+  });
+}
+
+// ──────────────────────────────────────────────
+// DELAYS
+// ──────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS);
+
+/**
+ * Days past the estimated delivery date: counted to the delivery for
+ * shipments that arrived, to `today` for those still out. 0 when on
+ * time, when there is no estimate, or when the shipment never arrived
+ * (refused or cancelled).
+ */
+export function getShipmentDelayDays(shipment: Shipment, today: string): number {
+  if (!shipment.estimatedDeliveryDate) return 0;
+  const end = shipment.actualDeliveryDate ?? (isShipmentOpen(shipment) ? today : null);
+  return end ? Math.max(0, daysBetween(shipment.estimatedDeliveryDate, end)) : 0;
+}
+
+export function isShipmentDelayed(shipment: Shipment, today: string): boolean {
+  return getShipmentDelayDays(shipment, today) > 0;
+}
+
+export function hasDelayedShipment(order: Order, today: string): boolean {
+  return order.shipments.some(s => isShipmentDelayed(s, today));
+}
@@ -0,0 +1,196 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Shipping Subsidy Policy & Budget
+ * ============================================================
+ *
+ * Decides how much of a delivery fee the customer pays and how much
+ * Arooba absorbs, and keeps a running tally of that spend against the
+ * monthly subsidy budget.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * "Free delivery over 400 EGP" and "first order ships free" are great
+ * for growth, but every free delivery is paid by Arooba. Without a
+ * budget view, a successful campaign can quietly eat the margin. The
+ * tally below shows spend per day and per zone against the month's
+ * budget, and warns when we are spending faster than planned.
+ * ============================================================
+ */
+
+import { SHIPPING_SUBSIDY } from '../config/constants';
+import type { ShippingFeeResult } from './pricing-engine';
+import { type Money, ZERO_MONEY, egp, toEgp, addMoney, subtractMoney, sumMoney } from './money';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export interface ZoneSubsidyOverride {
+  maxSubsidyRate?: number;
+  freeDeliveryThreshold?: number;
+}
+
+export interface ShippingSubsidyPolicy {
+  maxSubsidyRate: number;
+  freeDeliveryThreshold: number;          // 0 = no free-delivery threshold
+  firstOrderFreeDelivery: boolean;
+  monthlyBudget: number;
+  zoneOverrides: Record<string, ZoneSubsidyOverride>;
+}
+
+export interface ShippingSubsidyContext {
+  basketSubtotal: number;                 // Items only, before delivery
+  toZoneId: string;
+  isFirstOrder: boolean;
+}
+
+export type SubsidyRule = 'free_delivery_threshold' | 'first_order' | 'smartcom_buffer';
+
+export interface ShippingSubsidyResult {
+  courierFee: Money;                      // What the courier charges Arooba
+  customerFee: Money;                     // Bucket E — what the customer pays
+  aroobaSubsidy: Money;                   // courierFee − customerFee
+  rule: SubsidyRule;
+}
+
+/** One delivery's subsidy, as recorded when the order is placed. */
+export interface SubsidyRecord {
+  id: string;
+  orderId: string;
+  zoneId: string;
+  date: string;                           // ISO date (YYYY-MM-DD)
+  amount: number;                         // EGP Arooba absorbed
+  rule: SubsidyRule;
+}
+
+export interface SubsidyBudgetSummary {
+  month: string;                          // YYYY-MM
+  budget: number;
+  spent: number;
+  remaining: number;
+  utilization: number;                    // spent / budget
+  projectedSpend: number;                 // Straight-line to month end
+  isOverPace: boolean;                    // Projected spend exceeds budget
+  byDay: { date: string; amount: number }[];
+  byZone: { zoneId: string; amount: number; deliveries: number }[];
+}
+
+export function getDefaultShippingSubsidyPolicy(): ShippingSubsidyPolicy {
+  return {
+    maxSubsidyRate: SHIPPING_SUBSIDY.maxSubsidyRate,
+    freeDeliveryThreshold: SHIPPING_SUBSIDY.freeDeliveryThreshold,
+    firstOrderFreeDelivery: SHIPPING_SUBSIDY.firstOrderFreeDelivery,
+    monthlyBudget: SHIPPING_SUBSIDY.monthlyBudget,
+    zoneOverrides: { ...SHIPPING_SUBSIDY.zoneOverrides },
+  };
+}
+
+// ──────────────────────────────────────────────
+// POLICY
+// ──────────────────────────────────────────────
+
+/** Flattens zone overrides to the buffer caps the fee calculator needs. */
+export function getZoneSubsidyRates(zoneOverrides: Record<string, ZoneSubsidyOverride>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(zoneOverrides)
+      .filter(([, o]) => o.maxSubsidyRate !== undefined)
+      .map(([zoneId, o]) => [zoneId, o.maxSubsidyRate!])
+  );
+}
+
+/**
+ * Applies the free-delivery rules on top of a fee quote. The quote's
+ * SmartCom buffer already respects the (zone) subsidy cap; this only
+ * decides whether the customer pays nothing at all.
+ *
+ * Order: first-order free delivery → basket threshold (zone override
+ * first) → the quote's buffered fee.
+ */
+export function applyShippingSubsidy(
+  fee: ShippingFeeResult,
+  context: ShippingSubsidyContext,
+  policy: ShippingSubsidyPolicy = getDefaultShippingSubsidyPolicy()
+): ShippingSubsidyResult {
+  const courierFee = fee.totalFee;
+  const threshold = policy.zoneOverrides[context.toZoneId]?.freeDeliveryThreshold ?? policy.freeDeliveryThreshold;
+
+  let rule: SubsidyRule = 'smartcom_buffer';
+  let customerFee = fee.subsidizedCustomerFee;
+  if (policy.firstOrderFreeDelivery && context.isFirstOrder) {
+    rule = 'first_order';
+    customerFee = ZERO_MONEY;
+  } else if (threshold > 0 && context.basketSubtotal >= threshold) {
+    rule = 'free_delivery_threshold';
+    customerFee = ZERO_MONEY;
+  }
+
+  return { courierFee, customerFee, aroobaSubsidy: subtractMoney(courierFee, customerFee), rule };
+}
+
+// ──────────────────────────────────────────────
+// BUDGET TALLY
+// ──────────────────────────────────────────────
+
+/** The tally entry to store when an order's delivery fee is settled. */
+export function toSubsidyRecord(
+  orderId: string,
+  zoneId: string,
+  result: ShippingSubsidyResult,
+  date: Date = new Date()
+): SubsidyRecord {
+  return {
+    id: `sub-${orderId}`,
+    orderId,
+    zoneId,
+    date: date.toISOString().slice(0, 10),
+    amount: toEgp(result.aroobaSubsidy),
+    rule: result.rule,
+  };
+}
+
+/**
+ * Rolls subsidy records up for one month: per day, per zone and against
+ * the budget. `asOf` is "today" for the pace projection.
+ */
+export function summarizeSubsidySpend(
+  records: SubsidyRecord[],
+  monthlyBudget: number,
+  month: string,
+  asOf: Date = new Date()
+): SubsidyBudgetSummary {
+  const inMonth = records.filter(r => r.date.startsWith(month));
+
+  const dayTotals = new Map<string, Money>();
+  const zoneTotals = new Map<string, { amount: Money; deliveries: number }>();
+  for (const record of inMonth) {
+    const amount = egp(record.amount);
+    const day = record.date.slice(0, 10);
+    dayTotals.set(day, addMoney(dayTotals.get(day) ?? ZERO_MONEY, amount));
+    const zone = zoneTotals.get(record.zoneId) ?? { amount: ZERO_MONEY, deliveries: 0 };
+    zoneTotals.set(record.zoneId, { amount: addMoney(zone.amount, amount), deliveries: zone.deliveries + 1 });
+  }
+
+  const spent = toEgp(sumMoney([...dayTotals.values()]));
+
+  // Straight-line projection from the days elapsed so far
+  const [year, monthIndex] = month.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const isCurrentMonth = asOf.getUTCFullYear() === year && asOf.getUTCMonth() + 1 === monthIndex;
+  const daysElapsed = isCurrentMonth ? Math.max(1, asOf.getUTCDate()) : daysInMonth;
+  const projectedSpend = Math.round((spent / daysElapsed) * daysInMonth * 100) / 100;
+
+  return {
+    month,
+    budget: monthlyBudget,
+    spent,
+    remaining: Math.round((monthlyBudget - spent) * 100) / 100,
+    utilization: monthlyBudget > 0 ? spent / monthlyBudget : 0,
+    projectedSpend,
+    isOverPace: projectedSpend > monthlyBudget,
+    byDay: [...dayTotals.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, amount]) => ({ date, amount: toEgp(amount) })),
+    byZone: [...zoneTotals.entries()]
+      .map(([zoneId, z]) => ({ zoneId, amount: toEgp(z.amount), deliveries: z.deliveries }))
+      .sort((a, b) => b.amount - a.amount),
+  };
+}
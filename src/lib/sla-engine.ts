@@ -0,0 +1,240 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Vendor SLA Engine ("Accept or Die")
+ * ============================================================
+ *
+ * Checks open orders against the vendor SLAs (sla.* configs) and says
+ * what must happen: which orders to cancel and which vendors get a
+ * reliability strike. Also turns a courier's "vendor not ready" report
+ * into a wasted-trip fee. Pure — the clock is injected, and the store
+ * (store/sla-store.ts) carries out the actions.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * - A vendor has sla.acceptanceWindowHours (24h) to accept a new order.
+ *   If they don't, the order is cancelled automatically — the customer
+ *   is not left waiting — and the vendor gets a strike.
+ * - After accepting, they have sla.maxDispatchHours (24h) to have it
+ *   ready for the courier. Missing that is a strike too (the order
+ *   stays open). Made-to-order items are judged on their production
+ *   schedule instead; the dispatch clock starts once they are finished.
+ * - A courier who arrives and finds nothing ready costs us a trip: the
+ *   vendor pays sla.wastedTripFee (20 EGP, deducted at payout) and gets
+ *   a strike.
+ * - At sla.maxReliabilityStrikes (3) the vendor's account goes into
+ *   review: no payouts until an admin clears it.
+ * ============================================================
+ */
+
+import type { Order, ParentVendor } from '../app/shared/types';
+import { type Money, egp } from './money';
+import { type EscrowClock, systemClock } from './escrow-scheduler';
+import type { WastedTrip } from './payout-batches';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+export type SlaKind = 'acceptance' | 'dispatch';
+
+export type StrikeReason = 'acceptance_expired' | 'dispatch_late' | 'wasted_trip';
+
+/** From useAdminConfigStore().getVendorSlaConfig(). */
+export interface SlaConfig {
+  acceptanceWindowHours: number;
+  maxDispatchHours: number;
+  maxReliabilityStrikes: number;
+  wastedTripFee: number;                  // EGP
+}
+
+/** The SLA an open order is running against. */
+export interface OrderSlaStatus {
+  orderId: string;
+  kind: SlaKind;
+  startedAt: string;
+  deadline: string;
+  remainingMs: number;                    // Negative once breached
+  breached: boolean;
+}
+
+export interface ReliabilityStrike {
+  id: string;
+  vendorId: string;
+  orderId: string;
+  shipmentId?: string;
+  reason: StrikeReason;
+  at: string;
+  fee?: Money;                            // Wasted trips only
+}
+
+export type SlaAction =
+  | { kind: 'cancel_order'; orderId: string; reason: string }
+  | { kind: 'strike'; strike: ReliabilityStrike };
+
+export interface SlaEvaluation {
+  statuses: OrderSlaStatus[];
+  actions: SlaAction[];
+}
+
+export interface SlaEvaluationOptions {
+  config: SlaConfig;
+  clock?: EscrowClock;
+  /** Strikes already issued — an order is never struck twice for the same breach. */
+  strikes?: ReliabilityStrike[];
+}
+
+export class SlaError extends Error {
+  readonly code: 'shipment_not_found' | 'shipment_already_picked_up' | 'no_vendor_for_shipment';
+
+  constructor(code: SlaError['code'], message: string) {
+    super(message);
+    this.name = 'SlaError';
+    this.code = code;
+  }
+}
+
+export const STRIKE_REASON_LABELS: Record<StrikeReason, { ar: string; en: string }> = {
+  acceptance_expired: { ar: 'لم يُقبل الطلب في المهلة', en: 'Order not accepted in time' },
+  dispatch_late: { ar: 'تأخر تجهيز الطلب للشحن', en: 'Order not ready to ship in time' },
+  wasted_trip: { ar: 'رحلة ضائعة للمندوب', en: 'Courier wasted trip' },
+};
+
+// ──────────────────────────────────────────────
+// EVALUATION
+// ──────────────────────────────────────────────
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const orderVendorIds = (order: Order) => [...new Set(order.items.map(i => i.vendorId))];
+
+const strikeId = (reason: StrikeReason, orderId: string, vendorId: string) => `STR-${reason}-${orderId}-${vendorId}`;
+
+/**
+ * When the dispatch clock started: at acceptance, or when the last
+ * made-to-order item was finished. Null while production is running.
+ */
+function dispatchStartedAt(order: Order): string | null {
+  const production = order.items.flatMap(i => (i.production ? [i.production] : []));
+  if (production.some(p => p.stage !== 'completed')) return null;
+  return [order.acceptedAt ?? order.updatedAt, ...production.map(p => p.completedAt ?? '')]
+    .reduce((latest, at) => (at > latest ? at : latest));
+}
+
+/**
+ * Pending orders run against the acceptance window (from creation),
+ * accepted orders against the dispatch window (from acceptance, or
+ * from the end of production). Any other status, or an order still in
+ * production, has no SLA — returns null.
+ */
+export function getOrderSla(order: Order, config: SlaConfig, now: Date): OrderSlaStatus | null {
+  const dispatchFrom = order.status === 'accepted' ? dispatchStartedAt(order) : null;
+  const sla = order.status === 'pending'
+    ? { kind: 'acceptance' as const, startedAt: order.createdAt, hours: config.acceptanceWindowHours }
+    : dispatchFrom
+      ? { kind: 'dispatch' as const, startedAt: dispatchFrom, hours: config.maxDispatchHours }
+      : null;
+  if (!sla) return null;
+
+  const deadline = Date.parse(sla.startedAt) + sla.hours * HOUR_MS;
+  const remainingMs = deadline - now.getTime();
+  return {
+    orderId: order.id,
+    kind: sla.kind,
+    startedAt: sla.startedAt,
+    deadline: new Date(deadline).toISOString(),
+    remainingMs,
+    breached: remainingMs <= 0,
+  };
+}
+
+/**
+ * What the SLAs require right now. Expired acceptance windows cancel
+ * the order and strike every vendor on it; late dispatch strikes only.
+ *
+ * @example
+ * evaluateSla(orders, { config, clock: () => new Date('2025-12-02T10:00:00Z') });
+ * // → { statuses: [...], actions: [{ kind: 'cancel_order', orderId: 'ORD-20251201-042', … }, { kind: 'strike', … }] }
+ */
+export function evaluateSla(orders: Order[], options: SlaEvaluationOptions): SlaEvaluation {
+  const now = (options.clock ?? systemClock)();
+  const issued = new Set((options.strikes ?? []).map(s => s.id));
+  const statuses: OrderSlaStatus[] = [];
+  const actions: SlaAction[] = [];
+
+  for (const order of orders) {
+    const status = getOrderSla(order, options.config, now);
+    if (!status) continue;
+    statuses.push(status);
+    if (!status.breached) continue;
+
+    const reason: StrikeReason = status.kind === 'acceptance' ? 'acceptance_expired' : 'dispatch_late';
+    if (status.kind === 'acceptance') {
+      actions.push({
+        kind: 'cancel_order',
+        orderId: order.id,
+        reason: `انتهت مهلة القبول (${options.config.acceptanceWindowHours} ساعة)`,
+      });
+    }
+    for (const vendorId of orderVendorIds(order)) {
+      const id = strikeId(reason, order.id, vendorId);
+      if (issued.has(id)) continue;
+      actions.push({ kind: 'strike', strike: { id, vendorId, orderId: order.id, reason, at: status.deadline } });
+    }
+  }
+  return { statuses, actions };
+}
+
+// ──────────────────────────────────────────────
+// WASTED TRIPS & STRIKES
+// ──────────────────────────────────────────────
+
+/**
+ * A courier came for `shipmentId` and the vendor wasn't ready. The fee
+ * is deducted from the vendor's next payout (lib/payout-batches.ts).
+ *
+ * @throws SlaError when the shipment is not on the order, was already
+ *   picked up, or has no vendor items.
+ */
+export function recordWastedTrip(
+  order: Order,
+  shipmentId: string,
+  options: { at: string; config: Pick<SlaConfig, 'wastedTripFee'> }
+): { trip: WastedTrip; strike: ReliabilityStrike } {
+  const shipment = order.shipments.find(s => s.id === shipmentId);
+  if (!shipment) {
+    throw new SlaError('shipment_not_found', `Shipment ${shipmentId} is not on order ${order.id}`);
+  }
+  if (!['pending', 'accepted', 'ready_to_ship'].includes(shipment.status)) {
+    throw new SlaError('shipment_already_picked_up', `Shipment ${shipmentId} is ${shipment.status} — the courier already has it`);
+  }
+  const vendorId = order.items.find(i => i.pickupLocationId === shipment.pickupLocationId)?.vendorId;
+  if (!vendorId) {
+    throw new SlaError('no_vendor_for_shipment', `No item of ${order.id} ships from ${shipment.pickupLocationId}`);
+  }
+
+  return {
+    trip: { vendorId, shipmentId, date: options.at.slice(0, 10) },
+    strike: {
+      id: `STR-wasted_trip-${shipmentId}-${options.at}`,
+      vendorId,
+      orderId: order.id,
+      shipmentId,
+      reason: 'wasted_trip',
+      at: options.at,
+      fee: egp(options.config.wastedTripFee),
+    },
+  };
+}
+
+/**
+ * The vendor after one more strike. An active vendor reaching
+ * `maxReliabilityStrikes` goes into account review.
+ */
+export function applyStrike(vendor: ParentVendor, strike: ReliabilityStrike, maxReliabilityStrikes: number): ParentVendor {
+  const reliabilityStrikes = vendor.reliabilityStrikes + 1;
+  return {
+    ...vendor,
+    reliabilityStrikes,
+    status: vendor.status === 'active' && reliabilityStrikes >= maxReliabilityStrikes ? 'under_review' : vendor.status,
+    updatedAt: strike.at,
+  };
+}
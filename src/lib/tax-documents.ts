@@ -0,0 +1,611 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Tax Documents (VAT Invoices)
+ * ============================================================
+ *
+ * Turns a delivered order into the documents the Egyptian Tax Authority
+ * (ETA) expects, as structured JSON modelled on the ETA e-invoice schema
+ * (issuer, receiver, invoice lines, tax totals) plus a printable
+ * bilingual HTML page. Returned orders get credit notes.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * One customer payment hides three sales, and each needs its own paper:
+ * - Customer receipt — what the customer paid, VAT included.
+ * - Vendor VAT invoice — the vendor's sale to the customer: Bucket A
+ *   plus Bucket B VAT. Only VAT-registered vendors can issue one.
+ * - Commission invoice — Arooba's service to the vendor: Bucket C plus
+ *   Bucket D VAT. Issued to every vendor.
+ * A credit note reverses (all or part of) one of these when goods come
+ * back; the original is never edited.
+ * A customer document above E_INVOICING.personIdThreshold (50,000 EGP)
+ * must carry the buyer's 14-digit national ID; a national ID given on a
+ * smaller one must still be valid.
+ *
+ * Amounts are kept as Money (see lib/money.ts) and only turned into ETA
+ * decimals when the JSON is built, so a credit note for one of three
+ * units reverses exactly its share.
+ * ============================================================
+ */
+
+import type { Order, OrderItem, ParentVendor, PickupLocation } from '../app/shared/types';
+import { E_INVOICING, PLATFORM, TAX } from '../config/constants';
+import { type Money, ZERO_MONEY, addMoney, allocateMoney, egp, sumMoney, toEgp } from './money';
+import { deliveredItems, deliveredShipments } from './shipment-tracking';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS — ETA schema
+// ──────────────────────────────────────────────
+
+export interface EtaAddress {
+  branchID?: string;
+  country: string;
+  governate: string;
+  regionCity: string;
+  street: string;
+  buildingNumber: string;
+}
+
+/** B = business (tax ID), P = person (national ID, optional under the threshold). */
+export interface EtaParty {
+  type: 'B' | 'P';
+  id: string;
+  name: string;
+  address: EtaAddress;
+}
+
+export interface EtaTaxableItem {
+  taxType: string;
+  subType: string;
+  rate: number;                           // Percent, e.g. 14
+  amount: number;
+}
+
+export interface EtaInvoiceLine {
+  description: string;
+  itemType: string;
+  itemCode: string;
+  unitType: string;
+  quantity: number;
+  internalCode: string;
+  unitValue: { currencySold: string; amountEGP: number };
+  salesTotal: number;
+  discount: { rate: number; amount: number };
+  netTotal: number;
+  taxableItems: EtaTaxableItem[];
+  valueDifference: number;
+  totalTaxableFees: number;
+  itemsDiscount: number;
+  total: number;
+}
+
+export interface EtaDocument {
+  issuer: EtaParty;
+  receiver: EtaParty;
+  documentType: 'I' | 'C';                // Invoice / Credit note
+  documentTypeVersion: string;
+  dateTimeIssued: string;
+  taxpayerActivityCode: string;
+  internalID: string;
+  references?: string[];                  // Credit notes: the reversed invoice
+  invoiceLines: EtaInvoiceLine[];
+  totalDiscountAmount: number;
+  totalSalesAmount: number;
+  netAmount: number;
+  taxTotals: { taxType: string; amount: number }[];
+  totalAmount: number;
+  extraDiscountAmount: number;
+  totalItemsDiscountAmount: number;
+}
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS — Arooba documents
+// ──────────────────────────────────────────────
+
+export type TaxDocumentKind = 'customer_receipt' | 'vendor_vat_invoice' | 'commission_invoice' | 'credit_note';
+
+export interface TaxDocumentLine {
+  orderItemId?: string;                   // Absent for the delivery line
+  itemCode: string;
+  description: string;
+  descriptionAr: string;
+  quantity: number;
+  net: Money;                             // Before VAT
+  vat: Money;
+  vatRate: number;                        // 0.14; on the receipt the line's effective rate
+}
+
+export interface TaxDocument {
+  id: string;                             // ETA internalID
+  kind: TaxDocumentKind;
+  orderId: string;
+  vendorId?: string;
+  issuedAt: string;
+  issuer: EtaParty;
+  receiver: EtaParty;
+  lines: TaxDocumentLine[];
+  netTotal: Money;
+  vatTotal: Money;
+  total: Money;
+  // Credit notes only
+  creditedDocumentId?: string;
+  creditedKind?: Exclude<TaxDocumentKind, 'credit_note'>;
+}
+
+export interface OrderDocumentOptions {
+  pickupLocations?: PickupLocation[];     // Vendor issuer address; blank when unknown
+  issuedAt?: string;                      // Default: the delivery date of the shipment (or order) documented
+  vatRate?: number;
+}
+
+/** Thrown when an order or document cannot be issued as asked. */
+export class TaxDocumentError extends Error {
+  readonly code:
+    | 'order_not_delivered'
+    | 'vendor_not_found'
+    | 'item_not_on_document'
+    | 'quantity_exceeds_document'
+    | 'national_id_required'
+    | 'invalid_national_id';
+
+  constructor(code: TaxDocumentError['code'], message: string) {
+    super(message);
+    this.name = 'TaxDocumentError';
+    this.code = code;
+  }
+}
+
+// ──────────────────────────────────────────────
+// PARTIES
+// ──────────────────────────────────────────────
+
+const BLANK_ADDRESS: EtaAddress = { country: 'EG', governate: '', regionCity: '', street: '', buildingNumber: '' };
+
+function aroobaParty(): EtaParty {
+  return { type: 'B', id: E_INVOICING.arooba.taxId, name: E_INVOICING.arooba.name, address: { ...E_INVOICING.arooba.address } };
+}
+
+function customerParty(order: Order): EtaParty {
+  return {
+    type: 'P',
+    id: order.customerNationalId ?? '',
+    name: order.customerName,
+    address: { country: 'EG', governate: order.deliveryCity, regionCity: order.deliveryCity, street: order.deliveryAddress, buildingNumber: '' },
+  };
+}
+
+function vendorParty(vendor: ParentVendor, location?: PickupLocation): EtaParty {
+  return {
+    type: vendor.taxId ? 'B' : 'P',
+    id: vendor.taxId ?? '',
+    name: vendor.businessNameAr,
+    address: location
+      ? { branchID: '0', country: 'EG', governate: location.city, regionCity: location.city, street: location.address, buildingNumber: '' }
+      : BLANK_ADDRESS,
+  };
+}
+
+// Governorate of birth: digits 8–9 of the national ID (88 = born abroad)
+const NATIONAL_ID_GOVERNORATES = new Set([
+  '01', '02', '03', '04', '11', '12', '13', '14', '15', '16', '17', '18', '19',
+  '21', '22', '23', '24', '25', '26', '27', '28', '29', '31', '32', '33', '34', '35', '88',
+]);
+
+/**
+ * An Egyptian national ID: 14 digits — century (2 = 1900s, 3 = 2000s),
+ * birth date YYMMDD, governorate code, then serial and check digit.
+ */
+export function isValidNationalId(id: string): boolean {
+  if (!/^[23]\d{13}$/.test(id)) return false;
+  const year = (id[0] === '2' ? 1900 : 2000) + Number(id.slice(1, 3));
+  const month = Number(id.slice(3, 5));
+  const day = Number(id.slice(5, 7));
+  const birth = new Date(Date.UTC(year, month - 1, day));
+  return birth.getUTCFullYear() === year && birth.getUTCMonth() === month - 1 && birth.getUTCDate() === day
+    && NATIONAL_ID_GOVERNORATES.has(id.slice(7, 9));
+}
+
+/**
+ * Checks the buyer's national ID for a document of `total` addressed to
+ * them: required above E_INVOICING.personIdThreshold, valid whenever given.
+ *
+ * @throws TaxDocumentError ('national_id_required' | 'invalid_national_id')
+ */
+export function validateBuyerNationalId(order: Pick<Order, 'id' | 'customerNationalId'>, total: Money): void {
+  const id = order.customerNationalId?.trim();
+  if (!id) {
+    if (total.piastres > egp(E_INVOICING.personIdThreshold).piastres) {
+      throw new TaxDocumentError(
+        'national_id_required',
+        `Order ${order.id} comes to ${toEgp(total)} EGP — above ${E_INVOICING.personIdThreshold} EGP the buyer's national ID is required`
+      );
+    }
+    return;
+  }
+  if (!isValidNationalId(id)) {
+    throw new TaxDocumentError('invalid_national_id', `${id} on order ${order.id} is not a valid 14-digit national ID`);
+  }
+}
+
+// ──────────────────────────────────────────────
+// DOCUMENT GENERATION
+// ──────────────────────────────────────────────
+
+function buildDocument(
+  base: Omit<TaxDocument, 'netTotal' | 'vatTotal' | 'total'>
+): TaxDocument {
+  const netTotal = sumMoney(base.lines.map(l => l.net));
+  const vatTotal = sumMoney(base.lines.map(l => l.vat));
+  return { ...base, netTotal, vatTotal, total: addMoney(netTotal, vatTotal) };
+}
+
+function itemCode(issuerTaxId: string, code: string): string {
+  return `EG-${issuerTaxId || 'NA'}-${code}`;
+}
+
+function effectiveRate(net: Money, vat: Money): number {
+  return net.piastres > 0 ? Math.round((vat.piastres / net.piastres) * 10000) / 10000 : 0;
+}
+
+function lastDeliveryDate(order: Order): string {
+  const dates = order.shipments.map(s => s.actualDeliveryDate).filter((d): d is string => Boolean(d)).sort();
+  return dates[dates.length - 1] ?? order.updatedAt;
+}
+
+/**
+ * Every document a delivered order needs: one customer receipt, a VAT
+ * invoice per VAT-registered vendor and a commission invoice per vendor.
+ * Returned orders were delivered first, so they are accepted too — their
+ * credit notes come from `issueCreditNote`. A split order gets a set of
+ * documents per delivered shipment (IDs suffixed with the shipment ID),
+ * so each is issued when it arrives and never changes afterwards.
+ *
+ * @throws TaxDocumentError when nothing is delivered yet, a vendor is
+ *   unknown, or a receipt above the threshold lacks a valid national ID.
+ *
+ * @example
+ * const docs = generateOrderDocuments(order, vendors);
+ * docs.map(d => d.id);
+ * // → ['RCP-ORD-…', 'VINV-ORD-…-v-004', 'CINV-ORD-…-v-004', 'CINV-ORD-…-v-003']
+ */
+export function generateOrderDocuments(
+  order: Order,
+  vendors: ParentVendor[],
+  options: OrderDocumentOptions = {}
+): TaxDocument[] {
+  if (deliveredItems(order).length === 0) {
+    throw new TaxDocumentError('order_not_delivered', `Order ${order.id} is ${order.status}; documents are issued on delivery`);
+  }
+  if (order.shipments.length <= 1) {
+    return documentsFor(order, order.items, vendors, { ...options, idSuffix: '', issuedAt: options.issuedAt ?? lastDeliveryDate(order) });
+  }
+  return deliveredShipments(order).flatMap(shipment => documentsFor(
+    order,
+    order.items.filter(i => i.pickupLocationId === shipment.pickupLocationId),
+    vendors,
+    { ...options, idSuffix: `-${shipment.id}`, issuedAt: options.issuedAt ?? shipment.actualDeliveryDate ?? order.updatedAt }
+  ));
+}
+
+function documentsFor(
+  order: Order,
+  orderItems: OrderItem[],
+  vendors: ParentVendor[],
+  options: OrderDocumentOptions & { idSuffix: string; issuedAt: string }
+): TaxDocument[] {
+  const { issuedAt, idSuffix } = options;
+  const vatRate = options.vatRate ?? TAX.vatRate;
+  const customer = customerParty(order);
+
+  // Customer receipt — one line per item at the shelf price, plus delivery
+  const receiptLines: TaxDocumentLine[] = orderItems.map((item) => {
+    const net = addMoney(item.bucketA_vendorRevenue, item.bucketC_aroobaRevenue);
+    const vat = addMoney(item.bucketB_vendorVat, item.bucketD_aroobaVat);
+    return {
+      orderItemId: item.id,
+      itemCode: itemCode(E_INVOICING.arooba.taxId, item.productId),
+      description: item.productTitle,
+      descriptionAr: item.productTitle,
+      quantity: item.quantity,
+      net,
+      vat,
+      vatRate: effectiveRate(net, vat),
+    };
+  });
+  const deliveryFee = sumMoney(orderItems.map(i => i.bucketE_logisticsFee));
+  if (deliveryFee.piastres > 0) {
+    receiptLines.push({
+      itemCode: itemCode(E_INVOICING.arooba.taxId, 'DELIVERY'),
+      description: 'Delivery (collected for the courier)',
+      descriptionAr: 'التوصيل (محصّل لصالح شركة الشحن)',
+      quantity: 1,
+      net: deliveryFee,
+      vat: ZERO_MONEY,
+      vatRate: 0,
+    });
+  }
+  const receipt = buildDocument({
+    id: `RCP-${order.id}${idSuffix}`,
+    kind: 'customer_receipt',
+    orderId: order.id,
+    issuedAt,
+    issuer: aroobaParty(),
+    receiver: customer,
+    lines: receiptLines,
+  });
+  // The receipt is the largest document addressed to the buyer
+  validateBuyerNationalId(order, receipt.total);
+  const documents: TaxDocument[] = [receipt];
+
+  const itemsByVendor = new Map<string, OrderItem[]>();
+  for (const item of orderItems) {
+    itemsByVendor.set(item.vendorId, [...(itemsByVendor.get(item.vendorId) ?? []), item]);
+  }
+
+  for (const [vendorId, items] of itemsByVendor) {
+    const vendor = vendors.find(v => v.id === vendorId);
+    if (!vendor) {
+      throw new TaxDocumentError('vendor_not_found', `Vendor ${vendorId} on order ${order.id} was not found`);
+    }
+    const location = options.pickupLocations?.find(l => l.id === items[0].pickupLocationId);
+    const vendorAsParty = vendorParty(vendor, location);
+
+    // Vendor VAT invoice — Bucket A + B, vendor → customer
+    if (vendor.isVatRegistered) {
+      documents.push(buildDocument({
+        id: `VINV-${order.id}-${vendorId}${idSuffix}`,
+        kind: 'vendor_vat_invoice',
+        orderId: order.id,
+        vendorId,
+        issuedAt,
+        issuer: vendorAsParty,
+        receiver: customer,
+        lines: items.map((item) => ({
+          orderItemId: item.id,
+          itemCode: itemCode(vendorAsParty.id, item.productId),
+          description: item.productTitle,
+          descriptionAr: item.productTitle,
+          quantity: item.quantity,
+          net: item.bucketA_vendorRevenue,
+          vat: item.bucketB_vendorVat,
+          vatRate,
+        })),
+      }));
+    }
+
+    // Commission invoice — Bucket C + D, Arooba → vendor
+    documents.push(buildDocument({
+      id: `CINV-${order.id}-${vendorId}${idSuffix}`,
+      kind: 'commission_invoice',
+      orderId: order.id,
+      vendorId,
+      issuedAt,
+      issuer: aroobaParty(),
+      receiver: vendorAsParty,
+      lines: items.map((item) => ({
+        orderItemId: item.id,
+        itemCode: itemCode(E_INVOICING.arooba.taxId, 'COMMISSION'),
+        description: `Marketplace commission & services — ${item.productId}`,
+        descriptionAr: `عمولة وخدمات المنصة — ${item.productTitle}`,
+        quantity: item.quantity,
+        net: item.bucketC_aroobaRevenue,
+        vat: item.bucketD_aroobaVat,
+        vatRate,
+      })),
+    }));
+  }
+
+  return documents;
+}
+
+/**
+ * Credit note reversing `original` — all of it, or only the listed item
+ * quantities for a partial return (the delivery line is only reversed on
+ * a full reversal, or by the `delivery` amount given). `sequence` keeps
+ * IDs unique when one invoice gets several partial credit notes.
+ *
+ * @example
+ * issueCreditNote(vendorInvoice, { issuedAt: '2025-12-03', items: [{ orderItemId: 'oi-005', quantity: 1 }] })
+ * // → { kind: 'credit_note', creditedDocumentId: 'VINV-…', total: half the line }
+ */
+export function issueCreditNote(
+  original: TaxDocument,
+  options: { issuedAt: string; items?: { orderItemId: string; quantity: number }[]; delivery?: Money; sequence?: number }
+): TaxDocument {
+  if (original.kind === 'credit_note') {
+    throw new TaxDocumentError('item_not_on_document', `${original.id} is already a credit note`);
+  }
+
+  let lines: TaxDocumentLine[];
+  if (!options.items) {
+    lines = original.lines.map(line => ({ ...line }));
+  } else {
+    lines = options.items.map(({ orderItemId, quantity }) => {
+      const line = original.lines.find(l => l.orderItemId === orderItemId);
+      if (!line) {
+        throw new TaxDocumentError('item_not_on_document', `Item ${orderItemId} is not on ${original.id}`);
+      }
+      if (quantity <= 0 || quantity > line.quantity) {
+        throw new TaxDocumentError('quantity_exceeds_document', `Cannot credit ${quantity} of ${line.quantity} for ${orderItemId}`);
+      }
+      // Exact share of the line: the rounding piastre stays with the kept units
+      const [net] = allocateMoney(line.net, [quantity, line.quantity - quantity]);
+      const [vat] = allocateMoney(line.vat, [quantity, line.quantity - quantity]);
+      return { ...line, quantity, net, vat };
+    });
+    const deliveryLine = original.lines.find(l => !l.orderItemId);
+    if (deliveryLine && options.delivery && options.delivery.piastres > 0) {
+      if (options.delivery.piastres > deliveryLine.net.piastres) {
+        throw new TaxDocumentError('quantity_exceeds_document', `Cannot credit more delivery than ${original.id} charged`);
+      }
+      lines.push({ ...deliveryLine, net: options.delivery });
+    }
+  }
+
+  return buildDocument({
+    id: `CN-${original.id}${options.sequence ? `-${options.sequence}` : ''}`,
+    kind: 'credit_note',
+    orderId: original.orderId,
+    vendorId: original.vendorId,
+    issuedAt: options.issuedAt,
+    issuer: original.issuer,
+    receiver: original.receiver,
+    lines,
+    creditedDocumentId: original.id,
+    creditedKind: original.kind,
+  });
+}
+
+// ──────────────────────────────────────────────
+// ETA JSON
+// ──────────────────────────────────────────────
+
+const etaAmount = (money: Money) => toEgp(money);
+
+/** The document in ETA e-invoice shape, ready to sign and submit. */
+export function toEtaDocument(doc: TaxDocument): EtaDocument {
+  const invoiceLines: EtaInvoiceLine[] = doc.lines.map((line) => ({
+    description: line.description,
+    itemType: E_INVOICING.itemType,
+    itemCode: line.itemCode,
+    unitType: E_INVOICING.unitType,
+    quantity: line.quantity,
+    internalCode: line.orderItemId ?? line.itemCode,
+    unitValue: {
+      currencySold: PLATFORM.currency,
+      amountEGP: Math.round((line.net.piastres / line.quantity) * 1000) / 100000,  // ETA allows 5 decimals
+    },
+    salesTotal: etaAmount(line.net),
+    discount: { rate: 0, amount: 0 },
+    netTotal: etaAmount(line.net),
+    taxableItems: line.vatRate > 0 || line.vat.piastres > 0
+      ? [{
+        taxType: E_INVOICING.vatTaxType,
+        subType: E_INVOICING.vatSubType,
+        rate: Math.round(line.vatRate * 10000) / 100,
+        amount: etaAmount(line.vat),
+      }]
+      : [],
+    valueDifference: 0,
+    totalTaxableFees: 0,
+    itemsDiscount: 0,
+    total: etaAmount(addMoney(line.net, line.vat)),
+  }));
+
+  return {
+    issuer: doc.issuer,
+    receiver: doc.receiver,
+    documentType: doc.kind === 'credit_note' ? 'C' : 'I',
+    documentTypeVersion: E_INVOICING.documentTypeVersion,
+    dateTimeIssued: new Date(doc.issuedAt).toISOString(),
+    taxpayerActivityCode: E_INVOICING.taxpayerActivityCode,
+    internalID: doc.id,
+    ...(doc.creditedDocumentId ? { references: [doc.creditedDocumentId] } : {}),
+    invoiceLines,
+    totalDiscountAmount: 0,
+    totalSalesAmount: etaAmount(doc.netTotal),
+    netAmount: etaAmount(doc.netTotal),
+    taxTotals: doc.vatTotal.piastres > 0 ? [{ taxType: E_INVOICING.vatTaxType, amount: etaAmount(doc.vatTotal) }] : [],
+    totalAmount: etaAmount(doc.total),
+    extraDiscountAmount: 0,
+    totalItemsDiscountAmount: 0,
+  };
+}
+
+// ──────────────────────────────────────────────
+// PRINTABLE HTML
+// ──────────────────────────────────────────────
+
+export const TAX_DOCUMENT_TITLES: Record<TaxDocumentKind, { ar: string; en: string }> = {
+  customer_receipt: { ar: 'إيصال العميل', en: 'Customer Receipt' },
+  vendor_vat_invoice: { ar: 'فاتورة ضريبية (المورد)', en: 'Tax Invoice (Vendor)' },
+  commission_invoice: { ar: 'فاتورة عمولة أروبة', en: 'Arooba Commission Invoice' },
+  credit_note: { ar: 'إشعار دائن', en: 'Credit Note' },
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+}
+
+const money = (value: Money) => toEgp(value).toFixed(2);
+
+function partyHtml(labelAr: string, labelEn: string, party: EtaParty): string {
+  const address = [party.address.street, party.address.regionCity].filter(Boolean).join('، ');
+  return `<div class="party"><h3>${labelAr} / ${labelEn}</h3>
+<p><strong>${escapeHtml(party.name)}</strong></p>
+${party.id ? `<p>الرقم الضريبي / Tax ID: <span dir="ltr">${escapeHtml(party.id)}</span></p>` : ''}
+${address ? `<p>${escapeHtml(address)}</p>` : ''}</div>`;
+}
+
+/**
+ * A self-contained bilingual (Arabic / English) HTML page for printing.
+ * Open it in a new window and call print().
+ */
+export function renderTaxDocumentHtml(doc: TaxDocument): string {
+  const title = doc.kind === 'credit_note' && doc.creditedKind
+    ? { ar: `${TAX_DOCUMENT_TITLES.credit_note.ar} — ${TAX_DOCUMENT_TITLES[doc.creditedKind].ar}`, en: `${TAX_DOCUMENT_TITLES.credit_note.en} — ${TAX_DOCUMENT_TITLES[doc.creditedKind].en}` }
+    : TAX_DOCUMENT_TITLES[doc.kind];
+
+  const rows = doc.lines.map((line) => `<tr>
+<td>${escapeHtml(line.descriptionAr)}${line.description !== line.descriptionAr ? `<br><small dir="ltr">${escapeHtml(line.description)}</small>` : ''}</td>
+<td>${line.quantity}</td>
+<td>${(line.net.piastres / line.quantity / 100).toFixed(2)}</td>
+<td>${money(line.net)}</td>
+<td>${(line.vatRate * 100).toFixed(2)}%</td>
+<td>${money(line.vat)}</td>
+<td>${money(addMoney(line.net, line.vat))}</td>
+</tr>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.id)}</title>
+<style>
+body { font-family: 'Cairo', 'Segoe UI', Tahoma, sans-serif; color: #3b2a21; margin: 32px; }
+h1 { font-size: 20px; margin: 0; } h1 small { display: block; font-size: 13px; color: #8a6e5c; }
+h3 { font-size: 13px; color: #8a6e5c; margin: 0 0 4px; }
+.meta, .parties { display: flex; justify-content: space-between; gap: 24px; margin: 16px 0; font-size: 13px; }
+.party { flex: 1; border: 1px solid #e2d2b8; border-radius: 8px; padding: 12px; } .party p { margin: 2px 0; }
+table { width: 100%; border-collapse: collapse; font-size: 13px; }
+th, td { border-bottom: 1px solid #e2d2b8; padding: 6px 8px; text-align: right; }
+th { background: #faf5ee; } th small { display: block; font-weight: normal; color: #8a6e5c; }
+.totals { margin-top: 16px; margin-right: auto; width: 280px; font-size: 14px; }
+.totals div { display: flex; justify-content: space-between; padding: 4px 0; } .totals .grand { font-weight: bold; border-top: 2px solid #3b2a21; }
+footer { margin-top: 32px; font-size: 11px; color: #8a6e5c; }
+</style>
+</head>
+<body>
+<h1>${title.ar}<small>${title.en}</small></h1>
+<div class="meta">
+<div>رقم المستند / Document No.: <strong dir="ltr">${escapeHtml(doc.id)}</strong></div>
+<div>الطلب / Order: <span dir="ltr">${escapeHtml(doc.orderId)}</span></div>
+<div>التاريخ / Date: <span dir="ltr">${escapeHtml(doc.issuedAt.slice(0, 10))}</span></div>
+</div>
+${doc.creditedDocumentId ? `<p>مرجع المستند الأصلي / Original document: <strong dir="ltr">${escapeHtml(doc.creditedDocumentId)}</strong></p>` : ''}
+<div class="parties">
+${partyHtml('المُصدِر', 'Issuer', doc.issuer)}
+${partyHtml('المُستلِم', 'Receiver', doc.receiver)}
+</div>
+<table>
+<thead><tr>
+<th>البيان<small>Description</small></th>
+<th>الكمية<small>Qty</small></th>
+<th>سعر الوحدة<small>Unit price</small></th>
+<th>الصافي<small>Net</small></th>
+<th>نسبة الضريبة<small>VAT rate</small></th>
+<th>ض.ق.م<small>VAT</small></th>
+<th>الإجمالي<small>Total</small></th>
+</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<div class="totals">
+<div><span>الصافي / Net</span><span>${money(doc.netTotal)} ${PLATFORM.currency}</span></div>
+<div><span>ض.ق.م / VAT</span><span>${money(doc.vatTotal)} ${PLATFORM.currency}</span></div>
+<div class="grand"><span>${doc.kind === 'credit_note' ? 'إجمالي المرتجع / Total credited' : 'الإجمالي / Total'}</span><span>${money(doc.total)} ${PLATFORM.currency}</span></div>
+</div>
+<footer>${PLATFORM.nameEn} — ${PLATFORM.website}</footer>
+</body>
+</html>`;
+}
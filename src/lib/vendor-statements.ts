@@ -0,0 +1,527 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Vendor Statements of Account
+ * ============================================================
+ *
+ * Builds a vendor's monthly statement: opening balance, every delivered
+ * order line with its buckets, cooperative fees, refunds, wasted-trip
+ * fees, payouts and the closing pending / available balances — then
+ * renders it as printable bilingual HTML or as CSV.
+ *
+ * BUSINESS CONTEXT (for non-developers):
+ * "Why is my payout smaller than what I sold?" is the most common
+ * support call. The statement answers it line by line, from the same
+ * numbers the finance screens use:
+ * - Order lines are priced by the pricing engine (FinanceWaterfall).
+ * - Balances move exactly as in the wallets table: a sale enters
+ *   escrow (pending), is released to available after the hold, and
+ *   leaves with a payout. Refunds during the hold never reach the
+ *   vendor; wasted-trip fees are taken at payout.
+ * - Parent vendors also see what they owe each sub-vendor (artisan).
+ *
+ * Opening + movements = closing, to the piastre.
+ * ============================================================
+ */
+
+import type { Cooperative, ParentVendor, Product, SubVendor } from '../app/shared/types';
+import { PLATFORM } from '../config/constants';
+import { type Money, ZERO_MONEY, toEgp, addMoney, subtractMoney, sumMoney, multiplyMoney, negateMoney, isZeroMoney } from './money';
+import { type PricingConfigResolver, calculatePrice } from './pricing-engine';
+import { resolvePricingInput, type VendorDirectory } from './pricing-inputs';
+import type { VendorEscrowTimeline } from './escrow-scheduler';
+import type { PayoutBatch } from './payout-batches';
+
+// ──────────────────────────────────────────────
+// TYPE DEFINITIONS
+// ──────────────────────────────────────────────
+
+/** Calendar days, both inclusive (YYYY-MM-DD). */
+export interface StatementPeriod {
+  from: string;
+  to: string;
+}
+
+/** What was in a delivered shipment, before pricing. */
+export interface DeliveredShipmentItems {
+  shipmentId: string;
+  orderId: string;
+  deliveredAt: string;                    // YYYY-MM-DD
+  items: { productId: string; quantity: number }[];
+}
+
+/** One delivered order line, priced as FinanceWaterfall prices it. */
+export interface StatementSaleLine {
+  date: string;
+  orderId: string;
+  shipmentId: string;
+  productId: string;
+  productTitleAr: string;
+  productTitle: string;
+  subVendorId?: string;
+  quantity: number;
+  bucketA: Money;
+  bucketB: Money;
+  cooperativeFee: Money;                  // Collected on top of the vendor price for the cooperative
+  subVendorRevenue: Money;                // Part of bucket A owed to the sub-vendor
+}
+
+export type StatementEntryKind = 'sale' | 'release' | 'refund' | 'wasted_trip' | 'payout';
+
+/** A balance movement; `pending` and `available` are signed deltas. */
+export interface StatementEntry {
+  date: string;
+  kind: StatementEntryKind;
+  reference: string;
+  description: string;
+  descriptionAr: string;
+  pending: Money;
+  available: Money;
+}
+
+export interface StatementBalances {
+  pending: Money;
+  available: Money;
+}
+
+export interface SubVendorBreakdown {
+  subVendorId: string;
+  name: string;
+  nameAr: string;
+  quantity: number;
+  bucketA: Money;
+  subVendorShare: Money;                  // Owed by the parent to the artisan
+  parentShare: Money;                     // Parent vendor's uplift
+}
+
+export interface VendorStatement {
+  vendorId: string;
+  vendorName: string;
+  vendorNameAr: string;
+  cooperative?: Pick<Cooperative, 'name' | 'nameAr' | 'feePercentage'>;
+  period: StatementPeriod;
+  generatedAt: string;
+  opening: StatementBalances;
+  closing: StatementBalances;
+  sales: StatementSaleLine[];
+  entries: StatementEntry[];              // Chronological, within the period
+  totals: {
+    bucketA: Money;
+    bucketB: Money;
+    cooperativeFees: Money;
+    released: Money;
+    refunds: Money;
+    wastedTrips: Money;
+    payouts: Money;
+    withheldForRefunds: Money;            // Kept back from payouts; still in the available balance
+  };
+  subVendors: SubVendorBreakdown[];
+}
+
+export interface VendorStatementInput {
+  vendor: ParentVendor;
+  directory: VendorDirectory;
+  period: StatementPeriod;
+  generatedAt: string;
+  /** From buildEscrowSchedule — the same timeline VendorWalletsTable shows. */
+  timeline?: VendorEscrowTimeline;
+  sales: StatementSaleLine[];
+  batches: PayoutBatch[];
+}
+
+// ──────────────────────────────────────────────
+// SALE LINES
+// ──────────────────────────────────────────────
+
+/**
+ * Prices the items of delivered shipments with the pricing engine,
+ * under the admin config in force on the delivery day (`configAt`,
+ * e.g. the admin store's getDynamicPricingConfig). Items of other
+ * vendors and unknown products are skipped.
+ *
+ * @throws PricingValidationError when the vendor records are incomplete
+ *   (e.g. a non-legalized vendor without a cooperative).
+ */
+export function priceDeliveredItems(
+  shipments: DeliveredShipmentItems[],
+  products: Product[],
+  directory: VendorDirectory,
+  vendorId: string,
+  configAt: PricingConfigResolver
+): StatementSaleLine[] {
+  const lines: StatementSaleLine[] = [];
+  for (const shipment of shipments) {
+    for (const { productId, quantity } of shipment.items) {
+      const product = products.find(p => p.id === productId);
+      if (!product || product.parentVendorId !== vendorId) continue;
+      const unit = calculatePrice(resolvePricingInput(product, directory).input, configAt, { asOf: `${shipment.deliveredAt}T23:59:59Z` });
+      lines.push({
+        date: shipment.deliveredAt,
+        orderId: shipment.orderId,
+        shipmentId: shipment.shipmentId,
+        productId,
+        productTitleAr: product.titleAr,
+        productTitle: product.title,
+        ...(product.subVendorId ? { subVendorId: product.subVendorId } : {}),
+        quantity,
+        bucketA: multiplyMoney(unit.buckets.A, quantity),
+        bucketB: multiplyMoney(unit.buckets.B, quantity),
+        cooperativeFee: multiplyMoney(unit.cooperativeFee, quantity),
+        subVendorRevenue: multiplyMoney(unit.subVendorRevenue, quantity),
+      });
+    }
+  }
+  return lines;
+}
+
+// ──────────────────────────────────────────────
+// STATEMENT
+// ──────────────────────────────────────────────
+
+/** Every balance movement for the vendor, from escrow events and non-draft payout batches. */
+function collectMovements(input: VendorStatementInput): StatementEntry[] {
+  const { vendor, timeline, batches } = input;
+  const entries: StatementEntry[] = [];
+
+  for (const event of timeline?.events ?? []) {
+    if (event.projected) continue;
+    switch (event.type) {
+      case 'held':
+        entries.push({
+          date: event.date, kind: 'sale', reference: event.shipmentId,
+          description: `Delivered ${event.orderId} — held in escrow`,
+          descriptionAr: `تم تسليم ${event.orderId} — في الضمان`,
+          pending: event.amount, available: ZERO_MONEY,
+        });
+        break;
+      case 'released':
+        entries.push({
+          date: event.date, kind: 'release', reference: event.shipmentId,
+          description: `Escrow released for ${event.orderId}`,
+          descriptionAr: `الإفراج عن ضمان ${event.orderId}`,
+          pending: negateMoney(event.amount), available: event.amount,
+        });
+        break;
+      case 'forfeited':
+        entries.push({
+          date: event.date, kind: 'refund', reference: event.shipmentId,
+          description: `Customer refund on ${event.orderId}`,
+          descriptionAr: `استرداد للعميل على ${event.orderId}`,
+          pending: negateMoney(event.amount), available: ZERO_MONEY,
+        });
+        break;
+    }
+  }
+
+  for (const batch of batches) {
+    if (batch.status === 'draft') continue;
+    for (const transfer of batch.transfers) {
+      if (transfer.vendorId !== vendor.id || transfer.reversedAt) continue;
+      for (const deduction of transfer.deductions) {
+        if (deduction.kind !== 'wasted_trip') continue;
+        entries.push({
+          date: batch.payoutDate, kind: 'wasted_trip', reference: deduction.reference,
+          description: `Wasted courier trip (${deduction.reference})`,
+          descriptionAr: `رحلة مندوب ضائعة (${deduction.reference})`,
+          pending: ZERO_MONEY, available: negateMoney(deduction.amount),
+        });
+      }
+      entries.push({
+        date: batch.payoutDate, kind: 'payout', reference: transfer.id,
+        description: `Bank transfer to ${transfer.bankName} ${transfer.bankAccountNumber}`,
+        descriptionAr: `تحويل بنكي إلى ${transfer.bankName} ${transfer.bankAccountNumber}`,
+        pending: ZERO_MONEY, available: negateMoney(transfer.amount),
+      });
+    }
+  }
+
+  const order: Record<StatementEntryKind, number> = { sale: 0, refund: 1, release: 2, wasted_trip: 3, payout: 4 };
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || order[a.kind] - order[b.kind]);
+}
+
+function applyMovements(start: StatementBalances, entries: StatementEntry[]): StatementBalances {
+  return {
+    pending: addMoney(start.pending, ...entries.map(e => e.pending)),
+    available: addMoney(start.available, ...entries.map(e => e.available)),
+  };
+}
+
+function subVendorBreakdown(sales: StatementSaleLine[], subVendors: SubVendor[]): SubVendorBreakdown[] {
+  const rows = new Map<string, SubVendorBreakdown>();
+  for (const line of sales) {
+    if (!line.subVendorId) continue;
+    const subVendor = subVendors.find(sv => sv.id === line.subVendorId);
+    const row = rows.get(line.subVendorId) ?? {
+      subVendorId: line.subVendorId,
+      name: subVendor?.internalName ?? line.subVendorId,
+      nameAr: subVendor?.internalNameAr ?? line.subVendorId,
+      quantity: 0, bucketA: ZERO_MONEY, subVendorShare: ZERO_MONEY, parentShare: ZERO_MONEY,
+    };
+    rows.set(line.subVendorId, {
+      ...row,
+      quantity: row.quantity + line.quantity,
+      bucketA: addMoney(row.bucketA, line.bucketA),
+      subVendorShare: addMoney(row.subVendorShare, line.subVendorRevenue),
+      parentShare: addMoney(row.parentShare, subtractMoney(line.bucketA, line.subVendorRevenue)),
+    });
+  }
+  return [...rows.values()];
+}
+
+/**
+ * Builds the statement for one vendor and period.
+ *
+ * @example
+ * const statement = buildVendorStatement({
+ *   vendor, directory: mockVendorDirectory,
+ *   period: { from: '2026-01-01', to: '2026-01-31' },
+ *   generatedAt: new Date().toISOString(),
+ *   timeline, sales, batches,
+ * });
+ * statement.closing.available // → what the wallets table showed on 31 January
+ */
+export function buildVendorStatement(input: VendorStatementInput): VendorStatement {
+  const { vendor, directory, period } = input;
+  const movements = collectMovements(input);
+  const before = movements.filter(e => e.date < period.from);
+  const entries = movements.filter(e => e.date >= period.from && e.date <= period.to);
+  const opening = applyMovements({ pending: ZERO_MONEY, available: ZERO_MONEY }, before);
+  const closing = applyMovements(opening, entries);
+
+  const sales = input.sales.filter(l => l.date >= period.from && l.date <= period.to);
+  const total = (kind: StatementEntryKind, side: 'pending' | 'available') =>
+    negateMoney(sumMoney(entries.filter(e => e.kind === kind).map(e => e[side])));
+
+  const payoutIds = new Set(entries.filter(e => e.kind === 'payout').map(e => e.reference));
+  const withheldForRefunds = sumMoney(input.batches.flatMap(b => b.transfers)
+    .filter(t => payoutIds.has(t.id))
+    .flatMap(t => t.deductions.filter(d => d.kind === 'pending_refund').map(d => d.amount)));
+
+  const cooperative = vendor.cooperativeId ? directory.cooperatives.find(c => c.id === vendor.cooperativeId) : undefined;
+
+  return {
+    vendorId: vendor.id,
+    vendorName: vendor.businessName,
+    vendorNameAr: vendor.businessNameAr,
+    ...(cooperative ? { cooperative: { name: cooperative.name, nameAr: cooperative.nameAr, feePercentage: cooperative.feePercentage } } : {}),
+    period,
+    generatedAt: input.generatedAt,
+    opening,
+    closing,
+    sales,
+    entries,
+    totals: {
+      bucketA: sumMoney(sales.map(l => l.bucketA)),
+      bucketB: sumMoney(sales.map(l => l.bucketB)),
+      cooperativeFees: sumMoney(sales.map(l => l.cooperativeFee)),
+      released: negateMoney(total('release', 'pending')),
+      refunds: total('refund', 'pending'),
+      wastedTrips: total('wasted_trip', 'available'),
+      payouts: total('payout', 'available'),
+      withheldForRefunds,
+    },
+    subVendors: subVendorBreakdown(sales, directory.subVendors.filter(sv => sv.parentVendorId === vendor.id)),
+  };
+}
+
+/** The calendar month containing `date` (YYYY-MM or any ISO date). */
+export function monthPeriod(date: string): StatementPeriod {
+  const [year, month] = date.slice(0, 7).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = `${year}-${String(month).padStart(2, '0')}`;
+  return { from: `${prefix}-01`, to: `${prefix}-${String(lastDay).padStart(2, '0')}` };
+}
+
+// ──────────────────────────────────────────────
+// CSV EXPORT
+// ──────────────────────────────────────────────
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+const amount = (value: Money) => toEgp(value).toFixed(2);
+
+/**
+ * One CSV with three sections: balance movements (with opening and
+ * closing rows), priced order lines, and the sub-vendor breakdown.
+ */
+export function vendorStatementToCsv(statement: VendorStatement): string {
+  const { period, opening, closing } = statement;
+  const rows: string[][] = [
+    ['vendor_id', 'vendor_name', 'period_from', 'period_to', 'generated_at'],
+    [statement.vendorId, statement.vendorName, period.from, period.to, statement.generatedAt],
+    [],
+    ['date', 'type', 'reference', 'description', 'pending_change', 'available_change', 'pending_balance', 'available_balance'],
+    [period.from, 'opening_balance', '', 'Opening balance', '', '', amount(opening.pending), amount(opening.available)],
+  ];
+  let running = opening;
+  for (const entry of statement.entries) {
+    running = applyMovements(running, [entry]);
+    rows.push([
+      entry.date, entry.kind, entry.reference, entry.description,
+      amount(entry.pending), amount(entry.available), amount(running.pending), amount(running.available),
+    ]);
+  }
+  rows.push([period.to, 'closing_balance', '', 'Closing balance', '', '', amount(closing.pending), amount(closing.available)]);
+
+  rows.push([], ['date', 'order_id', 'shipment_id', 'product_id', 'product', 'sub_vendor_id', 'quantity', 'bucket_a', 'bucket_b', 'cooperative_fee']);
+  for (const line of statement.sales) {
+    rows.push([
+      line.date, line.orderId, line.shipmentId, line.productId, line.productTitle, line.subVendorId ?? '',
+      String(line.quantity), amount(line.bucketA), amount(line.bucketB), amount(line.cooperativeFee),
+    ]);
+  }
+
+  if (statement.subVendors.length > 0) {
+    rows.push([], ['sub_vendor_id', 'sub_vendor_name', 'quantity', 'bucket_a', 'sub_vendor_share', 'parent_share']);
+    for (const sv of statement.subVendors) {
+      rows.push([sv.subVendorId, sv.name, String(sv.quantity), amount(sv.bucketA), amount(sv.subVendorShare), amount(sv.parentShare)]);
+    }
+  }
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+// ──────────────────────────────────────────────
+// PRINTABLE HTML
+// ──────────────────────────────────────────────
+
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntryKind, { ar: string; en: string }> = {
+  sale: { ar: 'مبيعات (ضمان)', en: 'Sale (escrow)' },
+  release: { ar: 'إفراج عن الضمان', en: 'Escrow release' },
+  refund: { ar: 'استرداد للعميل', en: 'Customer refund' },
+  wasted_trip: { ar: 'رسوم رحلة ضائعة', en: 'Wasted-trip fee' },
+  payout: { ar: 'تحويل بنكي', en: 'Payout' },
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+}
+
+const signed = (value: Money) => (isZeroMoney(value) ? '' : amount(value));
+
+/**
+ * A self-contained bilingual (Arabic / English) statement page for
+ * printing or saving as PDF. Open it in a new window and call print().
+ */
+export function renderVendorStatementHtml(statement: VendorStatement): string {
+  const { period, opening, closing, totals } = statement;
+  let running = opening;
+  const movementRows = statement.entries.map(entry => {
+    running = applyMovements(running, [entry]);
+    const label = STATEMENT_ENTRY_LABELS[entry.kind];
+    return `<tr>
+<td dir="ltr">${entry.date}</td>
+<td>${label.ar}<br><small>${label.en}</small></td>
+<td>${escapeHtml(entry.descriptionAr)}<br><small dir="ltr">${escapeHtml(entry.description)}</small></td>
+<td>${signed(entry.pending)}</td>
+<td>${signed(entry.available)}</td>
+<td>${amount(running.pending)}</td>
+<td>${amount(running.available)}</td>
+</tr>`;
+  }).join('\n');
+
+  const saleRows = statement.sales.map(line => `<tr>
+<td dir="ltr">${line.date}</td>
+<td dir="ltr">${escapeHtml(line.orderId)}</td>
+<td>${escapeHtml(line.productTitleAr)}</td>
+<td>${line.quantity}</td>
+<td>${amount(line.bucketA)}</td>
+<td>${amount(line.bucketB)}</td>
+<td>${amount(line.cooperativeFee)}</td>
+</tr>`).join('\n');
+
+  const subVendorRows = statement.subVendors.map(sv => `<tr>
+<td>${escapeHtml(sv.nameAr)}<br><small dir="ltr">${escapeHtml(sv.name)}</small></td>
+<td>${sv.quantity}</td>
+<td>${amount(sv.bucketA)}</td>
+<td>${amount(sv.subVendorShare)}</td>
+<td>${amount(sv.parentShare)}</td>
+</tr>`).join('\n');
+
+  const total = (labelAr: string, labelEn: string, value: Money) =>
+    `<div><span>${labelAr} / ${labelEn}</span><span>${amount(value)} ${PLATFORM.currency}</span></div>`;
+
+  return `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(statement.vendorId)} ${period.from} — ${period.to}</title>
+<style>
+body { font-family: 'Cairo', 'Segoe UI', Tahoma, sans-serif; color: #3b2a21; margin: 32px; }
+h1 { font-size: 20px; margin: 0; } h1 small { display: block; font-size: 13px; color: #8a6e5c; }
+h2 { font-size: 15px; margin: 24px 0 8px; } h2 small { font-weight: normal; color: #8a6e5c; }
+.meta { display: flex; justify-content: space-between; gap: 24px; margin: 16px 0; font-size: 13px; }
+.balances { display: flex; gap: 16px; } .balances div { flex: 1; border: 1px solid #e2d2b8; border-radius: 8px; padding: 12px; font-size: 13px; }
+table { width: 100%; border-collapse: collapse; font-size: 12px; }
+th, td { border-bottom: 1px solid #e2d2b8; padding: 6px 8px; text-align: right; }
+th { background: #faf5ee; } th small, td small { display: block; font-weight: normal; color: #8a6e5c; }
+.totals { margin-top: 16px; margin-right: auto; width: 360px; font-size: 13px; }
+.totals div { display: flex; justify-content: space-between; padding: 4px 0; }
+footer { margin-top: 32px; font-size: 11px; color: #8a6e5c; }
+</style>
+</head>
+<body>
+<h1>كشف حساب المورد<small>Vendor Statement of Account</small></h1>
+<div class="meta">
+<div><strong>${escapeHtml(statement.vendorNameAr)}</strong><br><span dir="ltr">${escapeHtml(statement.vendorName)}</span></div>
+<div>الفترة / Period: <span dir="ltr">${period.from} → ${period.to}</span></div>
+<div>تاريخ الإصدار / Issued: <span dir="ltr">${escapeHtml(statement.generatedAt.slice(0, 10))}</span></div>
+</div>
+${statement.cooperative ? `<p>التعاونية / Cooperative: ${escapeHtml(statement.cooperative.nameAr)} (${(statement.cooperative.feePercentage * 100).toFixed(0)}%)</p>` : ''}
+<div class="balances">
+<div>الرصيد الافتتاحي / Opening<br>معلق / Pending: <strong>${amount(opening.pending)}</strong><br>متاح / Available: <strong>${amount(opening.available)}</strong></div>
+<div>الرصيد الختامي / Closing<br>معلق / Pending: <strong>${amount(closing.pending)}</strong><br>متاح / Available: <strong>${amount(closing.available)}</strong></div>
+</div>
+<h2>حركة الحساب <small>Account movements</small></h2>
+<table>
+<thead><tr>
+<th>التاريخ<small>Date</small></th>
+<th>النوع<small>Type</small></th>
+<th>البيان<small>Description</small></th>
+<th>معلق<small>Pending</small></th>
+<th>متاح<small>Available</small></th>
+<th>رصيد معلق<small>Pending balance</small></th>
+<th>رصيد متاح<small>Available balance</small></th>
+</tr></thead>
+<tbody>
+${movementRows}
+</tbody>
+</table>
+<h2>بنود الطلبات المسلّمة <small>Delivered order lines</small></h2>
+<table>
+<thead><tr>
+<th>التاريخ<small>Date</small></th>
+<th>الطلب<small>Order</small></th>
+<th>المنتج<small>Product</small></th>
+<th>الكمية<small>Qty</small></th>
+<th>إيراد المورد (أ)<small>Bucket A</small></th>
+<th>ض.ق.م المورد (ب)<small>Bucket B</small></th>
+<th>رسوم التعاونية<small>Cooperative fee</small></th>
+</tr></thead>
+<tbody>
+${saleRows}
+</tbody>
+</table>
+${statement.subVendors.length > 0 ? `<h2>حصص الموردين الفرعيين <small>Sub-vendor breakdown</small></h2>
+<table>
+<thead><tr>
+<th>المورد الفرعي<small>Sub-vendor</small></th>
+<th>الكمية<small>Qty</small></th>
+<th>إيراد (أ)<small>Bucket A</small></th>
+<th>مستحق للمورد الفرعي<small>Sub-vendor share</small></th>
+<th>حصة المورد الرئيسي<small>Parent share</small></th>
+</tr></thead>
+<tbody>
+${subVendorRows}
+</tbody>
+</table>` : ''}
+<div class="totals">
+${total('إيراد المورد (أ)', 'Bucket A', totals.bucketA)}
+${total('ض.ق.م المورد (ب)', 'Bucket B', totals.bucketB)}
+${total('رسوم التعاونية المخصومة', 'Cooperative fees deducted', totals.cooperativeFees)}
+${total('مبالغ مستردة للعملاء', 'Customer refunds', totals.refunds)}
+${total('رسوم الرحلات الضائعة', 'Wasted-trip fees', totals.wastedTrips)}
+${total('التحويلات البنكية', 'Payouts', totals.payouts)}
+${isZeroMoney(totals.withheldForRefunds) ? '' : total('محتجز لاستردادات قيد التنفيذ', 'Withheld for pending refunds', totals.withheldForRefunds)}
+</div>
+<footer>${PLATFORM.nameEn} — ${PLATFORM.website}</footer>
+</body>
+</html>`;
+}
@@ -14,29 +14,180 @@
 
 import { create } from 'zustand';
 import type { PlatformConfig, VendorActionRequest, AuditLogEntry, ConfigCategory } from '../app/shared/types';
-import { UPLIFT_MATRIX, UPLIFT_RULES, TAX, ESCROW, VENDOR_SLAS, FRAUD_RULES, KPI_TARGETS, LOYALTY } from '../config/constants';
+import type { DynamicPricingConfig } from '../lib/pricing-engine';
+import { type ShippingSubsidyPolicy, type ZoneSubsidyOverride, getZoneSubsidyRates } from '../lib/shipping-subsidy';
+import { usePromotionStore } from './promotion-store';
+import {
+  UPLIFT_MATRIX, UPLIFT_RULES, TAX, ESCROW, VENDOR_SLAS, FRAUD_RULES, KPI_TARGETS, LOYALTY, MONEY, SHIPPING_SUBSIDY, EGYPT_PUBLIC_HOLIDAYS,
+} from '../config/constants';
+
+// ──────────────────────────────────────────────
+// EFFECTIVE-DATED VERSIONS
+// ──────────────────────────────────────────────
+
+/** A point in time for config lookups. Omitted = now. */
+export type ConfigAsOf = string | Date;
+
+function toTime(asOf: ConfigAsOf = new Date()): number {
+  return typeof asOf === 'string' ? new Date(asOf).getTime() : asOf.getTime();
+}
+
+/** When a version starts, as epoch ms; open-started versions sort first. */
+function startTime(config: PlatformConfig): number {
+  return config.effectiveFrom ? Date.parse(config.effectiveFrom) : -Infinity;
+}
+
+/** True when the config's window [effectiveFrom, effectiveTo) contains `asOf`. */
+export function isConfigEffective(config: PlatformConfig, asOf?: ConfigAsOf): boolean {
+  const at = toTime(asOf);
+  if (config.effectiveFrom && Date.parse(config.effectiveFrom) > at) return false;
+  if (config.effectiveTo && Date.parse(config.effectiveTo) <= at) return false;
+  return true;
+}
+
+/**
+ * Picks the version of each key in force at `asOf`. If windows overlap,
+ * the most recently started version wins.
+ */
+export function getEffectiveConfigs(configs: PlatformConfig[], asOf?: ConfigAsOf): PlatformConfig[] {
+  const byKey = new Map<string, PlatformConfig>();
+  for (const config of configs) {
+    if (!config.isActive || !isConfigEffective(config, asOf)) continue;
+    const current = byKey.get(config.key);
+    if (!current || startTime(config) > startTime(current)) {
+      byKey.set(config.key, config);
+    }
+  }
+  return configs.filter(c => byKey.get(c.key) === c);
+}
+
+/** Versions of a key that start after `asOf` (scheduled changes). */
+export function getScheduledVersions(configs: PlatformConfig[], key: string, asOf?: ConfigAsOf): PlatformConfig[] {
+  const at = toTime(asOf);
+  return configs
+    .filter(c => c.key === key && c.isActive && startTime(c) > at)
+    .sort((a, b) => startTime(a) - startTime(b));
+}
+
+/**
+ * Adds a new version of `base.key` starting at `effectiveFrom`.
+ * The version in force at that moment is closed at `effectiveFrom`, and
+ * the new version runs until the next scheduled one (if any).
+ */
+function insertConfigVersion(
+  configs: PlatformConfig[],
+  base: PlatformConfig,
+  value: string,
+  effectiveFrom: string,
+): PlatformConfig[] {
+  const start = Date.parse(effectiveFrom);
+  const siblings = configs.filter(c => c.key === base.key && c.isActive);
+  const covering = getEffectiveConfigs(siblings, effectiveFrom)[0];
+  const next = siblings
+    .filter(c => startTime(c) > start)
+    .sort((a, b) => startTime(a) - startTime(b))[0];
+
+  const now = new Date().toISOString();
+  const version: PlatformConfig = {
+    ...base,
+    id: `${base.id.split('@')[0]}@${start}`,
+    value,
+    effectiveFrom,
+    effectiveTo: next?.effectiveFrom,
+    updatedAt: now,
+    lastModifiedBy: 'admin-001',
+  };
+
+  // Same start instant: replace the value instead of stacking a zero-length version
+  if (covering && startTime(covering) === start) {
+    const replaced = { ...covering, value, updatedAt: now, lastModifiedBy: 'admin-001' };
+    return configs.map(c => (c === covering ? replaced : c));
+  }
+
+  const closed = configs.map(c => (c === covering ? { ...c, effectiveTo: effectiveFrom } : c));
+  return [...closed, version];
+}
 
 // ──────────────────────────────────────────────
 // RESOLVED CONFIG GETTERS
 // ──────────────────────────────────────────────
 
 /** Gets a typed config value from the store, with fallback to default. */
-export function getConfigValue(configs: PlatformConfig[], key: string, fallback: string): string {
-  const config = configs.find(c => c.key === key && c.isActive);
+export function getConfigValue(configs: PlatformConfig[], key: string, fallback: string, asOf?: ConfigAsOf): string {
+  const config = getEffectiveConfigs(configs.filter(c => c.key === key), asOf)[0];
   return config?.value ?? fallback;
 }
 
-export function getConfigNumber(configs: PlatformConfig[], key: string, fallback: number): number {
-  const raw = getConfigValue(configs, key, String(fallback));
+export function getConfigNumber(configs: PlatformConfig[], key: string, fallback: number, asOf?: ConfigAsOf): number {
+  const raw = getConfigValue(configs, key, String(fallback), asOf);
   const parsed = parseFloat(raw);
   return isNaN(parsed) ? fallback : parsed;
 }
 
-export function getConfigBoolean(configs: PlatformConfig[], key: string, fallback: boolean): boolean {
-  const raw = getConfigValue(configs, key, String(fallback));
+export function getConfigBoolean(configs: PlatformConfig[], key: string, fallback: boolean, asOf?: ConfigAsOf): boolean {
+  const raw = getConfigValue(configs, key, String(fallback), asOf);
   return raw === 'true';
 }
 
+/**
+ * Builds the pricing engine config from the versions in force at `asOf`.
+ * Used to reprice an order under the rules active on its `createdAt`.
+ */
+export function resolvePricingConfig(configs: PlatformConfig[], asOf?: ConfigAsOf): DynamicPricingConfig {
+  const categoryUplifts: NonNullable<DynamicPricingConfig['categoryUplifts']> = { ...UPLIFT_MATRIX };
+  for (const config of getEffectiveConfigs(configs, asOf)) {
+    if (!config.key.startsWith('uplift.category.')) continue;
+    try {
+      categoryUplifts[config.key.slice('uplift.category.'.length)] = JSON.parse(config.value);
+    } catch {
+      // Malformed JSON — keep the constant default for this category
+    }
+  }
+
+  return {
+    vatRate: getConfigNumber(configs, 'tax.vatRate', TAX.vatRate, asOf),
+    mvpFlatRate: getConfigNumber(configs, 'uplift.mvpFlatRate', UPLIFT_RULES.mvpFlatRate, asOf),
+    fragileOverride: getConfigNumber(configs, 'uplift.fragileOverride', UPLIFT_RULES.fragileOverride, asOf),
+    minimumFixedUplift: getConfigNumber(configs, 'uplift.minimumFixedUplift', UPLIFT_RULES.minimumFixedUplift, asOf),
+    lowPriceThreshold: getConfigNumber(configs, 'uplift.lowPriceThreshold', UPLIFT_RULES.lowPriceThreshold, asOf),
+    lowPriceFixedMarkup: getConfigNumber(configs, 'uplift.lowPriceFixedMarkup', UPLIFT_RULES.lowPriceFixedMarkup, asOf),
+    cooperativeFee: getConfigNumber(configs, 'uplift.cooperativeFee', UPLIFT_RULES.cooperativeFee, asOf),
+    logisticsSurcharge: getConfigNumber(configs, 'uplift.logisticsSurcharge', UPLIFT_RULES.logisticsSurcharge, asOf),
+    categoryUplifts,
+    roundingMode: MONEY.defaultRoundingMode,
+    maxSubsidyRate: getConfigNumber(configs, 'shipping.maxSubsidyRate', SHIPPING_SUBSIDY.maxSubsidyRate, asOf),
+    zoneSubsidyRates: getZoneSubsidyRates(getZoneOverrides(configs, asOf)),
+  };
+}
+
+function getZoneOverrides(configs: PlatformConfig[], asOf?: ConfigAsOf): Record<string, ZoneSubsidyOverride> {
+  try {
+    return JSON.parse(getConfigValue(configs, 'shipping.zoneOverrides', JSON.stringify(SHIPPING_SUBSIDY.zoneOverrides), asOf));
+  } catch {
+    return { ...SHIPPING_SUBSIDY.zoneOverrides };
+  }
+}
+
+/** Builds the delivery subsidy policy from the 'shipping' configs in force at `asOf`. */
+export function resolveShippingSubsidyPolicy(configs: PlatformConfig[], asOf?: ConfigAsOf): ShippingSubsidyPolicy {
+  return {
+    maxSubsidyRate: getConfigNumber(configs, 'shipping.maxSubsidyRate', SHIPPING_SUBSIDY.maxSubsidyRate, asOf),
+    freeDeliveryThreshold: getConfigNumber(configs, 'shipping.freeDeliveryThreshold', SHIPPING_SUBSIDY.freeDeliveryThreshold, asOf),
+    firstOrderFreeDelivery: getConfigBoolean(configs, 'shipping.firstOrderFreeDelivery', SHIPPING_SUBSIDY.firstOrderFreeDelivery, asOf),
+    monthlyBudget: getConfigNumber(configs, 'shipping.monthlySubsidyBudget', SHIPPING_SUBSIDY.monthlyBudget, asOf),
+    zoneOverrides: getZoneOverrides(configs, asOf),
+  };
+}
+
+function getPublicHolidays(configs: PlatformConfig[]): string[] {
+  try {
+    const holidays: { date: string }[] = JSON.parse(getConfigValue(configs, 'escrow.publicHolidays', JSON.stringify(EGYPT_PUBLIC_HOLIDAYS)));
+    return holidays.map(h => h.date);
+  } catch {
+    return EGYPT_PUBLIC_HOLIDAYS.map(h => h.date);
+  }
+}
+
 // ──────────────────────────────────────────────
 // DEFAULT CONFIGS (seeded from constants.ts)
 // ──────────────────────────────────────────────
@@ -82,6 +233,8 @@ function buildDefaultConfigs(): PlatformConfig[] {
       minValue: 0, maxValue: 1, defaultValue: '0.20', requiresApproval: true,
     }),
     make('uplift.fragileOverride', String(UPLIFT_RULES.fragileOverride), 'uplift', 'Fragile Items Override', 'هامش المنتجات الهشة', 'percentage', {
+      description: 'Minimum uplift for fragile categories, capped at each category max',
+      descriptionAr: 'الحد الأدنى للهامش في الفئات الهشة، بحد أقصى نطاق الفئة',
       minValue: 0, maxValue: 1, defaultValue: '0.25',
     }),
     make('uplift.minimumFixedUplift', String(UPLIFT_RULES.minimumFixedUplift), 'uplift', 'Minimum Fixed Uplift (EGP)', 'الحد الأدنى للهامش الثابت', 'number', {
@@ -128,6 +281,11 @@ function buildDefaultConfigs(): PlatformConfig[] {
     make('escrow.codDiscrepancyThreshold', String(ESCROW.codDiscrepancyThreshold), 'escrow', 'COD Discrepancy Threshold', 'عتبة التناقض في COD', 'percentage', {
       minValue: 0, maxValue: 0.1, defaultValue: '0.01',
     }),
+    make('escrow.publicHolidays', JSON.stringify(EGYPT_PUBLIC_HOLIDAYS), 'escrow', 'Public Holidays (No Release)', 'العطلات الرسمية (بدون صرف)', 'json', {
+      description: 'Escrow release dates that land on these days (or a Friday) move to the next working day',
+      descriptionAr: 'لا تُصرف الأموال في هذه الأيام أو يوم الجمعة وتُرحّل لأول يوم عمل',
+      defaultValue: JSON.stringify(EGYPT_PUBLIC_HOLIDAYS),
+    }),
 
     // Vendor SLAs
     make('sla.acceptanceWindowHours', String(VENDOR_SLAS.acceptanceWindowHours), 'vendor_sla', 'Order Acceptance Window (Hours)', 'نافذة قبول الطلب (ساعات)', 'number', {
@@ -135,6 +293,11 @@ function buildDefaultConfigs(): PlatformConfig[] {
       descriptionAr: 'ساعات المهلة لقبول الطلب قبل الإلغاء التلقائي',
       minValue: 1, maxValue: 72, defaultValue: '24',
     }),
+    make('sla.maxDispatchHours', String(VENDOR_SLAS.maxDispatchHours), 'vendor_sla', 'Max Dispatch Time (Hours)', 'أقصى مدة لتجهيز الطلب (ساعات)', 'number', {
+      description: 'Hours after acceptance to have the order ready for the courier',
+      descriptionAr: 'ساعات المهلة بعد القبول لتجهيز الطلب للشحن',
+      minValue: 1, maxValue: 168, defaultValue: '24',
+    }),
     make('sla.maxReliabilityStrikes', String(VENDOR_SLAS.maxReliabilityStrikes), 'vendor_sla', 'Max Reliability Strikes', 'الحد الأقصى لإنذارات الموثوقية', 'number', {
       minValue: 1, maxValue: 10, defaultValue: '3',
     }),
@@ -186,6 +349,42 @@ function buildDefaultConfigs(): PlatformConfig[] {
     make('kpi.refundRateMax', String(KPI_TARGETS.refundRateMax), 'kpi_targets', 'Max Refund Rate', 'الحد الأقصى لمعدل الاسترداد', 'percentage', {
       minValue: 0, maxValue: 1, defaultValue: '0.12',
     }),
+
+    // Shipping Subsidies
+    make('shipping.maxSubsidyRate', String(SHIPPING_SUBSIDY.maxSubsidyRate), 'shipping', 'Max Delivery Subsidy', 'الحد الأقصى لدعم التوصيل', 'percentage', {
+      description: 'Largest share of a courier fee Arooba may absorb through the SmartCom buffer',
+      descriptionAr: 'أقصى نسبة من رسوم الشحن تتحملها أروبة',
+      minValue: 0, maxValue: 1, defaultValue: '0.25', requiresApproval: true,
+    }),
+    make('shipping.freeDeliveryThreshold', String(SHIPPING_SUBSIDY.freeDeliveryThreshold), 'shipping', 'Free Delivery Threshold (EGP)', 'حد التوصيل المجاني', 'number', {
+      description: 'Basket subtotal above which delivery is free (0 = off)',
+      descriptionAr: 'قيمة السلة التي يصبح بعدها التوصيل مجانياً (0 = معطل)',
+      minValue: 0, maxValue: 10000, defaultValue: '400',
+    }),
+    make('shipping.firstOrderFreeDelivery', String(SHIPPING_SUBSIDY.firstOrderFreeDelivery), 'shipping', 'First Order Free Delivery', 'توصيل مجاني لأول طلب', 'boolean', {
+      defaultValue: 'true',
+    }),
+    make('shipping.zoneOverrides', JSON.stringify(SHIPPING_SUBSIDY.zoneOverrides), 'shipping', 'Zone Subsidy Overrides', 'استثناءات الدعم حسب المنطقة', 'json', {
+      description: 'Per-zone maxSubsidyRate / freeDeliveryThreshold',
+      descriptionAr: 'نسبة الدعم وحد التوصيل المجاني لكل منطقة',
+      defaultValue: JSON.stringify(SHIPPING_SUBSIDY.zoneOverrides),
+    }),
+    make('shipping.monthlySubsidyBudget', String(SHIPPING_SUBSIDY.monthlyBudget), 'shipping', 'Monthly Subsidy Budget (EGP)', 'ميزانية دعم الشحن الشهرية', 'number', {
+      minValue: 0, maxValue: 10000000, defaultValue: '150000', requiresApproval: true,
+    }),
+  ];
+}
+
+/**
+ * Closed-out versions kept for historical repricing. The MVP flat rate
+ * was 18% until the change recorded in audit log-008.
+ */
+function applySeedHistory(configs: PlatformConfig[]): PlatformConfig[] {
+  const changedAt = '2025-10-15T14:00:00Z';
+  const current = configs.find(c => c.key === 'uplift.mvpFlatRate')!;
+  return [
+    ...configs.map(c => (c === current ? { ...c, effectiveFrom: changedAt } : c)),
+    { ...current, id: `${current.id}@history`, value: '0.18', effectiveTo: changedAt, updatedAt: changedAt },
   ];
 }
 
@@ -237,10 +436,21 @@ const mockActionRequests: VendorActionRequest[] = [
   {
     id: 'req-006', vendorId: 'v-001', vendorName: 'Hassan Ceramics', vendorNameAr: 'خزفيات حسن',
     actionType: 'bulk_stock_update', status: 'pending', entityType: 'Product',
-    proposedValues: JSON.stringify({ products: [{ id: 'p-001', quantityAvailable: 50 }] }),
+    currentValues: JSON.stringify({ lines: [{ productId: 'p-006', quantityAvailable: 25 }, { productId: 'p-010', quantityAvailable: 6 }] }),
+    proposedValues: JSON.stringify({ lines: [{ productId: 'p-006', quantityAvailable: 40 }, { productId: 'p-010', quantityAvailable: 15 }] }),
     justification: 'Restocking after winter season', priority: 1,
     createdBy: 'v-001', createdAt: '2026-02-07T12:00:00Z', updatedAt: '2026-02-07T12:00:00Z',
   },
+  {
+    id: 'req-007', vendorId: 'v-002', vendorName: 'Siwa Textiles Co.', vendorNameAr: 'سيوة للمنسوجات',
+    actionType: 'promotion_request', status: 'pending', entityType: 'Promotion',
+    proposedValues: JSON.stringify({
+      name: 'Siwa Spring Coupon', nameAr: 'كوبون ربيع سيوة', type: 'percentage_coupon', code: 'SIWA15', value: 0.15,
+      categoryIds: ['home-decor-textiles'], startsAt: '2026-03-01T00:00:00Z', endsAt: '2026-04-01T00:00:00Z',
+    }),
+    justification: 'Spring collection launch — we will fund the discount', priority: 2,
+    createdBy: 'v-002', createdAt: '2026-02-08T09:30:00Z', updatedAt: '2026-02-08T09:30:00Z',
+  },
 ];
 
 // ──────────────────────────────────────────────
@@ -320,12 +530,14 @@ interface AdminConfigState {
   configs: PlatformConfig[];
   loadConfigs: () => void;
   updateConfig: (id: string, value: string) => void;
+  scheduleConfigChange: (id: string, value: string, effectiveFrom: string) => void;
   addConfig: (config: PlatformConfig) => void;
-  getConfigsByCategory: (category: ConfigCategory) => PlatformConfig[];
+  getConfigsByCategory: (category: ConfigCategory, asOf?: ConfigAsOf) => PlatformConfig[];
 
   // Vendor action requests
   actionRequests: VendorActionRequest[];
   loadActionRequests: () => void;
+  /** Throws PromotionError, leaving the request pending, when a proposed promotion is invalid. */
   approveRequest: (id: string, notes: string) => void;
   rejectRequest: (id: string, notes: string) => void;
   getPendingCount: () => number;
@@ -346,48 +558,71 @@ interface AdminConfigState {
     logisticsSurcharge: number;
   };
   getVatRate: () => number;
+  getDynamicPricingConfig: (asOf?: ConfigAsOf) => DynamicPricingConfig;
+  getShippingSubsidyPolicy: (asOf?: ConfigAsOf) => ShippingSubsidyPolicy;
   getEscrowConfig: () => {
     holdDays: number;
     minimumPayoutThreshold: number;
     codDepositCycle: number;
     codDiscrepancyThreshold: number;
+    publicHolidays: string[];
+  };
+  getVendorSlaConfig: () => {
+    acceptanceWindowHours: number;
+    maxDispatchHours: number;
+    maxReliabilityStrikes: number;
+    wastedTripFee: number;
+  };
+  getFraudConfig: () => {
+    maxCodCancelsBeforeBlock: number;
+    priceDeviationFlag: number;
   };
 }
 
 export const useAdminConfigStore = create<AdminConfigState>((set, get) => ({
   // ── Configs ──
-  configs: buildDefaultConfigs(),
+  configs: applySeedHistory(buildDefaultConfigs()),
 
   loadConfigs: () => {
     // In production: fetch from GET /api/adminconfig
-    set({ configs: buildDefaultConfigs() });
+    set({ configs: applySeedHistory(buildDefaultConfigs()) });
   },
 
   updateConfig: (id, value) => {
+    // An immediate edit is a new version starting now — the old value is
+    // kept (closed) so past orders can still be repriced.
+    get().scheduleConfigChange(id, value, new Date().toISOString());
+  },
+
+  scheduleConfigChange: (id, value, effectiveFrom) => {
     set((state) => {
-      const updated = state.configs.map(c =>
-        c.id === id ? { ...c, value, updatedAt: new Date().toISOString(), lastModifiedBy: 'admin-001' } : c
-      );
-      // Log the change
       const config = state.configs.find(c => c.id === id);
-      if (config) {
-        const newLog: AuditLogEntry = {
-          id: `log-${Date.now()}`,
-          userId: 'admin-001',
-          userName: 'كريم مطاط',
-          userRole: 'admin_super',
-          action: 'config_change',
-          entityType: 'PlatformConfig',
-          entityId: id,
-          description: `Updated ${config.label}: ${config.value} → ${value}`,
-          descriptionAr: `تحديث ${config.labelAr}: ${config.value} → ${value}`,
-          oldValues: JSON.stringify({ [config.key]: config.value }),
-          newValues: JSON.stringify({ [config.key]: value }),
-          createdAt: new Date().toISOString(),
-        };
-        return { configs: updated, auditLogs: [newLog, ...state.auditLogs] };
-      }
-      return { configs: updated };
+      if (!config) return {};
+      const configs = insertConfigVersion(state.configs, config, value, effectiveFrom);
+      // What the change replaces: the version in force at its start, not the row that was edited
+      const previous = getConfigValue(state.configs, config.key, config.value, effectiveFrom);
+
+      const now = new Date().toISOString();
+      const isScheduled = Date.parse(effectiveFrom) > Date.now();
+      const newLog: AuditLogEntry = {
+        id: `log-${Date.now()}`,
+        userId: 'admin-001',
+        userName: 'كريم مطاط',
+        userRole: 'admin_super',
+        action: 'config_change',
+        entityType: 'PlatformConfig',
+        entityId: id,
+        description: isScheduled
+          ? `Scheduled ${config.label}: ${previous} → ${value} from ${effectiveFrom}`
+          : `Updated ${config.label}: ${previous} → ${value}`,
+        descriptionAr: isScheduled
+          ? `جدولة ${config.labelAr}: ${previous} → ${value} اعتباراً من ${effectiveFrom}`
+          : `تحديث ${config.labelAr}: ${previous} → ${value}`,
+        oldValues: JSON.stringify({ [config.key]: previous }),
+        newValues: JSON.stringify({ [config.key]: value, effectiveFrom }),
+        createdAt: now,
+      };
+      return { configs, auditLogs: [newLog, ...state.auditLogs] };
     });
   },
 
@@ -395,8 +630,8 @@ export const useAdminConfigStore = create<AdminConfigState>((set, get) => ({
     set((state) => ({ configs: [...state.configs, config] }));
   },
 
-  getConfigsByCategory: (category) => {
-    return get().configs.filter(c => c.category === category);
+  getConfigsByCategory: (category, asOf) => {
+    return getEffectiveConfigs(get().configs, asOf).filter(c => c.category === category);
   },
 
   // ── Vendor Action Requests ──
@@ -408,6 +643,13 @@ export const useAdminConfigStore = create<AdminConfigState>((set, get) => ({
   },
 
   approveRequest: (id, notes) => {
+    // Approved promotion requests go live as vendor-funded promotions;
+    // an invalid proposal throws here, before the request is approved
+    const pending = get().actionRequests.find(r => r.id === id);
+    if (pending?.actionType === 'promotion_request') {
+      usePromotionStore.getState().activateFromRequest(pending);
+    }
+
     set((state) => {
       const now = new Date().toISOString();
       const requests = state.actionRequests.map(r =>
@@ -491,6 +733,14 @@ export const useAdminConfigStore = create<AdminConfigState>((set, get) => ({
     return getConfigNumber(get().configs, 'tax.vatRate', TAX.vatRate);
   },
 
+  getDynamicPricingConfig: (asOf) => {
+    return resolvePricingConfig(get().configs, asOf);
+  },
+
+  getShippingSubsidyPolicy: (asOf) => {
+    return resolveShippingSubsidyPolicy(get().configs, asOf);
+  },
+
   getEscrowConfig: () => {
     const configs = get().configs;
     return {
@@ -498,6 +748,25 @@ export const useAdminConfigStore = create<AdminConfigState>((set, get) => ({
       minimumPayoutThreshold: getConfigNumber(configs, 'escrow.minimumPayoutThreshold', ESCROW.minimumPayoutThreshold),
       codDepositCycle: getConfigNumber(configs, 'escrow.codDepositCycle', ESCROW.codDepositCycle),
       codDiscrepancyThreshold: getConfigNumber(configs, 'escrow.codDiscrepancyThreshold', ESCROW.codDiscrepancyThreshold),
+      publicHolidays: getPublicHolidays(configs),
+    };
+  },
+
+  getVendorSlaConfig: () => {
+    const configs = get().configs;
+    return {
+      acceptanceWindowHours: getConfigNumber(configs, 'sla.acceptanceWindowHours', VENDOR_SLAS.acceptanceWindowHours),
+      maxDispatchHours: getConfigNumber(configs, 'sla.maxDispatchHours', VENDOR_SLAS.maxDispatchHours),
+      maxReliabilityStrikes: getConfigNumber(configs, 'sla.maxReliabilityStrikes', VENDOR_SLAS.maxReliabilityStrikes),
+      wastedTripFee: getConfigNumber(configs, 'sla.wastedTripFee', VENDOR_SLAS.wastedTripFee),
+    };
+  },
+
+  getFraudConfig: () => {
+    const configs = get().configs;
+    return {
+      maxCodCancelsBeforeBlock: getConfigNumber(configs, 'fraud.maxCodCancelsBeforeBlock', FRAUD_RULES.maxCodCancelsBeforeBlock),
+      priceDeviationFlag: getConfigNumber(configs, 'fraud.priceDeviationFlag', FRAUD_RULES.priceDeviationFlag),
     };
   },
 }));
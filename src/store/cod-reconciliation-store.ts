@@ -0,0 +1,197 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — COD Reconciliation Store (Zustand)
+ * ============================================================
+ *
+ * Holds imported courier remittance files and finance's manual
+ * resolutions; matching and freeze decisions are recomputed from them
+ * (lib/cod-reconciliation.ts) against the delivered COD shipments of the
+ * order store, as of now. Resolutions and courier freezes are written
+ * to the audit trail, and the order store refuses to book a frozen
+ * courier for a COD shipment.
+ *
+ * In production, this store syncs with the backend CodRemittances
+ * table and files arrive from the couriers' SFTP drop.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { Order, Shipment } from '../app/shared/types';
+import { useAdminConfigStore } from './admin-config-store';
+import { useOrderStore } from './order-store';
+import { mockCodShipments, mockCourierRemittances, mockEscrowAsOf, mockOrders } from '../lib/mock-data-extended';
+import {
+  type RemittanceFile, type ReconciliationLine, type ReconciliationResolution, type CourierReconciliationSummary, type ResolutionAction,
+  CodReconciliationError, parseRemittanceCsv, reconcileCodRemittances, summarizeCourierReconciliation, validateResolution, validateLink, describeResolution,
+} from '../lib/cod-reconciliation';
+
+// ──────────────────────────────────────────────
+// HELPERS
+// ──────────────────────────────────────────────
+
+const ADMIN = { userId: 'admin-001', userName: 'كريم مطاط', userRole: 'admin_super' };
+
+function seedFiles(): RemittanceFile[] {
+  return mockCourierRemittances.map((file, i) => parseRemittanceCsv(file.csv, {
+    id: `REM-${String(i + 1).padStart(3, '0')}`,
+    courierProvider: file.courierProvider,
+    fileName: file.fileName,
+    importedAt: mockEscrowAsOf,
+  }));
+}
+
+/** Shipments awaiting remittance before this session, then every COD delivery the order store records. */
+function codShipments(orders: Order[]): Shipment[] {
+  const seeded = new Set(mockCodShipments.map(s => s.id));
+  const delivered = orders.flatMap(o => o.shipments).filter(s => s.status === 'delivered' && s.codAmountDue.piastres > 0);
+  return [...mockCodShipments, ...delivered.filter(s => !seeded.has(s.id))];
+}
+
+interface ReconciliationInputs {
+  shipments: Shipment[];
+  files: RemittanceFile[];
+  resolutions: Record<string, ReconciliationResolution>;
+  links: Record<string, string>;
+}
+
+function reconcile({ shipments, files, resolutions, links }: ReconciliationInputs) {
+  const escrow = useAdminConfigStore.getState().getEscrowConfig();
+  const lines = reconcileCodRemittances(shipments, files, {
+    asOf: new Date(),
+    depositCycleHours: escrow.codDepositCycle,
+    resolutions,
+    links,
+  });
+  return { lines, summaries: summarizeCourierReconciliation(lines, escrow.codDiscrepancyThreshold) };
+}
+
+/** Logs couriers that were frozen or unfrozen since the last check. */
+function auditFreezeChanges(before: string[], summaries: CourierReconciliationSummary[]): string[] {
+  const frozen = summaries.filter(s => s.isFrozen).map(s => s.courierProvider);
+  const { addAuditEntry } = useAdminConfigStore.getState();
+  for (const summary of summaries) {
+    const wasFrozen = before.includes(summary.courierProvider);
+    if (wasFrozen === summary.isFrozen) continue;
+    const rate = (summary.discrepancyRate * 100).toFixed(1);
+    addAuditEntry({
+      userId: 'system', userName: 'COD Reconciliation', userRole: 'system',
+      action: 'status_change', entityType: 'Courier', entityId: summary.courierProvider,
+      description: summary.isFrozen
+        ? `Froze ${summary.courierProvider}: COD discrepancy ${rate}% exceeds threshold`
+        : `Unfroze ${summary.courierProvider}: COD discrepancy back to ${rate}%`,
+      descriptionAr: summary.isFrozen
+        ? `تجميد ${summary.courierProvider}: فرق التحصيل ${rate}% يتجاوز الحد المسموح`
+        : `رفع التجميد عن ${summary.courierProvider}: فرق التحصيل ${rate}%`,
+    });
+  }
+  return frozen;
+}
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface CodReconciliationState {
+  files: RemittanceFile[];
+  resolutions: Record<string, ReconciliationResolution>;
+  links: Record<string, string>;
+  frozenCouriers: string[];
+  loadReconciliation: () => void;
+  /** Imports a remittance CSV; throws CodReconciliationError for an unreadable file. */
+  importRemittance: (csv: string, courierProvider: string, fileName: string) => RemittanceFile;
+  /** Resolves an exception line; throws CodReconciliationError when the resolution is invalid. */
+  resolveLine: (lineId: string, action: ResolutionAction, note: string) => void;
+  /** Re-matches an unmatched line to a shipment (mistyped tracking number). */
+  linkLine: (lineId: string, shipmentId: string, note: string) => void;
+  getShipments: () => Shipment[];
+  getLines: () => ReconciliationLine[];
+  getSummaries: () => CourierReconciliationSummary[];
+  /** Couriers frozen by the current discrepancy rates. */
+  getFrozenCouriers: () => string[];
+}
+
+const frozenIn = (inputs: ReconciliationInputs) =>
+  reconcile(inputs).summaries.filter(s => s.isFrozen).map(s => s.courierProvider);
+
+export const useCodReconciliationStore = create<CodReconciliationState>((set, get) => {
+  // The order store may still be loading when this one is created; it starts from the same orders
+  const seed = { files: seedFiles(), resolutions: {}, links: {} };
+  const inputs = (changes: Partial<ReconciliationInputs> = {}): ReconciliationInputs => {
+    const { files, resolutions, links } = get();
+    return { shipments: codShipments(useOrderStore.getState().orders), files, resolutions, links, ...changes };
+  };
+
+  const findLine = (lineId: string) => {
+    const line = get().getLines().find(l => l.id === lineId);
+    if (!line) {
+      throw new CodReconciliationError('line_not_found', `Reconciliation line ${lineId} not found`);
+    }
+    return line;
+  };
+
+  /** Applies new inputs and audits any courier freeze they cause or lift. */
+  const commit = (changes: Partial<ReconciliationInputs>) => {
+    set({ ...changes, frozenCouriers: auditFreezeChanges(get().frozenCouriers, reconcile(inputs(changes)).summaries) });
+  };
+
+  return {
+    ...seed,
+    frozenCouriers: frozenIn({ ...seed, shipments: codShipments(mockOrders) }),
+
+    loadReconciliation: () => {
+      // In production: fetch from GET /api/finance/cod-remittances
+      const files = seedFiles();
+      set({ files, resolutions: {}, links: {}, frozenCouriers: frozenIn(inputs({ files, resolutions: {}, links: {} })) });
+    },
+
+    importRemittance: (csv, courierProvider, fileName) => {
+      const { files } = get();
+      const file = parseRemittanceCsv(csv, {
+        id: `REM-${String(files.length + 1).padStart(3, '0')}`,
+        courierProvider,
+        fileName,
+        importedAt: new Date().toISOString(),
+      });
+      commit({ files: [...files, file] });
+      return file;
+    },
+
+    resolveLine: (lineId, action, note) => {
+      const line = findLine(lineId);
+      validateResolution(line);
+      const resolution: ReconciliationResolution = { action, note, resolvedBy: ADMIN.userName, resolvedAt: new Date().toISOString() };
+
+      useAdminConfigStore.getState().addAuditEntry({
+        ...ADMIN,
+        action: 'update', entityType: 'CodRemittance', entityId: lineId,
+        description: describeResolution(line, resolution),
+        descriptionAr: `تسوية تحصيل ${line.trackingNumber || line.shipmentId}: ${note}`,
+        newValues: JSON.stringify(resolution),
+      });
+      commit({ resolutions: { ...get().resolutions, [lineId]: resolution } });
+    },
+
+    linkLine: (lineId, shipmentId, note) => {
+      const line = findLine(lineId);
+      validateLink(line, shipmentId, get().getShipments());
+
+      useAdminConfigStore.getState().addAuditEntry({
+        ...ADMIN,
+        action: 'update', entityType: 'CodRemittance', entityId: lineId,
+        description: `COD line ${line.trackingNumber} (${line.courierProvider}) linked to ${shipmentId} — ${note}`,
+        descriptionAr: `ربط بند التحصيل ${line.trackingNumber} بالشحنة ${shipmentId}: ${note}`,
+        oldValues: JSON.stringify({ trackingNumber: line.trackingNumber }),
+        newValues: JSON.stringify({ shipmentId }),
+      });
+      commit({ links: { ...get().links, [lineId]: shipmentId } });
+    },
+
+    getShipments: () => codShipments(useOrderStore.getState().orders),
+
+    getLines: () => reconcile(inputs()).lines,
+
+    getSummaries: () => reconcile(inputs()).summaries,
+
+    getFrozenCouriers: () => reconcile(inputs()).summaries.filter(s => s.isFrozen).map(s => s.courierProvider),
+  };
+});
@@ -0,0 +1,154 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Inventory Store (Zustand)
+ * ============================================================
+ *
+ * Holds checkout reservations and the stock movement ledger, and
+ * applies the inventory operations (lib/inventory.ts) to the product
+ * catalogue. Order acceptance and cancellation reach it through the
+ * order store, returns through the returns store, and stock counts
+ * through approved bulk_stock_update requests.
+ *
+ * Every operation reads and writes in one synchronous step, so two
+ * checkouts can never both take the last unit. Vendors are notified
+ * when a product falls to its low-stock threshold.
+ *
+ * In production, this store syncs with the backend StockReservations
+ * and StockMovements tables (see POST /api/inventory/reservations).
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { Order, VendorActionRequest } from '../app/shared/types';
+import { useAdminConfigStore } from './admin-config-store';
+import { useAppStore } from './app-store';
+import { useProductStore } from './product-store';
+import { useVendorStore } from './vendor-store';
+import { mockStockMovements, mockStockReservations } from '../lib/mock-data-extended';
+import {
+  type InventoryChange,
+  type InventorySnapshot,
+  type StockLevel,
+  type StockLine,
+  type StockMovement,
+  type StockReservation,
+  adjustStock,
+  commitOrderStock,
+  expireReservations,
+  getStockLevel,
+  parseBulkStockUpdate,
+  placeReservation,
+  releaseReservation,
+  reserveStock,
+  restockCancelledOrder,
+  restockReturn,
+} from '../lib/inventory';
+import type { OrderSideEffect } from '../lib/order-state-machine';
+
+type OrderStockEffect = Extract<OrderSideEffect, { kind: 'commit_stock' | 'restock' }>;
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface InventoryState {
+  reservations: StockReservation[];
+  movements: StockMovement[];
+  loadInventory: () => void;
+  getStockLevel: (productId: string, at?: string) => StockLevel | undefined;
+  getMovements: (productId: string) => StockMovement[];
+  /** Holds a checkout's units. Throws InventoryError when they aren't available. */
+  reserve: (checkoutId: string, lines: StockLine[], at?: string) => StockReservation;
+  placeReservation: (reservationId: string, orderId: string, at?: string) => void;
+  releaseReservation: (reservationId: string, at?: string) => void;
+  expireReservations: (at?: string) => void;
+  /**
+   * What an order's commit_stock or restock effect does to stock, worked
+   * out but not applied (see applyChange). Throws InventoryError when an
+   * unreserved order no longer fits.
+   */
+  planOrderStock: (order: Order, effect: OrderStockEffect, at: string) => InventoryChange;
+  applyChange: (change: InventoryChange) => void;
+  /** Returned units going back on the shelf, worked out but not applied (see applyChange). */
+  planReturnRestock: (returnId: string, lines: StockLine[], at: string) => InventoryChange;
+  /** Applies an approved stock count. Throws InventoryError for an invalid request. */
+  applyBulkStockUpdate: (request: VendorActionRequest, at?: string) => void;
+}
+
+const now = () => new Date().toISOString();
+
+function snapshot(): InventorySnapshot {
+  return {
+    products: useProductStore.getState().products,
+    reservations: useInventoryStore.getState().reservations,
+  };
+}
+
+function apply(change: InventoryChange) {
+  if (change.updatedProducts.length > 0) useProductStore.getState().applyStockUpdates(change.updatedProducts);
+  useInventoryStore.setState((state) => ({ reservations: change.reservations, movements: [...state.movements, ...change.movements] }));
+
+  // In production the vendor gets this as SMS / push
+  for (const alert of change.lowStock) {
+    const product = useProductStore.getState().products.find(p => p.id === alert.productId);
+    const vendor = useVendorStore.getState().getVendor(alert.vendorId);
+    useAppStore.getState().addNotification({
+      type: 'warning',
+      title: 'مخزون منخفض',
+      message: `${product?.titleAr ?? alert.productId}${vendor ? ` (${vendor.businessNameAr})` : ''}: متبقي ${alert.available} فقط — حدّث المخزون قبل نفاده`,
+    });
+  }
+}
+
+export const useInventoryStore = create<InventoryState>((set, get) => ({
+  reservations: mockStockReservations,
+  movements: mockStockMovements,
+
+  loadInventory: () => {
+    // In production: fetch from GET /api/inventory
+    set({ reservations: mockStockReservations, movements: mockStockMovements });
+  },
+
+  getStockLevel: (productId, at = now()) => {
+    const product = useProductStore.getState().products.find(p => p.id === productId);
+    return product ? getStockLevel(product, get().reservations, at) : undefined;
+  },
+
+  getMovements: (productId) => get().movements.filter(m => m.productId === productId),
+
+  reserve: (checkoutId, lines, at = now()) => {
+    const { reservation, change } = reserveStock(snapshot(), { checkoutId, lines, at });
+    apply(change);
+    return reservation;
+  },
+
+  placeReservation: (reservationId, orderId, at = now()) => apply(placeReservation(snapshot(), reservationId, orderId, at)),
+
+  releaseReservation: (reservationId, at = now()) => apply(releaseReservation(snapshot(), reservationId, at)),
+
+  expireReservations: (at = now()) => apply(expireReservations(snapshot(), at)),
+
+  planOrderStock: (order, effect, at) => (effect.kind === 'commit_stock'
+    ? commitOrderStock(snapshot(), order, at)
+    : restockCancelledOrder(snapshot(), order, { at, wasAccepted: effect.wasAccepted })),
+
+  applyChange: (change) => apply(change),
+
+  planReturnRestock: (returnId, lines, at) => restockReturn(snapshot(), { returnId, lines, at }),
+
+  applyBulkStockUpdate: (request, at = now()) => {
+    const change = adjustStock(snapshot(), parseBulkStockUpdate(request), { at, reference: request.id, note: request.justification });
+    apply(change);
+
+    const adjustments = change.movements.filter(m => m.type === 'adjustment');
+    useAdminConfigStore.getState().addAuditEntry({
+      userId: 'admin-001', userName: 'كريم مطاط', userRole: 'admin_super',
+      action: 'update', entityType: 'Product', entityId: adjustments.map(m => m.productId).join(','),
+      description: `Stock count from ${request.vendorName} (${request.id}): ` +
+        adjustments.map(m => `${m.productId} ${m.onHandAfter - m.onHandDelta} → ${m.onHandAfter}`).join(', '),
+      descriptionAr: `تحديث مخزون ${request.vendorNameAr} (${request.id}): ${adjustments.length} منتجات`,
+      oldValues: JSON.stringify(adjustments.map(m => ({ productId: m.productId, quantityAvailable: m.onHandAfter - m.onHandDelta }))),
+      newValues: JSON.stringify(adjustments.map(m => ({ productId: m.productId, quantityAvailable: m.onHandAfter }))),
+    });
+  },
+}));
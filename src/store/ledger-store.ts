@@ -0,0 +1,103 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Ledger Store (Zustand)
+ * ============================================================
+ *
+ * Holds the double-entry ledger (lib/ledger.ts). Order, escrow and
+ * payout events post journals here; wallets and the trial balance are
+ * always read back from the entries.
+ *
+ * In production, this store syncs with the backend LedgerEntries table
+ * and postings happen server-side in one database transaction.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { VendorWallet } from '../app/shared/types';
+import { mockOrders, mockReturns, mockVendors } from '../lib/mock-data-extended';
+import { type Money, addMoney, compareMoney, sumMoney } from '../lib/money';
+import {
+  type JournalDraft, type Ledger, type TrialBalanceRow,
+  createLedger, postJournal, postJournals, getTrialBalance, vendorWalletFromLedger, getLedgerVendorIds, getAccountBalance, accountId,
+  journalOrderPlaced, journalOrderDelivered, journalEscrowReleased, journalPayoutSent,
+} from '../lib/ledger';
+import { settleReturn } from '../lib/returns';
+
+// ──────────────────────────────────────────────
+// MOCK LEDGER (replayed from mockOrders)
+// ──────────────────────────────────────────────
+
+function buildMockLedger(): Ledger {
+  const [, fawryOrder, , returnedOrder, splitOrder] = mockOrders;
+  const vendorShare = (vendorId: string) => sumMoney(
+    fawryOrder.items.filter(i => i.vendorId === vendorId).map(i => addMoney(i.bucketA_vendorRevenue, i.bucketB_vendorVat))
+  );
+
+  return postJournals(createLedger(), [
+    // ORD-20251128-007: card order delivered, then returned in full
+    journalOrderPlaced(returnedOrder),
+    journalOrderDelivered(returnedOrder, { at: '2025-11-30T15:00:00Z' }),
+    settleReturn(returnedOrder, mockReturns[0], { vendors: mockVendors, settledAt: returnedOrder.updatedAt }).journal,
+    // ORD-20251202-015: Fawry order, two shipments, escrow released, Khan El Khalili paid
+    journalOrderPlaced(fawryOrder),
+    ...fawryOrder.shipments.map(s => journalOrderDelivered(fawryOrder, { at: `${s.actualDeliveryDate}T16:00:00Z`, shipmentId: s.id })),
+    journalEscrowReleased('v-004', vendorShare('v-004'), { at: '2025-12-18T08:00:00Z', orderId: fawryOrder.id, reference: 'SH-015-A' }),
+    journalEscrowReleased('v-003', vendorShare('v-003'), { at: '2025-12-18T08:00:00Z', orderId: fawryOrder.id, reference: 'SH-015-B' }),
+    journalPayoutSent('v-004', vendorShare('v-004'), { at: '2025-12-22T10:00:00Z', reference: 'PAY-2025-W52' }),
+    // ORD-20251204-023: COD, split — the vase is delivered, the soap still on the road
+    journalOrderDelivered(splitOrder, { at: '2025-12-06T15:00:00Z', shipmentId: 'SH-023-A' }),
+  ]);
+}
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface LedgerState {
+  ledger: Ledger;
+  loadLedger: () => void;
+  /** Posts one journal; throws LedgerError (and changes nothing) if it is unbalanced. */
+  post: (draft: JournalDraft) => void;
+  /** Posts several journals as one unit: if any is refused, none are posted. */
+  postAll: (drafts: JournalDraft[]) => void;
+  getTrialBalance: () => TrialBalanceRow[];
+  getVendorWallet: (vendorId: string) => VendorWallet;
+  getVendorWallets: () => VendorWallet[];
+  /**
+   * Escrow still covers `amount` → claw back from pending, else from
+   * available. For a multi-line return, `amount` is the running total
+   * taken from pending so far (see settleReturn).
+   */
+  getClawbackSource: (vendorId: string, amount: Money) => 'pending' | 'available';
+}
+
+export const useLedgerStore = create<LedgerState>((set, get) => ({
+  ledger: buildMockLedger(),
+
+  loadLedger: () => {
+    // In production: fetch from GET /api/ledger
+    set({ ledger: buildMockLedger() });
+  },
+
+  post: (draft) => {
+    set((state) => ({ ledger: postJournal(state.ledger, draft) }));
+  },
+
+  postAll: (drafts) => {
+    set((state) => ({ ledger: postJournals(state.ledger, drafts) }));
+  },
+
+  getTrialBalance: () => getTrialBalance(get().ledger),
+
+  getVendorWallet: (vendorId) => vendorWalletFromLedger(get().ledger, vendorId),
+
+  getVendorWallets: () => {
+    const { ledger } = get();
+    return getLedgerVendorIds(ledger).map(id => vendorWalletFromLedger(ledger, id));
+  },
+
+  getClawbackSource: (vendorId, amount) => {
+    const pending = getAccountBalance(get().ledger, accountId('vendor_payable_pending', vendorId));
+    return compareMoney(pending, amount) >= 0 ? 'pending' : 'available';
+  },
+}));
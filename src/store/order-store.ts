@@ -0,0 +1,218 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Orders Store (Zustand)
+ * ============================================================
+ *
+ * Holds the orders and moves them through the lifecycle state machine
+ * (lib/order-state-machine.ts). The machine decides; this store carries
+ * out its side effects: ledger postings, stock sales and restocks,
+ * notifications, escrow starts and the audit trail. New orders get their
+ * promised delivery windows, and vendors' production check-ins on
+ * made-to-order items are recorded here too (lib/fulfilment-schedule.ts).
+ * Couriers are booked per shipment; one frozen by COD reconciliation
+ * can't take a shipment that collects cash.
+ *
+ * In production, transitions are POSTed to /api/orders/:id/transitions
+ * and courier webhooks hit the same endpoint as the 'courier_webhook'
+ * actor.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { Order, ProductionCheckIn } from '../app/shared/types';
+import { useAdminConfigStore } from './admin-config-store';
+import { useAppStore } from './app-store';
+import { useCodReconciliationStore } from './cod-reconciliation-store';
+import { useInventoryStore } from './inventory-store';
+import { useLedgerStore } from './ledger-store';
+import { useProductStore } from './product-store';
+import { mockEscrowShipments, mockOrders, mockSubVendors } from '../lib/mock-data-extended';
+import type { EscrowReturn, EscrowShipmentInput } from '../lib/escrow-scheduler';
+import { validateCodCourier } from '../lib/cod-reconciliation';
+import { egp } from '../lib/money';
+import { PRODUCTION_RISK_LABELS, PRODUCTION_STAGE_LABELS, assessProduction, promiseOrder, recordProductionCheckIn } from '../lib/fulfilment-schedule';
+import { type OrderAction, type OrderActor, type OrderTransitionResult, transitionOrder } from '../lib/order-state-machine';
+import { validateBuyerNationalId } from '../lib/tax-documents';
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface OrderState {
+  orders: Order[];
+  /** Delivered shipments held in escrow: the seeded ones, then each delivery as it happens. */
+  escrowShipments: EscrowShipmentInput[];
+  loadOrders: () => void;
+  getOrder: (orderId: string) => Order | undefined;
+  /**
+   * Adds a new order from checkout as pending, with lead times and
+   * promised delivery windows stamped (lib/fulfilment-schedule.ts).
+   * Throws TaxDocumentError when its receipt would need the buyer's
+   * national ID and it is missing or invalid.
+   */
+  placeOrder: (order: Order) => Order;
+  /**
+   * Runs one lifecycle step, on the whole order or on `shipmentId`, at
+   * `at` (default now). Throws OrderTransitionError (or LedgerError,
+   * InventoryError) without changing anything when the step is not allowed.
+   */
+  transition: (
+    orderId: string,
+    action: OrderAction,
+    context: { actor: OrderActor; reason?: string; shipmentId?: string; at?: string }
+  ) => OrderTransitionResult;
+  /**
+   * A vendor's progress report on a made-to-order item, at `at`
+   * (default now). Throws ProductionError when it can't be recorded.
+   */
+  recordProductionCheckIn: (
+    orderId: string,
+    orderItemId: string,
+    checkIn: Omit<ProductionCheckIn, 'at'> & { actor: OrderActor; at?: string }
+  ) => void;
+  /**
+   * Books `courierProvider` for a shipment not yet picked up. Throws
+   * CodReconciliationError when the courier is frozen and the shipment
+   * collects cash on delivery.
+   */
+  bookCourier: (orderId: string, shipmentId: string, booking: { courierProvider: string; trackingNumber: string; actor: OrderActor }) => void;
+  /** Pauses (open) or forfeits (refunded) `vendorId`'s escrow hold on `shipmentId`. */
+  recordEscrowReturn: (shipmentId: string, vendorId: string, escrowReturn: EscrowReturn) => void;
+}
+
+const auditUser = (actor: OrderActor) => (actor === 'admin'
+  ? { userId: 'admin-001', userName: 'كريم مطاط', userRole: 'admin_super' }
+  : { userId: actor, userName: actor, userRole: actor });
+
+export const useOrderStore = create<OrderState>((set, get) => ({
+  orders: mockOrders,
+  escrowShipments: mockEscrowShipments,
+
+  loadOrders: () => {
+    // In production: fetch from GET /api/orders
+    set({ orders: mockOrders, escrowShipments: mockEscrowShipments });
+  },
+
+  getOrder: (orderId) => get().orders.find(o => o.id === orderId),
+
+  placeOrder: (order) => {
+    validateBuyerNationalId(order, egp(order.totalAmount));
+    // In production: POST /api/orders, which stamps the same promise
+    const placed = promiseOrder({ ...order, status: 'pending' }, {
+      products: useProductStore.getState().products,
+      subVendors: mockSubVendors,
+    }, { maxDispatchHours: useAdminConfigStore.getState().getVendorSlaConfig().maxDispatchHours });
+    set((state) => ({ orders: [...state.orders, placed] }));
+
+    useAdminConfigStore.getState().addAuditEntry({
+      ...auditUser('system'),
+      action: 'create', entityType: 'Order', entityId: placed.id,
+      description: `Order ${placed.id} placed; promised by ${placed.shipments.map(s => `${s.id} ${s.estimatedDeliveryDate}`).join(', ')}`,
+      descriptionAr: `طلب جديد ${placed.id}`,
+      newValues: JSON.stringify({ shipments: placed.shipments.map(s => ({ id: s.id, earliestDeliveryDate: s.earliestDeliveryDate, estimatedDeliveryDate: s.estimatedDeliveryDate })) }),
+    });
+    return placed;
+  },
+
+  transition: (orderId, action, context) => {
+    const order = get().getOrder(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    const result = transitionOrder(order, action, { ...context, at: context.at ?? new Date().toISOString() });
+
+    // Every check runs before anything is written: stock changes are
+    // worked out first, then the journals post as one unit, and only
+    // then is stock applied — so an order that no longer fits or an
+    // unbalanced journal leaves stock, ledger and order as they were
+    const inventory = useInventoryStore.getState();
+    const stockChanges = result.effects.flatMap(e => (e.kind === 'commit_stock' || e.kind === 'restock'
+      ? [inventory.planOrderStock(result.order, e, result.order.updatedAt)]
+      : []));
+    useLedgerStore.getState().postAll(result.effects.flatMap(e => (e.kind === 'post_ledger' ? [e.journal] : [])));
+    stockChanges.forEach(inventory.applyChange);
+
+    const escrow = result.effects.flatMap(e => (e.kind === 'start_escrow' ? e.shipments : []));
+    set((state) => ({
+      orders: state.orders.map(o => (o.id === orderId ? result.order : o)),
+      escrowShipments: [...state.escrowShipments, ...escrow],
+    }));
+
+    // In production the customer / vendor recipients get SMS or push
+    for (const effect of result.effects) {
+      if (effect.kind === 'notify') {
+        useAppStore.getState().addNotification({ type: effect.type, title: effect.title, message: effect.message });
+      }
+    }
+
+    useAdminConfigStore.getState().addAuditEntry({
+      ...auditUser(context.actor),
+      action: 'status_change', entityType: 'Order', entityId: orderId,
+      description: `Order ${orderId}: ${result.from} → ${result.order.status} (${action}${context.shipmentId ? ` ${context.shipmentId}` : ''} by ${context.actor})${context.reason ? ` — ${context.reason}` : ''}`,
+      descriptionAr: `الطلب ${orderId}${context.shipmentId ? ` (الشحنة ${context.shipmentId})` : ''}: من ${result.from} إلى ${result.order.status}`,
+      oldValues: JSON.stringify({ status: result.from, shipments: order.shipments.map(s => ({ id: s.id, status: s.status })) }),
+      newValues: JSON.stringify({ status: result.order.status, shipments: result.order.shipments.map(s => ({ id: s.id, status: s.status })) }),
+    });
+
+    return result;
+  },
+
+  recordProductionCheckIn: (orderId, orderItemId, { actor, at = new Date().toISOString(), ...checkIn }) => {
+    const order = get().getOrder(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    const updated = recordProductionCheckIn(order, orderItemId, { ...checkIn, at });
+    set((state) => ({ orders: state.orders.map(o => (o.id === orderId ? updated : o)) }));
+
+    const item = updated.items.find(i => i.id === orderItemId)!;
+    const before = order.items.find(i => i.id === orderItemId)!.production!;
+    const production = item.production!;
+    useAdminConfigStore.getState().addAuditEntry({
+      ...auditUser(actor),
+      action: 'update', entityType: 'Order', entityId: orderId,
+      description: `Production check-in on ${orderId} / ${item.productTitle}: ${production.stage} ${production.progressPercent}%${checkIn.note ? ` — ${checkIn.note}` : ''}`,
+      descriptionAr: `متابعة تصنيع ${item.productTitle} (${orderId}): ${PRODUCTION_STAGE_LABELS[production.stage].ar} ${production.progressPercent}٪`,
+      oldValues: JSON.stringify({ stage: before.stage, progressPercent: before.progressPercent }),
+      newValues: JSON.stringify({ stage: production.stage, progressPercent: production.progressPercent, expectedCompletionDate: checkIn.expectedCompletionDate }),
+    });
+
+    const risk = assessProduction(item, at.slice(0, 10));
+    if (risk && risk.level !== 'on_track') {
+      useAppStore.getState().addNotification({
+        type: risk.level === 'late' ? 'error' : 'warning',
+        title: risk.level === 'late' ? 'تأخر في التصنيع' : 'تصنيع معرض للتأخير',
+        message: `${item.productTitle} (${orderId}): ${risk.reasons.map(r => PRODUCTION_RISK_LABELS[r].ar).join('، ')} — موعد الانتهاء ${production.dueDate}`,
+      });
+    }
+  },
+
+  bookCourier: (orderId, shipmentId, { courierProvider, trackingNumber, actor }) => {
+    const order = get().getOrder(orderId);
+    const shipment = order?.shipments.find(s => s.id === shipmentId);
+    if (!order || !shipment) throw new Error(`Shipment ${shipmentId} of order ${orderId} not found`);
+    if (!['pending', 'accepted', 'ready_to_ship'].includes(shipment.status)) {
+      throw new Error(`Shipment ${shipmentId} is ${shipment.status} — its courier can no longer change`);
+    }
+    validateCodCourier(shipment, courierProvider, useCodReconciliationStore.getState().getFrozenCouriers());
+
+    const booked = { ...shipment, courierProvider, trackingNumber };
+    set((state) => ({
+      orders: state.orders.map(o => (o.id !== orderId ? o : {
+        ...o, shipments: o.shipments.map(s => (s.id === shipmentId ? booked : s)),
+      })),
+    }));
+    useAdminConfigStore.getState().addAuditEntry({
+      ...auditUser(actor),
+      action: 'update', entityType: 'Order', entityId: orderId,
+      description: `Booked ${courierProvider} (${trackingNumber}) for ${shipmentId}`,
+      descriptionAr: `حجز ${courierProvider} للشحنة ${shipmentId} (رقم التتبع ${trackingNumber})`,
+      oldValues: JSON.stringify({ courierProvider: shipment.courierProvider, trackingNumber: shipment.trackingNumber }),
+      newValues: JSON.stringify({ courierProvider, trackingNumber }),
+    });
+  },
+
+  recordEscrowReturn: (shipmentId, vendorId, escrowReturn) => {
+    set((state) => ({
+      escrowShipments: state.escrowShipments.map(s => (s.shipment.id === shipmentId && s.vendorId === vendorId
+        ? { ...s, returns: [...(s.returns ?? []), escrowReturn] }
+        : s)),
+    }));
+  },
+}));
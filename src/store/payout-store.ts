@@ -0,0 +1,131 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Payout Batches Store (Zustand)
+ * ============================================================
+ *
+ * Holds the weekly payout batches (lib/payout-batches.ts) and what they
+ * have taken out of each vendor's wallet. Every money step posts to the
+ * ledger store with the batch change: approval moves the transfers and
+ * wasted-trip fees out of the wallets, the bank's confirmation pays them
+ * out of cash, and a bounced transfer puts both back.
+ *
+ * In production, this store syncs with the backend PayoutBatches table
+ * and transfer statuses arrive from the bank's settlement file.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import { useLedgerStore } from './ledger-store';
+import { type JournalDraft, journalPayoutQueued, journalPayoutReversed, journalPayoutSent, journalWastedTripFees } from '../lib/ledger';
+import { type Money, isZeroMoney, sumMoney } from '../lib/money';
+import {
+  type PayoutBatch, type PayoutTransfer,
+  approvePayoutBatch, markTransferSent, markTransferFailed, reverseFailedTransfer, getWithdrawnAmount,
+} from '../lib/payout-batches';
+
+// ──────────────────────────────────────────────
+// LEDGER POSTINGS
+// ──────────────────────────────────────────────
+
+const wastedTripFees = (transfer: PayoutTransfer) =>
+  sumMoney(transfer.deductions.filter(d => d.kind === 'wasted_trip').map(d => d.amount));
+
+/** The transfer and its wasted-trip fees leave the wallet when the batch is approved. */
+function queuedJournals(batch: PayoutBatch, at: string): JournalDraft[] {
+  return batch.transfers.flatMap((t) => {
+    const fees = wastedTripFees(t);
+    return [
+      journalPayoutQueued(t.vendorId, t.amount, { at, reference: t.id }),
+      ...(isZeroMoney(fees) ? [] : [journalWastedTripFees(t.vendorId, fees, { at, reference: t.id })]),
+    ];
+  });
+}
+
+function reversedJournals(transfer: PayoutTransfer, at: string): JournalDraft[] {
+  const fees = wastedTripFees(transfer);
+  return [
+    journalPayoutReversed(transfer.vendorId, transfer.amount, { at, reference: transfer.id }),
+    ...(isZeroMoney(fees) ? [] : [journalWastedTripFees(transfer.vendorId, fees, { at, reference: transfer.id, reversed: true })]),
+  ];
+}
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface PayoutState {
+  batches: PayoutBatch[];
+  loadBatches: () => void;
+  /** Saves a draft; re-drafting the same week replaces the old draft. */
+  saveDraft: (batch: PayoutBatch) => void;
+  discardDraft: (batchId: string) => void;
+  approveBatch: (batchId: string, approvedBy: string) => void;
+  markSent: (batchId: string, transferId: string) => void;
+  markFailed: (batchId: string, transferId: string, reason: string) => void;
+  reverseTransfer: (batchId: string, transferId: string) => void;
+  getWithdrawn: (vendorId: string) => Money;
+}
+
+export const usePayoutStore = create<PayoutState>((set, get) => {
+  /**
+   * Applies a lib transition to one batch and posts its journals as one
+   * unit. Lib and ledger errors propagate before anything changes.
+   */
+  const apply = (
+    batchId: string,
+    transition: (batch: PayoutBatch) => PayoutBatch,
+    journals: (batch: PayoutBatch) => JournalDraft[] = () => []
+  ) => {
+    const batch = get().batches.find(b => b.id === batchId);
+    if (!batch) return;
+    const next = transition(batch);
+    useLedgerStore.getState().postAll(journals(next));
+    set((state) => ({
+      batches: state.batches.map(b => (b.id === batchId ? next : b)),
+    }));
+  };
+  const transferOf = (batch: PayoutBatch, transferId: string) => batch.transfers.find(t => t.id === transferId)!;
+
+  return {
+    batches: [],
+
+    loadBatches: () => {
+      // In production: fetch from GET /api/finance/payouts
+      set({ batches: [] });
+    },
+
+    saveDraft: (batch) => {
+      const existing = get().batches.find(b => b.id === batch.id);
+      if (existing && existing.status !== 'draft') return;
+      set((state) => ({ batches: [...state.batches.filter(b => b.id !== batch.id), batch] }));
+    },
+
+    discardDraft: (batchId) => {
+      set((state) => ({ batches: state.batches.filter(b => b.id !== batchId || b.status !== 'draft') }));
+    },
+
+    approveBatch: (batchId, approvedBy) => {
+      const at = new Date().toISOString();
+      apply(batchId, b => approvePayoutBatch(b, approvedBy, at), b => queuedJournals(b, at));
+    },
+
+    markSent: (batchId, transferId) => {
+      const at = new Date().toISOString();
+      apply(batchId, b => markTransferSent(b, transferId, at), (b) => {
+        const transfer = transferOf(b, transferId);
+        return [journalPayoutSent(transfer.vendorId, transfer.amount, { at, reference: transfer.id, queued: true })];
+      });
+    },
+
+    markFailed: (batchId, transferId, reason) => {
+      apply(batchId, b => markTransferFailed(b, transferId, reason, new Date().toISOString()));
+    },
+
+    reverseTransfer: (batchId, transferId) => {
+      const at = new Date().toISOString();
+      apply(batchId, b => reverseFailedTransfer(b, transferId, at), b => reversedJournals(transferOf(b, transferId), at));
+    },
+
+    getWithdrawn: (vendorId) => getWithdrawnAmount(get().batches, vendorId),
+  };
+});
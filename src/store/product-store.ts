@@ -0,0 +1,214 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Product Catalogue Store (Zustand)
+ * ============================================================
+ *
+ * Holds the product catalogue. Every create and update runs the
+ * category price benchmark check (lib/price-benchmarks.ts) so prices
+ * far from what similar products sell for are flagged for review.
+ *
+ * In production, this store syncs with the backend Products table.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { Product } from '../app/shared/types';
+import { calculatePrice } from '../lib/pricing-engine';
+import { resolvePricingInput } from '../lib/pricing-inputs';
+import { checkPriceAgainstBenchmark, type PriceBenchmarkCheck } from '../lib/price-benchmarks';
+import { mockVendorDirectory } from '../lib/mock-data-extended';
+import { toEgp } from '../lib/money';
+import { useAdminConfigStore } from './admin-config-store';
+
+// ──────────────────────────────────────────────
+// MOCK CATALOGUE
+// ──────────────────────────────────────────────
+
+/** Compact listing for the wider mock catalogue (ready stock, priced by the engine). */
+function listing(
+  id: string,
+  parentVendorId: string,
+  pickupLocationId: string,
+  categoryId: string,
+  subcategoryId: string,
+  titleAr: string,
+  sellingPrice: number,
+  weightKg: number,
+  quantityAvailable: number
+): Product {
+  const pricing = calculatePrice(
+    resolvePricingInput({ id, parentVendorId, categoryId, sellingPrice }, mockVendorDirectory).input
+  );
+  return {
+    id, sku: `${id.toUpperCase()}-${subcategoryId.slice(0, 5).toUpperCase()}`, parentVendorId, categoryId, subcategoryId,
+    title: titleAr, titleAr, description: '', descriptionAr: '', images: [],
+    costPrice: Math.round(sellingPrice * 0.75), sellingPrice, cooperativeFee: toEgp(pricing.cooperativeFee),
+    marketplaceUplift: toEgp(pricing.marketplaceUplift), finalPrice: toEgp(pricing.finalPrice),
+    pickupLocationId, stockMode: 'ready_stock', quantityAvailable, weightKg,
+    isLocalOnly: false, status: 'active', isFeatured: false,
+    createdAt: '2026-01-10', updatedAt: '2026-01-10',
+  };
+}
+
+const mockProducts: Product[] = [
+  {
+    id: 'p-001', sku: 'HASAN-FATMA-CERAM-001', parentVendorId: 'v-001', subVendorId: 'sv-001',
+    categoryId: 'home-decor-fragile', subcategoryId: 'pottery', title: 'Hand-Painted Ceramic Vase', titleAr: 'فازة سيراميك مرسومة يدوياً',
+    description: '', descriptionAr: 'فخار الفيوم التقليدي، مرسوم يدوياً بزخارف اللوتس.',
+    images: [], costPrice: 80, sellingPrice: 100, cooperativeFee: 0, marketplaceUplift: 25,
+    finalPrice: 130, pickupLocationId: 'loc-001', stockMode: 'made_to_order', leadTimeDays: 3,
+    quantityAvailable: 20, weightKg: 1.2, dimensionL: 20, dimensionW: 20, dimensionH: 35,
+    volumetricWeight: 2.8, isLocalOnly: false, status: 'active', isFeatured: true,
+    createdAt: '2025-10-25', updatedAt: '2025-12-01',
+  },
+  {
+    id: 'p-002', sku: 'SIWA-MAIN-TEXTI-001', parentVendorId: 'v-002',
+    categoryId: 'home-decor-textiles', subcategoryId: 'kilims', title: 'Siwa Embroidered Kilim', titleAr: 'سجادة كليم سيوة مطرزة',
+    description: '', descriptionAr: 'كليم سيوي أصيل بأنماط أمازيغية تقليدية.',
+    images: [], costPrice: 1200, sellingPrice: 1500, cooperativeFee: 0, marketplaceUplift: 300,
+    finalPrice: 1800, pickupLocationId: 'loc-002', stockMode: 'ready_stock',
+    quantityAvailable: 8, weightKg: 4.5, dimensionL: 120, dimensionW: 80, dimensionH: 15,
+    volumetricWeight: 28.8, isLocalOnly: false, status: 'active', isFeatured: true,
+    createdAt: '2025-10-28', updatedAt: '2025-12-01',
+  },
+  {
+    id: 'p-003', sku: 'NADIA-MONA-FASHI-001', parentVendorId: 'v-003', subVendorId: 'sv-002',
+    categoryId: 'fashion-apparel', subcategoryId: 'scarves', title: 'Handmade Crochet Scarf', titleAr: 'وشاح كروشيه يدوي',
+    description: '', descriptionAr: 'وشاح كروشيه رقيق بألوان ترابية.',
+    images: [], costPrice: 60, sellingPrice: 85, cooperativeFee: 4.25, marketplaceUplift: 20,
+    finalPrice: 112, pickupLocationId: 'loc-003', stockMode: 'made_to_order', leadTimeDays: 5,
+    quantityAvailable: 50, weightKg: 0.3, dimensionL: 30, dimensionW: 20, dimensionH: 5,
+    volumetricWeight: 0.6, isLocalOnly: false, status: 'active', isFeatured: false,
+    createdAt: '2025-11-10', updatedAt: '2025-12-02',
+  },
+  {
+    id: 'p-004', sku: 'KHAN-MAIN-LEATH-001', parentVendorId: 'v-004',
+    categoryId: 'leather-goods', subcategoryId: 'bags', title: 'Leather Messenger Bag', titleAr: 'حقيبة ماسنجر جلد طبيعي',
+    description: '', descriptionAr: 'حقيبة جلد مصنوعة يدوياً من ورشة خان الخليلي.',
+    images: [], costPrice: 400, sellingPrice: 550, cooperativeFee: 0, marketplaceUplift: 110,
+    finalPrice: 660, pickupLocationId: 'loc-004', stockMode: 'ready_stock',
+    quantityAvailable: 15, weightKg: 0.8, dimensionL: 35, dimensionW: 10, dimensionH: 28,
+    volumetricWeight: 1.96, isLocalOnly: false, status: 'active', isFeatured: true,
+    createdAt: '2025-10-15', updatedAt: '2025-12-03',
+  },
+  {
+    id: 'p-005', sku: 'NADIA-MAIN-BEAUT-001', parentVendorId: 'v-003',
+    categoryId: 'beauty-personal', subcategoryId: 'soaps', title: 'Natural Olive Oil Soap', titleAr: 'صابون زيت زيتون طبيعي',
+    description: '', descriptionAr: 'صابون يدوي بزيت زيتون نقي.',
+    images: [], costPrice: 20, sellingPrice: 30, cooperativeFee: 1.5, marketplaceUplift: 20,
+    finalPrice: 55, pickupLocationId: 'loc-003', stockMode: 'ready_stock',
+    quantityAvailable: 200, weightKg: 0.15, dimensionL: 8, dimensionW: 5, dimensionH: 3,
+    volumetricWeight: 0.024, isLocalOnly: false, status: 'active', isFeatured: false,
+    createdAt: '2025-11-15', updatedAt: '2025-12-01',
+  },
+  listing('p-006', 'v-001', 'loc-001', 'home-decor-fragile', 'pottery', 'طبق فخار فيومي', 90, 1.0, 25),
+  listing('p-007', 'v-001', 'loc-001', 'home-decor-fragile', 'pottery', 'إبريق فخار مزجج', 110, 1.4, 12),
+  listing('p-008', 'v-001', 'loc-001', 'home-decor-fragile', 'pottery', 'طقم أكواب خزف', 120, 1.1, 18),
+  listing('p-009', 'v-001', 'loc-001', 'home-decor-fragile', 'pottery', 'مبخرة فخار', 95, 0.9, 30),
+  listing('p-010', 'v-001', 'loc-001', 'home-decor-fragile', 'pottery', 'زير فخار كبير', 140, 2.5, 6),
+  listing('p-011', 'v-002', 'loc-002', 'home-decor-textiles', 'kilims', 'كليم صوف مخطط', 1350, 4.0, 5),
+  listing('p-012', 'v-002', 'loc-002', 'home-decor-textiles', 'kilims', 'سجادة سيوي كبيرة', 1550, 5.0, 3),
+  listing('p-013', 'v-002', 'loc-002', 'home-decor-textiles', 'kilims', 'كليم ممر', 1200, 3.8, 7),
+  listing('p-014', 'v-002', 'loc-002', 'home-decor-textiles', 'cushions', 'غطاء وسادة مطرز', 220, 0.6, 40),
+  listing('p-028', 'v-002', 'loc-002', 'home-decor-textiles', 'cushions', 'مفرش طاولة كتان', 240, 0.7, 22),
+  listing('p-029', 'v-002', 'loc-002', 'home-decor-textiles', 'cushions', 'وسادة أرضية', 260, 1.2, 15),
+  listing('p-030', 'v-002', 'loc-002', 'home-decor-textiles', 'cushions', 'غطاء وسادة خيامية', 200, 0.5, 30),
+  listing('p-031', 'v-002', 'loc-002', 'home-decor-textiles', 'cushions', 'بطانية صوف صغيرة', 230, 0.9, 12),
+  listing('p-015', 'v-003', 'loc-003', 'fashion-apparel', 'scarves', 'شال صوف منسوج', 80, 0.25, 35),
+  listing('p-016', 'v-003', 'loc-003', 'fashion-apparel', 'scarves', 'وشاح قطن مطبوع', 90, 0.3, 28),
+  listing('p-017', 'v-003', 'loc-003', 'fashion-apparel', 'scarves', 'إيشارب كروشيه خفيف', 75, 0.2, 44),
+  listing('p-018', 'v-003', 'loc-003', 'fashion-apparel', 'scarves', 'شال تلي أسيوطي', 95, 0.35, 10),
+  listing('p-019', 'v-004', 'loc-004', 'leather-goods', 'bags', 'حقيبة ظهر جلد', 600, 0.9, 9),
+  listing('p-020', 'v-004', 'loc-004', 'leather-goods', 'bags', 'حقيبة كتف صغيرة', 480, 0.7, 14),
+  listing('p-021', 'v-004', 'loc-004', 'leather-goods', 'bags', 'حقيبة سفر جلد', 520, 1.0, 6),
+  listing('p-022', 'v-003', 'loc-003', 'beauty-personal', 'soaps', 'صابون لافندر', 28, 0.12, 150),
+  listing('p-023', 'v-003', 'loc-003', 'beauty-personal', 'soaps', 'صابون طين البحر الميت', 34, 0.15, 90),
+  listing('p-024', 'v-003', 'loc-003', 'beauty-personal', 'soaps', 'صابون عسل وشوفان', 32, 0.2, 120),
+  listing('p-025', 'v-003', 'loc-003', 'beauty-personal', 'soaps', 'صابون نيلة', 26, 0.12, 80),
+  listing('p-026', 'v-004', 'loc-004', 'leather-goods', 'bags', 'حقيبة يد كلاسيك', 575, 0.8, 8),
+  listing('p-027', 'v-002', 'loc-002', 'home-decor-textiles', 'kilims', 'كليم أطفال صغير', 1250, 2.8, 10),
+];
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface ProductState {
+  products: Product[];
+  priceChecks: Record<string, PriceBenchmarkCheck>;
+  loadProducts: () => void;
+  addProduct: (product: Product) => PriceBenchmarkCheck;
+  updateProduct: (id: string, changes: Partial<Product>) => PriceBenchmarkCheck | null;
+  /** Stock counts changed by the inventory store (no price re-check). */
+  applyStockUpdates: (updated: Product[]) => void;
+  getFlaggedProducts: () => Product[];
+}
+
+function checkProductPrice(product: Product, products: Product[]): PriceBenchmarkCheck {
+  const threshold = useAdminConfigStore.getState().getFraudConfig().priceDeviationFlag;
+  return checkPriceAgainstBenchmark(
+    {
+      productId: product.id,
+      categoryId: product.categoryId,
+      subcategoryId: product.subcategoryId,
+      weightKg: product.weightKg,
+      price: product.sellingPrice,
+    },
+    products,
+    threshold
+  );
+}
+
+function checkAll(products: Product[]): Record<string, PriceBenchmarkCheck> {
+  return Object.fromEntries(products.map(p => [p.id, checkProductPrice(p, products)]));
+}
+
+function logPriceFlag(product: Product, check: PriceBenchmarkCheck, action: 'create' | 'update') {
+  if (!check.isFlagged || !check.benchmark) return;
+  useAdminConfigStore.getState().addAuditEntry({
+    userId: 'system', userName: 'Price Monitor', userRole: 'system',
+    action, entityType: 'Product', entityId: product.id,
+    description: `Price ${product.sellingPrice} EGP is ${check.deviation}% from the ${check.benchmark.key} median (${check.benchmark.median} EGP)`,
+    descriptionAr: `السعر ${product.sellingPrice} ج.م يبعد ${check.deviation}% عن الوسيط (${check.benchmark.median} ج.م)`,
+  });
+}
+
+export const useProductStore = create<ProductState>((set, get) => ({
+  products: mockProducts,
+  priceChecks: checkAll(mockProducts),
+
+  loadProducts: () => {
+    // In production: fetch from GET /api/products
+    set({ products: mockProducts, priceChecks: checkAll(mockProducts) });
+  },
+
+  addProduct: (product) => {
+    const products = [...get().products.filter(p => p.id !== product.id), product];
+    const check = checkProductPrice(product, products);
+    set((state) => ({ products, priceChecks: { ...state.priceChecks, [product.id]: check } }));
+    logPriceFlag(product, check, 'create');
+    return check;
+  },
+
+  updateProduct: (id, changes) => {
+    const existing = get().products.find(p => p.id === id);
+    if (!existing) return null;
+    const updated: Product = { ...existing, ...changes, id, updatedAt: new Date().toISOString() };
+    const products = get().products.map(p => (p.id === id ? updated : p));
+    const check = checkProductPrice(updated, products);
+    set((state) => ({ products, priceChecks: { ...state.priceChecks, [id]: check } }));
+    logPriceFlag(updated, check, 'update');
+    return check;
+  },
+
+  applyStockUpdates: (updated) => {
+    set((state) => ({
+      products: state.products.map(p => updated.find(u => u.id === p.id) ?? p),
+    }));
+  },
+
+  getFlaggedProducts: () => {
+    const { products, priceChecks } = get();
+    return products.filter(p => priceChecks[p.id]?.isFlagged);
+  },
+}));
@@ -0,0 +1,90 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Promotions Store (Zustand)
+ * ============================================================
+ *
+ * Holds every promotion the platform knows about. Arooba-funded
+ * campaigns are created by admins; vendor-funded ones arrive through
+ * approved `promotion_request` actions (see admin-config-store).
+ *
+ * In production, this store syncs with the backend Promotions table.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { Promotion, PromotionStatus, VendorActionRequest } from '../app/shared/types';
+import { isPromotionLive, promotionFromRequest } from '../lib/promotions-engine';
+
+// ──────────────────────────────────────────────
+// MOCK PROMOTIONS
+// ──────────────────────────────────────────────
+
+const mockPromotions: Promotion[] = [
+  {
+    id: 'promo-001', name: 'Winter Textiles Sale', nameAr: 'تخفيضات المنسوجات الشتوية',
+    type: 'category_sale', fundedBy: 'arooba', value: 0.10,
+    categoryIds: ['home-decor-textiles'],
+    startsAt: '2026-01-01T00:00:00Z', endsAt: '2026-12-31T23:59:59Z',
+    status: 'active', createdAt: '2025-12-20T10:00:00Z',
+  },
+  {
+    id: 'promo-002', name: 'Welcome Coupon', nameAr: 'كوبون الترحيب',
+    type: 'fixed_coupon', fundedBy: 'arooba', code: 'WELCOME50', value: 50, minOrderAmount: 300,
+    startsAt: '2025-10-01T00:00:00Z',
+    status: 'active', createdAt: '2025-09-25T10:00:00Z',
+  },
+  {
+    id: 'promo-003', name: 'Nadia Scarves: Buy 2 Get 1', nameAr: 'أوشحة نادية: اشترِ 2 واحصل على 1',
+    type: 'buy_x_get_y', fundedBy: 'vendor', vendorId: 'v-003', value: 0, buyQuantity: 2, getQuantity: 1,
+    categoryIds: ['fashion-apparel'],
+    startsAt: '2026-02-01T00:00:00Z', endsAt: '2026-03-01T00:00:00Z',
+    status: 'active', createdAt: '2026-01-28T10:00:00Z',
+  },
+];
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface PromotionState {
+  promotions: Promotion[];
+  loadPromotions: () => void;
+  addPromotion: (promotion: Promotion) => void;
+  setPromotionStatus: (id: string, status: PromotionStatus) => void;
+  /** Throws PromotionError, adding nothing, when the proposed promotion is invalid. */
+  activateFromRequest: (request: VendorActionRequest) => Promotion | null;
+  getLivePromotions: (asOf?: string | Date) => Promotion[];
+}
+
+export const usePromotionStore = create<PromotionState>((set, get) => ({
+  promotions: mockPromotions,
+
+  loadPromotions: () => {
+    // In production: fetch from GET /api/promotions
+    set({ promotions: mockPromotions });
+  },
+
+  addPromotion: (promotion) => {
+    set((state) => ({ promotions: [...state.promotions, promotion] }));
+  },
+
+  setPromotionStatus: (id, status) => {
+    set((state) => ({
+      promotions: state.promotions.map(p => (p.id === id ? { ...p, status } : p)),
+    }));
+  },
+
+  activateFromRequest: (request) => {
+    const promotion = promotionFromRequest(request);
+    if (!promotion) return null;
+    // Re-approving the same request replaces rather than duplicates
+    set((state) => ({
+      promotions: [...state.promotions.filter(p => p.sourceRequestId !== request.id), promotion],
+    }));
+    return promotion;
+  },
+
+  getLivePromotions: (asOf) => {
+    return get().promotions.filter(p => isPromotionLive(p, asOf));
+  },
+}));
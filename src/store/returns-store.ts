@@ -0,0 +1,164 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Returns Store (Zustand)
+ * ============================================================
+ *
+ * Holds return requests and their settlements (lib/returns.ts). Settling
+ * a return posts its journal to the ledger store, keeps its credit notes
+ * and credits the customer's Arooba wallet when they chose wallet credit.
+ * Items returned in sellable condition go back into stock, and shipments
+ * that came back whole are moved to returned through the order store.
+ * The vendor share refunded out of escrow is forfeited on the shipment's
+ * hold, so the scheduler never releases it.
+ *
+ * In production, this store syncs with the backend Returns table and the
+ * refund itself is triggered through the payment gateway / Fawry APIs.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { Order } from '../app/shared/types';
+import { useAdminConfigStore } from './admin-config-store';
+import { useInventoryStore } from './inventory-store';
+import { useLedgerStore } from './ledger-store';
+import { useOrderStore } from './order-store';
+import { RETURNS } from '../config/constants';
+import { mockOrders, mockReturns, mockVendors } from '../lib/mock-data-extended';
+import { type Money, ZERO_MONEY, addMoney, toEgp } from '../lib/money';
+import { transitionOrder } from '../lib/order-state-machine';
+import {
+  type ReturnItemRequest, type ReturnReason, type ReturnRequest, type ReturnSettlement, type RefundMethod,
+  returnedQuantities, settleReturn,
+} from '../lib/returns';
+import { fullyReturnedShipments } from '../lib/shipment-tracking';
+
+// ──────────────────────────────────────────────
+// MOCK SETTLEMENTS (same as the seeded ledger)
+// ──────────────────────────────────────────────
+
+function seedSettlements(): ReturnSettlement[] {
+  return mockReturns.map(request => {
+    const order = mockOrders.find(o => o.id === request.orderId)!;
+    return settleReturn(order, request, { vendors: mockVendors, settledAt: order.updatedAt });
+  });
+}
+
+/** Vendor share taken back from escrow, per shipment and vendor. */
+function escrowForfeits(order: Order, settlement: ReturnSettlement): { shipmentId: string; vendorId: string; amount: Money }[] {
+  const forfeits = new Map<string, { shipmentId: string; vendorId: string; amount: Money }>();
+  for (const line of settlement.lines.filter(l => l.clawbackFrom === 'pending')) {
+    const item = order.items.find(i => i.id === line.orderItemId)!;
+    const shipment = order.shipments.find(s => s.pickupLocationId === item.pickupLocationId);
+    if (!shipment) continue;
+    const key = `${shipment.id}:${line.vendorId}`;
+    const current = forfeits.get(key) ?? { shipmentId: shipment.id, vendorId: line.vendorId, amount: ZERO_MONEY };
+    forfeits.set(key, { ...current, amount: addMoney(current.amount, line.bucketA, line.bucketB) });
+  }
+  return [...forfeits.values()];
+}
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+interface ReturnsState {
+  requests: ReturnRequest[];
+  settlements: ReturnSettlement[];
+  walletCredits: Record<string, Money>;   // customerId → refunds credited to their wallet
+  loadReturns: () => void;
+  /**
+   * Settles a return, posts it to the ledger, restocks sellable items and
+   * marks shipments whose items all came back as returned. Throws
+   * ReturnError (or OrderTransitionError, InventoryError, LedgerError)
+   * without changing anything when any part of that can't be done.
+   */
+  processReturn: (
+    order: Order,
+    input: { items: ReturnItemRequest[]; reason: ReturnReason; refundMethod: RefundMethod; note?: string }
+  ) => ReturnSettlement;
+  getOrderReturns: (orderId: string) => ReturnSettlement[];
+  getWalletCredit: (customerId: string) => Money;
+}
+
+export const useReturnsStore = create<ReturnsState>((set, get) => ({
+  requests: mockReturns,
+  settlements: seedSettlements(),
+  walletCredits: {},
+
+  loadReturns: () => {
+    // In production: fetch from GET /api/returns
+    set({ requests: mockReturns, settlements: seedSettlements(), walletCredits: {} });
+  },
+
+  processReturn: (order, input) => {
+    const previousReturns = get().requests.filter(r => r.orderId === order.id);
+    const now = new Date().toISOString();
+    const request: ReturnRequest = {
+      id: `RET-${order.id.replace('ORD-', '')}-${previousReturns.length + 1}`,
+      orderId: order.id,
+      items: input.items,
+      reason: input.reason,
+      refundMethod: input.refundMethod,
+      requestedAt: now,
+      ...(input.note ? { note: input.note } : {}),
+    };
+
+    const ledger = useLedgerStore.getState();
+    const inventory = useInventoryStore.getState();
+    const settlement = settleReturn(order, request, {
+      vendors: mockVendors,
+      settledAt: now,
+      previousReturns,
+      clawbackFrom: ledger.getClawbackSource,
+    });
+
+    // Shipments whose items all came back are marked returned; the order
+    // status follows. Dry-run those steps so a refused one stops the
+    // return before any money or stock moves.
+    const returned = returnedQuantities([...previousReturns, request]);
+    const steps = order.shipments.length === 0
+      ? (settlement.isFullReturn ? [undefined] : [])
+      : fullyReturnedShipments(order, returned).map(s => s.id);
+    steps.reduce((current, shipmentId) => transitionOrder(current, 'return', { actor: 'system', shipmentId, at: now }).order, order);
+
+    const restock = RETURNS.reasons[request.reason].restocks
+      ? inventory.planReturnRestock(request.id, request.items.map(line => ({
+        productId: order.items.find(i => i.id === line.orderItemId)!.productId,
+        quantity: line.quantity,
+      })), now)
+      : null;
+    ledger.post(settlement.journal);
+    if (restock) inventory.applyChange(restock);
+    for (const shipmentId of steps) {
+      useOrderStore.getState().transition(order.id, 'return', { actor: 'system', shipmentId, at: now });
+    }
+    // Settled on the spot: the hold is paused and forfeited the same day
+    for (const { shipmentId, vendorId, amount } of escrowForfeits(order, settlement)) {
+      useOrderStore.getState().recordEscrowReturn(shipmentId, vendorId, {
+        id: request.id, initiatedAt: now, resolvedAt: now, outcome: 'refunded', refundAmount: amount,
+      });
+    }
+
+    useAdminConfigStore.getState().addAuditEntry({
+      userId: 'admin-001', userName: 'كريم مطاط', userRole: 'admin_super',
+      action: 'create', entityType: 'Order', entityId: order.id,
+      description: `Return ${request.id} (${request.reason}): refunded ${toEgp(settlement.customerRefund)} EGP via ${request.refundMethod}, ` +
+        `costs borne by ${settlement.costBorneBy}`,
+      descriptionAr: `مرتجع ${request.id}: استرداد ${toEgp(settlement.customerRefund)} ج.م`,
+      newValues: JSON.stringify({ items: request.items, creditNotes: settlement.creditNotes.map(d => d.id) }),
+    });
+
+    set((state) => ({
+      requests: [...state.requests, request],
+      settlements: [...state.settlements, settlement],
+      walletCredits: request.refundMethod === 'wallet_credit'
+        ? { ...state.walletCredits, [order.customerId]: addMoney(state.walletCredits[order.customerId] ?? ZERO_MONEY, settlement.customerRefund) }
+        : state.walletCredits,
+    }));
+    return settlement;
+  },
+
+  getOrderReturns: (orderId) => get().settlements.filter(s => s.orderId === orderId),
+
+  getWalletCredit: (customerId) => get().walletCredits[customerId] ?? ZERO_MONEY,
+}));
@@ -0,0 +1,116 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Vendor SLA Store (Zustand)
+ * ============================================================
+ *
+ * Runs the SLA engine (lib/sla-engine.ts) over the open orders and
+ * carries out what it decides: expired orders are cancelled through
+ * the order state machine, strikes go to the vendor store. Also keeps
+ * the wasted trips couriers reported, which payout batches deduct.
+ *
+ * The clock is state so a demo or test can pin it (setClock); the demo
+ * starts pinned at mockSlaAsOf. Checks run when an admin asks for them
+ * and on a schedule the app starts once (startScheduledChecks) — never
+ * because a view rendered. In production, a backend job runs the same
+ * check every minute.
+ *
+ * A run works out every breach first, then applies them one by one: an
+ * order that refuses its cancellation is reported as failed and the
+ * rest still go through. Each run that did something is audited.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import { useAdminConfigStore } from './admin-config-store';
+import { useOrderStore } from './order-store';
+import { useVendorStore } from './vendor-store';
+import { mockSlaAsOf, mockWastedTrips } from '../lib/mock-data-extended';
+import type { EscrowClock } from '../lib/escrow-scheduler';
+import type { WastedTrip } from '../lib/payout-batches';
+import { type SlaAction, evaluateSla, recordWastedTrip } from '../lib/sla-engine';
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+export const SLA_CHECK_INTERVAL_MS = 60_000;
+
+export interface SlaRunResult {
+  applied: SlaAction[];
+  failed: { action: SlaAction; error: string }[];
+}
+
+interface SlaState {
+  clock: EscrowClock;
+  wastedTrips: WastedTrip[];
+  setClock: (clock: EscrowClock) => void;
+  /** Evaluates every order now and applies the result; returns what was done and what failed. */
+  runSlaChecks: () => SlaRunResult;
+  /** Runs the checks every `intervalMs`; returns the function that stops them. */
+  startScheduledChecks: (intervalMs?: number) => () => void;
+  /**
+   * The courier came for `shipmentId` and the vendor wasn't ready.
+   * Throws SlaError when the shipment can't have a wasted trip.
+   */
+  reportWastedTrip: (orderId: string, shipmentId: string) => void;
+}
+
+export const useSlaStore = create<SlaState>((set, get) => ({
+  clock: () => new Date(mockSlaAsOf),
+  wastedTrips: mockWastedTrips,
+
+  setClock: (clock) => set({ clock }),
+
+  runSlaChecks: () => {
+    const at = get().clock().toISOString();
+    const { actions } = evaluateSla(useOrderStore.getState().orders, {
+      config: useAdminConfigStore.getState().getVendorSlaConfig(),
+      clock: get().clock,
+      strikes: useVendorStore.getState().strikes,
+    });
+
+    const result: SlaRunResult = { applied: [], failed: [] };
+    for (const action of actions) {
+      try {
+        if (action.kind === 'cancel_order') {
+          useOrderStore.getState().transition(action.orderId, 'cancel', { actor: 'system', reason: action.reason, at });
+        } else {
+          useVendorStore.getState().addStrike(action.strike);
+        }
+        result.applied.push(action);
+      } catch (e) {
+        result.failed.push({ action, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    if (actions.length > 0) {
+      const cancelled = result.applied.filter(a => a.kind === 'cancel_order').length;
+      const subject = (a: SlaAction) => (a.kind === 'cancel_order' ? a.orderId : a.strike.orderId);
+      useAdminConfigStore.getState().addAuditEntry({
+        userId: 'system', userName: 'system', userRole: 'system',
+        action: 'status_change', entityType: 'Order', entityId: 'sla-check',
+        description: `SLA check at ${at}: ${cancelled} orders cancelled, ${result.applied.length - cancelled} strikes, ${result.failed.length} failed` +
+          result.failed.map(f => ` — ${subject(f.action)}: ${f.error}`).join(''),
+        descriptionAr: `فحص المهل: إلغاء ${cancelled} طلب، ${result.applied.length - cancelled} مخالفة، ${result.failed.length} تعذر تنفيذها`,
+        newValues: JSON.stringify({ applied: result.applied.map(subject), failed: result.failed.map(f => subject(f.action)) }),
+      });
+    }
+    return result;
+  },
+
+  startScheduledChecks: (intervalMs = SLA_CHECK_INTERVAL_MS) => {
+    const timer = setInterval(() => get().runSlaChecks(), intervalMs);
+    return () => clearInterval(timer);
+  },
+
+  reportWastedTrip: (orderId, shipmentId) => {
+    const order = useOrderStore.getState().getOrder(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    const { trip, strike } = recordWastedTrip(order, shipmentId, {
+      at: get().clock().toISOString(),
+      config: useAdminConfigStore.getState().getVendorSlaConfig(),
+    });
+    set((state) => ({ wastedTrips: [...state.wastedTrips, trip] }));
+    useVendorStore.getState().addStrike(strike);
+  },
+}));
@@ -0,0 +1,89 @@
+/**
+ * ============================================================
+ * AROOBA MARKETPLACE — Vendors Store (Zustand)
+ * ============================================================
+ *
+ * Holds the parent vendors and the reliability strikes issued against
+ * them (lib/sla-engine.ts). Every strike, and every account sent into
+ * review, is written to the audit trail.
+ *
+ * In production, this store syncs with the backend Vendors and
+ * ReliabilityStrikes tables.
+ * ============================================================
+ */
+
+import { create } from 'zustand';
+import type { ParentVendor } from '../app/shared/types';
+import { useAdminConfigStore } from './admin-config-store';
+import { useAppStore } from './app-store';
+import { mockVendors } from '../lib/mock-data-extended';
+import { type ReliabilityStrike, STRIKE_REASON_LABELS, applyStrike } from '../lib/sla-engine';
+
+// ──────────────────────────────────────────────
+// STORE DEFINITION
+// ──────────────────────────────────────────────
+
+const SYSTEM = { userId: 'system', userName: 'system', userRole: 'system' };
+
+interface VendorState {
+  vendors: ParentVendor[];
+  strikes: ReliabilityStrike[];
+  loadVendors: () => void;
+  getVendor: (vendorId: string) => ParentVendor | undefined;
+  getVendorStrikes: (vendorId: string) => ReliabilityStrike[];
+  /** Records the strike; a strike id already recorded is ignored. */
+  addStrike: (strike: ReliabilityStrike) => void;
+}
+
+export const useVendorStore = create<VendorState>((set, get) => ({
+  vendors: mockVendors,
+  strikes: [],
+
+  loadVendors: () => {
+    // In production: fetch from GET /api/vendors
+    set({ vendors: mockVendors, strikes: [] });
+  },
+
+  getVendor: (vendorId) => get().vendors.find(v => v.id === vendorId),
+
+  getVendorStrikes: (vendorId) => get().strikes.filter(s => s.vendorId === vendorId),
+
+  addStrike: (strike) => {
+    const vendor = get().getVendor(strike.vendorId);
+    if (!vendor || get().strikes.some(s => s.id === strike.id)) return;
+
+    const { maxReliabilityStrikes } = useAdminConfigStore.getState().getVendorSlaConfig();
+    const updated = applyStrike(vendor, strike, maxReliabilityStrikes);
+    set((state) => ({
+      vendors: state.vendors.map(v => (v.id === vendor.id ? updated : v)),
+      strikes: [...state.strikes, strike],
+    }));
+
+    const { addAuditEntry } = useAdminConfigStore.getState();
+    const label = STRIKE_REASON_LABELS[strike.reason];
+    addAuditEntry({
+      ...SYSTEM,
+      action: 'update', entityType: 'ParentVendor', entityId: vendor.id,
+      description: `Reliability strike ${updated.reliabilityStrikes}/${maxReliabilityStrikes} for ${vendor.businessName}: ${label.en} (${strike.shipmentId ?? strike.orderId})`,
+      descriptionAr: `إنذار موثوقية ${updated.reliabilityStrikes}/${maxReliabilityStrikes} لـ ${vendor.businessNameAr}: ${label.ar}`,
+      oldValues: JSON.stringify({ reliabilityStrikes: vendor.reliabilityStrikes }),
+      newValues: JSON.stringify({ reliabilityStrikes: updated.reliabilityStrikes, strikeId: strike.id }),
+    });
+
+    if (updated.status !== vendor.status) {
+      addAuditEntry({
+        ...SYSTEM,
+        action: 'status_change', entityType: 'ParentVendor', entityId: vendor.id,
+        description: `${vendor.businessName} sent to account review after ${updated.reliabilityStrikes} strikes`,
+        descriptionAr: `تحويل حساب ${vendor.businessNameAr} للمراجعة بعد ${updated.reliabilityStrikes} إنذارات`,
+        oldValues: JSON.stringify({ status: vendor.status }),
+        newValues: JSON.stringify({ status: updated.status }),
+      });
+      useAppStore.getState().addNotification({
+        type: 'warning',
+        title: 'حساب مورد قيد المراجعة',
+        message: `${vendor.businessNameAr} وصل للحد الأقصى من الإنذارات — تم إيقاف التحويلات لحين المراجعة`,
+      });
+    }
+  },
+}));